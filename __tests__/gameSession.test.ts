@@ -0,0 +1,49 @@
+import { GameSession, applyGameSessionAction, getMatchClock } from '../shared/types'
+
+const T0 = new Date('2024-01-01T12:00:00.000Z').getTime()
+const SECOND = 1000
+
+const lobby: GameSession = {
+  id: '88888888-8888-4888-8888-888888888888',
+  roomId: '11111111-1111-4111-8111-111111111111',
+  status: 'lobby',
+  countdownSeconds: 10,
+  elapsedMs: 0,
+  createdBy: 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa',
+  createdAt: '2024-01-01T11:50:00.000Z',
+  updatedAt: '2024-01-01T11:50:00.000Z',
+}
+
+const apply = (session: GameSession, action: Parameters<typeof applyGameSessionAction>[1], at: number): GameSession => {
+  const next = applyGameSessionAction(session, action, new Date(at))
+  if (!next) throw new Error(`${action} not allowed from ${session.status}`)
+  return { ...session, ...next }
+}
+
+describe('game sessions', () => {
+  it('should count down before the clock starts', () => {
+    const started = apply(lobby, 'start', T0)
+
+    expect(getMatchClock(started, T0 + 4 * SECOND)).toEqual({ phase: 'countdown', elapsedMs: 0, countdownMs: 6 * SECOND })
+    expect(getMatchClock(started, T0 + 70 * SECOND)).toEqual({ phase: 'running', elapsedMs: 60 * SECOND, countdownMs: 0 })
+  })
+
+  it('should stop the clock while paused and carry it over on resume', () => {
+    const paused = apply(apply(lobby, 'start', T0), 'pause', T0 + 70 * SECOND)
+    expect(getMatchClock(paused, T0 + 500 * SECOND)).toEqual({ phase: 'paused', elapsedMs: 60 * SECOND, countdownMs: 0 })
+
+    const resumed = apply(paused, 'resume', T0 + 500 * SECOND)
+    expect(getMatchClock(resumed, T0 + 530 * SECOND).elapsedMs).toBe(80 * SECOND)
+
+    const ended = apply(resumed, 'end', T0 + 530 * SECOND)
+    expect(getMatchClock(ended, T0 + 900 * SECOND)).toEqual({ phase: 'ended', elapsedMs: 80 * SECOND, countdownMs: 0 })
+    expect(ended.endedAt).toBe(new Date(T0 + 530 * SECOND).toISOString())
+  })
+
+  it('should reject actions that do not apply in the current state', () => {
+    expect(applyGameSessionAction(lobby, 'pause', new Date(T0))).toBeNull()
+    expect(applyGameSessionAction(lobby, 'resume', new Date(T0))).toBeNull()
+    expect(applyGameSessionAction(apply(lobby, 'start', T0), 'start', new Date(T0))).toBeNull()
+    expect(applyGameSessionAction(apply(lobby, 'end', T0), 'end', new Date(T0))).toBeNull()
+  })
+})
@@ -3,6 +3,8 @@
  */
 import { render, screen, fireEvent, waitFor } from '@testing-library/react'
 import { useGPS, useDeviceOrientation } from '../client/hooks/useGPS'
+import { useWebSocket } from '../client/hooks/useWebSocket'
+import { io } from 'socket.io-client'
 import { renderHook, act } from '@testing-library/react'
 
 // Mock the navigator.geolocation
@@ -272,3 +274,88 @@ describe('Error Handling', () => {
     expect(validateRoomCode('SHORT')).toBe(false)
   })
 })
+
+// Test the outbox replay of the WebSocket hook against a fake socket
+describe('useWebSocket outbox', () => {
+  const ROOM_ID = '11111111-1111-4111-8111-111111111111'
+
+  const createFakeSocket = () => {
+    const handlers: Record<string, (...args: any[]) => void> = {}
+    const sends: { event: string; payload: any; ack: (err: Error | null, response?: any) => void }[] = []
+    const socket = {
+      // Not connected yet when the hook mounts, like a real socket
+      connected: false,
+      on: jest.fn((event: string, handler: (...args: any[]) => void) => { handlers[event] = handler }),
+      off: jest.fn(),
+      emit: jest.fn(),
+      disconnect: jest.fn(),
+      timeout: jest.fn(() => ({
+        emit: (event: string, payload: any, ack: (err: Error | null, response?: any) => void) => {
+          sends.push({ event, payload, ack })
+        },
+      })),
+    }
+    ;(io as jest.Mock).mockReturnValueOnce(socket)
+    return { socket, handlers, sends }
+  }
+
+  const joinRoom = ({ socket, handlers }: ReturnType<typeof createFakeSocket>) => {
+    act(() => {
+      socket.connected = true
+      handlers.connect()
+      handlers.room_state({ members: [], medicRequests: [], symbols: [], objectives: [], scores: {}, serverTime: new Date().toISOString() })
+    })
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+    jest.restoreAllMocks()
+  })
+
+  it('should retry a failed send without waiting for another event', async () => {
+    const fake = createFakeSocket()
+    const { handlers, sends } = fake
+    const { result } = renderHook(() => useWebSocket({ roomId: ROOM_ID, userId: 'user-1', accessToken: 'token' }))
+    joinRoom(fake)
+
+    act(() => {
+      result.current.emitSymbolUpdate('symbol-1', { label: 'Bravo' })
+    })
+    await waitFor(() => expect(sends).toHaveLength(1))
+
+    // No acknowledgement before the timeout
+    act(() => sends[0].ack(new Error('operation has timed out')))
+    await waitFor(() => expect(sends).toHaveLength(2), { timeout: 10000 })
+    expect(sends[1].payload).toEqual(sends[0].payload)
+
+    act(() => sends[1].ack(null, { ok: true }))
+    await waitFor(() => expect(result.current.pendingCount).toBe(0))
+  })
+
+  it('should stop retrying once disconnected', async () => {
+    const fake = createFakeSocket()
+    const { socket, handlers, sends } = fake
+    const { result } = renderHook(() => useWebSocket({ roomId: ROOM_ID, userId: 'user-1', accessToken: 'token' }))
+    joinRoom(fake)
+
+    act(() => {
+      result.current.emitSymbolUpdate('symbol-1', { label: 'Bravo' })
+    })
+    await waitFor(() => expect(sends).toHaveLength(1))
+
+    act(() => sends[0].ack(null, { ok: false, error: 'Failed to update symbol', retryable: true }))
+    await waitFor(() => expect(result.current.pendingCount).toBe(1))
+    socket.connected = false
+    act(() => handlers.disconnect('transport close'))
+
+    await act(async () => {
+      jest.advanceTimersByTime(60000)
+    })
+    expect(sends).toHaveLength(1)
+  })
+})
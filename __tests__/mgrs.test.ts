@@ -0,0 +1,92 @@
+import {
+  getUtmZone,
+  latLonToMgrs,
+  latLonToUtm,
+  mgrsToLatLon,
+  parseMgrs,
+  utmToLatLon,
+} from '../client/lib/mgrs'
+
+describe('latLonToUtm', () => {
+  it.each([
+    [0, 0, 31, 'N', 166021.443, 0],
+    [1, 1, 31, 'N', 277438.264, 110597.973],
+    [-1, -1, 30, 'S', 722561.736, 9889402.027],
+    [-33.857, 151.215, 56, 'S', 334873.199, 6252266.092],
+    [60.39135, 5.3249, 32, 'N', 297508.410, 6700645.296],
+  ])('converts %f, %f to zone %i%s', (lat, lon, zone, hemisphere, easting, northing) => {
+    const utm = latLonToUtm(lat, lon)
+
+    expect(utm.zone).toBe(zone)
+    expect(utm.hemisphere).toBe(hemisphere)
+    expect(utm.easting).toBeCloseTo(easting, 2)
+    expect(utm.northing).toBeCloseTo(northing, 2)
+  })
+
+  it('rejects latitudes outside the UTM range', () => {
+    expect(() => latLonToUtm(85, 0)).toThrow('outside the UTM range')
+  })
+})
+
+describe('getUtmZone', () => {
+  it('applies the Norway and Svalbard exceptions', () => {
+    expect(getUtmZone(60, 4)).toBe(32)
+    expect(getUtmZone(78, 10)).toBe(33)
+    expect(getUtmZone(78, 8)).toBe(31)
+    expect(getUtmZone(50, 4)).toBe(31)
+  })
+})
+
+describe('utmToLatLon', () => {
+  it('round-trips UTM coordinates', () => {
+    const points = [[52.5163, 13.3777], [-33.857, 151.215], [64.1466, -21.9426], [-54.8019, -68.303]]
+
+    for (const [lat, lon] of points) {
+      const result = utmToLatLon(latLonToUtm(lat, lon))
+      expect(result.latitude).toBeCloseTo(lat, 7)
+      expect(result.longitude).toBeCloseTo(lon, 7)
+    }
+  })
+})
+
+describe('MGRS', () => {
+  it.each([
+    [0, 0, '31N AA 66021 00000'],
+    [1, 1, '31N BB 77438 10597'],
+    [-1, -1, '30M YD 22561 89402'],
+    [-33.857, 151.215, '56H LH 34873 52266'],
+    [60.39135, 5.3249, '32V KN 97508 00645'],
+  ])('formats %f, %f as %s', (lat, lon, reference) => {
+    expect(latLonToMgrs(lat, lon)).toBe(reference)
+  })
+
+  it('truncates to the requested precision', () => {
+    expect(latLonToMgrs(1, 1, 3)).toBe('31N BB 774 105')
+    expect(latLonToMgrs(1, 1, 0)).toBe('31N BB')
+  })
+
+  it('parses references with or without spaces', () => {
+    expect(parseMgrs('30myd2256189402')).toEqual({
+      zone: 30,
+      band: 'M',
+      hemisphere: 'S',
+      easting: 722561,
+      northing: 9889402,
+    })
+    expect(parseMgrs('31N BB 774 105')).toMatchObject({ easting: 277400, northing: 110500 })
+  })
+
+  it('resolves the 2000km row letter cycle from the latitude band', () => {
+    const reference = latLonToMgrs(52.5163, 13.3777)
+    const result = mgrsToLatLon(reference)
+
+    expect(result.latitude).toBeCloseTo(52.5163, 4)
+    expect(result.longitude).toBeCloseTo(13.3777, 4)
+  })
+
+  it('rejects malformed references', () => {
+    expect(() => parseMgrs('31N BB 7743')).not.toThrow()
+    expect(() => parseMgrs('31N BB 774')).toThrow('Invalid MGRS reference')
+    expect(() => parseMgrs('31I BB 77438 10597')).toThrow('Invalid MGRS reference')
+  })
+})
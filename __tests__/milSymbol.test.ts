@@ -0,0 +1,96 @@
+import { formatDtg, renderMilSymbol } from '../client/lib/milSymbol'
+import { getDefaultAffiliation } from '../shared/types'
+
+const base = { color: '#FF0000', size: 'medium' as const }
+
+describe('renderMilSymbol', () => {
+  it.each([
+    ['friend', 'M25,50 L175,50 L175,150 L25,150 Z', '#80E0FF'],
+    ['hostile', 'M100,28 L172,100 L100,172 L28,100 Z', '#FF8080'],
+    ['neutral', 'M45,45 L155,45 L155,155 L45,155 Z', '#AAFFAA'],
+    ['unknown', 'M63,63 C63,20', '#FFFF80'],
+  ] as const)('draws the %s frame', (affiliation, path, fill) => {
+    const { svg } = renderMilSymbol({ ...base, type: 'vehicle', affiliation })
+
+    expect(svg).toContain(path)
+    expect(svg).toContain(`fill="${fill}"`)
+    expect(svg).toContain('<ellipse')
+  })
+
+  it('should draw control measures unframed in the symbol colour', () => {
+    const { svg } = renderMilSymbol({ ...base, type: 'objective', affiliation: 'hostile' })
+
+    expect(svg).not.toContain('#FF8080')
+    expect(svg).toContain('stroke="#FF0000"')
+    expect(svg).toContain('>OBJ</text>')
+  })
+
+  it('should place modifier fields around the frame', () => {
+    const plain = renderMilSymbol({ ...base, type: 'friendly_unit', affiliation: 'friend' })
+    const modified = renderMilSymbol({
+      ...base,
+      type: 'friendly_unit',
+      affiliation: 'friend',
+      echelon: 'platoon',
+      quantity: 12,
+      uniqueDesignation: '2/A',
+      dtg: '191430ZOCT26',
+    })
+
+    // Three echelon dots
+    expect(modified.svg.match(/r="6"/g)).toHaveLength(3)
+    expect(modified.svg).toContain('>12</text>')
+    expect(modified.svg).toContain('>2/A</text>')
+    expect(modified.svg).toContain('>191430ZOCT26</text>')
+    // Text on both sides and marks above grow the icon while the frame centre stays anchored
+    expect(modified.width).toBeGreaterThan(plain.width)
+    expect(modified.height).toBeGreaterThan(plain.height)
+    expect(modified.anchor[1]).toBeGreaterThan(plain.anchor[1])
+  })
+
+  it('should escape free text fields', () => {
+    const { svg } = renderMilSymbol({ ...base, type: 'friendly_unit', affiliation: 'friend', uniqueDesignation: '<img onerror=x>' })
+
+    expect(svg).not.toContain('<img')
+    expect(svg).toContain('&lt;img onerror=x&gt;')
+  })
+
+  it('should dash planned symbols and strike through destroyed ones', () => {
+    const planned = renderMilSymbol({ ...base, type: 'vehicle', affiliation: 'hostile', status: 'planned' })
+    const destroyed = renderMilSymbol({ ...base, type: 'vehicle', affiliation: 'hostile', status: 'destroyed' })
+
+    expect(planned.svg).toContain('stroke-dasharray')
+    expect(destroyed.svg).not.toContain('stroke-dasharray')
+    expect(destroyed.svg).toContain('<line x1="28" y1="28" x2="172" y2="172"/>')
+  })
+
+  it('should flag unconfirmed symbols', () => {
+    const confirmed = renderMilSymbol({ ...base, type: 'bunker', affiliation: 'hostile', confidence: 'confirmed' })
+    const suspected = renderMilSymbol({ ...base, type: 'bunker', affiliation: 'hostile', confidence: 'suspected' })
+
+    expect(confirmed.svg).not.toContain('>?')
+    expect(suspected.svg).toContain('>??</text>')
+  })
+
+  it('should scale with the size field', () => {
+    const sizes = (['small', 'medium', 'large'] as const).map(size =>
+      renderMilSymbol({ ...base, size, type: 'friendly_unit', affiliation: 'friend' }).width
+    )
+
+    expect(sizes[0]).toBeLessThan(sizes[1])
+    expect(sizes[1]).toBeLessThan(sizes[2])
+  })
+})
+
+describe('symbol helpers', () => {
+  it('should default the affiliation of the legacy unit types', () => {
+    expect(getDefaultAffiliation('enemy_unit')).toBe('hostile')
+    expect(getDefaultAffiliation('neutral_unit')).toBe('neutral')
+    expect(getDefaultAffiliation('command_post')).toBe('friend')
+  })
+
+  it('should format a date-time group in UTC', () => {
+    expect(formatDtg(new Date('2026-10-19T14:30:00Z'))).toBe('191430ZOCT26')
+    expect(formatDtg(new Date('2027-01-05T03:07:00Z'))).toBe('050307ZJAN27')
+  })
+})
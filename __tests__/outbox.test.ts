@@ -0,0 +1,106 @@
+import { MemoryOutboxStore, Outbox, getOutboxRetryDelay } from '../client/lib/outbox'
+import { OUTBOX_SETTINGS } from '../shared/types'
+
+const ROOM_ID = '11111111-1111-4111-8111-111111111111'
+
+const position = (latitude: number) => ({
+  roomId: ROOM_ID,
+  coordinates: { latitude, longitude: 13.4, timestamp: new Date().toISOString() },
+  isVisible: true,
+})
+
+describe('Outbox', () => {
+  let outbox: Outbox
+
+  beforeEach(() => {
+    outbox = new Outbox(new MemoryOutboxStore())
+  })
+
+  it('replays queued events in order with their client event ids', async () => {
+    await outbox.enqueue(ROOM_ID, 'symbol_create', { id: 'symbol-1', type: 'waypoint' })
+    await outbox.enqueue(ROOM_ID, 'symbol_update', { id: 'symbol-1', label: 'Alpha' })
+    await outbox.enqueue(ROOM_ID, 'symbol_delete', { id: 'symbol-1' })
+
+    const sent: any[] = []
+    const remaining = await outbox.flush(ROOM_ID, async (entry) => {
+      sent.push(entry)
+      return 'acknowledged' as const
+    })
+
+    expect(remaining).toBe(0)
+    expect(sent.map(entry => entry.event)).toEqual(['symbol_create', 'symbol_update', 'symbol_delete'])
+    expect(sent.every(entry => entry.payload.clientEventId === entry.id)).toBe(true)
+    expect(await outbox.count(ROOM_ID)).toBe(0)
+  })
+
+  it('stops at the first unacknowledged event and keeps it for the next flush', async () => {
+    await outbox.enqueue(ROOM_ID, 'symbol_update', { id: 'symbol-1', label: 'Alpha' })
+    await outbox.enqueue(ROOM_ID, 'symbol_update', { id: 'symbol-1', label: 'Bravo' })
+
+    const send = jest.fn().mockResolvedValueOnce('failed')
+    expect(await outbox.flush(ROOM_ID, send)).toBe(2)
+    expect(send).toHaveBeenCalledTimes(1)
+
+    send.mockResolvedValue('acknowledged')
+    expect(await outbox.flush(ROOM_ID, send)).toBe(0)
+    expect(send.mock.calls.map(([entry]) => entry.payload.label)).toEqual(['Alpha', 'Alpha', 'Bravo'])
+  })
+
+  it('drops events that keep failing', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    await outbox.enqueue(ROOM_ID, 'symbol_delete', { id: 'symbol-1' })
+
+    for (let i = 0; i < OUTBOX_SETTINGS.maxAttempts; i++) {
+      await outbox.flush(ROOM_ID, async () => 'failed' as const)
+    }
+
+    expect(await outbox.count(ROOM_ID)).toBe(0)
+  })
+
+  it('drops refused events at once so later ones are not held up', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    await outbox.enqueue(ROOM_ID, 'symbol_delete', { id: 'symbol-1' })
+    await outbox.enqueue(ROOM_ID, 'position_update', position(52.5))
+
+    const send = jest.fn()
+      .mockResolvedValueOnce('rejected')
+      .mockResolvedValueOnce('acknowledged')
+    expect(await outbox.flush(ROOM_ID, send)).toBe(0)
+    expect(send.mock.calls.map(([entry]) => entry.event)).toEqual(['symbol_delete', 'position_update'])
+  })
+
+  it('does not count sends skipped while offline as attempts', async () => {
+    const store = new MemoryOutboxStore()
+    outbox = new Outbox(store)
+    await outbox.enqueue(ROOM_ID, 'symbol_delete', { id: 'symbol-1' })
+
+    for (let i = 0; i < OUTBOX_SETTINGS.maxAttempts; i++) {
+      expect(await outbox.flush(ROOM_ID, async () => 'offline' as const)).toBe(1)
+    }
+
+    const [entry] = await store.list(ROOM_ID)
+    expect(entry.attempts).toBe(0)
+  })
+
+  it('coalesces rapid position fixes into the latest one', async () => {
+    await outbox.enqueue(ROOM_ID, 'position_update', position(52.5))
+    await outbox.enqueue(ROOM_ID, 'position_update', position(52.6))
+
+    const sent: any[] = []
+    await outbox.flush(ROOM_ID, async (entry) => {
+      sent.push(entry)
+      return 'acknowledged' as const
+    })
+
+    expect(sent).toHaveLength(1)
+    expect(sent[0].payload.coordinates.latitude).toBe(52.6)
+  })
+})
+
+describe('getOutboxRetryDelay', () => {
+  it('doubles the delay between retries up to the cap', () => {
+    expect(getOutboxRetryDelay(1)).toBe(OUTBOX_SETTINGS.retryDelayMs)
+    expect(getOutboxRetryDelay(2)).toBe(OUTBOX_SETTINGS.retryDelayMs * 2)
+    expect(getOutboxRetryDelay(20)).toBe(OUTBOX_SETTINGS.maxRetryDelayMs)
+  })
+})
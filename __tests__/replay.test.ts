@@ -0,0 +1,75 @@
+import { buildReplayFrame, getReplayBounds } from '../client/lib/replay'
+import { SocketEvent } from '../shared/types'
+
+const ROOM_ID = '11111111-1111-4111-8111-111111111111'
+const USER_ID = 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa'
+
+const event = (type: SocketEvent['type'], timestamp: string, data: any): SocketEvent => ({
+  type,
+  roomId: ROOM_ID,
+  userId: USER_ID,
+  data,
+  timestamp,
+})
+
+const position = (latitude: number, timestamp: string) => ({
+  id: 'position-1',
+  userId: USER_ID,
+  roomId: ROOM_ID,
+  coordinates: { latitude, longitude: 13.4, timestamp },
+  isVisible: true,
+  lastUpdated: timestamp,
+})
+
+const symbol = (label: string) => ({
+  id: 'symbol-1',
+  roomId: ROOM_ID,
+  createdBy: USER_ID,
+  type: 'objective',
+  coordinates: { latitude: 52.5, longitude: 13.4 },
+  label,
+  color: '#FF0000',
+  size: 'medium',
+  rotation: 0,
+  isVisible: true,
+  createdAt: '2024-01-01T12:00:00.000Z',
+  updatedAt: '2024-01-01T12:00:00.000Z',
+})
+
+const events: SocketEvent[] = [
+  event('position_update', '2024-01-01T12:00:00.000Z', position(52.5, '2024-01-01T12:00:00.000Z')),
+  event('symbol_created', '2024-01-01T12:01:00.000Z', symbol('Alpha')),
+  event('position_update', '2024-01-01T12:02:00.000Z', position(52.6, '2024-01-01T12:02:00.000Z')),
+  event('symbol_updated', '2024-01-01T12:03:00.000Z', symbol('Bravo')),
+  event('symbol_deleted', '2024-01-01T12:04:00.000Z', { id: 'symbol-1' }),
+  event('member_left', '2024-01-01T12:05:00.000Z', { userId: USER_ID }),
+]
+
+describe('buildReplayFrame', () => {
+  it('should show the map as it was at the selected instant', () => {
+    const frame = buildReplayFrame(events, new Date('2024-01-01T12:02:30.000Z').getTime())
+
+    expect(frame.positions).toHaveLength(1)
+    expect(frame.positions[0].coordinates.latitude).toBe(52.6)
+    expect(frame.symbols.map(s => s.label)).toEqual(['Alpha'])
+  })
+
+  it('should apply symbol updates and deletions', () => {
+    expect(buildReplayFrame(events, new Date('2024-01-01T12:03:00.000Z').getTime()).symbols[0].label).toBe('Bravo')
+    expect(buildReplayFrame(events, new Date('2024-01-01T12:04:00.000Z').getTime()).symbols).toEqual([])
+  })
+
+  it('should drop players once they leave the room', () => {
+    expect(buildReplayFrame(events, new Date('2024-01-01T12:05:00.000Z').getTime()).positions).toEqual([])
+  })
+})
+
+describe('getReplayBounds', () => {
+  it('should span the first to the last event', () => {
+    expect(getReplayBounds(events)).toEqual({
+      start: new Date('2024-01-01T12:00:00.000Z').getTime(),
+      end: new Date('2024-01-01T12:05:00.000Z').getTime(),
+    })
+    expect(getReplayBounds([])).toEqual({ start: 0, end: 0 })
+  })
+})
@@ -0,0 +1,1296 @@
+/**
+ * @jest-environment node
+ */
+import { AddressInfo } from 'net';
+import type { Socket } from 'socket.io-client';
+import { createSocketServer } from '../server/socket-server';
+import { RoomMembership, SocketAuthVerifier, extractToken } from '../server/auth';
+import { InMemorySymbolRepository } from '../server/symbolRepository';
+import { InMemoryPositionHistoryRepository, shouldRecordSample } from '../server/positionHistoryRepository';
+import { InMemoryEventLogRepository } from '../server/eventLogRepository';
+import { InMemoryChatRepository } from '../server/chatRepository';
+import { InMemoryGameSessionRepository } from '../server/gameSessionRepository';
+import { InMemoryRoomRepository } from '../server/roomRepository';
+import { RateLimiter } from '../server/rateLimiter';
+import { ProcessedEventCache } from '../server/processedEvents';
+import { getBoundaryDistance, isPointInPolygon, nextGeofenceState } from '../server/geofence';
+import { advanceObjective, createObjectiveState, getPointsEarned, getTeamsPresent } from '../server/objectives';
+import { changePlayerStatus, expirePlayerStatus } from '../server/playerStatus';
+import { findNearestMedics } from '../server/medic';
+
+// Use the real client; jest.setup.js mocks socket.io-client for component tests
+const { io: connectClient } = jest.requireActual('socket.io-client');
+
+const ROOM_ID = '11111111-1111-4111-8111-111111111111';
+const OTHER_ROOM_ID = '22222222-2222-4222-8222-222222222222';
+const USER_ID = 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa';
+const RED_TEAM_ID = 'dddddddd-dddd-4ddd-8ddd-dddddddddddd';
+const BLUE_TEAM_ID = 'eeeeeeee-eeee-4eee-8eee-eeeeeeeeeeee';
+
+// Local stub standing in for Supabase Auth and room_members
+const members: Record<string, { userId: string; username: string; membership: RoomMembership }> = {
+  'valid-token': { userId: USER_ID, username: 'alpha', membership: { role: 'member' } },
+  'red-token': { userId: '33333333-3333-4333-8333-333333333333', username: 'red', membership: { role: 'member', teamId: RED_TEAM_ID } },
+  'red-2-token': { userId: '44444444-4444-4444-8444-444444444444', username: 'red-2', membership: { role: 'member', teamId: RED_TEAM_ID, isMedic: true } },
+  'blue-token': { userId: '55555555-5555-4555-8555-555555555555', username: 'blue', membership: { role: 'member', teamId: BLUE_TEAM_ID } },
+  'gm-token': { userId: '66666666-6666-4666-8666-666666666666', username: 'referee', membership: { role: 'game_master' } },
+  'admin-token': { userId: '77777777-7777-4777-8777-777777777777', username: 'organiser', membership: { role: 'admin' } },
+};
+
+const stubVerifier: SocketAuthVerifier = {
+  verifyToken: async (token) => members[token] ? { userId: members[token].userId, username: members[token].username } : null,
+  getMembership: async (roomId, userId) => {
+    const member = Object.values(members).find(m => m.userId === userId);
+    return roomId === ROOM_ID && member ? member.membership : null;
+  },
+};
+
+describe('extractToken', () => {
+  it('should read the token from the handshake auth payload', () => {
+    expect(extractToken({ auth: { token: 'abc' } })).toBe('abc');
+  });
+
+  it('should fall back to the Authorization header', () => {
+    expect(extractToken({ auth: {}, headers: { authorization: 'Bearer xyz' } })).toBe('xyz');
+    expect(extractToken({ auth: {}, headers: {} })).toBeNull();
+  });
+});
+
+describe('shouldRecordSample', () => {
+  const previous = {
+    userId: USER_ID,
+    roomId: ROOM_ID,
+    coordinates: { latitude: 52.52, longitude: 13.405, timestamp: '2024-01-01T12:00:00.000Z' },
+    recordedAt: '2024-01-01T12:00:00.000Z',
+  };
+
+  it('should always record the first fix', () => {
+    expect(shouldRecordSample(undefined, previous.coordinates)).toBe(true);
+  });
+
+  it('should skip fixes that are too soon or too close', () => {
+    expect(shouldRecordSample(previous, { latitude: 52.521, longitude: 13.405, timestamp: '2024-01-01T12:00:02.000Z' })).toBe(false);
+    expect(shouldRecordSample(previous, { latitude: 52.52001, longitude: 13.405, timestamp: '2024-01-01T12:00:30.000Z' })).toBe(false);
+  });
+
+  it('should record after moving or when the track goes stale', () => {
+    expect(shouldRecordSample(previous, { latitude: 52.521, longitude: 13.405, timestamp: '2024-01-01T12:00:06.000Z' })).toBe(true);
+    expect(shouldRecordSample(previous, { latitude: 52.52, longitude: 13.405, timestamp: '2024-01-01T12:01:00.000Z' })).toBe(true);
+  });
+});
+
+describe('RateLimiter', () => {
+  it('should reject hits beyond the limit until the window slides', () => {
+    const limiter = new RateLimiter(2, 1000);
+
+    expect(limiter.tryAcquire('user', 0)).toBe(true);
+    expect(limiter.tryAcquire('user', 100)).toBe(true);
+    expect(limiter.tryAcquire('user', 200)).toBe(false);
+    expect(limiter.tryAcquire('other', 200)).toBe(true);
+    expect(limiter.tryAcquire('user', 1050)).toBe(true);
+  });
+});
+
+describe('ProcessedEventCache', () => {
+  it('should remember event ids until they expire', () => {
+    const cache = new ProcessedEventCache(1000);
+    cache.add('user:a', 0);
+
+    expect(cache.has('user:a', 500)).toBe(true);
+    expect(cache.has('user:b', 500)).toBe(false);
+
+    cache.add('user:b', 1200);
+    expect(cache.has('user:a', 1200)).toBe(false);
+    expect(cache.has('user:b', 1200)).toBe(true);
+  });
+});
+
+describe('geofence math', () => {
+  // Roughly 1.1km square
+  const vertices = [
+    { latitude: 10, longitude: 10 },
+    { latitude: 10.01, longitude: 10 },
+    { latitude: 10.01, longitude: 10.01 },
+    { latitude: 10, longitude: 10.01 },
+  ];
+  const zone: any = {
+    coordinates: { latitude: 10.005, longitude: 10.005 },
+    geometry: { kind: 'polygon', vertices },
+  };
+
+  it('should tell points inside a polygon from points outside', () => {
+    expect(isPointInPolygon({ latitude: 10.005, longitude: 10.005 }, vertices)).toBe(true);
+    expect(isPointInPolygon({ latitude: 10.02, longitude: 10.005 }, vertices)).toBe(false);
+  });
+
+  it('should measure the distance to the boundary, negative inside', () => {
+    expect(getBoundaryDistance({ latitude: 10.005, longitude: 10.005 }, zone)).toBeCloseTo(-548, -1);
+    expect(getBoundaryDistance({ latitude: 10.011, longitude: 10.005 }, zone)).toBeCloseTo(111, -1);
+    expect(getBoundaryDistance({ latitude: 10.005, longitude: 10.005 }, { ...zone, geometry: { kind: 'circle', radiusMeters: 100 } })).toBeCloseTo(-100);
+    expect(getBoundaryDistance({ latitude: 10, longitude: 10 }, { ...zone, geometry: undefined })).toBeNull();
+  });
+
+  it('should only change state once past the hysteresis margin', () => {
+    expect(nextGeofenceState(undefined, -5, 10)).toBe(false);
+    expect(nextGeofenceState(false, -10, 10)).toBe(true);
+    expect(nextGeofenceState(true, 5, 10)).toBe(true);
+    expect(nextGeofenceState(true, 10, 10)).toBe(false);
+  });
+});
+
+describe('objective capture', () => {
+  const capture = { radiusMeters: 25, holdSeconds: 30, pointsPerMinute: 10 };
+  const objective: any = { coordinates: { latitude: 10, longitude: 10 }, capture };
+  const at = (latitude: number, lastUpdated: string) => ({
+    coordinates: { latitude, longitude: 10, timestamp: lastUpdated },
+    lastUpdated,
+  } as any);
+
+  it('should count teams with a recent fix inside the radius', () => {
+    const now = new Date('2024-01-01T12:00:00.000Z').getTime();
+    const recent = '2024-01-01T11:59:50.000Z';
+
+    expect(getTeamsPresent(objective, [
+      { teamId: BLUE_TEAM_ID, position: at(10.0001, recent) },
+      { teamId: RED_TEAM_ID, position: at(10.0001, recent) },
+      { teamId: RED_TEAM_ID, position: at(10.0001, recent) },
+    ], now)).toEqual([RED_TEAM_ID, BLUE_TEAM_ID].sort());
+    expect(getTeamsPresent(objective, [{ teamId: RED_TEAM_ID, position: at(10.001, recent) }], now)).toEqual([]);
+    expect(getTeamsPresent(objective, [{ teamId: RED_TEAM_ID, position: at(10, '2024-01-01T11:59:00.000Z') }], now)).toEqual([]);
+    expect(getTeamsPresent(objective, [{ position: at(10, recent) }], now)).toEqual([]);
+  });
+
+  it('should capture after holding the radius uncontested', () => {
+    let state = advanceObjective(createObjectiveState('obj'), [RED_TEAM_ID], 20000, capture);
+    expect(state).toMatchObject({ capturingTeamId: RED_TEAM_ID, captureProgressMs: 20000 });
+
+    state = advanceObjective(state, [RED_TEAM_ID], 10000, capture);
+    expect(state).toMatchObject({ ownerTeamId: RED_TEAM_ID, captureProgressMs: 0 });
+    expect(state.capturingTeamId).toBeUndefined();
+    expect(getPointsEarned(state, 60000, capture)).toBe(10);
+  });
+
+  it('should freeze progress and scoring while contested and reset it when the team leaves', () => {
+    const held = { ...createObjectiveState('obj'), ownerTeamId: BLUE_TEAM_ID };
+    let state = advanceObjective(held, [RED_TEAM_ID], 20000, capture);
+
+    state = advanceObjective(state, [BLUE_TEAM_ID, RED_TEAM_ID], 5000, capture);
+    expect(state).toMatchObject({ contested: true, captureProgressMs: 20000, ownerTeamId: BLUE_TEAM_ID });
+    expect(getPointsEarned(state, 60000, capture)).toBe(0);
+
+    state = advanceObjective(state, [], 1000, capture);
+    expect(state).toMatchObject({ contested: false, captureProgressMs: 0, ownerTeamId: BLUE_TEAM_ID });
+  });
+});
+
+describe('player status', () => {
+  const rules = { bleedOutSeconds: 120, respawnSeconds: 60 };
+  const T0 = new Date('2024-01-01T12:00:00.000Z');
+  const after = (seconds: number) => new Date(T0.getTime() + seconds * 1000);
+  const alive = { status: 'alive' as const, changedAt: T0.toISOString() };
+
+  it('should bleed out into respawning and come back alive', () => {
+    const hit = changePlayerStatus(alive, 'hit', rules, T0)!;
+    expect(hit).toEqual({ status: 'hit', changedAt: T0.toISOString(), expiresAt: after(120).toISOString() });
+    expect(expirePlayerStatus(hit, rules, after(119))).toBeNull();
+
+    const respawning = expirePlayerStatus(hit, rules, after(120))!;
+    expect(respawning).toMatchObject({ status: 'respawning', expiresAt: after(180).toISOString() });
+    expect(expirePlayerStatus(respawning, rules, after(180))).toMatchObject({ status: 'alive' });
+  });
+
+  it('should keep the bleed-out clock running while a medic is called', () => {
+    const hit = changePlayerStatus(alive, 'hit', rules, T0)!;
+    const calling = changePlayerStatus(hit, 'medic_needed', rules, after(30))!;
+
+    expect(calling).toMatchObject({ status: 'medic_needed', expiresAt: hit.expiresAt });
+  });
+
+  it('should only let referees revive players or skip the respawn', () => {
+    const hit = changePlayerStatus(alive, 'hit', rules, T0)!;
+    const respawning = changePlayerStatus(hit, 'respawning', rules, after(10))!;
+
+    expect(changePlayerStatus(hit, 'alive', rules, after(10))).toBeNull();
+    expect(changePlayerStatus(respawning, 'alive', rules, after(20))).toBeNull();
+    expect(changePlayerStatus(alive, 'alive', rules, T0, true)).toBeNull();
+    expect(changePlayerStatus(hit, 'alive', rules, after(10), true)).toEqual({ status: 'alive', changedAt: after(10).toISOString() });
+  });
+});
+
+describe('medic routing', () => {
+  const at = (userId: string, latitude: number) => ({
+    id: userId,
+    userId,
+    roomId: ROOM_ID,
+    coordinates: { latitude, longitude: 30, timestamp: '2024-01-01T12:00:00.000Z' },
+    isVisible: true,
+    lastUpdated: '2024-01-01T12:00:00.000Z',
+  });
+
+  it('should call the closest medics first, with the bearing towards the casualty', () => {
+    const casualty = at('casualty', 50);
+    const routes = findNearestMedics(casualty, [
+      { userId: 'far', position: at('far', 50.01) },
+      { userId: 'no-fix' },
+      { userId: 'near', position: at('near', 49.999) },
+    ], 2);
+
+    expect(routes.map(route => route.userId)).toEqual(['near', 'far']);
+    expect(routes[0].distanceMeters).toBeCloseTo(111, 0);
+    expect(routes[0].bearing).toBeCloseTo(0, 5);
+    expect(routes[1].bearing).toBeCloseTo(180, 5);
+  });
+
+  it('should still call medics when nobody has a fix', () => {
+    expect(findNearestMedics(undefined, [{ userId: 'medic', position: at('medic', 50) }], 3)).toEqual([{ userId: 'medic' }]);
+  });
+});
+
+describe('Socket server', () => {
+  let server: ReturnType<typeof createSocketServer>;
+  const eventLog = new InMemoryEventLogRepository();
+  const chat = new InMemoryChatRepository();
+  const gameSessions = new InMemoryGameSessionRepository();
+  const rooms = new InMemoryRoomRepository();
+  rooms.teamIds.set(ROOM_ID, [RED_TEAM_ID, BLUE_TEAM_ID]);
+  let url: string;
+  const clients: Socket[] = [];
+
+  const connect = (token?: string): Socket => {
+    const client = connectClient(url, {
+      transports: ['websocket'],
+      auth: token ? { token } : {},
+      reconnection: false,
+    });
+    clients.push(client);
+    return client;
+  };
+
+  const nextEvent = <T = any>(client: Socket, event: string) =>
+    new Promise<T>((resolve) => client.once(event, resolve));
+
+  const joinRoom = async (client: Socket) => {
+    await nextEvent(client, 'connect');
+    const state = nextEvent(client, 'room_state');
+    client.emit('join_room', { roomId: ROOM_ID });
+    return state;
+  };
+
+  beforeAll((done) => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    server = createSocketServer({
+      verifier: stubVerifier,
+      symbols: new InMemorySymbolRepository(),
+      positionHistory: new InMemoryPositionHistoryRepository(),
+      events: eventLog,
+      chat,
+      sessions: gameSessions,
+      rooms,
+    });
+    server.httpServer.listen(0, () => {
+      url = `http://localhost:${(server.httpServer.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterEach(() => {
+    clients.splice(0).forEach(client => client.disconnect());
+  });
+
+  afterAll((done) => {
+    server.io.close();
+    server.httpServer.close(() => done());
+  });
+
+  describe('authentication', () => {
+    it('should reject handshakes without a token', async () => {
+      const error = await nextEvent(connect(), 'connect_error');
+      expect(error.data).toEqual({ code: 'UNAUTHENTICATED', message: expect.any(String) });
+    });
+
+    it('should reject handshakes with an invalid token', async () => {
+      const error = await nextEvent(connect('forged'), 'connect_error');
+      expect(error.data.code).toBe('UNAUTHENTICATED');
+    });
+
+    it('should reject joining a room the user is not a member of', async () => {
+      const client = connect('valid-token');
+      await nextEvent(client, 'connect');
+
+      client.emit('join_room', { roomId: OTHER_ROOM_ID });
+      const error = await nextEvent(client, 'join_room_error');
+      expect(error.code).toBe('NOT_MEMBER');
+    });
+
+    it('should reject malformed room ids', async () => {
+      const client = connect('valid-token');
+      await nextEvent(client, 'connect');
+
+      client.emit('join_room', { roomId: 'not-a-uuid' });
+      const error = await nextEvent(client, 'join_room_error');
+      expect(error.code).toBe('INVALID_ROOM');
+    });
+
+    it('should derive the user id from the token rather than the payload', async () => {
+      const client = connect('valid-token');
+      await nextEvent(client, 'connect');
+
+      client.emit('join_room', { roomId: ROOM_ID, userId: 'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb' });
+      const result = await nextEvent(client, 'join_room_success');
+      expect(result).toEqual({ roomId: ROOM_ID, userId: USER_ID });
+    });
+  });
+
+  describe('symbols', () => {
+    it('should assign uuid ids and persist symbols after the room empties', async () => {
+      const author = connect('valid-token');
+      await joinRoom(author);
+
+      const created = nextEvent(author, 'symbol_created');
+      author.emit('symbol_create', {
+        roomId: ROOM_ID,
+        createdBy: USER_ID,
+        type: 'objective',
+        coordinates: { latitude: 51.5, longitude: -0.09 },
+        color: '#00FFFF',
+        size: 'medium',
+        rotation: 0,
+        isVisible: true,
+      });
+      const symbol = await created;
+      expect(symbol.id).toMatch(/^[0-9a-f-]{36}$/);
+
+      author.disconnect();
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(server.activeRooms.has(ROOM_ID)).toBe(false);
+
+      const state = await joinRoom(connect('valid-token'));
+      expect(state.symbols).toEqual([symbol]);
+    });
+
+    it('should store and reshape line and area geometry', async () => {
+      const client = connect('valid-token');
+      await joinRoom(client);
+
+      const vertices = [
+        { latitude: 51.5, longitude: -0.1 },
+        { latitude: 51.51, longitude: -0.1 },
+        { latitude: 51.51, longitude: -0.08 },
+      ];
+      const created = nextEvent(client, 'symbol_created');
+      client.emit('symbol_create', {
+        roomId: ROOM_ID,
+        type: 'danger_area',
+        coordinates: { latitude: 51.505, longitude: -0.093 },
+        geometry: { kind: 'polygon', vertices },
+      });
+      const symbol = await created;
+      expect(symbol.geometry).toEqual({ kind: 'polygon', vertices });
+
+      const updated = nextEvent(client, 'symbol_updated');
+      client.emit('symbol_update', { id: symbol.id, geometry: { kind: 'circle', radiusMeters: 150 } });
+      expect((await updated).geometry).toEqual({ kind: 'circle', radiusMeters: 150 });
+
+      const rejected = nextEvent(client, 'validation_error');
+      client.emit('symbol_update', { id: symbol.id, geometry: { kind: 'polygon', vertices: vertices.slice(0, 2) } });
+      expect((await rejected).event).toBe('symbol_update');
+    });
+
+    it('should sync route assignments', async () => {
+      const client = connect('valid-token');
+      await joinRoom(client);
+
+      const created = nextEvent(client, 'symbol_created');
+      client.emit('symbol_create', {
+        roomId: ROOM_ID,
+        type: 'waypoint',
+        coordinates: { latitude: 51.505, longitude: -0.09 },
+        geometry: { kind: 'polyline', vertices: [{ latitude: 51.5, longitude: -0.09 }, { latitude: 51.51, longitude: -0.09 }] },
+        assignedTo: [USER_ID],
+      });
+      const route = await created;
+      expect(route.assignedTo).toEqual([USER_ID]);
+
+      const updated = nextEvent(client, 'symbol_updated');
+      client.emit('symbol_update', { id: route.id, assignedTo: [] });
+      expect((await updated).assignedTo).toEqual([]);
+    });
+
+    it('should default the affiliation from legacy unit types', async () => {
+      const client = connect('valid-token');
+      await joinRoom(client);
+
+      const created = nextEvent(client, 'symbol_created');
+      client.emit('symbol_create', {
+        roomId: ROOM_ID,
+        type: 'enemy_unit',
+        coordinates: { latitude: 51.5, longitude: -0.09 },
+      });
+      expect(await created).toMatchObject({ affiliation: 'hostile', status: 'present', confidence: 'confirmed' });
+
+      const bunker = nextEvent(client, 'symbol_created');
+      client.emit('symbol_create', {
+        roomId: ROOM_ID,
+        type: 'bunker',
+        affiliation: 'hostile',
+        status: 'destroyed',
+        coordinates: { latitude: 51.5, longitude: -0.09 },
+      });
+      expect(await bunker).toMatchObject({ affiliation: 'hostile', status: 'destroyed' });
+    });
+
+    it('should archive spot reports once they expire', async () => {
+      const client = connect('valid-token');
+      await joinRoom(client);
+
+      const observedAt = new Date(Date.now() - 60000).toISOString();
+      const created = nextEvent(client, 'symbol_created');
+      client.emit('symbol_create', {
+        roomId: ROOM_ID,
+        type: 'enemy_unit',
+        coordinates: { latitude: 51.5, longitude: -0.09 },
+        spotReport: { size: '4 players', activity: 'Digging in', observedAt },
+        expiresAt: new Date(Date.now() + 60000).toISOString(),
+      });
+      const report = await created;
+      expect(report.spotReport).toEqual({ size: '4 players', activity: 'Digging in', observedAt });
+
+      // Nothing has expired yet
+      await server.sweepExpiredSymbols();
+      const gm = connect('gm-token');
+      expect((await joinRoom(gm)).symbols.map((s: any) => s.id)).toContain(report.id);
+
+      const archived = nextEvent(client, 'symbol_archived');
+      await server.sweepExpiredSymbols(new Date(Date.now() + 120000));
+      expect(await archived).toEqual({ id: report.id });
+
+      const rejoined = connect('gm-token');
+      expect((await joinRoom(rejoined)).symbols.map((s: any) => s.id)).not.toContain(report.id);
+      expect(eventLog.events).toContainEqual(expect.objectContaining({ type: 'symbol_archived', data: { id: report.id } }));
+    });
+
+    it('should restore a deleted symbol under the same id', async () => {
+      const client = connect('valid-token');
+      await joinRoom(client);
+
+      const created = nextEvent(client, 'symbol_created');
+      client.emit('symbol_create', {
+        roomId: ROOM_ID,
+        type: 'rally_point',
+        label: 'RV',
+        coordinates: { latitude: 51.5, longitude: -0.09 },
+      });
+      const symbol = await created;
+
+      const deleted = nextEvent(client, 'symbol_deleted');
+      client.emit('symbol_delete', { id: symbol.id });
+      await deleted;
+
+      // Deleted symbols cannot be edited until restored
+      const rejected = nextEvent(client, 'error');
+      client.emit('symbol_update', { id: symbol.id, label: 'Moved' });
+      expect((await rejected).message).toBe('Symbol not found');
+
+      const restored = nextEvent(client, 'symbol_restored');
+      client.emit('symbol_restore', { id: symbol.id });
+      expect(await restored).toMatchObject({ id: symbol.id, label: 'RV' });
+      expect((await restored).deletedAt).toBeUndefined();
+
+      const rejoined = connect('valid-token');
+      expect((await joinRoom(rejoined)).symbols.map((s: any) => s.id)).toContain(symbol.id);
+    });
+
+    it('should clear fields updated to null', async () => {
+      const client = connect('valid-token');
+      await joinRoom(client);
+
+      const created = nextEvent(client, 'symbol_created');
+      client.emit('symbol_create', {
+        roomId: ROOM_ID,
+        type: 'rally_point',
+        label: 'RV',
+        coordinates: { latitude: 51.5, longitude: -0.09 },
+      });
+      const symbol = await created;
+
+      const updated = nextEvent(client, 'symbol_updated');
+      client.emit('symbol_update', { id: symbol.id, label: null, dtg: null });
+      const cleared = await updated;
+      expect(cleared.label).toBeUndefined();
+      expect(cleared.version).toBe(2);
+    });
+
+    it('should reply with a validation_error for malformed payloads', async () => {
+      const client = connect('valid-token');
+      await joinRoom(client);
+
+      const rejected = nextEvent(client, 'validation_error');
+      client.emit('symbol_create', { roomId: ROOM_ID, type: 'not_a_type', coordinates: { latitude: 200 } });
+      const error = await rejected;
+
+      expect(error.event).toBe('symbol_create');
+      expect(error.details.map((issue: any) => issue.path[0])).toEqual(
+        expect.arrayContaining(['type', 'coordinates'])
+      );
+    });
+
+    it('should not let symbol_update overwrite ownership fields', async () => {
+      const client = connect('valid-token');
+      await joinRoom(client);
+
+      const created = nextEvent(client, 'symbol_created');
+      client.emit('symbol_create', {
+        roomId: ROOM_ID,
+        type: 'waypoint',
+        coordinates: { latitude: 51.5, longitude: -0.09 },
+      });
+      const symbol = await created;
+
+      const updated = nextEvent(client, 'symbol_updated');
+      client.emit('symbol_update', {
+        id: symbol.id,
+        label: 'Alpha',
+        createdBy: 'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb',
+        roomId: OTHER_ROOM_ID,
+        createdAt: '2000-01-01T00:00:00.000Z',
+      });
+      const result = await updated;
+
+      expect(result).toMatchObject({
+        label: 'Alpha',
+        createdBy: USER_ID,
+        roomId: ROOM_ID,
+        createdAt: symbol.createdAt,
+      });
+    });
+
+    it('should reject edits made against an outdated version', async () => {
+      const first = connect('valid-token');
+      await joinRoom(first);
+
+      const created = nextEvent(first, 'symbol_created');
+      first.emit('symbol_create', {
+        roomId: ROOM_ID,
+        type: 'objective',
+        coordinates: { latitude: 51.5, longitude: -0.09 },
+      });
+      const symbol = await created;
+      expect(symbol.version).toBe(1);
+
+      const updated = nextEvent(first, 'symbol_updated');
+      first.emit('symbol_update', { id: symbol.id, version: 1, coordinates: { latitude: 51.6, longitude: -0.09 } });
+      expect(await updated).toMatchObject({ version: 2, coordinates: { latitude: 51.6 } });
+
+      // A second drag based on version 1 must not move the symbol back
+      const conflict = nextEvent(first, 'symbol_conflict');
+      first.emit('symbol_update', { id: symbol.id, version: 1, coordinates: { latitude: 51.4, longitude: -0.09 } });
+      const result = await conflict;
+
+      expect(result.attemptedVersion).toBe(1);
+      expect(result.symbol).toMatchObject({ id: symbol.id, version: 2, coordinates: { latitude: 51.6 } });
+    });
+
+    it('should record broadcast symbol events for replays', async () => {
+      const client = connect('valid-token');
+      await joinRoom(client);
+
+      const created = nextEvent(client, 'symbol_created');
+      client.emit('symbol_create', {
+        roomId: ROOM_ID,
+        type: 'rally_point',
+        coordinates: { latitude: 51.5, longitude: -0.09 },
+      });
+      const symbol = await created;
+
+      expect(eventLog.events).toContainEqual(expect.objectContaining({
+        type: 'symbol_created',
+        roomId: ROOM_ID,
+        userId: USER_ID,
+        data: symbol,
+      }));
+    });
+
+    it('should only log the position fixes kept for the track', async () => {
+      const client = connect('valid-token');
+      await joinRoom(client);
+      const start = eventLog.events.length;
+
+      for (const latitude of [51.5, 51.5001]) {
+        await new Promise(resolve => client.emit('position_update', {
+          roomId: ROOM_ID,
+          coordinates: { latitude, longitude: -0.09, timestamp: new Date().toISOString() },
+          isVisible: true,
+        }, resolve));
+      }
+
+      const logged = eventLog.events.slice(start).filter(event => event.type === 'position_update');
+      expect(logged).toHaveLength(1);
+      expect(logged[0].data.coordinates.latitude).toBe(51.5);
+    });
+  });
+
+  describe('teams', () => {
+    const sendPosition = (client: Socket) => client.emit('position_update', {
+      roomId: ROOM_ID,
+      coordinates: { latitude: 51.5, longitude: -0.09, timestamp: new Date().toISOString() },
+      isVisible: true,
+    });
+
+    it('should only deliver positions to teammates and game masters', async () => {
+      const red = connect('red-token');
+      const redMate = connect('red-2-token');
+      const blue = connect('blue-token');
+      const gm = connect('gm-token');
+      await Promise.all([red, redMate, blue, gm].map(joinRoom));
+
+      const blueReceived = jest.fn();
+      blue.on('position_update', blueReceived);
+
+      const toTeammate = nextEvent(redMate, 'position_update');
+      const toGameMaster = nextEvent(gm, 'position_update');
+      sendPosition(red);
+
+      expect((await toTeammate).userId).toBe(members['red-token'].userId);
+      expect((await toGameMaster).userId).toBe(members['red-token'].userId);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(blueReceived).not.toHaveBeenCalled();
+    });
+
+    it('should hide team-private symbols from other teams', async () => {
+      const red = connect('red-token');
+      await joinRoom(red);
+
+      const created = nextEvent(red, 'symbol_created');
+      red.emit('symbol_create', {
+        roomId: ROOM_ID,
+        type: 'rally_point',
+        coordinates: { latitude: 51.5, longitude: -0.09 },
+        teamId: RED_TEAM_ID,
+      });
+      const symbol = await created;
+
+      const blueState = await joinRoom(connect('blue-token'));
+      const gmState = await joinRoom(connect('gm-token'));
+      expect(blueState.symbols.map((s: any) => s.id)).not.toContain(symbol.id);
+      expect(gmState.symbols.map((s: any) => s.id)).toContain(symbol.id);
+    });
+
+    it('should keep team chat within the team', async () => {
+      const red = connect('red-token');
+      const redMate = connect('red-2-token');
+      const blue = connect('blue-token');
+      await Promise.all([red, redMate, blue].map(joinRoom));
+
+      const blueReceived = jest.fn();
+      blue.on('chat_message', blueReceived);
+
+      const toTeammate = nextEvent(redMate, 'chat_message');
+      red.emit('chat_message', { roomId: ROOM_ID, channel: 'team', body: 'Moving' });
+
+      expect(await toTeammate).toMatchObject({ body: 'Moving', teamId: RED_TEAM_ID, username: 'red' });
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(blueReceived).not.toHaveBeenCalled();
+    });
+
+    it('should not let members share symbols with another team', async () => {
+      const blue = connect('blue-token');
+      await joinRoom(blue);
+
+      const rejected = nextEvent(blue, 'error');
+      blue.emit('symbol_create', {
+        roomId: ROOM_ID,
+        type: 'waypoint',
+        coordinates: { latitude: 51.5, longitude: -0.09 },
+        teamId: RED_TEAM_ID,
+      });
+
+      expect((await rejected).message).toMatch(/own team/);
+    });
+  });
+
+  describe('geofences', () => {
+    const sendPosition = (client: Socket, latitude: number, longitude: number) => client.emit('position_update', {
+      roomId: ROOM_ID,
+      coordinates: { latitude, longitude, timestamp: new Date().toISOString() },
+      isVisible: true,
+    });
+
+    it('should alert the player and admins when a member crosses a geofence', async () => {
+      const gm = connect('gm-token');
+      const red = connect('red-token');
+      await Promise.all([gm, red].map(joinRoom));
+
+      const created = nextEvent(gm, 'symbol_created');
+      gm.emit('symbol_create', {
+        roomId: ROOM_ID,
+        type: 'danger_area',
+        label: 'Road',
+        coordinates: { latitude: 20.005, longitude: 20.005 },
+        geometry: {
+          kind: 'polygon',
+          vertices: [
+            { latitude: 20, longitude: 20 },
+            { latitude: 20.01, longitude: 20 },
+            { latitude: 20.01, longitude: 20.01 },
+            { latitude: 20, longitude: 20.01 },
+          ],
+        },
+        geofence: 'out_of_bounds',
+      });
+      const zone = await created;
+
+      const entered = nextEvent(red, 'geofence_enter');
+      const gmAlerted = nextEvent(gm, 'geofence_enter');
+      sendPosition(red, 20.005, 20.005);
+      expect(await entered).toMatchObject({ geofenceId: zone.id, kind: 'out_of_bounds', label: 'Road', userId: members['red-token'].userId });
+      expect((await gmAlerted).username).toBe('red');
+
+      // Just outside the edge is within the hysteresis margin, so the player still counts as inside
+      const exitReceived = jest.fn();
+      red.on('geofence_exit', exitReceived);
+      sendPosition(red, 20.01003, 20.005);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(exitReceived).not.toHaveBeenCalled();
+
+      const exited = nextEvent(red, 'geofence_exit');
+      sendPosition(red, 20.02, 20.005);
+      expect((await exited).geofenceId).toBe(zone.id);
+    });
+
+    it('should only let admins create geofences', async () => {
+      const blue = connect('blue-token');
+      await joinRoom(blue);
+
+      const rejected = nextEvent(blue, 'error');
+      blue.emit('symbol_create', {
+        roomId: ROOM_ID,
+        type: 'danger_area',
+        coordinates: { latitude: 20.005, longitude: 20.005 },
+        geometry: { kind: 'circle', radiusMeters: 100 },
+        geofence: 'safe_zone',
+      });
+
+      expect((await rejected).message).toMatch(/geofence/i);
+    });
+  });
+
+  describe('game sessions', () => {
+    const SESSION_ID = '88888888-8888-4888-8888-888888888888';
+
+    it('should broadcast session changes with the server time and tag records made during the match', async () => {
+      const admin = connect('admin-token');
+      const red = connect('red-token');
+      await Promise.all([admin, red].map(joinRoom));
+
+      const now = new Date().toISOString();
+      gameSessions.save({
+        id: SESSION_ID,
+        roomId: ROOM_ID,
+        status: 'running',
+        countdownSeconds: 10,
+        elapsedMs: 0,
+        clockStartedAt: now,
+        startedAt: now,
+        createdBy: members['admin-token'].userId,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      const updated = nextEvent(red, 'session_updated');
+      admin.emit('session_update', { sessionId: SESSION_ID });
+      const update = await updated;
+      expect(update.session).toMatchObject({ id: SESSION_ID, status: 'running' });
+      expect(Date.parse(update.serverTime)).not.toBeNaN();
+
+      const received = nextEvent(red, 'chat_message');
+      red.emit('chat_message', { roomId: ROOM_ID, channel: 'all', body: 'Game on' });
+      await received;
+      expect(chat.messages[chat.messages.length - 1]).toMatchObject({ body: 'Game on', sessionId: SESSION_ID });
+
+      const lateState = await joinRoom(connect('gm-token'));
+      expect(lateState.session.id).toBe(SESSION_ID);
+    });
+
+    it('should only let owners and admins reload the session', async () => {
+      const red = connect('red-token');
+      await joinRoom(red);
+
+      const rejected = nextEvent(red, 'error');
+      red.emit('session_update', { sessionId: SESSION_ID });
+
+      expect((await rejected).message).toMatch(/owners and admins/);
+    });
+
+    it('should run session transitions on the server clock', async () => {
+      const MATCH_ID = '88888888-8888-4888-8888-000000000001';
+      const admin = connect('admin-token');
+      const red = connect('red-token');
+      await Promise.all([admin, red].map(joinRoom));
+
+      const now = new Date().toISOString();
+      gameSessions.save({
+        id: MATCH_ID,
+        roomId: ROOM_ID,
+        status: 'lobby',
+        countdownSeconds: 10,
+        elapsedMs: 0,
+        createdBy: members['admin-token'].userId,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      const denied = nextEvent(red, 'error');
+      red.emit('session_action', { roomId: ROOM_ID, sessionId: MATCH_ID, action: 'start' });
+      expect((await denied).message).toMatch(/owners and admins/);
+
+      const started = nextEvent(red, 'session_updated');
+      admin.emit('session_action', { roomId: ROOM_ID, sessionId: MATCH_ID, action: 'start' });
+      const { session, serverTime } = await started;
+      expect(session).toMatchObject({ id: MATCH_ID, status: 'running' });
+      expect(Date.parse(session.clockStartedAt) - Date.parse(serverTime)).toBeGreaterThan(9000);
+      expect((await gameSessions.findById(MATCH_ID))!.status).toBe('running');
+
+      const invalid = nextEvent(admin, 'error');
+      admin.emit('session_action', { roomId: ROOM_ID, sessionId: MATCH_ID, action: 'resume' });
+      expect((await invalid).message).toBe('Cannot resume a session that is running');
+
+      const ended = nextEvent(red, 'session_updated');
+      admin.emit('session_action', { roomId: ROOM_ID, sessionId: MATCH_ID, action: 'end' });
+      const { session: final } = await ended;
+      expect(final.status).toBe('ended');
+      expect(final).not.toHaveProperty('clockStartedAt');
+    });
+  });
+
+  describe('objectives', () => {
+    const OBJECTIVE_SESSION_ID = '99999999-9999-4999-8999-999999999999';
+
+    const sendPosition = (client: Socket, latitude: number, longitude: number) => new Promise(resolve => client.emit('position_update', {
+      roomId: ROOM_ID,
+      coordinates: { latitude, longitude, timestamp: new Date().toISOString() },
+      isVisible: true,
+    }, resolve));
+
+    const createObjective = async (client: Socket, latitude: number, capture?: object) => {
+      const created = nextEvent(client, 'symbol_created');
+      client.emit('symbol_create', { roomId: ROOM_ID, type: 'objective', coordinates: { latitude, longitude: 30 }, capture });
+      return created;
+    };
+
+    it('should capture a held objective and score it for the holding team', async () => {
+      const admin = connect('admin-token');
+      const red = connect('red-token');
+      await Promise.all([admin, red].map(joinRoom));
+
+      const started = new Date().toISOString();
+      gameSessions.save({
+        id: OBJECTIVE_SESSION_ID,
+        roomId: ROOM_ID,
+        status: 'running',
+        countdownSeconds: 0,
+        elapsedMs: 0,
+        clockStartedAt: started,
+        startedAt: started,
+        createdBy: members['admin-token'].userId,
+        createdAt: started,
+        updatedAt: started,
+      });
+      const updated = nextEvent(red, 'session_updated');
+      admin.emit('session_update', { sessionId: OBJECTIVE_SESSION_ID });
+      await updated;
+
+      const objective = await createObjective(admin, 30, { radiusMeters: 50, holdSeconds: 2, pointsPerMinute: 600 });
+      await sendPosition(red, 30.0001, 30);
+
+      const captured = new Promise<any>(resolve => red.on('objective_updated', (state) => {
+        if (state.ownerTeamId) resolve(state);
+      }));
+      const now = Date.now();
+      await server.tickObjectives(now);
+      await server.tickObjectives(now + 3000);
+      expect(await captured).toMatchObject({ symbolId: objective.id, ownerTeamId: RED_TEAM_ID, teamsPresent: [RED_TEAM_ID] });
+
+      // Five seconds held at 600 points a minute
+      const scored = nextEvent(admin, 'scoreboard_updated');
+      await server.tickObjectives(now + 8000);
+      expect(await scored).toEqual({ sessionId: OBJECTIVE_SESSION_ID, scores: { [RED_TEAM_ID]: 50 } });
+      expect(gameSessions.sessions.get(OBJECTIVE_SESSION_ID)?.scores).toEqual({ [RED_TEAM_ID]: 50 });
+
+      const lateState = await joinRoom(connect('gm-token'));
+      expect(lateState.scores).toEqual({ [RED_TEAM_ID]: 50 });
+      expect(lateState.objectives).toContainEqual(expect.objectContaining({ symbolId: objective.id, ownerTeamId: RED_TEAM_ID }));
+    });
+
+    it('should let referees award an objective and no one else', async () => {
+      const gm = connect('gm-token');
+      const blue = connect('blue-token');
+      await Promise.all([gm, blue].map(joinRoom));
+
+      const objective = await createObjective(gm, 31);
+
+      const rejected = nextEvent(blue, 'error');
+      blue.emit('objective_override', { roomId: ROOM_ID, symbolId: objective.id, ownerTeamId: BLUE_TEAM_ID });
+      expect((await rejected).message).toMatch(/referees/);
+
+      const unknownTeam = nextEvent(gm, 'error');
+      gm.emit('objective_override', { roomId: ROOM_ID, symbolId: objective.id, ownerTeamId: OTHER_ROOM_ID });
+      expect((await unknownTeam).message).toBe('Team not found');
+
+      const awarded = new Promise<any>(resolve => blue.on('objective_updated', (state) => {
+        if (state.symbolId === objective.id) resolve(state);
+      }));
+      gm.emit('objective_override', { roomId: ROOM_ID, symbolId: objective.id, ownerTeamId: BLUE_TEAM_ID });
+      expect(await awarded).toMatchObject({ symbolId: objective.id, ownerTeamId: BLUE_TEAM_ID, captureProgressMs: 0 });
+      expect(eventLog.events[eventLog.events.length - 1]).toMatchObject({ type: 'objective_updated', userId: members['gm-token'].userId });
+    });
+
+    it('should skip a tick while the previous one is still running', async () => {
+      const admin = connect('admin-token');
+      const red = connect('red-token');
+      await Promise.all([admin, red].map(joinRoom));
+
+      const objective = await createObjective(admin, 33, { radiusMeters: 50, holdSeconds: 2, pointsPerMinute: 600 });
+      await sendPosition(red, 33.0001, 30);
+
+      // The first tick reloads the objectives after the create, the second would finish the capture
+      const now = Date.now();
+      await Promise.all([server.tickObjectives(now), server.tickObjectives(now + 3000)]);
+      const state = await joinRoom(connect('gm-token'));
+      const pending = state.objectives.find((entry: any) => entry.symbolId === objective.id);
+      expect(pending).toMatchObject({ capturingTeamId: RED_TEAM_ID });
+      expect(pending.ownerTeamId).toBeUndefined();
+
+      const captured = new Promise<any>(resolve => red.on('objective_updated', (update) => {
+        if (update.symbolId === objective.id && update.ownerTeamId) resolve(update);
+      }));
+      await server.tickObjectives(now + 3000);
+      expect(await captured).toMatchObject({ ownerTeamId: RED_TEAM_ID });
+    });
+
+    it('should only let admins set capture rules', async () => {
+      const red = connect('red-token');
+      await joinRoom(red);
+
+      const rejected = nextEvent(red, 'error');
+      red.emit('symbol_create', { roomId: ROOM_ID, type: 'objective', coordinates: { latitude: 32, longitude: 30 }, capture: { radiusMeters: 500, holdSeconds: 0, pointsPerMinute: 1000 } });
+
+      expect((await rejected).message).toMatch(/capture rules/);
+    });
+  });
+
+  describe('player status', () => {
+    it('should broadcast hits to the team and run out the room timers', async () => {
+      rooms.respawnRules.set(ROOM_ID, { bleedOutSeconds: 30, respawnSeconds: 10 });
+      const red = connect('red-token');
+      const red2 = connect('red-2-token');
+      const blue = connect('blue-token');
+      await Promise.all([red, red2, blue].map(joinRoom));
+
+      const enemyReceived = jest.fn();
+      blue.on('player_status_changed', enemyReceived);
+
+      const hit = nextEvent(red2, 'player_status_changed');
+      red.emit('player_status', { roomId: ROOM_ID, status: 'hit' });
+      const update = await hit;
+      expect(update).toMatchObject({ userId: members['red-token'].userId, status: 'hit', changedBy: members['red-token'].userId });
+      expect(Date.parse(update.expiresAt) - Date.parse(update.changedAt)).toBe(30000);
+      expect(eventLog.events[eventLog.events.length - 1]).toMatchObject({ type: 'player_status_changed', teamId: RED_TEAM_ID });
+
+      const respawning = nextEvent(red2, 'player_status_changed');
+      server.advancePlayerStatuses(new Date(Date.parse(update.expiresAt)));
+      const respawn = await respawning;
+      expect(respawn).toMatchObject({ status: 'respawning' });
+
+      const revived = nextEvent(red, 'player_status_changed');
+      server.advancePlayerStatuses(new Date(Date.parse(respawn.expiresAt)));
+      expect(await revived).toMatchObject({ status: 'alive' });
+      expect(enemyReceived).not.toHaveBeenCalled();
+      rooms.respawnRules.delete(ROOM_ID);
+    });
+
+    it('should keep a hit player down across a reconnect', async () => {
+      const red = connect('red-token');
+      const red2 = connect('red-2-token');
+      await Promise.all([red, red2].map(joinRoom));
+
+      const hit = nextEvent(red2, 'player_status_changed');
+      red.emit('player_status', { roomId: ROOM_ID, status: 'hit' });
+      await hit;
+
+      const left = nextEvent(red2, 'member_left');
+      red.disconnect();
+      await left;
+
+      const state = await joinRoom(connect('red-token'));
+      const self = state.members.find((member: any) => member.userId === members['red-token'].userId);
+      expect(self.playerStatus).toMatchObject({ status: 'hit' });
+    });
+
+    it('should keep statuses while the room is empty until the session ends', async () => {
+      const MATCH_ID = '88888888-8888-4888-8888-000000000002';
+      const redId = members['red-token'].userId;
+      const findRed = (state: any) => state.members.find((member: any) => member.userId === redId);
+      const emptyRoom = async () => {
+        clients.splice(0).forEach(client => client.disconnect());
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(server.activeRooms.has(ROOM_ID)).toBe(false);
+      };
+
+      const now = new Date().toISOString();
+      gameSessions.save({
+        id: MATCH_ID,
+        roomId: ROOM_ID,
+        status: 'running',
+        countdownSeconds: 0,
+        elapsedMs: 0,
+        clockStartedAt: now,
+        startedAt: now,
+        createdBy: members['admin-token'].userId,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      const admin = connect('admin-token');
+      const red = connect('red-token');
+      await Promise.all([admin, red].map(joinRoom));
+      const loaded = nextEvent(red, 'session_updated');
+      admin.emit('session_update', { sessionId: MATCH_ID });
+      await loaded;
+      const gm = connect('gm-token');
+      expect(findRed(await joinRoom(gm)).playerStatus).toBeUndefined();
+
+      const hit = nextEvent(gm, 'player_status_changed');
+      red.emit('player_status', { roomId: ROOM_ID, status: 'hit' });
+      await hit;
+
+      await emptyRoom();
+      const returned = connect('admin-token');
+      const [, state] = await Promise.all([returned, connect('red-token')].map(joinRoom));
+      expect(findRed(state).playerStatus).toMatchObject({ status: 'hit' });
+
+      const ended = nextEvent(returned, 'session_updated');
+      returned.emit('session_action', { roomId: ROOM_ID, sessionId: MATCH_ID, action: 'end' });
+      await ended;
+
+      await emptyRoom();
+      expect(findRed(await joinRoom(connect('red-token'))).playerStatus).toBeUndefined();
+    });
+
+    it('should only let referees change another player or revive them', async () => {
+      const gm = connect('gm-token');
+      const red = connect('red-token');
+      const blue = connect('blue-token');
+      await Promise.all([gm, red, blue].map(joinRoom));
+      const redId = members['red-token'].userId;
+
+      const rejected = nextEvent(blue, 'error');
+      blue.emit('player_status', { roomId: ROOM_ID, userId: redId, status: 'hit' });
+      expect((await rejected).message).toMatch(/referees/);
+
+      const down = nextEvent(red, 'player_status_changed');
+      gm.emit('player_status', { roomId: ROOM_ID, userId: redId, status: 'medic_needed' });
+      await down;
+
+      const selfRevive = nextEvent(red, 'error');
+      red.emit('player_status', { roomId: ROOM_ID, status: 'alive' });
+      expect((await selfRevive).message).toMatch(/Cannot change status from medic_needed/);
+
+      const revived = new Promise<any>(resolve => red.on('player_status_changed', (update) => {
+        if (update.status === 'alive') resolve(update);
+      }));
+      gm.emit('player_status', { roomId: ROOM_ID, userId: redId, status: 'alive' });
+      expect(await revived).toMatchObject({ userId: redId, changedBy: members['gm-token'].userId });
+    });
+  });
+
+  describe('medic requests', () => {
+    const sendPosition = (client: Socket, latitude: number) => new Promise(resolve => client.emit('position_update', {
+      roomId: ROOM_ID,
+      coordinates: { latitude, longitude: 30, timestamp: new Date().toISOString() },
+      isVisible: true,
+    }, resolve));
+
+    const callMedic = async (casualty: Socket, watcher: Socket) => {
+      const hit = nextEvent(watcher, 'player_status_changed');
+      casualty.emit('player_status', { roomId: ROOM_ID, status: 'hit' });
+      await hit;
+      casualty.emit('player_status', { roomId: ROOM_ID, status: 'medic_needed' });
+    };
+
+    it('should send the nearest medic to a casualty and let them revive it', async () => {
+      const red = connect('red-token');
+      const medic = connect('red-2-token');
+      const blue = connect('blue-token');
+      await Promise.all([red, medic, blue].map(joinRoom));
+      await sendPosition(red, 50);
+      await sendPosition(medic, 49.999);
+
+      const enemyReceived = jest.fn();
+      blue.on('medic_request_updated', enemyReceived);
+
+      const called = nextEvent(medic, 'medic_call');
+      await callMedic(red, medic);
+      const call = await called;
+      expect(call.request).toMatchObject({ casualtyId: members['red-token'].userId, status: 'pending', medicIds: [members['red-2-token'].userId] });
+      expect(call.distanceMeters).toBeCloseTo(111, 0);
+      expect(call.bearing).toBeCloseTo(0, 5);
+
+      const hidden = nextEvent(blue, 'error');
+      blue.emit('medic_accept', { roomId: ROOM_ID, requestId: call.request.id });
+      expect((await hidden).message).toBe('Medic request not found');
+
+      const accepted = nextEvent(red, 'medic_request_updated');
+      medic.emit('medic_accept', { roomId: ROOM_ID, requestId: call.request.id });
+      expect(await accepted).toMatchObject({ status: 'accepted', acceptedBy: members['red-2-token'].userId });
+
+      const taken = nextEvent(medic, 'error');
+      medic.emit('medic_accept', { roomId: ROOM_ID, requestId: call.request.id });
+      expect((await taken).message).toMatch(/already on the way/);
+
+      const revived = nextEvent(red, 'player_status_changed');
+      const resolved = nextEvent(red, 'medic_request_updated');
+      medic.emit('medic_revive', { roomId: ROOM_ID, requestId: call.request.id });
+      expect(await revived).toMatchObject({ status: 'alive', changedBy: members['red-2-token'].userId });
+      expect(await resolved).toMatchObject({ id: call.request.id, status: 'resolved' });
+      expect(enemyReceived).not.toHaveBeenCalled();
+    });
+
+    it('should put the casualty back to bleeding out when no medic accepts in time', async () => {
+      const red = connect('red-token');
+      const medic = connect('red-2-token');
+      await Promise.all([red, medic].map(joinRoom));
+
+      const called = nextEvent(medic, 'medic_call');
+      await callMedic(red, medic);
+      const { request } = await called;
+      expect(request.medicIds).toEqual([members['red-2-token'].userId]);
+
+      const state = await joinRoom(connect('gm-token'));
+      expect(state.medicRequests).toEqual([expect.objectContaining({ id: request.id, status: 'pending' })]);
+
+      const expired = nextEvent(red, 'medic_request_updated');
+      const bleeding = new Promise<any>(resolve => red.on('player_status_changed', (update) => {
+        if (update.status === 'hit') resolve(update);
+      }));
+      server.expireMedicRequests(new Date(Date.parse(request.expiresAt)));
+      expect(await expired).toMatchObject({ id: request.id, status: 'expired' });
+      expect((await bleeding).changedBy).toBeUndefined();
+
+      const revive = nextEvent(medic, 'error');
+      medic.emit('medic_revive', { roomId: ROOM_ID, requestId: request.id });
+      expect((await revive).message).toMatch(/Only the medic who accepted/);
+    });
+
+    it('should keep an expired request of a casualty who left within their team', async () => {
+      const red = connect('red-token');
+      const medic = connect('red-2-token');
+      const blue = connect('blue-token');
+      await Promise.all([red, medic, blue].map(joinRoom));
+
+      const called = nextEvent(medic, 'medic_call');
+      await callMedic(red, medic);
+      const { request } = await called;
+
+      const left = nextEvent(medic, 'member_left');
+      red.disconnect();
+      await left;
+
+      const enemyReceived = jest.fn();
+      blue.on('player_status_changed', enemyReceived);
+      blue.on('medic_request_updated', enemyReceived);
+
+      const bleeding = new Promise<any>(resolve => medic.on('player_status_changed', (update) => {
+        if (update.status === 'hit') resolve(update);
+      }));
+      server.expireMedicRequests(new Date(Date.parse(request.expiresAt)));
+      expect(await bleeding).toMatchObject({ userId: members['red-token'].userId });
+
+      // Blue would have received anything broadcast room-wide by now
+      const ponged = nextEvent(blue, 'pong');
+      blue.emit('ping');
+      await ponged;
+      expect(enemyReceived).not.toHaveBeenCalled();
+      expect(eventLog.events[eventLog.events.length - 1]).toMatchObject({ type: 'player_status_changed', teamId: RED_TEAM_ID });
+    });
+  });
+
+  describe('pings', () => {
+    it('should relay pings and rate limit bursts', async () => {
+      const client = connect('valid-token');
+      await joinRoom(client);
+
+      const pings: any[] = [];
+      client.on('map_ping', ping => pings.push(ping));
+      const rejected = nextEvent(client, 'error');
+
+      for (let i = 0; i < 4; i++) {
+        client.emit('map_ping', { roomId: ROOM_ID, type: 'contact', coordinates: { latitude: 51.5, longitude: -0.09 } });
+      }
+
+      expect((await rejected).message).toMatch(/Too many pings/);
+      expect(pings).toHaveLength(3);
+      expect(pings[0]).toMatchObject({ type: 'contact', userId: USER_ID, username: 'alpha' });
+    });
+  });
+
+  describe('offline outbox', () => {
+    const emitWithAck = (client: Socket, event: string, payload: any) =>
+      new Promise<any>((resolve) => client.emit(event, payload, resolve));
+
+    it('should apply replayed events once and acknowledge repeats', async () => {
+      const client = connect('valid-token');
+      await joinRoom(client);
+
+      const created: any[] = [];
+      client.on('symbol_created', symbol => created.push(symbol));
+
+      const symbolId = '77777777-7777-4777-8777-777777777777';
+      const payload = {
+        id: symbolId,
+        clientEventId: '88888888-8888-4888-8888-888888888888',
+        roomId: ROOM_ID,
+        type: 'waypoint',
+        coordinates: { latitude: 51.5, longitude: -0.09 },
+      };
+
+      expect(await emitWithAck(client, 'symbol_create', payload)).toEqual({ ok: true });
+      expect(await emitWithAck(client, 'symbol_create', payload)).toEqual({ ok: true, duplicate: true });
+
+      expect(created).toHaveLength(1);
+      expect(created[0]).toMatchObject({ id: symbolId, createdBy: USER_ID });
+      expect(created[0]).not.toHaveProperty('clientEventId');
+    });
+
+    it('should not recreate a symbol whose id already exists', async () => {
+      const client = connect('valid-token');
+      await joinRoom(client);
+
+      const payload = {
+        id: '99999999-9999-4999-8999-999999999999',
+        roomId: ROOM_ID,
+        type: 'rally_point',
+        coordinates: { latitude: 51.5, longitude: -0.09 },
+      };
+      await emitWithAck(client, 'symbol_create', { ...payload, clientEventId: 'aaaaaaaa-0000-4000-8000-000000000001' });
+      const ack = await emitWithAck(client, 'symbol_create', { ...payload, clientEventId: 'aaaaaaaa-0000-4000-8000-000000000002' });
+
+      expect(ack).toEqual({ ok: true, duplicate: true });
+      const state = await joinRoom(connect('valid-token'));
+      expect(state.symbols.filter((symbol: any) => symbol.id === payload.id)).toHaveLength(1);
+    });
+
+    it('should acknowledge refused events so the outbox can drop them', async () => {
+      const client = connect('valid-token');
+      await joinRoom(client);
+
+      const missing = await emitWithAck(client, 'symbol_delete', {
+        id: '12121212-1212-4121-8121-121212121212',
+        clientEventId: 'aaaaaaaa-0000-4000-8000-000000000003',
+      });
+      expect(missing).toEqual({ ok: false, error: 'Symbol not found' });
+
+      const invalid = await emitWithAck(client, 'position_update', { roomId: ROOM_ID, coordinates: { latitude: 200 } });
+      expect(invalid).toEqual({ ok: false, error: 'Validation error' });
+    });
+  });
+});
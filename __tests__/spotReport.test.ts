@@ -0,0 +1,53 @@
+import { SPOT_REPORT_SETTINGS, TacticalSymbol, clampSymbolExpiry } from '../shared/types'
+import { getSpotReportOpacity, isSpotReport } from '../client/lib/utils'
+
+const OBSERVED_AT = new Date('2024-01-01T12:00:00.000Z').getTime()
+const MINUTE = 60 * 1000
+
+const symbol = (overrides: Partial<TacticalSymbol> = {}): TacticalSymbol => ({
+  id: 'symbol-1',
+  roomId: '11111111-1111-4111-8111-111111111111',
+  createdBy: 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa',
+  type: 'enemy_unit',
+  coordinates: { latitude: 52.5, longitude: 13.4 },
+  color: '#FF0000',
+  size: 'medium',
+  rotation: 0,
+  isVisible: true,
+  affiliation: 'hostile',
+  status: 'present',
+  confidence: 'confirmed',
+  version: 1,
+  createdAt: '2024-01-01T12:00:00.000Z',
+  updatedAt: '2024-01-01T12:00:00.000Z',
+  ...overrides,
+})
+
+const report = symbol({
+  spotReport: { size: '3 players', activity: 'Moving north', observedAt: new Date(OBSERVED_AT).toISOString() },
+  expiresAt: new Date(OBSERVED_AT + 20 * MINUTE).toISOString(),
+})
+
+describe('spot reports', () => {
+  it('should only treat symbols with report fields and an expiry as spot reports', () => {
+    expect(isSpotReport(report)).toBe(true)
+    expect(isSpotReport(symbol())).toBe(false)
+    expect(isSpotReport(symbol({ expiresAt: report.expiresAt }))).toBe(false)
+  })
+
+  it('should fade from fully opaque to the minimum at expiry', () => {
+    expect(getSpotReportOpacity(report, OBSERVED_AT)).toBe(1)
+    expect(getSpotReportOpacity(report, OBSERVED_AT + 10 * MINUTE)).toBeCloseTo((1 + SPOT_REPORT_SETTINGS.minOpacity) / 2)
+    expect(getSpotReportOpacity(report, OBSERVED_AT + 30 * MINUTE)).toBeCloseTo(SPOT_REPORT_SETTINGS.minOpacity)
+    expect(getSpotReportOpacity(symbol(), OBSERVED_AT + 30 * MINUTE)).toBe(1)
+  })
+
+  it('should cap the expiry at the maximum lifetime', () => {
+    const now = new Date(OBSERVED_AT)
+    const latest = OBSERVED_AT + SPOT_REPORT_SETTINGS.maxTtlMinutes * MINUTE
+
+    expect(clampSymbolExpiry(undefined, now)).toBeUndefined()
+    expect(clampSymbolExpiry(report.expiresAt, now)).toBe(report.expiresAt)
+    expect(clampSymbolExpiry(new Date(latest + MINUTE).toISOString(), now)).toBe(new Date(latest).toISOString())
+  })
+})
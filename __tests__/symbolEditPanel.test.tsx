@@ -0,0 +1,140 @@
+/**
+ * @jest-environment jsdom
+ */
+import React from 'react'
+import '@testing-library/jest-dom'
+import { render, screen, fireEvent } from '@testing-library/react'
+import SymbolEditPanel from '../client/components/map/SymbolEditPanel'
+import { TacticalSymbol } from '../shared/types'
+
+const symbol: TacticalSymbol = {
+  id: 'symbol-1',
+  roomId: '11111111-1111-4111-8111-111111111111',
+  createdBy: 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa',
+  type: 'objective',
+  coordinates: { latitude: 52.5, longitude: 13.4 },
+  label: 'Alpha',
+  color: '#00FFFF',
+  size: 'medium',
+  rotation: 0,
+  isVisible: true,
+  affiliation: 'friend',
+  status: 'present',
+  confidence: 'confirmed',
+  version: 1,
+  createdAt: '2024-01-01T12:00:00.000Z',
+  updatedAt: '2024-01-01T12:00:00.000Z',
+}
+
+function renderPanel() {
+  const onUpdate = jest.fn()
+  const { rerender } = render(<SymbolEditPanel symbol={symbol} onUpdate={onUpdate} onClose={jest.fn()} />)
+  // The room page passes the updated symbol back in once a save is applied
+  const applyUpdate = (updates: Partial<TacticalSymbol>) =>
+    rerender(<SymbolEditPanel symbol={{ ...symbol, ...updates }} onUpdate={onUpdate} onClose={jest.fn()} />)
+  return { onUpdate, applyUpdate }
+}
+
+const save = () => fireEvent.submit(screen.getByRole('button', { name: 'Save' }).closest('form')!)
+const colourInput = () => screen.getByDisplayValue(/^#/) as HTMLInputElement
+
+describe('SymbolEditPanel', () => {
+  it('should save only the changed fields', () => {
+    const { onUpdate } = renderPanel()
+
+    fireEvent.change(screen.getByLabelText('Label'), { target: { value: 'OBJ Bravo' } })
+    fireEvent.change(screen.getByLabelText('Rotation'), { target: { value: '90' } })
+    fireEvent.click(screen.getByRole('button', { name: 'large' }))
+    save()
+
+    expect(onUpdate).toHaveBeenCalledTimes(1)
+    expect(onUpdate).toHaveBeenCalledWith({ label: 'OBJ Bravo', size: 'large', rotation: 90 })
+  })
+
+  it('should normalise the colour and ignore a save without changes', () => {
+    const { onUpdate } = renderPanel()
+
+    save()
+    expect(onUpdate).not.toHaveBeenCalled()
+
+    fireEvent.change(colourInput(), { target: { value: '#ff0000' } })
+    save()
+    expect(onUpdate).toHaveBeenCalledWith({ color: '#FF0000' })
+
+    fireEvent.click(screen.getByRole('button', { name: '#00FF00' }))
+    save()
+    expect(onUpdate).toHaveBeenLastCalledWith({ color: '#00FF00' })
+  })
+
+  it('should reject an invalid colour until it is corrected', () => {
+    const { onUpdate } = renderPanel()
+
+    fireEvent.change(colourInput(), { target: { value: '#XYZ' } })
+    save()
+
+    expect(onUpdate).not.toHaveBeenCalled()
+    expect(screen.getByText('Use a hex colour such as #FF0000')).toBeInTheDocument()
+
+    fireEvent.change(colourInput(), { target: { value: '#123ABC' } })
+    expect(screen.queryByText('Use a hex colour such as #FF0000')).not.toBeInTheDocument()
+
+    save()
+    expect(onUpdate).toHaveBeenCalledWith({ color: '#123ABC' })
+  })
+
+  it('should reject a rotation outside 0-360 and an overlong description', () => {
+    const { onUpdate } = renderPanel()
+
+    fireEvent.change(screen.getByLabelText('Rotation'), { target: { value: '400' } })
+    fireEvent.change(screen.getByLabelText('Description'), { target: { value: 'x'.repeat(201) } })
+    fireEvent.change(screen.getByLabelText('Label'), { target: { value: 'Still valid' } })
+    save()
+
+    expect(onUpdate).not.toHaveBeenCalled()
+    expect(screen.getByText(/less than or equal to 360/)).toBeInTheDocument()
+    expect(screen.getByText(/at most 200 character/)).toBeInTheDocument()
+    expect(screen.queryByText('201/200')).not.toBeInTheDocument()
+  })
+
+  it('should count description characters', () => {
+    renderPanel()
+
+    expect(screen.getByText('0/200')).toBeInTheDocument()
+    fireEvent.change(screen.getByLabelText('Description'), { target: { value: 'Hold until relieved' } })
+    expect(screen.getByText('19/200')).toBeInTheDocument()
+  })
+
+  it('should undo the last save by sending the previous values', () => {
+    const { onUpdate } = renderPanel()
+    const undo = screen.getByRole('button', { name: 'Undo' })
+
+    expect(undo).toBeDisabled()
+
+    fireEvent.change(screen.getByLabelText('Label'), { target: { value: 'OBJ Bravo' } })
+    fireEvent.change(screen.getByLabelText('Rotation'), { target: { value: '45' } })
+    save()
+    expect(undo).toBeEnabled()
+
+    fireEvent.click(undo)
+
+    expect(onUpdate).toHaveBeenLastCalledWith({ label: 'Alpha', rotation: 0 })
+    expect(screen.getByLabelText('Label')).toHaveValue('Alpha')
+    expect(screen.getByLabelText('Rotation')).toHaveValue(0)
+    expect(undo).toBeDisabled()
+  })
+
+  it('should only undo the most recent save', () => {
+    const { onUpdate, applyUpdate } = renderPanel()
+
+    fireEvent.change(screen.getByLabelText('Label'), { target: { value: 'OBJ Bravo' } })
+    save()
+    applyUpdate({ label: 'OBJ Bravo' })
+    fireEvent.click(screen.getByRole('button', { name: 'small' }))
+    save()
+
+    fireEvent.click(screen.getByRole('button', { name: 'Undo' }))
+
+    expect(onUpdate).toHaveBeenLastCalledWith({ size: 'medium' })
+    expect(screen.getByLabelText('Label')).toHaveValue('OBJ Bravo')
+  })
+})
@@ -0,0 +1,76 @@
+import { fromSymbolShape, toSymbolShape } from '../shared/types'
+import { estimateTravelTime, formatDuration, getRouteLegs, getShapeAnchor, translateGeometry } from '../client/lib/utils'
+
+const vertices = [
+  { latitude: 51.5, longitude: -0.1 },
+  { latitude: 51.51, longitude: -0.1 },
+  { latitude: 51.51, longitude: -0.08 },
+]
+
+describe('symbol shapes', () => {
+  it('should round-trip lines and areas through GeoJSON', () => {
+    const line = { kind: 'polyline' as const, vertices }
+    const area = { kind: 'polygon' as const, vertices }
+
+    expect(toSymbolShape(line)).toEqual({
+      type: 'LineString',
+      coordinates: [[-0.1, 51.5], [-0.1, 51.51], [-0.08, 51.51]],
+    })
+    // Polygon rings are closed
+    expect(toSymbolShape(area)!.coordinates[0]).toHaveLength(4)
+
+    expect(fromSymbolShape(toSymbolShape(line))).toEqual(line)
+    expect(fromSymbolShape(toSymbolShape(area))).toEqual(area)
+  })
+
+  it('should keep points and circles out of the shape column', () => {
+    expect(toSymbolShape(undefined)).toBeNull()
+    expect(toSymbolShape({ kind: 'circle', radiusMeters: 150 })).toBeNull()
+
+    expect(fromSymbolShape(null, null)).toBeUndefined()
+    expect(fromSymbolShape(null, '150.00')).toEqual({ kind: 'circle', radiusMeters: 150 })
+  })
+})
+
+describe('shape helpers', () => {
+  it('should anchor a shape at the average of its vertices', () => {
+    const anchor = getShapeAnchor(vertices)
+
+    expect(anchor.latitude).toBeCloseTo(51.50667, 5)
+    expect(anchor.longitude).toBeCloseTo(-0.09333, 5)
+  })
+
+  it('should move every vertex with the symbol icon', () => {
+    const moved = translateGeometry(
+      { kind: 'polyline', vertices },
+      { latitude: 51.5, longitude: -0.1 },
+      { latitude: 51.6, longitude: -0.2 }
+    )
+
+    expect(moved.kind === 'polyline' && moved.vertices[2].latitude).toBeCloseTo(51.61)
+    expect(moved.kind === 'polyline' && moved.vertices[2].longitude).toBeCloseTo(-0.18)
+    expect(translateGeometry({ kind: 'circle', radiusMeters: 50 }, vertices[0], vertices[1])).toEqual({ kind: 'circle', radiusMeters: 50 })
+  })
+})
+
+describe('route helpers', () => {
+  it('should measure each leg of a route', () => {
+    const legs = getRouteLegs(vertices)
+
+    expect(legs).toHaveLength(2)
+    // Due north, then due east
+    expect(legs[0].bearing).toBeCloseTo(0, 5)
+    expect(legs[0].distance).toBeCloseTo(1112, 0)
+    expect(legs[1].bearing).toBeCloseTo(90, 0)
+    expect(getRouteLegs(vertices.slice(0, 1))).toEqual([])
+  })
+
+  it('should estimate walking time', () => {
+    expect(estimateTravelTime(4000)).toBeCloseTo(3600)
+    expect(estimateTravelTime(1000, 6)).toBeCloseTo(600)
+
+    expect(formatDuration(20)).toBe('< 1 min')
+    expect(formatDuration(18 * 60)).toBe('18 min')
+    expect(formatDuration(95 * 60)).toBe('1h 35m')
+  })
+})
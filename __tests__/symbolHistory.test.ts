@@ -0,0 +1,85 @@
+import { TacticalSymbol } from '../shared/types'
+import {
+  EMPTY_SYMBOL_HISTORY,
+  SYMBOL_HISTORY_LIMIT,
+  captureUpdate,
+  recordCommand,
+  redoCommand,
+  undoCommand,
+} from '../client/lib/symbolHistory'
+
+const symbol: TacticalSymbol = {
+  id: 'symbol-1',
+  roomId: '11111111-1111-4111-8111-111111111111',
+  createdBy: 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa',
+  type: 'objective',
+  coordinates: { latitude: 52.5, longitude: 13.4 },
+  label: 'Alpha',
+  color: '#00FFFF',
+  size: 'medium',
+  rotation: 0,
+  isVisible: true,
+  affiliation: 'friend',
+  status: 'present',
+  confidence: 'confirmed',
+  version: 1,
+  createdAt: '2024-01-01T12:00:00.000Z',
+  updatedAt: '2024-01-01T12:00:00.000Z',
+}
+
+describe('symbol history', () => {
+  it('should capture the values an update replaces', () => {
+    const move = captureUpdate(symbol, { coordinates: { latitude: 52.6, longitude: 13.4 }, label: 'Bravo' })
+
+    expect(move).toEqual({
+      type: 'update',
+      id: 'symbol-1',
+      before: { coordinates: { latitude: 52.5, longitude: 13.4 }, label: 'Alpha' },
+      after: { coordinates: { latitude: 52.6, longitude: 13.4 }, label: 'Bravo' },
+    })
+  })
+
+  it('should undo by applying the inverse and redo the original', () => {
+    let history = recordCommand(EMPTY_SYMBOL_HISTORY, { type: 'create', symbol })
+    history = recordCommand(history, captureUpdate(symbol, { label: 'Bravo' }))
+
+    const undoUpdate = undoCommand(history)!
+    expect(undoUpdate.apply).toEqual({ type: 'update', id: 'symbol-1', before: { label: 'Bravo' }, after: { label: 'Alpha' } })
+
+    const undoCreate = undoCommand(undoUpdate.history)!
+    expect(undoCreate.apply).toEqual({ type: 'delete', symbol })
+    expect(undoCommand(undoCreate.history)).toBeNull()
+
+    // Redoing the create brings the same symbol back rather than placing a new one
+    const redoCreate = redoCommand(undoCreate.history)!
+    expect(redoCreate.apply).toEqual({ type: 'create', symbol })
+    expect(redoCreate.history.future).toHaveLength(1)
+  })
+
+  it('should clear a field on undo when the edit added it', () => {
+    const { label: _label, ...unlabelled } = symbol
+    const history = recordCommand(EMPTY_SYMBOL_HISTORY, captureUpdate(unlabelled, { label: 'Bravo', dtg: '011200ZJAN24' }))
+
+    const undo = undoCommand(history)!.apply
+    expect(undo).toEqual({ type: 'update', id: 'symbol-1', before: { label: 'Bravo', dtg: '011200ZJAN24' }, after: { label: null, dtg: null } })
+    // Sent over the socket, so the cleared fields must survive serialisation
+    expect(JSON.parse(JSON.stringify(undo))).toEqual(undo)
+  })
+
+  it('should restore a deleted symbol on undo', () => {
+    const history = recordCommand(EMPTY_SYMBOL_HISTORY, { type: 'delete', symbol })
+    expect(undoCommand(history)!.apply).toEqual({ type: 'create', symbol })
+  })
+
+  it('should drop the redo stack on a new edit and cap the history', () => {
+    let history = recordCommand(EMPTY_SYMBOL_HISTORY, { type: 'create', symbol })
+    history = undoCommand(history)!.history
+    history = recordCommand(history, { type: 'delete', symbol })
+    expect(history.future).toEqual([])
+
+    for (let i = 0; i < SYMBOL_HISTORY_LIMIT + 5; i++) {
+      history = recordCommand(history, captureUpdate(symbol, { rotation: i }))
+    }
+    expect(history.past).toHaveLength(SYMBOL_HISTORY_LIMIT)
+  })
+})
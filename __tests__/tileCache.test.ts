@@ -0,0 +1,34 @@
+import { countTiles, getTileCoordinates, getTileUrl, latToTileY, lonToTileX } from '../client/lib/tileCache'
+
+describe('tile math', () => {
+  it('converts coordinates to slippy map tile indices', () => {
+    expect(lonToTileX(0, 1)).toBe(1)
+    expect(latToTileY(0, 1)).toBe(1)
+    // Berlin at zoom 10
+    expect(lonToTileX(13.4050, 10)).toBe(550)
+    expect(latToTileY(52.5200, 10)).toBe(335)
+  })
+
+  it('clamps indices to the tile grid', () => {
+    expect(lonToTileX(180, 2)).toBe(3)
+    expect(latToTileY(89.9, 2)).toBe(0)
+    expect(latToTileY(-89.9, 2)).toBe(3)
+  })
+})
+
+describe('getTileCoordinates', () => {
+  const bounds = { north: 52.53, south: 52.51, east: 13.42, west: 13.39 }
+
+  it('lists every tile in the zoom range', () => {
+    const tiles = getTileCoordinates(bounds, 14, 15)
+
+    expect(tiles).toHaveLength(countTiles(bounds, 14, 15))
+    expect(tiles[0].z).toBe(14)
+    expect(tiles[tiles.length - 1].z).toBe(15)
+    expect(new Set(tiles.map(getTileUrl)).size).toBe(tiles.length)
+  })
+
+  it('builds canonical tile URLs', () => {
+    expect(getTileUrl({ x: 550, y: 335, z: 10 })).toBe('https://tile.openstreetmap.org/10/550/335.png')
+  })
+})
@@ -0,0 +1,37 @@
+-- Position history: decimated track samples for breadcrumb trails.
+-- For databases created from schema.sql before this table existed.
+
+BEGIN;
+
+CREATE TABLE position_history (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  room_id UUID REFERENCES rooms(id) ON DELETE CASCADE,
+  latitude DECIMAL(10, 8) NOT NULL CHECK (latitude >= -90 AND latitude <= 90),
+  longitude DECIMAL(11, 8) NOT NULL CHECK (longitude >= -180 AND longitude <= 180),
+  accuracy DECIMAL(8, 2),
+  heading DECIMAL(5, 2) CHECK (heading >= 0 AND heading <= 360),
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_position_history_track ON position_history(room_id, user_id, recorded_at);
+
+ALTER TABLE position_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Room members can view tracks in their rooms" ON position_history
+  FOR SELECT USING (
+    room_id IN (
+      SELECT room_id FROM room_members 
+      WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION cleanup_old_position_history()
+RETURNS void AS $$
+BEGIN
+  DELETE FROM position_history 
+  WHERE recorded_at < NOW() - INTERVAL '30 days';
+END;
+$$ LANGUAGE plpgsql;
+
+COMMIT;
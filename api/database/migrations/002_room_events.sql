@@ -0,0 +1,35 @@
+-- Room event log: the socket events broadcast to a room, kept for replays.
+-- For databases created from schema.sql before this table existed.
+
+BEGIN;
+
+CREATE TABLE room_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  room_id UUID REFERENCES rooms(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  type VARCHAR(50) NOT NULL,
+  data JSONB NOT NULL,
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_room_events_timeline ON room_events(room_id, occurred_at);
+
+ALTER TABLE room_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Room members can view events in their rooms" ON room_events
+  FOR SELECT USING (
+    room_id IN (
+      SELECT room_id FROM room_members 
+      WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION cleanup_old_room_events()
+RETURNS void AS $$
+BEGIN
+  DELETE FROM room_events 
+  WHERE occurred_at < NOW() - INTERVAL '30 days';
+END;
+$$ LANGUAGE plpgsql;
+
+COMMIT;
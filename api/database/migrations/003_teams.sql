@@ -0,0 +1,85 @@
+-- Teams with per-team visibility, and the game master role that sees every team.
+-- For databases created from schema.sql before these existed.
+
+-- A new enum value cannot be used in the transaction that adds it, so this goes first
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'game_master';
+
+BEGIN;
+
+CREATE TABLE teams (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  room_id UUID REFERENCES rooms(id) ON DELETE CASCADE,
+  name VARCHAR(50) NOT NULL,
+  color VARCHAR(7) NOT NULL CHECK (color ~ '^#[0-9A-F]{6}$'),
+  callsign_prefix VARCHAR(10),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(room_id, name)
+);
+
+CREATE INDEX idx_teams_room_id ON teams(room_id);
+
+ALTER TABLE room_members
+  ADD COLUMN team_id UUID REFERENCES teams(id) ON DELETE SET NULL;
+
+ALTER TABLE room_events
+  ADD COLUMN team_id UUID REFERENCES teams(id) ON DELETE CASCADE;
+
+ALTER TABLE tactical_symbols
+  ADD COLUMN team_id UUID REFERENCES teams(id) ON DELETE CASCADE;
+
+ALTER TABLE teams ENABLE ROW LEVEL SECURITY;
+
+-- Mirrors canSeeTeamData in shared/types: team-scoped rows are visible to that team and game masters
+CREATE OR REPLACE FUNCTION can_see_team_data(p_room_id UUID, p_team_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM room_members 
+    WHERE room_id = p_room_id 
+      AND user_id = auth.uid()
+      AND (p_team_id IS NULL OR role = 'game_master' OR team_id = p_team_id)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE POLICY "Room owners can manage teams" ON teams
+  FOR ALL USING (
+    room_id IN (
+      SELECT id FROM rooms WHERE owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Room members can view teams of their rooms" ON teams
+  FOR SELECT USING (
+    room_id IN (
+      SELECT room_id FROM room_members 
+      WHERE user_id = auth.uid()
+    )
+  );
+
+-- Room-wide read policies become team-scoped
+DROP POLICY "Room members can view positions in their rooms" ON user_positions;
+CREATE POLICY "Teammates can view positions in their rooms" ON user_positions
+  FOR SELECT USING (
+    can_see_team_data(room_id, (
+      SELECT team_id FROM room_members rm 
+      WHERE rm.room_id = user_positions.room_id AND rm.user_id = user_positions.user_id
+    ))
+  );
+
+DROP POLICY "Room members can view tracks in their rooms" ON position_history;
+CREATE POLICY "Teammates can view tracks in their rooms" ON position_history
+  FOR SELECT USING (
+    can_see_team_data(room_id, (
+      SELECT team_id FROM room_members rm 
+      WHERE rm.room_id = position_history.room_id AND rm.user_id = position_history.user_id
+    ))
+  );
+
+DROP POLICY "Room members can view events in their rooms" ON room_events;
+CREATE POLICY "Room members can view events in their rooms" ON room_events
+  FOR SELECT USING (can_see_team_data(room_id, team_id));
+
+DROP POLICY "Room members can view symbols in their rooms" ON tactical_symbols;
+CREATE POLICY "Room members can view symbols in their rooms" ON tactical_symbols
+  FOR SELECT USING (can_see_team_data(room_id, team_id));
+
+COMMIT;
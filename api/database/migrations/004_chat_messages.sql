@@ -0,0 +1,27 @@
+-- Chat messages: the room-wide "all" channel (team_id NULL) and one channel per team.
+-- For databases created from schema.sql before this table existed.
+
+BEGIN;
+
+CREATE TABLE chat_messages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  room_id UUID REFERENCES rooms(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  team_id UUID REFERENCES teams(id) ON DELETE CASCADE,
+  body VARCHAR(500) NOT NULL CHECK (length(trim(body)) > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_chat_messages_channel ON chat_messages(room_id, team_id, created_at DESC);
+
+ALTER TABLE chat_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Room members can view messages of their channels" ON chat_messages
+  FOR SELECT USING (can_see_team_data(room_id, team_id));
+
+CREATE POLICY "Room members can post messages in their rooms" ON chat_messages
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid() AND can_see_team_data(room_id, team_id)
+  );
+
+COMMIT;
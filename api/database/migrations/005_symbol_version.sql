@@ -0,0 +1,9 @@
+-- Symbol versions, so edits made against an outdated copy are rejected.
+-- For databases created from schema.sql before this column existed.
+
+BEGIN;
+
+ALTER TABLE tactical_symbols
+  ADD COLUMN version INTEGER NOT NULL DEFAULT 1 CHECK (version >= 1);
+
+COMMIT;
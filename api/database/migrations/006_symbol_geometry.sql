@@ -0,0 +1,16 @@
+-- Line, area and circle symbols. Lines and areas are stored as GeoJSON (see toSymbolShape);
+-- points and circles keep using latitude/longitude.
+-- For databases created from schema.sql before these columns existed.
+
+BEGIN;
+
+ALTER TABLE tactical_symbols
+  ADD COLUMN shape JSONB,
+  ADD COLUMN radius_meters DECIMAL(8, 2) CHECK (radius_meters > 0),
+  ADD COLUMN geom GEOMETRY(Geometry, 4326) GENERATED ALWAYS AS (
+    ST_SetSRID(COALESCE(ST_GeomFromGeoJSON(shape::text), ST_Point(longitude, latitude)), 4326)
+  ) STORED;
+
+CREATE INDEX idx_tactical_symbols_geom ON tactical_symbols USING GIST (geom);
+
+COMMIT;
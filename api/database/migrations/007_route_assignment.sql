@@ -0,0 +1,9 @@
+-- Members a route (waypoint line) is assigned to.
+-- For databases created from schema.sql before this column existed.
+
+BEGIN;
+
+ALTER TABLE tactical_symbols
+  ADD COLUMN assigned_to UUID[];
+
+COMMIT;
@@ -0,0 +1,14 @@
+-- APP-6 modifier fields for tactical symbols.
+-- For databases created from schema.sql before these columns existed.
+
+BEGIN;
+
+CREATE TYPE symbol_echelon AS ENUM ('team', 'squad', 'section', 'platoon', 'company', 'battalion');
+
+ALTER TABLE tactical_symbols
+  ADD COLUMN echelon symbol_echelon,
+  ADD COLUMN unique_designation VARCHAR(20),
+  ADD COLUMN quantity INTEGER CHECK (quantity >= 1 AND quantity <= 999),
+  ADD COLUMN dtg VARCHAR(20);
+
+COMMIT;
@@ -0,0 +1,21 @@
+-- Split affiliation out of the symbol type and add status and confidence.
+-- For databases created from schema.sql before these columns existed.
+
+BEGIN;
+
+CREATE TYPE symbol_affiliation AS ENUM ('friend', 'hostile', 'neutral', 'unknown');
+CREATE TYPE symbol_status AS ENUM ('present', 'planned', 'destroyed');
+CREATE TYPE symbol_confidence AS ENUM ('confirmed', 'probable', 'suspected');
+
+ALTER TABLE tactical_symbols
+  ADD COLUMN affiliation symbol_affiliation NOT NULL DEFAULT 'friend',
+  ADD COLUMN status symbol_status NOT NULL DEFAULT 'present',
+  ADD COLUMN confidence symbol_confidence NOT NULL DEFAULT 'confirmed';
+
+-- The unit types carried the affiliation until now (see getDefaultAffiliation)
+UPDATE tactical_symbols SET affiliation = 'hostile' WHERE type = 'enemy_unit';
+UPDATE tactical_symbols SET affiliation = 'neutral' WHERE type = 'neutral_unit';
+
+CREATE INDEX idx_tactical_symbols_affiliation ON tactical_symbols(room_id, affiliation);
+
+COMMIT;
@@ -0,0 +1,13 @@
+-- Spot reports: SALUTE fields plus the expiry and archive times used by the sweeper.
+-- For databases created from schema.sql before these columns existed.
+
+BEGIN;
+
+ALTER TABLE tactical_symbols
+  ADD COLUMN spot_report JSONB,
+  ADD COLUMN expires_at TIMESTAMPTZ,
+  ADD COLUMN archived_at TIMESTAMPTZ;
+
+CREATE INDEX idx_tactical_symbols_expires_at ON tactical_symbols(expires_at) WHERE archived_at IS NULL;
+
+COMMIT;
@@ -0,0 +1,10 @@
+-- Soft delete for tactical symbols so an undo can restore a deleted symbol under its id.
+-- For databases created from schema.sql before this column existed.
+
+BEGIN;
+
+ALTER TABLE tactical_symbols ADD COLUMN deleted_at TIMESTAMPTZ;
+
+CREATE INDEX idx_tactical_symbols_live ON tactical_symbols(room_id) WHERE deleted_at IS NULL AND archived_at IS NULL;
+
+COMMIT;
@@ -0,0 +1,10 @@
+-- Geofence zones: areas and circles the socket server watches for members entering and leaving.
+-- For databases created from schema.sql before this column existed.
+
+BEGIN;
+
+CREATE TYPE geofence_kind AS ENUM ('out_of_bounds', 'safe_zone', 'respawn', 'capture_area');
+
+ALTER TABLE tactical_symbols ADD COLUMN geofence geofence_kind;
+
+COMMIT;
@@ -0,0 +1,49 @@
+-- Game sessions: a lobby, start/pause/resume/end with a countdown and a match clock.
+-- Positions, events, chat and symbols recorded during a session carry its id for later review.
+-- For databases created from schema.sql before these existed.
+
+BEGIN;
+
+CREATE TYPE game_session_status AS ENUM ('lobby', 'running', 'paused', 'ended');
+
+CREATE TABLE game_sessions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  room_id UUID REFERENCES rooms(id) ON DELETE CASCADE,
+  name VARCHAR(100),
+  status game_session_status NOT NULL DEFAULT 'lobby',
+  countdown_seconds INTEGER NOT NULL DEFAULT 10 CHECK (countdown_seconds >= 0 AND countdown_seconds <= 300),
+  elapsed_ms BIGINT NOT NULL DEFAULT 0 CHECK (elapsed_ms >= 0),
+  clock_started_at TIMESTAMPTZ,
+  started_at TIMESTAMPTZ,
+  ended_at TIMESTAMPTZ,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_game_sessions_room_id ON game_sessions(room_id, created_at DESC);
+CREATE UNIQUE INDEX idx_game_sessions_current ON game_sessions(room_id) WHERE status <> 'ended';
+
+CREATE TRIGGER update_game_sessions_updated_at BEFORE UPDATE ON game_sessions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE game_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Room members can view sessions of their rooms" ON game_sessions
+  FOR SELECT USING (
+    room_id IN (
+      SELECT room_id FROM room_members 
+      WHERE user_id = auth.uid()
+    )
+  );
+
+ALTER TABLE position_history ADD COLUMN session_id UUID REFERENCES game_sessions(id) ON DELETE SET NULL;
+ALTER TABLE room_events ADD COLUMN session_id UUID REFERENCES game_sessions(id) ON DELETE SET NULL;
+ALTER TABLE chat_messages ADD COLUMN session_id UUID REFERENCES game_sessions(id) ON DELETE SET NULL;
+ALTER TABLE tactical_symbols ADD COLUMN session_id UUID REFERENCES game_sessions(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_room_events_session ON room_events(session_id, occurred_at) WHERE session_id IS NOT NULL;
+CREATE INDEX idx_position_history_session ON position_history(session_id, user_id, recorded_at) WHERE session_id IS NOT NULL;
+CREATE INDEX idx_chat_messages_session ON chat_messages(session_id, created_at) WHERE session_id IS NOT NULL;
+
+COMMIT;
@@ -0,0 +1,10 @@
+-- Objective capture and scoring: per-objective capture rules and per-session team scores.
+-- For databases created from schema.sql before these columns existed.
+
+BEGIN;
+
+ALTER TABLE tactical_symbols ADD COLUMN capture JSONB;
+
+ALTER TABLE game_sessions ADD COLUMN scores JSONB NOT NULL DEFAULT '{}';
+
+COMMIT;
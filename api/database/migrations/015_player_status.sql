@@ -0,0 +1,10 @@
+-- Player status: per-room bleed-out and respawn timers.
+-- For databases created from schema.sql before these columns existed.
+
+BEGIN;
+
+ALTER TABLE rooms
+  ADD COLUMN bleed_out_seconds INTEGER NOT NULL DEFAULT 120 CHECK (bleed_out_seconds >= 0 AND bleed_out_seconds <= 1800),
+  ADD COLUMN respawn_seconds INTEGER NOT NULL DEFAULT 60 CHECK (respawn_seconds >= 0 AND respawn_seconds <= 1800);
+
+COMMIT;
@@ -0,0 +1,9 @@
+-- Medic requests: members flagged as team medics get called to nearby casualties.
+-- For databases created from schema.sql before this column existed.
+
+BEGIN;
+
+ALTER TABLE room_members
+  ADD COLUMN is_medic BOOLEAN NOT NULL DEFAULT false;
+
+COMMIT;
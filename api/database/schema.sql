@@ -6,7 +6,7 @@ CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 CREATE EXTENSION IF NOT EXISTS "postgis";
 
 -- Create enum types
-CREATE TYPE user_role AS ENUM ('owner', 'admin', 'member');
+CREATE TYPE user_role AS ENUM ('owner', 'admin', 'member', 'game_master');
 CREATE TYPE tactical_symbol_type AS ENUM (
   'friendly_unit',
   'enemy_unit', 
@@ -31,6 +31,12 @@ CREATE TYPE tactical_symbol_type AS ENUM (
   'trench'
 );
 CREATE TYPE symbol_size AS ENUM ('small', 'medium', 'large');
+CREATE TYPE symbol_echelon AS ENUM ('team', 'squad', 'section', 'platoon', 'company', 'battalion');
+CREATE TYPE symbol_affiliation AS ENUM ('friend', 'hostile', 'neutral', 'unknown');
+CREATE TYPE symbol_status AS ENUM ('present', 'planned', 'destroyed');
+CREATE TYPE symbol_confidence AS ENUM ('confirmed', 'probable', 'suspected');
+CREATE TYPE geofence_kind AS ENUM ('out_of_bounds', 'safe_zone', 'respawn', 'capture_area');
+CREATE TYPE game_session_status AS ENUM ('lobby', 'running', 'paused', 'ended');
 
 -- Users table (extends Supabase auth.users)
 CREATE TABLE users (
@@ -53,22 +59,56 @@ CREATE TABLE rooms (
   is_private BOOLEAN DEFAULT false,
   password_hash TEXT,
   max_members INTEGER DEFAULT 20 CHECK (max_members > 0 AND max_members <= 50),
+  -- Seconds a hit player can wait for a medic, then seconds spent respawning
+  bleed_out_seconds INTEGER NOT NULL DEFAULT 120 CHECK (bleed_out_seconds >= 0 AND bleed_out_seconds <= 1800),
+  respawn_seconds INTEGER NOT NULL DEFAULT 60 CHECK (respawn_seconds >= 0 AND respawn_seconds <= 1800),
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Teams table (factions within a room)
+CREATE TABLE teams (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  room_id UUID REFERENCES rooms(id) ON DELETE CASCADE,
+  name VARCHAR(50) NOT NULL,
+  color VARCHAR(7) NOT NULL CHECK (color ~ '^#[0-9A-F]{6}$'),
+  callsign_prefix VARCHAR(10),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(room_id, name)
+);
+
 -- Room members table
 CREATE TABLE room_members (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   room_id UUID REFERENCES rooms(id) ON DELETE CASCADE,
   user_id UUID REFERENCES users(id) ON DELETE CASCADE,
   role user_role DEFAULT 'member',
+  team_id UUID REFERENCES teams(id) ON DELETE SET NULL,
+  is_medic BOOLEAN NOT NULL DEFAULT false,
   is_online BOOLEAN DEFAULT false,
   last_seen TIMESTAMPTZ DEFAULT NOW(),
   joined_at TIMESTAMPTZ DEFAULT NOW(),
   UNIQUE(room_id, user_id)
 );
 
+-- Game sessions (matches played in a room; see getMatchClock for the clock columns)
+CREATE TABLE game_sessions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  room_id UUID REFERENCES rooms(id) ON DELETE CASCADE,
+  name VARCHAR(100),
+  status game_session_status NOT NULL DEFAULT 'lobby',
+  countdown_seconds INTEGER NOT NULL DEFAULT 10 CHECK (countdown_seconds >= 0 AND countdown_seconds <= 300),
+  elapsed_ms BIGINT NOT NULL DEFAULT 0 CHECK (elapsed_ms >= 0),
+  clock_started_at TIMESTAMPTZ,
+  started_at TIMESTAMPTZ,
+  ended_at TIMESTAMPTZ,
+  -- Points per team id, written by the socket server as objectives score
+  scores JSONB NOT NULL DEFAULT '{}',
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
 -- User positions table
 CREATE TABLE user_positions (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -83,6 +123,42 @@ CREATE TABLE user_positions (
   UNIQUE(user_id, room_id)
 );
 
+-- Position history table (append-only track samples, decimated server-side)
+CREATE TABLE position_history (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  room_id UUID REFERENCES rooms(id) ON DELETE CASCADE,
+  latitude DECIMAL(10, 8) NOT NULL CHECK (latitude >= -90 AND latitude <= 90),
+  longitude DECIMAL(11, 8) NOT NULL CHECK (longitude >= -180 AND longitude <= 180),
+  accuracy DECIMAL(8, 2),
+  heading DECIMAL(5, 2) CHECK (heading >= 0 AND heading <= 360),
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  session_id UUID REFERENCES game_sessions(id) ON DELETE SET NULL
+);
+
+-- Room event log (the socket events broadcast to a room, kept for replays)
+CREATE TABLE room_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  room_id UUID REFERENCES rooms(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  team_id UUID REFERENCES teams(id) ON DELETE CASCADE,
+  type VARCHAR(50) NOT NULL,
+  data JSONB NOT NULL,
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  session_id UUID REFERENCES game_sessions(id) ON DELETE SET NULL
+);
+
+-- Chat messages table (team_id NULL is the room-wide "all" channel)
+CREATE TABLE chat_messages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  room_id UUID REFERENCES rooms(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  team_id UUID REFERENCES teams(id) ON DELETE CASCADE,
+  body VARCHAR(500) NOT NULL CHECK (length(trim(body)) > 0),
+  session_id UUID REFERENCES game_sessions(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
 -- Tactical symbols table
 CREATE TABLE tactical_symbols (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -97,6 +173,36 @@ CREATE TABLE tactical_symbols (
   size symbol_size DEFAULT 'medium',
   rotation DECIMAL(5, 2) DEFAULT 0 CHECK (rotation >= 0 AND rotation <= 360),
   is_visible BOOLEAN DEFAULT true,
+  team_id UUID REFERENCES teams(id) ON DELETE CASCADE,
+  affiliation symbol_affiliation NOT NULL DEFAULT 'friend',
+  status symbol_status NOT NULL DEFAULT 'present',
+  confidence symbol_confidence NOT NULL DEFAULT 'confirmed',
+  -- APP-6 modifier fields
+  echelon symbol_echelon,
+  unique_designation VARCHAR(20),
+  quantity INTEGER CHECK (quantity >= 1 AND quantity <= 999),
+  dtg VARCHAR(20),
+  -- GeoJSON for lines and areas (see toSymbolShape); points and circles use latitude/longitude
+  shape JSONB,
+  radius_meters DECIMAL(8, 2) CHECK (radius_meters > 0),
+  geom GEOMETRY(Geometry, 4326) GENERATED ALWAYS AS (
+    ST_SetSRID(COALESCE(ST_GeomFromGeoJSON(shape::text), ST_Point(longitude, latitude)), 4326)
+  ) STORED,
+  -- Members a route (waypoint line) is assigned to
+  assigned_to UUID[],
+  -- Areas and circles the socket server watches for members entering and leaving
+  geofence geofence_kind,
+  -- Capture radius, hold time and points per minute of an objective (ObjectiveCaptureSchema)
+  capture JSONB,
+  -- SALUTE fields of a spot report; expires_at is when the sweeper archives the symbol
+  spot_report JSONB,
+  expires_at TIMESTAMPTZ,
+  archived_at TIMESTAMPTZ,
+  -- Soft delete so an undo can restore the symbol under the same id
+  deleted_at TIMESTAMPTZ,
+  -- Game session the symbol was placed in
+  session_id UUID REFERENCES game_sessions(id) ON DELETE SET NULL,
+  version INTEGER NOT NULL DEFAULT 1 CHECK (version >= 1),
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -106,14 +212,28 @@ CREATE INDEX idx_rooms_invite_code ON rooms(invite_code);
 CREATE INDEX idx_rooms_owner_id ON rooms(owner_id);
 CREATE INDEX idx_room_members_room_id ON room_members(room_id);
 CREATE INDEX idx_room_members_user_id ON room_members(user_id);
+CREATE INDEX idx_teams_room_id ON teams(room_id);
+CREATE INDEX idx_game_sessions_room_id ON game_sessions(room_id, created_at DESC);
+-- At most one session per room that has not ended
+CREATE UNIQUE INDEX idx_game_sessions_current ON game_sessions(room_id) WHERE status <> 'ended';
 CREATE INDEX idx_user_positions_room_id ON user_positions(room_id);
 CREATE INDEX idx_user_positions_user_id ON user_positions(user_id);
+CREATE INDEX idx_position_history_track ON position_history(room_id, user_id, recorded_at);
+CREATE INDEX idx_room_events_timeline ON room_events(room_id, occurred_at);
+CREATE INDEX idx_room_events_session ON room_events(session_id, occurred_at) WHERE session_id IS NOT NULL;
+CREATE INDEX idx_position_history_session ON position_history(session_id, user_id, recorded_at) WHERE session_id IS NOT NULL;
+CREATE INDEX idx_chat_messages_session ON chat_messages(session_id, created_at) WHERE session_id IS NOT NULL;
+CREATE INDEX idx_chat_messages_channel ON chat_messages(room_id, team_id, created_at DESC);
 CREATE INDEX idx_tactical_symbols_room_id ON tactical_symbols(room_id);
 CREATE INDEX idx_tactical_symbols_created_by ON tactical_symbols(created_by);
+CREATE INDEX idx_tactical_symbols_affiliation ON tactical_symbols(room_id, affiliation);
+CREATE INDEX idx_tactical_symbols_expires_at ON tactical_symbols(expires_at) WHERE archived_at IS NULL;
+CREATE INDEX idx_tactical_symbols_live ON tactical_symbols(room_id) WHERE deleted_at IS NULL AND archived_at IS NULL;
 
 -- Spatial indexes for location queries
 CREATE INDEX idx_user_positions_location ON user_positions USING GIST (ST_Point(longitude, latitude));
 CREATE INDEX idx_tactical_symbols_location ON tactical_symbols USING GIST (ST_Point(longitude, latitude));
+CREATE INDEX idx_tactical_symbols_geom ON tactical_symbols USING GIST (geom);
 
 -- Functions for updated_at timestamps
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -134,15 +254,34 @@ CREATE TRIGGER update_rooms_updated_at BEFORE UPDATE ON rooms
 CREATE TRIGGER update_tactical_symbols_updated_at BEFORE UPDATE ON tactical_symbols
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_game_sessions_updated_at BEFORE UPDATE ON game_sessions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 -- Row Level Security (RLS) Policies
 
 -- Enable RLS
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE rooms ENABLE ROW LEVEL SECURITY;
 ALTER TABLE room_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE game_sessions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE user_positions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE position_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE room_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_messages ENABLE ROW LEVEL SECURITY;
 ALTER TABLE tactical_symbols ENABLE ROW LEVEL SECURITY;
 
+-- Mirrors canSeeTeamData in shared/types: team-scoped rows are visible to that team and game masters
+CREATE OR REPLACE FUNCTION can_see_team_data(p_room_id UUID, p_team_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM room_members 
+    WHERE room_id = p_room_id 
+      AND user_id = auth.uid()
+      AND (p_team_id IS NULL OR role = 'game_master' OR team_id = p_team_id)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
 -- Users policies
 CREATE POLICY "Users can view their own profile" ON users
   FOR ALL USING (auth.uid() = id);
@@ -181,11 +320,15 @@ CREATE POLICY "Users can view room members of their rooms" ON room_members
 CREATE POLICY "Users can leave rooms" ON room_members
   FOR DELETE USING (user_id = auth.uid());
 
--- User positions policies
-CREATE POLICY "Users can manage their own positions" ON user_positions
-  FOR ALL USING (user_id = auth.uid());
+-- Teams policies
+CREATE POLICY "Room owners can manage teams" ON teams
+  FOR ALL USING (
+    room_id IN (
+      SELECT id FROM rooms WHERE owner_id = auth.uid()
+    )
+  );
 
-CREATE POLICY "Room members can view positions in their rooms" ON user_positions
+CREATE POLICY "Room members can view teams of their rooms" ON teams
   FOR SELECT USING (
     room_id IN (
       SELECT room_id FROM room_members 
@@ -193,11 +336,8 @@ CREATE POLICY "Room members can view positions in their rooms" ON user_positions
     )
   );
 
--- Tactical symbols policies
-CREATE POLICY "Symbol creators can manage their symbols" ON tactical_symbols
-  FOR ALL USING (created_by = auth.uid());
-
-CREATE POLICY "Room members can view symbols in their rooms" ON tactical_symbols
+-- Game session policies (sessions are changed through GameSessionService)
+CREATE POLICY "Room members can view sessions of their rooms" ON game_sessions
   FOR SELECT USING (
     room_id IN (
       SELECT room_id FROM room_members 
@@ -205,6 +345,47 @@ CREATE POLICY "Room members can view symbols in their rooms" ON tactical_symbols
     )
   );
 
+-- User positions policies
+CREATE POLICY "Users can manage their own positions" ON user_positions
+  FOR ALL USING (user_id = auth.uid());
+
+CREATE POLICY "Teammates can view positions in their rooms" ON user_positions
+  FOR SELECT USING (
+    can_see_team_data(room_id, (
+      SELECT team_id FROM room_members rm 
+      WHERE rm.room_id = user_positions.room_id AND rm.user_id = user_positions.user_id
+    ))
+  );
+
+-- Position history policies
+CREATE POLICY "Teammates can view tracks in their rooms" ON position_history
+  FOR SELECT USING (
+    can_see_team_data(room_id, (
+      SELECT team_id FROM room_members rm 
+      WHERE rm.room_id = position_history.room_id AND rm.user_id = position_history.user_id
+    ))
+  );
+
+-- Room event policies
+CREATE POLICY "Room members can view events in their rooms" ON room_events
+  FOR SELECT USING (can_see_team_data(room_id, team_id));
+
+-- Chat message policies
+CREATE POLICY "Room members can view messages of their channels" ON chat_messages
+  FOR SELECT USING (can_see_team_data(room_id, team_id));
+
+CREATE POLICY "Room members can post messages in their rooms" ON chat_messages
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid() AND can_see_team_data(room_id, team_id)
+  );
+
+-- Tactical symbols policies
+CREATE POLICY "Symbol creators can manage their symbols" ON tactical_symbols
+  FOR ALL USING (created_by = auth.uid());
+
+CREATE POLICY "Room members can view symbols in their rooms" ON tactical_symbols
+  FOR SELECT USING (can_see_team_data(room_id, team_id));
+
 CREATE POLICY "Room members can create symbols in their rooms" ON tactical_symbols
   FOR INSERT WITH CHECK (
     room_id IN (
@@ -237,6 +418,24 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+-- Function to clean up old track samples (optional, for maintenance)
+CREATE OR REPLACE FUNCTION cleanup_old_position_history()
+RETURNS void AS $$
+BEGIN
+  DELETE FROM position_history 
+  WHERE recorded_at < NOW() - INTERVAL '30 days';
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to clean up old replay events (optional, for maintenance)
+CREATE OR REPLACE FUNCTION cleanup_old_room_events()
+RETURNS void AS $$
+BEGIN
+  DELETE FROM room_events 
+  WHERE occurred_at < NOW() - INTERVAL '30 days';
+END;
+$$ LANGUAGE plpgsql;
+
 -- Views for common queries
 CREATE VIEW room_details AS
 SELECT 
@@ -0,0 +1,123 @@
+import { supabaseAdmin } from './supabase';
+import { getActiveSessionId } from './gameSessionService';
+import { 
+  ChatChannel,
+  ChatMessage, 
+  SendChatMessageRequest,
+  AppError,
+  AuthorizationError 
+} from '@/shared/types';
+
+export class ChatService {
+  /**
+   * Post a message to the room-wide or the sender's team channel
+   */
+  async sendMessage(userId: string, messageData: SendChatMessageRequest): Promise<ChatMessage> {
+    const membership = await this.getMembership(messageData.roomId, userId);
+    const teamId = messageData.channel === 'team' ? this.requireTeam(membership) : null;
+
+    const { data, error } = await supabaseAdmin
+      .from('chat_messages')
+      .insert({
+        room_id: messageData.roomId,
+        user_id: userId,
+        team_id: teamId,
+        body: messageData.body,
+        session_id: await getActiveSessionId(messageData.roomId),
+      })
+      .select(`
+        *,
+        users (username)
+      `)
+      .single();
+
+    if (error) {
+      throw new AppError(`Failed to send message: ${error.message}`, 500);
+    }
+
+    return this.mapChatMessage(data);
+  }
+
+  /**
+   * Get one page of a channel, newest first, optionally limited to one game session
+   */
+  async getMessages(
+    roomId: string, 
+    userId: string, 
+    channel: ChatChannel, 
+    page: number = 1, 
+    limit: number = 50,
+    sessionId?: string
+  ): Promise<{ messages: ChatMessage[]; total: number }> {
+    const membership = await this.getMembership(roomId, userId);
+
+    let query = supabaseAdmin
+      .from('chat_messages')
+      .select(`
+        *,
+        users (username)
+      `, { count: 'exact' })
+      .eq('room_id', roomId);
+
+    if (channel === 'all') {
+      query = query.is('team_id', null);
+    } else if (membership.role === 'game_master') {
+      // Game masters follow every team channel at once
+      query = query.not('team_id', 'is', null);
+    } else {
+      query = query.eq('team_id', this.requireTeam(membership));
+    }
+
+    if (sessionId) query = query.eq('session_id', sessionId);
+
+    const from = (page - 1) * limit;
+    const { data: messages, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range(from, from + limit - 1);
+
+    if (error) {
+      throw new AppError(`Failed to get messages: ${error.message}`, 500);
+    }
+
+    return {
+      messages: messages.map((message: any) => this.mapChatMessage(message)),
+      total: count || 0,
+    };
+  }
+
+  private async getMembership(roomId: string, userId: string): Promise<{ role: string; team_id: string | null }> {
+    // Verify user is a member of the room
+    const { data: membership } = await supabaseAdmin
+      .from('room_members')
+      .select('role, team_id')
+      .eq('room_id', roomId)
+      .eq('user_id', userId)
+      .single();
+
+    if (!membership) {
+      throw new AuthorizationError('You are not a member of this room');
+    }
+
+    return membership;
+  }
+
+  private requireTeam(membership: { team_id: string | null }): string {
+    if (!membership.team_id) {
+      throw new AppError('You are not on a team', 400);
+    }
+    return membership.team_id;
+  }
+
+  private mapChatMessage(message: any): ChatMessage {
+    return {
+      id: message.id,
+      roomId: message.room_id,
+      userId: message.user_id,
+      username: message.users?.username || 'Unknown',
+      teamId: message.team_id ?? undefined,
+      body: message.body,
+      sessionId: message.session_id ?? undefined,
+      createdAt: message.created_at,
+    };
+  }
+}
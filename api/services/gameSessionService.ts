@@ -0,0 +1,177 @@
+import { supabaseAdmin } from './supabase';
+import {
+  GameSession,
+  GameSessionAction,
+  CreateGameSessionRequest,
+  applyGameSessionAction,
+  AppError,
+  NotFoundError,
+  AuthorizationError,
+  ConflictError
+} from '@/shared/types';
+
+/**
+ * The room's session that is running or paused, if any. Rows written through the API while
+ * a match is on are tagged with it, as the socket server does for its own writes.
+ */
+export async function getActiveSessionId(roomId: string): Promise<string | undefined> {
+  const { data } = await supabaseAdmin
+    .from('game_sessions')
+    .select('id')
+    .eq('room_id', roomId)
+    .in('status', ['running', 'paused'])
+    .maybeSingle();
+
+  return data?.id ?? undefined;
+}
+
+// The socket server only picks up sessions changed here once the caller sends it session_update
+export class GameSessionService {
+  /**
+   * Get the sessions played in a room, newest first
+   */
+  async getSessions(roomId: string, userId: string): Promise<GameSession[]> {
+    await this.getMembership(roomId, userId);
+
+    const { data: sessions, error } = await supabaseAdmin
+      .from('game_sessions')
+      .select('*')
+      .eq('room_id', roomId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new AppError(`Failed to get game sessions: ${error.message}`, 500);
+    }
+
+    return sessions.map((session: any) => this.mapSession(session));
+  }
+
+  /**
+   * Open a new session in the lobby; the room's previous session must have ended (owner/admin only)
+   */
+  async createSession(roomId: string, userId: string, sessionData: CreateGameSessionRequest): Promise<GameSession> {
+    await this.requireRoomManager(roomId, userId);
+
+    const { data: current } = await supabaseAdmin
+      .from('game_sessions')
+      .select('id')
+      .eq('room_id', roomId)
+      .neq('status', 'ended')
+      .maybeSingle();
+
+    if (current) {
+      throw new ConflictError('End the current session before starting a new one');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('game_sessions')
+      .insert({
+        room_id: roomId,
+        name: sessionData.name || null,
+        countdown_seconds: sessionData.countdownSeconds,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new AppError(`Failed to create game session: ${error.message}`, 500);
+    }
+
+    return this.mapSession(data);
+  }
+
+  /**
+   * Start, pause, resume or end a session (owner/admin only)
+   */
+  async updateSession(roomId: string, sessionId: string, userId: string, action: GameSessionAction): Promise<GameSession> {
+    await this.requireRoomManager(roomId, userId);
+
+    const { data: existing } = await supabaseAdmin
+      .from('game_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .eq('room_id', roomId)
+      .single();
+
+    if (!existing) {
+      throw new NotFoundError('Session not found');
+    }
+
+    const session = this.mapSession(existing);
+    const next = applyGameSessionAction(session, action);
+    if (!next) {
+      throw new ConflictError(`Cannot ${action} a session that is ${session.status}`, session);
+    }
+
+    // Matching on the old state keeps two admins from applying actions over each other
+    const { data, error } = await supabaseAdmin
+      .from('game_sessions')
+      .update({
+        status: next.status,
+        elapsed_ms: next.elapsedMs,
+        clock_started_at: next.clockStartedAt ?? null,
+        started_at: next.startedAt ?? null,
+        ended_at: next.endedAt ?? null,
+      })
+      .eq('id', sessionId)
+      .eq('status', session.status)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new AppError(`Failed to update game session: ${error.message}`, 500);
+    }
+
+    if (!data) {
+      throw new ConflictError('The session was changed by someone else');
+    }
+
+    return this.mapSession(data);
+  }
+
+  private async getMembership(roomId: string, userId: string): Promise<{ role: string }> {
+    // Verify user is a member of the room
+    const { data: membership } = await supabaseAdmin
+      .from('room_members')
+      .select('role')
+      .eq('room_id', roomId)
+      .eq('user_id', userId)
+      .single();
+
+    if (!membership) {
+      throw new AuthorizationError('You are not a member of this room');
+    }
+
+    return membership;
+  }
+
+  /**
+   * Verify the user is the owner or an admin of the room
+   */
+  private async requireRoomManager(roomId: string, userId: string): Promise<void> {
+    const membership = await this.getMembership(roomId, userId);
+
+    if (membership.role !== 'owner' && membership.role !== 'admin') {
+      throw new AuthorizationError('Only room owners and admins can manage game sessions');
+    }
+  }
+
+  private mapSession(session: any): GameSession {
+    return {
+      id: session.id,
+      roomId: session.room_id,
+      name: session.name ?? undefined,
+      status: session.status,
+      countdownSeconds: session.countdown_seconds,
+      elapsedMs: Number(session.elapsed_ms),
+      clockStartedAt: session.clock_started_at ?? undefined,
+      startedAt: session.started_at ?? undefined,
+      endedAt: session.ended_at ?? undefined,
+      scores: session.scores ?? undefined,
+      createdBy: session.created_by,
+      createdAt: session.created_at,
+      updatedAt: session.updated_at,
+    };
+  }
+}
@@ -1,10 +1,15 @@
 import { supabaseAdmin } from './supabase';
+import { getActiveSessionId } from './gameSessionService';
 import { 
   UserPosition, 
   UpdatePositionRequest, 
+  PositionSample,
+  Coordinates,
+  POSITION_HISTORY_DECIMATION,
   AppError,
   NotFoundError,
-  AuthorizationError 
+  AuthorizationError,
+  canSeeTeamData 
 } from '@/shared/types';
 
 export class PositionService {
@@ -44,6 +49,8 @@ export class PositionService {
       throw new AppError(`Failed to update position: ${error.message}`, 500);
     }
 
+    await this.appendPositionSample(userId, positionData.roomId, positionData.coordinates);
+
     return {
       id: data.id,
       userId: data.user_id,
@@ -60,6 +67,144 @@ export class PositionService {
     };
   }
 
+  /**
+   * Append a sample to the user's track, skipping samples that add no information.
+   * Returns the stored sample, or null when the sample was decimated.
+   */
+  async appendPositionSample(userId: string, roomId: string, coordinates: Coordinates): Promise<PositionSample | null> {
+    const { data: previous } = await supabaseAdmin
+      .from('position_history')
+      .select('latitude, longitude, recorded_at')
+      .eq('room_id', roomId)
+      .eq('user_id', userId)
+      .order('recorded_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const recordedAt = new Date(coordinates.timestamp);
+
+    if (previous) {
+      const elapsed = recordedAt.getTime() - new Date(previous.recorded_at).getTime();
+      const distance = this.calculateDistance(
+        previous.latitude,
+        previous.longitude,
+        coordinates.latitude,
+        coordinates.longitude
+      );
+
+      const moved = elapsed >= POSITION_HISTORY_DECIMATION.minIntervalMs &&
+                    distance >= POSITION_HISTORY_DECIMATION.minDistanceMeters;
+      const stale = elapsed >= POSITION_HISTORY_DECIMATION.maxIntervalMs;
+
+      if (!moved && !stale) {
+        return null;
+      }
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('position_history')
+      .insert({
+        user_id: userId,
+        room_id: roomId,
+        latitude: coordinates.latitude,
+        longitude: coordinates.longitude,
+        accuracy: coordinates.accuracy,
+        heading: coordinates.heading,
+        recorded_at: recordedAt.toISOString(),
+        session_id: await getActiveSessionId(roomId),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new AppError(`Failed to record position sample: ${error.message}`, 500);
+    }
+
+    return this.mapPositionSample(data);
+  }
+
+  /**
+   * Get a member's recorded track within a time window, optionally limited to one game session
+   */
+  async getPositionHistory(
+    roomId: string,
+    userId: string,
+    targetUserId: string,
+    from?: string,
+    to?: string,
+    sessionId?: string
+  ): Promise<PositionSample[]> {
+    // Verify user is a member of the room
+    const { data: membership } = await supabaseAdmin
+      .from('room_members')
+      .select('*')
+      .eq('room_id', roomId)
+      .eq('user_id', userId)
+      .single();
+
+    if (!membership) {
+      throw new AuthorizationError('You are not a member of this room');
+    }
+
+    const memberTeams = await this.getMemberTeams(roomId);
+    if (!canSeeTeamData({ role: membership.role, teamId: membership.team_id }, memberTeams.get(targetUserId))) {
+      throw new AuthorizationError('You can only view tracks of your own team');
+    }
+
+    let query = supabaseAdmin
+      .from('position_history')
+      .select('*')
+      .eq('room_id', roomId)
+      .eq('user_id', targetUserId);
+
+    if (from) query = query.gte('recorded_at', from);
+    if (to) query = query.lte('recorded_at', to);
+    if (sessionId) query = query.eq('session_id', sessionId);
+
+    const { data: samples, error } = await query
+      .order('recorded_at', { ascending: true })
+      .limit(5000);
+
+    if (error) {
+      throw new AppError(`Failed to get position history: ${error.message}`, 500);
+    }
+
+    return samples.map((sample: any) => this.mapPositionSample(sample));
+  }
+
+  /**
+   * Map of member user IDs to their team in a room
+   */
+  private async getMemberTeams(roomId: string): Promise<Map<string, string | null>> {
+    const { data: members, error } = await supabaseAdmin
+      .from('room_members')
+      .select('user_id, team_id')
+      .eq('room_id', roomId);
+
+    if (error) {
+      throw new AppError(`Failed to get room members: ${error.message}`, 500);
+    }
+
+    return new Map(members.map((member: any) => [member.user_id, member.team_id]));
+  }
+
+  private mapPositionSample(sample: any): PositionSample {
+    return {
+      id: sample.id,
+      userId: sample.user_id,
+      roomId: sample.room_id,
+      coordinates: {
+        latitude: sample.latitude,
+        longitude: sample.longitude,
+        accuracy: sample.accuracy ?? undefined,
+        heading: sample.heading ?? undefined,
+        timestamp: sample.recorded_at,
+      },
+      recordedAt: sample.recorded_at,
+      sessionId: sample.session_id ?? undefined,
+    };
+  }
+
   /**
    * Get all positions in a room
    */
@@ -89,24 +234,30 @@ export class PositionService {
       throw new AppError(`Failed to get room positions: ${error.message}`, 500);
     }
 
-    return positions.map((pos: any) => ({
-      id: pos.id,
-      userId: pos.user_id,
-      roomId: pos.room_id,
-      coordinates: {
-        latitude: pos.latitude,
-        longitude: pos.longitude,
-        accuracy: pos.accuracy,
-        heading: pos.heading,
-        timestamp: pos.last_updated,
-      },
-      isVisible: pos.is_visible,
-      lastUpdated: pos.last_updated,
-      user: {
-        username: pos.users.username,
-        avatar: pos.users.avatar,
-      },
-    }));
+    // Positions are only shared with teammates, game masters see everyone
+    const viewer = { role: membership.role, teamId: membership.team_id };
+    const memberTeams = await this.getMemberTeams(roomId);
+
+    return positions
+      .filter((pos: any) => canSeeTeamData(viewer, memberTeams.get(pos.user_id)))
+      .map((pos: any) => ({
+        id: pos.id,
+        userId: pos.user_id,
+        roomId: pos.room_id,
+        coordinates: {
+          latitude: pos.latitude,
+          longitude: pos.longitude,
+          accuracy: pos.accuracy,
+          heading: pos.heading,
+          timestamp: pos.last_updated,
+        },
+        isVisible: pos.is_visible,
+        lastUpdated: pos.last_updated,
+        user: {
+          username: pos.users.username,
+          avatar: pos.users.avatar,
+        },
+      }));
   }
 
   /**
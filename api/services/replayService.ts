@@ -0,0 +1,67 @@
+import { supabaseAdmin } from './supabase';
+import { 
+  SocketEvent,
+  AppError,
+  AuthorizationError 
+} from '@/shared/types';
+
+// Upper bound on events returned for one replay window; longer windows keep their newest events
+const MAX_REPLAY_EVENTS = 20000;
+
+export class ReplayService {
+  /**
+   * Get the recorded socket events of a room in chronological order, optionally those of one game session.
+   * When the window holds more than MAX_REPLAY_EVENTS, the most recent ones are returned.
+   */
+  async getRoomEvents(roomId: string, userId: string, from?: string, to?: string, sessionId?: string): Promise<SocketEvent[]> {
+    // Verify user is a member of the room
+    const { data: membership } = await supabaseAdmin
+      .from('room_members')
+      .select('*')
+      .eq('room_id', roomId)
+      .eq('user_id', userId)
+      .single();
+
+    if (!membership) {
+      throw new AuthorizationError('You are not a member of this room');
+    }
+
+    let query = supabaseAdmin
+      .from('room_events')
+      .select('*')
+      .eq('room_id', roomId);
+
+    // Team-scoped events are only replayed to that team and game masters
+    if (membership.role !== 'game_master') {
+      query = membership.team_id
+        ? query.or(`team_id.is.null,team_id.eq.${membership.team_id}`)
+        : query.is('team_id', null);
+    }
+
+    if (from) query = query.gte('occurred_at', from);
+    if (to) query = query.lte('occurred_at', to);
+    if (sessionId) query = query.eq('session_id', sessionId);
+
+    // Read from the newest end so a long-lived room replays its latest match, not its first
+    const { data: events, error } = await query
+      .order('occurred_at', { ascending: false })
+      .limit(MAX_REPLAY_EVENTS);
+
+    if (error) {
+      throw new AppError(`Failed to get room events: ${error.message}`, 500);
+    }
+
+    return events.reverse().map((event: any) => this.mapRoomEvent(event));
+  }
+
+  private mapRoomEvent(event: any): SocketEvent {
+    return {
+      type: event.type,
+      roomId: event.room_id,
+      userId: event.user_id,
+      data: event.data,
+      timestamp: event.occurred_at,
+      sessionId: event.session_id ?? undefined,
+    };
+  }
+}
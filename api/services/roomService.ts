@@ -6,6 +6,10 @@ import {
   JoinRoomRequest, 
   User,
   RoomMember,
+  RoomRole,
+  Team,
+  CreateTeamRequest,
+  UpdateMemberRequest,
   AppError,
   NotFoundError,
   AuthorizationError 
@@ -49,6 +53,8 @@ export class RoomService {
         is_private: roomData.isPrivate,
         password_hash: passwordHash,
         max_members: roomData.maxMembers,
+        bleed_out_seconds: roomData.bleedOutSeconds,
+        respawn_seconds: roomData.respawnSeconds,
       })
       .select()
       .single();
@@ -68,6 +74,8 @@ export class RoomService {
       ownerId: data.owner_id,
       isPrivate: data.is_private,
       maxMembers: data.max_members,
+      bleedOutSeconds: data.bleed_out_seconds,
+      respawnSeconds: data.respawn_seconds,
       createdAt: data.created_at,
       updatedAt: data.updated_at,
     };
@@ -118,7 +126,8 @@ export class RoomService {
         room_members (
           *,
           users (*)
-        )
+        ),
+        teams (*)
       `)
       .eq('id', roomId)
       .single();
@@ -136,6 +145,8 @@ export class RoomService {
       ownerId: roomWithMembers.owner_id,
       isPrivate: roomWithMembers.is_private,
       maxMembers: roomWithMembers.max_members,
+      bleedOutSeconds: roomWithMembers.bleed_out_seconds,
+      respawnSeconds: roomWithMembers.respawn_seconds,
       createdAt: roomWithMembers.created_at,
       updatedAt: roomWithMembers.updated_at,
       members: roomWithMembers.room_members?.map((member: any) => ({
@@ -143,6 +154,8 @@ export class RoomService {
         roomId: member.room_id,
         userId: member.user_id,
         role: member.role,
+        teamId: member.team_id ?? undefined,
+        isMedic: member.is_medic ?? false,
         isOnline: member.is_online,
         lastSeen: member.last_seen,
         joinedAt: member.joined_at,
@@ -156,6 +169,7 @@ export class RoomService {
         },
       })) || [],
       memberCount: roomWithMembers.room_members?.length || 0,
+      teams: roomWithMembers.teams?.map((team: any) => this.mapTeam(team)) || [],
     };
   }
 
@@ -217,7 +231,7 @@ export class RoomService {
   /**
    * Add a member to a room
    */
-  private async addMemberToRoom(roomId: string, userId: string, role: 'owner' | 'admin' | 'member'): Promise<void> {
+  private async addMemberToRoom(roomId: string, userId: string, role: RoomRole): Promise<void> {
     const { error } = await supabaseAdmin
       .from('room_members')
       .insert({
@@ -341,6 +355,8 @@ export class RoomService {
     if (updates.description !== undefined) updateData.description = updates.description;
     if (updates.isPrivate !== undefined) updateData.is_private = updates.isPrivate;
     if (updates.maxMembers !== undefined) updateData.max_members = updates.maxMembers;
+    if (updates.bleedOutSeconds !== undefined) updateData.bleed_out_seconds = updates.bleedOutSeconds;
+    if (updates.respawnSeconds !== undefined) updateData.respawn_seconds = updates.respawnSeconds;
     if (updates.password !== undefined) {
       updateData.password_hash = updates.password ? this.hashPassword(updates.password) : null;
     }
@@ -364,8 +380,128 @@ export class RoomService {
       ownerId: data.owner_id,
       isPrivate: data.is_private,
       maxMembers: data.max_members,
+      bleedOutSeconds: data.bleed_out_seconds,
+      respawnSeconds: data.respawn_seconds,
       createdAt: data.created_at,
       updatedAt: data.updated_at,
     };
   }
+
+  /**
+   * Create a team in a room (owner/admin only)
+   */
+  async createTeam(roomId: string, userId: string, teamData: CreateTeamRequest): Promise<Team> {
+    await this.requireRoomManager(roomId, userId);
+
+    const { data, error } = await supabaseAdmin
+      .from('teams')
+      .insert({
+        room_id: roomId,
+        name: teamData.name,
+        color: teamData.color,
+        callsign_prefix: teamData.callsignPrefix,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new AppError(`Failed to create team: ${error.message}`, 500);
+    }
+
+    return this.mapTeam(data);
+  }
+
+  /**
+   * Delete a team; its members become unassigned (owner/admin only)
+   */
+  async deleteTeam(roomId: string, userId: string, teamId: string): Promise<void> {
+    await this.requireRoomManager(roomId, userId);
+
+    const { error } = await supabaseAdmin
+      .from('teams')
+      .delete()
+      .eq('id', teamId)
+      .eq('room_id', roomId);
+
+    if (error) {
+      throw new AppError(`Failed to delete team: ${error.message}`, 500);
+    }
+  }
+
+  /**
+   * Assign a member to a team, change their role or mark them as a medic (owner/admin only)
+   */
+  async updateMember(roomId: string, userId: string, updates: UpdateMemberRequest): Promise<void> {
+    await this.requireRoomManager(roomId, userId);
+
+    const { data: target } = await supabaseAdmin
+      .from('room_members')
+      .select('role')
+      .eq('room_id', roomId)
+      .eq('user_id', updates.userId)
+      .single();
+
+    if (!target) {
+      throw new NotFoundError('Member not found');
+    }
+
+    if (updates.role && target.role === 'owner') {
+      throw new AuthorizationError('The room owner\'s role cannot be changed');
+    }
+
+    if (updates.teamId) {
+      const { data: team } = await supabaseAdmin
+        .from('teams')
+        .select('id')
+        .eq('id', updates.teamId)
+        .eq('room_id', roomId)
+        .single();
+
+      if (!team) {
+        throw new NotFoundError('Team not found');
+      }
+    }
+
+    const updateData: any = {};
+    if (updates.teamId !== undefined) updateData.team_id = updates.teamId;
+    if (updates.role !== undefined) updateData.role = updates.role;
+    if (updates.isMedic !== undefined) updateData.is_medic = updates.isMedic;
+
+    const { error } = await supabaseAdmin
+      .from('room_members')
+      .update(updateData)
+      .eq('room_id', roomId)
+      .eq('user_id', updates.userId);
+
+    if (error) {
+      throw new AppError(`Failed to update member: ${error.message}`, 500);
+    }
+  }
+
+  /**
+   * Verify the user is the owner or an admin of the room
+   */
+  private async requireRoomManager(roomId: string, userId: string): Promise<void> {
+    const { data: membership } = await supabaseAdmin
+      .from('room_members')
+      .select('role')
+      .eq('room_id', roomId)
+      .eq('user_id', userId)
+      .single();
+
+    if (!membership || (membership.role !== 'owner' && membership.role !== 'admin')) {
+      throw new AuthorizationError('Only room owners and admins can manage teams');
+    }
+  }
+
+  private mapTeam(team: any): Team {
+    return {
+      id: team.id,
+      roomId: team.room_id,
+      name: team.name,
+      color: team.color,
+      callsignPrefix: team.callsign_prefix ?? undefined,
+      createdAt: team.created_at,
+    };
+  }
 }
@@ -1,11 +1,19 @@
 import { supabaseAdmin } from './supabase';
+import { getActiveSessionId } from './gameSessionService';
 import { 
   TacticalSymbol, 
   CreateSymbolRequest, 
   UpdateSymbolRequest,
   AppError,
   NotFoundError,
-  AuthorizationError 
+  AuthorizationError,
+  ConflictError,
+  canSeeTeamData,
+  clampSymbolExpiry,
+  fromSymbolShape,
+  getDefaultAffiliation,
+  toSymbolShape,
+  SymbolAffiliation
 } from '@/shared/types';
 
 export class SymbolService {
@@ -25,6 +33,19 @@ export class SymbolService {
       throw new AuthorizationError('You are not a member of this room');
     }
 
+    // Only game masters may place symbols for a team other than their own
+    if (symbolData.teamId && symbolData.teamId !== membership.team_id && membership.role !== 'game_master') {
+      throw new AuthorizationError('You can only share symbols with your own team');
+    }
+
+    if (symbolData.geofence && membership.role === 'member') {
+      throw new AuthorizationError('Only room admins can set geofences');
+    }
+
+    if (symbolData.capture && membership.role === 'member') {
+      throw new AuthorizationError('Only room admins can set capture rules');
+    }
+
     const { data, error } = await supabaseAdmin
       .from('tactical_symbols')
       .insert({
@@ -38,6 +59,22 @@ export class SymbolService {
         color: symbolData.color,
         size: symbolData.size,
         rotation: symbolData.rotation,
+        team_id: symbolData.teamId,
+        affiliation: symbolData.affiliation ?? getDefaultAffiliation(symbolData.type),
+        status: symbolData.status,
+        confidence: symbolData.confidence,
+        echelon: symbolData.echelon,
+        unique_designation: symbolData.uniqueDesignation,
+        quantity: symbolData.quantity,
+        dtg: symbolData.dtg,
+        shape: toSymbolShape(symbolData.geometry),
+        radius_meters: symbolData.geometry?.kind === 'circle' ? symbolData.geometry.radiusMeters : null,
+        assigned_to: symbolData.assignedTo,
+        geofence: symbolData.geofence,
+        capture: symbolData.capture,
+        spot_report: symbolData.spotReport,
+        expires_at: clampSymbolExpiry(symbolData.expiresAt),
+        session_id: await getActiveSessionId(symbolData.roomId),
       })
       .select()
       .single();
@@ -46,30 +83,13 @@ export class SymbolService {
       throw new AppError(`Failed to create symbol: ${error.message}`, 500);
     }
 
-    return {
-      id: data.id,
-      roomId: data.room_id,
-      createdBy: data.created_by,
-      type: data.type,
-      coordinates: {
-        latitude: data.latitude,
-        longitude: data.longitude,
-      },
-      label: data.label,
-      description: data.description,
-      color: data.color,
-      size: data.size,
-      rotation: data.rotation,
-      isVisible: data.is_visible,
-      createdAt: data.created_at,
-      updatedAt: data.updated_at,
-    };
+    return this.mapSymbol(data);
   }
 
   /**
-   * Get all symbols in a room
+   * Get all symbols in a room, optionally only those with the given affiliations
    */
-  async getRoomSymbols(roomId: string, userId: string): Promise<TacticalSymbol[]> {
+  async getRoomSymbols(roomId: string, userId: string, affiliations?: SymbolAffiliation[]): Promise<TacticalSymbol[]> {
     // Verify user is a member of the room
     const { data: membership } = await supabaseAdmin
       .from('room_members')
@@ -82,7 +102,7 @@ export class SymbolService {
       throw new AuthorizationError('You are not a member of this room');
     }
 
-    const { data: symbols, error } = await supabaseAdmin
+    let query = supabaseAdmin
       .from('tactical_symbols')
       .select(`
         *,
@@ -90,29 +110,24 @@ export class SymbolService {
       `)
       .eq('room_id', roomId)
       .eq('is_visible', true)
-      .order('created_at', { ascending: false });
+      .is('archived_at', null)
+      .is('deleted_at', null);
+
+    if (affiliations && affiliations.length > 0) {
+      query = query.in('affiliation', affiliations);
+    }
+
+    const { data: symbols, error } = await query.order('created_at', { ascending: false });
 
     if (error) {
       throw new AppError(`Failed to get room symbols: ${error.message}`, 500);
     }
 
-    return symbols.map((symbol: any) => ({
-      id: symbol.id,
-      roomId: symbol.room_id,
-      createdBy: symbol.created_by,
-      type: symbol.type,
-      coordinates: {
-        latitude: symbol.latitude,
-        longitude: symbol.longitude,
-      },
-      label: symbol.label,
-      description: symbol.description,
-      color: symbol.color,
-      size: symbol.size,
-      rotation: symbol.rotation,
-      isVisible: symbol.is_visible,
-      createdAt: symbol.created_at,
-      updatedAt: symbol.updated_at,
+    // Team-private symbols are only returned to that team and game masters
+    const viewer = { role: membership.role, teamId: membership.team_id };
+
+    return symbols.filter((symbol: any) => canSeeTeamData(viewer, symbol.team_id)).map((symbol: any) => ({
+      ...this.mapSymbol(symbol),
       creator: {
         username: symbol.users.username,
         avatar: symbol.users.avatar,
@@ -127,11 +142,11 @@ export class SymbolService {
     // Verify symbol exists and user has permission
     const { data: existingSymbol } = await supabaseAdmin
       .from('tactical_symbols')
-      .select('created_by, room_id')
+      .select('*')
       .eq('id', symbolId)
       .single();
 
-    if (!existingSymbol) {
+    if (!existingSymbol || existingSymbol.deleted_at) {
       throw new NotFoundError('Symbol not found');
     }
 
@@ -149,14 +164,28 @@ export class SymbolService {
 
     const canEdit = existingSymbol.created_by === userId || 
                    membership.role === 'owner' || 
-                   membership.role === 'admin';
+                   membership.role === 'admin' ||
+                   membership.role === 'game_master';
 
     if (!canEdit) {
       throw new AuthorizationError('You can only edit your own symbols');
     }
 
-    // Build update object
-    const updateData: any = {};
+    if ((existingSymbol.geofence || updates.geofence !== undefined) && membership.role === 'member') {
+      throw new AuthorizationError('Only room admins can edit geofences');
+    }
+
+    if (updates.capture !== undefined && membership.role === 'member') {
+      throw new AuthorizationError('Only room admins can change capture rules');
+    }
+
+    // Optimistic concurrency: an edit made against an older version must not overwrite a newer change
+    if (updates.version !== undefined && updates.version !== existingSymbol.version) {
+      throw new ConflictError('Symbol was modified by someone else', this.mapSymbol(existingSymbol));
+    }
+
+    // Build update object; a null update clears the column
+    const updateData: any = { version: existingSymbol.version + 1 };
     if (updates.coordinates) {
       updateData.latitude = updates.coordinates.latitude;
       updateData.longitude = updates.coordinates.longitude;
@@ -167,50 +196,58 @@ export class SymbolService {
     if (updates.size !== undefined) updateData.size = updates.size;
     if (updates.rotation !== undefined) updateData.rotation = updates.rotation;
     if (updates.isVisible !== undefined) updateData.is_visible = updates.isVisible;
+    if (updates.affiliation !== undefined) updateData.affiliation = updates.affiliation;
+    if (updates.status !== undefined) updateData.status = updates.status;
+    if (updates.confidence !== undefined) updateData.confidence = updates.confidence;
+    if (updates.echelon !== undefined) updateData.echelon = updates.echelon;
+    if (updates.uniqueDesignation !== undefined) updateData.unique_designation = updates.uniqueDesignation;
+    if (updates.quantity !== undefined) updateData.quantity = updates.quantity;
+    if (updates.dtg !== undefined) updateData.dtg = updates.dtg;
+    if (updates.assignedTo !== undefined) updateData.assigned_to = updates.assignedTo;
+    if (updates.geofence !== undefined) updateData.geofence = updates.geofence;
+    if (updates.capture !== undefined) updateData.capture = updates.capture;
+    if (updates.geometry) {
+      updateData.shape = toSymbolShape(updates.geometry);
+      updateData.radius_meters = updates.geometry.kind === 'circle' ? updates.geometry.radiusMeters : null;
+    }
 
     const { data, error } = await supabaseAdmin
       .from('tactical_symbols')
       .update(updateData)
       .eq('id', symbolId)
+      .eq('version', existingSymbol.version)
       .select()
-      .single();
+      .maybeSingle();
 
     if (error) {
       throw new AppError(`Failed to update symbol: ${error.message}`, 500);
     }
 
-    return {
-      id: data.id,
-      roomId: data.room_id,
-      createdBy: data.created_by,
-      type: data.type,
-      coordinates: {
-        latitude: data.latitude,
-        longitude: data.longitude,
-      },
-      label: data.label,
-      description: data.description,
-      color: data.color,
-      size: data.size,
-      rotation: data.rotation,
-      isVisible: data.is_visible,
-      createdAt: data.created_at,
-      updatedAt: data.updated_at,
-    };
+    // Another write landed between the read and the update
+    if (!data) {
+      const { data: current } = await supabaseAdmin
+        .from('tactical_symbols')
+        .select('*')
+        .eq('id', symbolId)
+        .single();
+      throw new ConflictError('Symbol was modified by someone else', current ? this.mapSymbol(current) : undefined);
+    }
+
+    return this.mapSymbol(data);
   }
 
   /**
-   * Delete a tactical symbol
+   * Delete a tactical symbol. The row is kept with deleted_at set so restoreSymbol can undo it.
    */
   async deleteSymbol(symbolId: string, userId: string): Promise<void> {
     // Verify symbol exists and user has permission
     const { data: existingSymbol } = await supabaseAdmin
       .from('tactical_symbols')
-      .select('created_by, room_id')
+      .select('created_by, room_id, deleted_at')
       .eq('id', symbolId)
       .single();
 
-    if (!existingSymbol) {
+    if (!existingSymbol || existingSymbol.deleted_at) {
       throw new NotFoundError('Symbol not found');
     }
 
@@ -228,7 +265,8 @@ export class SymbolService {
 
     const canDelete = existingSymbol.created_by === userId || 
                      membership.role === 'owner' || 
-                     membership.role === 'admin';
+                     membership.role === 'admin' ||
+                     membership.role === 'game_master';
 
     if (!canDelete) {
       throw new AuthorizationError('You can only delete your own symbols');
@@ -236,7 +274,7 @@ export class SymbolService {
 
     const { error } = await supabaseAdmin
       .from('tactical_symbols')
-      .delete()
+      .update({ deleted_at: new Date().toISOString() })
       .eq('id', symbolId);
 
     if (error) {
@@ -244,6 +282,54 @@ export class SymbolService {
     }
   }
 
+  /**
+   * Restore a deleted symbol under its original id
+   */
+  async restoreSymbol(symbolId: string, userId: string): Promise<TacticalSymbol> {
+    const { data: existingSymbol } = await supabaseAdmin
+      .from('tactical_symbols')
+      .select('created_by, room_id, deleted_at')
+      .eq('id', symbolId)
+      .single();
+
+    if (!existingSymbol || !existingSymbol.deleted_at) {
+      throw new NotFoundError('Deleted symbol not found');
+    }
+
+    const { data: membership } = await supabaseAdmin
+      .from('room_members')
+      .select('role')
+      .eq('room_id', existingSymbol.room_id)
+      .eq('user_id', userId)
+      .single();
+
+    if (!membership) {
+      throw new AuthorizationError('You are not a member of this room');
+    }
+
+    const canRestore = existingSymbol.created_by === userId || 
+                      membership.role === 'owner' || 
+                      membership.role === 'admin' ||
+                      membership.role === 'game_master';
+
+    if (!canRestore) {
+      throw new AuthorizationError('You can only restore your own symbols');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('tactical_symbols')
+      .update({ deleted_at: null })
+      .eq('id', symbolId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new AppError(`Failed to restore symbol: ${error.message}`, 500);
+    }
+
+    return this.mapSymbol(data);
+  }
+
   /**
    * Get symbols by type in a room
    */
@@ -275,6 +361,45 @@ export class SymbolService {
     });
   }
 
+  private mapSymbol(data: any): TacticalSymbol {
+    return {
+      id: data.id,
+      roomId: data.room_id,
+      createdBy: data.created_by,
+      type: data.type,
+      coordinates: {
+        latitude: data.latitude,
+        longitude: data.longitude,
+      },
+      label: data.label,
+      description: data.description,
+      color: data.color,
+      size: data.size,
+      rotation: data.rotation,
+      isVisible: data.is_visible,
+      teamId: data.team_id ?? undefined,
+      affiliation: data.affiliation,
+      status: data.status,
+      confidence: data.confidence,
+      echelon: data.echelon ?? undefined,
+      uniqueDesignation: data.unique_designation ?? undefined,
+      quantity: data.quantity ?? undefined,
+      dtg: data.dtg ?? undefined,
+      geometry: fromSymbolShape(data.shape, data.radius_meters),
+      assignedTo: data.assigned_to ?? undefined,
+      geofence: data.geofence ?? undefined,
+      capture: data.capture ?? undefined,
+      spotReport: data.spot_report ?? undefined,
+      expiresAt: data.expires_at ?? undefined,
+      archivedAt: data.archived_at ?? undefined,
+      deletedAt: data.deleted_at ?? undefined,
+      sessionId: data.session_id ?? undefined,
+      version: data.version,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at,
+    };
+  }
+
   /**
    * Calculate distance between two coordinates (in meters)
    */
@@ -316,7 +441,7 @@ export class SymbolService {
 
     const { error } = await supabaseAdmin
       .from('tactical_symbols')
-      .delete()
+      .update({ deleted_at: new Date().toISOString() })
       .eq('room_id', roomId)
       .in('id', symbolIds);
 
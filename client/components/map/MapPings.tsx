@@ -0,0 +1,138 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Marker, Popup, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import { Button } from '@/client/components/ui/button';
+import { Coordinates, MapPing, MapPingType } from '@/shared/types';
+import { calculateBearing, calculateDistance, formatBearing, formatDistance } from '@/client/lib/utils';
+
+export const PING_STYLES: Record<MapPingType, { label: string; icon: string; color: string }> = {
+  contact: { label: 'Contact', icon: '❗', color: '#DC2626' },
+  attention: { label: 'Attention', icon: '👁️', color: '#F59E0B' },
+  move_here: { label: 'Move Here', icon: '➜', color: '#2563EB' },
+};
+
+// Bearing and distance from the viewer to the ping, e.g. "045° NE • 320m"
+function describeOffset(ping: MapPing, from?: Coordinates): string | null {
+  if (!from) return null;
+
+  const bearing = calculateBearing(from.latitude, from.longitude, ping.coordinates.latitude, ping.coordinates.longitude);
+  const distance = calculateDistance(from.latitude, from.longitude, ping.coordinates.latitude, ping.coordinates.longitude);
+  return `${formatBearing(bearing)} • ${formatDistance(distance)}`;
+}
+
+// Flashing marker for a received ping
+export function PingMarker({ ping, userPosition }: { ping: MapPing; userPosition?: Coordinates }) {
+  const style = PING_STYLES[ping.type];
+  const offset = describeOffset(ping, userPosition);
+
+  const pingIcon = L.divIcon({
+    className: 'map-ping',
+    html: `
+      <div class="relative flex flex-col items-center">
+        <span class="absolute inline-flex h-10 w-10 rounded-full opacity-75 animate-ping" style="background-color: ${style.color}"></span>
+        <span class="relative inline-flex h-10 w-10 items-center justify-center rounded-full border-2 border-white text-lg shadow-lg" style="background-color: ${style.color}">${style.icon}</span>
+        <span class="mt-1 whitespace-nowrap rounded bg-black/70 px-1 text-xs text-white">${style.label}${offset ? ` • ${offset}` : ''}</span>
+      </div>
+    `,
+    iconSize: [40, 40],
+    iconAnchor: [20, 20],
+  });
+
+  return (
+    <Marker position={[ping.coordinates.latitude, ping.coordinates.longitude]} icon={pingIcon}>
+      <Popup>
+        <div className="text-sm">
+          <h3 className="font-semibold">{style.label}</h3>
+          <p>From: {ping.username}</p>
+          {offset && <p>{offset}</p>}
+        </div>
+      </Popup>
+    </Marker>
+  );
+}
+
+// Ping type picker opened by a long-press on the map
+export function PingPicker({
+  position,
+  onSelect,
+  onClose,
+}: {
+  position: [number, number];
+  onSelect: (type: MapPingType) => void;
+  onClose: () => void;
+}) {
+  return (
+    <Popup position={position} eventHandlers={{ remove: onClose }}>
+      <div className="flex flex-col gap-1">
+        {(Object.keys(PING_STYLES) as MapPingType[]).map((type) => (
+          <Button key={type} size="sm" variant="outline" onClick={() => onSelect(type)}>
+            <span className="mr-2">{PING_STYLES[type].icon}</span>
+            {PING_STYLES[type].label}
+          </Button>
+        ))}
+      </div>
+    </Popup>
+  );
+}
+
+// Arrows pinned to the map edge pointing at pings outside the viewport
+export function PingEdgeIndicators({ pings, userPosition }: { pings: MapPing[]; userPosition?: Coordinates }) {
+  const map = useMap();
+  const [, setViewVersion] = useState(0);
+
+  useEffect(() => {
+    const handleMove = () => setViewVersion(version => version + 1);
+    map.on('move zoom resize', handleMove);
+    return () => {
+      map.off('move zoom resize', handleMove);
+    };
+  }, [map]);
+
+  const bounds = map.getBounds();
+  const size = map.getSize();
+  const margin = 24;
+  const center = { x: size.x / 2, y: size.y / 2 };
+
+  return (
+    <div className="absolute inset-0 pointer-events-none" style={{ zIndex: 1000 }}>
+      {pings
+        .filter(ping => !bounds.contains([ping.coordinates.latitude, ping.coordinates.longitude]))
+        .map((ping) => {
+          const point = map.latLngToContainerPoint([ping.coordinates.latitude, ping.coordinates.longitude]);
+          const dx = point.x - center.x;
+          const dy = point.y - center.y;
+
+          // Scale the center-to-ping vector so it stops at the padded viewport edge
+          const scale = Math.min(
+            (center.x - margin) / Math.abs(dx || 1),
+            (center.y - margin) / Math.abs(dy || 1)
+          );
+          const x = center.x + dx * scale;
+          const y = center.y + dy * scale;
+          const angle = Math.atan2(dy, dx) * 180 / Math.PI;
+          const style = PING_STYLES[ping.type];
+          const offset = describeOffset(ping, userPosition);
+
+          return (
+            <div
+              key={ping.id}
+              className="absolute flex flex-col items-center"
+              style={{ left: x, top: y, transform: 'translate(-50%, -50%)' }}
+            >
+              <div
+                className="w-0 h-0 border-y-8 border-y-transparent border-l-[14px] animate-pulse"
+                style={{ borderLeftColor: style.color, transform: `rotate(${angle}deg)` }}
+              />
+              {offset && (
+                <span className="mt-1 whitespace-nowrap rounded bg-black/70 px-1 text-[10px] text-white">
+                  {offset}
+                </span>
+              )}
+            </div>
+          );
+        })}
+    </div>
+  );
+}
@@ -1,8 +1,8 @@
 'use client';
 
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import dynamic from 'next/dynamic';
-import { MapContainer, TileLayer, Marker, Popup, useMap, useMapEvents } from 'react-leaflet';
+import { MapContainer, Marker, Popup, Polyline, useMap, useMapEvents } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import { Button } from '@/client/components/ui/button';
@@ -14,10 +14,24 @@ import {
   Navigation,
   Grid3X3,
   Layers,
-  Settings 
+  Settings,
+  Download
 } from 'lucide-react';
-import { UserPosition, TacticalSymbol, Coordinates } from '@/shared/types';
-import { formatDistance, getNATOSymbolIcon, getSymbolColor } from '@/client/lib/utils';
+import { UserPosition, TacticalSymbol, TacticalSymbolType, Coordinates, PositionSample, Team, MapPing, MapPingType, SendPingRequest, SymbolGeometry, SymbolGeometryKind, SymbolVertex, SymbolAffiliation, SymbolAffiliationSchema, SpotReport, GeofenceKind, GeofenceKindSchema, ObjectiveState, MedicRequest, PlayerStatus, PlayerStatusSchema, PlayerStatusState, getDefaultAffiliation } from '@/shared/types';
+import { calculateDistance, convertToGridRef, formatDistance, formatDuration, formatTimestamp, GEOFENCE_LABELS, PLAYER_STATUS_LABELS, getDefaultGeometryKind, getGridSize, getShapeAnchor, getSpotReportOpacity, getSymbolColor, isCapturableObjective, isOutOfPlay, isRoute, isSpotReport, translateGeometry } from '@/client/lib/utils';
+import { getUtmZone, latLonToUtm, utmToLatLon } from '@/client/lib/mgrs';
+import { isFramedSymbol, renderMilSymbol } from '@/client/lib/milSymbol';
+import { PingMarker, PingPicker, PingEdgeIndicators } from './MapPings';
+import { describeGeometry, MIN_VERTICES, ShapeDraft, ShapeEditor, SHAPE_KINDS, SymbolShape } from './SymbolShapes';
+import { RouteDetails, RouteLine } from './Routes';
+import { ObjectiveDetails, ObjectiveRadius } from './Objectives';
+import SymbolModifiersForm from './SymbolModifiersForm';
+import SymbolAttributeControls from './SymbolAttributeControls';
+import SpotReportForm from './SpotReportForm';
+import SymbolEditPanel from './SymbolEditPanel';
+import OfflineTileLayer from './OfflineTileLayer';
+import OfflineAreasPanel from './OfflineAreasPanel';
+import { TileBounds } from '@/client/lib/tileCache';
 
 // Fix for default markers in react-leaflet
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -32,25 +46,52 @@ interface MapViewProps {
   userId: string;
   positions: UserPosition[];
   symbols: TacticalSymbol[];
+  memberNames?: Record<string, string>;
+  teams?: Team[];
+  memberTeams?: Record<string, string>;
+  teamId?: string;
+  tracks?: Record<string, PositionSample[]>;
+  pings?: MapPing[];
   userPosition?: Coordinates;
+  // Pans the map here whenever a new object is passed, e.g. from the spot report panel
+  focusPosition?: SymbolVertex;
+  readOnly?: boolean;
+  // Room admins and game masters set geofences, award objectives and correct player statuses
+  isReferee?: boolean;
+  // Capture state of objective symbols, by symbol id
+  objectives?: Record<string, ObjectiveState>;
+  // Hit and respawning players are greyed out, by user id
+  playerStatuses?: Record<string, PlayerStatusState>;
+  // Open medic requests; accepted ones are drawn as a line from the medic to the casualty
+  medicRequests?: MedicRequest[];
   onPositionUpdate: (position: Coordinates) => void;
-  onSymbolCreate: (symbol: Omit<TacticalSymbol, 'id' | 'createdAt' | 'updatedAt'>) => void;
+  onSymbolCreate: (symbol: Omit<TacticalSymbol, 'id' | 'version' | 'createdAt' | 'updatedAt'>) => void;
   onSymbolUpdate: (id: string, symbol: Partial<TacticalSymbol>) => void;
   onSymbolDelete: (id: string) => void;
+  onToggleTrack?: (userId: string) => void;
+  onPingCreate?: (type: MapPingType, coordinates: SendPingRequest['coordinates']) => void;
+  onObjectiveOverride?: (symbolId: string, ownerTeamId: string | null) => void;
+  onPlayerStatusChange?: (userId: string, status: PlayerStatus) => void;
 }
 
 // Component to handle map events
 function MapEventHandler({ 
   onMapClick, 
-  onMapMove 
+  onMapMove,
+  onMapLongPress,
 }: { 
   onMapClick: (lat: number, lng: number) => void;
   onMapMove: (center: L.LatLng, zoom: number) => void;
+  onMapLongPress?: (lat: number, lng: number) => void;
 }) {
   const map = useMapEvents({
     click: (e) => {
       onMapClick(e.latlng.lat, e.latlng.lng);
     },
+    // Leaflet emits contextmenu for a touch long-press as well as a right click
+    contextmenu: (e) => {
+      onMapLongPress?.(e.latlng.lat, e.latlng.lng);
+    },
     moveend: () => {
       onMapMove(map.getCenter(), map.getZoom());
     },
@@ -62,52 +103,90 @@ function MapEventHandler({
   return null;
 }
 
-// Grid overlay component
-function GridOverlay({ gridSize = 100 }: { gridSize?: number }) {
+// Grid line label: kilometres within the 100km MGRS square, e.g. "48" or "48.2"
+function formatGridLabel(value: number, gridSize: number): string {
+  const kilometres = (value % 100000) / 1000;
+  const decimals = gridSize >= 1000 ? 0 : gridSize >= 100 ? 1 : 2;
+  return kilometres.toFixed(decimals);
+}
+
+// UTM grid overlay aligned to the zone of the map center
+function GridOverlay() {
   const map = useMap();
-  const [gridLines, setGridLines] = useState<L.Polyline[]>([]);
 
   useEffect(() => {
+    const layer = L.layerGroup().addTo(map);
+    const lineStyle = { color: '#666666', weight: 1, opacity: 0.4, interactive: false };
+
     const updateGrid = () => {
-      // Clear existing grid lines
-      gridLines.forEach(line => map.removeLayer(line));
-      const newLines: L.Polyline[] = [];
+      layer.clearLayers();
 
-      const bounds = map.getBounds();
       const zoom = map.getZoom();
-      
       // Only show grid at appropriate zoom levels
       if (zoom < 12) return;
 
-      const latStep = gridSize / 111000; // Approximate meters to degrees
-      const lngStep = gridSize / (111000 * Math.cos(bounds.getCenter().lat * Math.PI / 180));
-
-      const minLat = Math.floor(bounds.getSouth() / latStep) * latStep;
-      const maxLat = Math.ceil(bounds.getNorth() / latStep) * latStep;
-      const minLng = Math.floor(bounds.getWest() / lngStep) * lngStep;
-      const maxLng = Math.ceil(bounds.getEast() / lngStep) * lngStep;
-
-      // Draw vertical lines
-      for (let lng = minLng; lng <= maxLng; lng += lngStep) {
-        const line = L.polyline([[minLat, lng], [maxLat, lng]], {
-          color: '#666666',
-          weight: 1,
-          opacity: 0.3,
-        }).addTo(map);
-        newLines.push(line);
-      }
+      const gridSize = getGridSize(zoom);
+      const bounds = map.getBounds();
+      const center = bounds.getCenter();
+      if (center.lat < -80 || center.lat > 84) return;
+
+      // Project the view corners into the center's zone so every line shares one easting/northing frame
+      const zone = getUtmZone(center.lat, center.lng);
+      const hemisphere = center.lat >= 0 ? 'N' : 'S';
+      const corners = [bounds.getSouthWest(), bounds.getNorthWest(), bounds.getNorthEast(), bounds.getSouthEast()]
+        .map(corner => latLonToUtm(Math.max(-80, Math.min(84, corner.lat)), corner.lng, zone));
+      const eastings = corners.map(corner => corner.easting);
+      const northings = corners.map(corner => corner.northing + (corner.hemisphere !== hemisphere ? (hemisphere === 'N' ? -10000000 : 10000000) : 0));
+
+      const minEasting = Math.floor(Math.min(...eastings) / gridSize) * gridSize;
+      const maxEasting = Math.ceil(Math.max(...eastings) / gridSize) * gridSize;
+      const minNorthing = Math.floor(Math.min(...northings) / gridSize) * gridSize;
+      const maxNorthing = Math.ceil(Math.max(...northings) / gridSize) * gridSize;
+
+      // Avoid flooding the map when the view is much larger than the grid
+      if ((maxEasting - minEasting) / gridSize > 200 || (maxNorthing - minNorthing) / gridSize > 200) return;
 
-      // Draw horizontal lines
-      for (let lat = minLat; lat <= maxLat; lat += latStep) {
-        const line = L.polyline([[lat, minLng], [lat, maxLng]], {
-          color: '#666666',
-          weight: 1,
-          opacity: 0.3,
-        }).addTo(map);
-        newLines.push(line);
+      const toLatLng = (easting: number, northing: number): [number, number] => {
+        const point = utmToLatLon({ zone, hemisphere, easting, northing });
+        return [point.latitude, point.longitude];
+      };
+      // Grid lines curve slightly away from the central meridian, so sample each one
+      const steps = 8;
+      const addLabel = (position: [number, number], text: string) => {
+        L.marker(position, {
+          interactive: false,
+          icon: L.divIcon({
+            className: 'grid-label',
+            html: `<span class="text-[10px] font-mono text-gray-700 bg-white/70 px-0.5 rounded">${text}</span>`,
+            iconSize: [32, 12],
+            iconAnchor: [0, 0],
+          }),
+        }).addTo(layer);
+      };
+
+      // Easting lines, labelled along the top edge
+      for (let easting = minEasting; easting <= maxEasting; easting += gridSize) {
+        const points: [number, number][] = [];
+        for (let i = 0; i <= steps; i++) {
+          points.push(toLatLng(easting, minNorthing + (maxNorthing - minNorthing) * i / steps));
+        }
+        L.polyline(points, lineStyle).addTo(layer);
+
+        const labelPoint = toLatLng(easting, maxNorthing);
+        addLabel([bounds.getNorth(), labelPoint[1]], formatGridLabel(easting, gridSize));
       }
 
-      setGridLines(newLines);
+      // Northing lines, labelled along the left edge
+      for (let northing = minNorthing; northing <= maxNorthing; northing += gridSize) {
+        const points: [number, number][] = [];
+        for (let i = 0; i <= steps; i++) {
+          points.push(toLatLng(minEasting + (maxEasting - minEasting) * i / steps, northing));
+        }
+        L.polyline(points, lineStyle).addTo(layer);
+
+        const labelPoint = toLatLng(minEasting, northing);
+        addLabel([labelPoint[0], bounds.getWest()], formatGridLabel(northing, gridSize));
+      }
     };
 
     map.on('moveend zoomend', updateGrid);
@@ -115,28 +194,65 @@ function GridOverlay({ gridSize = 100 }: { gridSize?: number }) {
 
     return () => {
       map.off('moveend zoomend', updateGrid);
-      gridLines.forEach(line => map.removeLayer(line));
+      layer.remove();
     };
-  }, [map, gridSize]);
+  }, [map]);
 
   return null;
 }
 
+// MGRS reference under the mouse cursor, kept local so pointer moves don't re-render the map
+function CursorGridReference() {
+  const [gridRef, setGridRef] = useState<string | null>(null);
+
+  useMapEvents({
+    mousemove: (e) => {
+      setGridRef(convertToGridRef(e.latlng.lat, e.latlng.lng));
+    },
+    mouseout: () => {
+      setGridRef(null);
+    },
+  });
+
+  if (!gridRef) return null;
+
+  return (
+    <div
+      className="absolute bottom-6 right-2 bg-white/90 rounded px-2 py-1 text-xs font-mono text-gray-700 shadow pointer-events-none"
+      style={{ zIndex: 1000 }}
+    >
+      {gridRef}
+    </div>
+  );
+}
+
 // User position marker with direction indicator
 function UserMarker({ 
   position, 
   isCurrentUser = false,
-  username 
+  username,
+  team,
+  playerStatus,
+  showTrack = false,
+  onToggleTrack,
+  onStatusChange
 }: { 
   position: UserPosition;
   isCurrentUser?: boolean;
   username?: string;
+  team?: Team;
+  playerStatus?: PlayerStatus;
+  showTrack?: boolean;
+  onToggleTrack?: () => void;
+  // Referees can set the player's status from the popup
+  onStatusChange?: (status: PlayerStatus) => void;
 }) {
   const userIcon = L.divIcon({
     className: 'user-marker',
     html: `
-      <div class="relative">
-        <div class="w-6 h-6 rounded-full ${isCurrentUser ? 'bg-blue-500' : 'bg-green-500'} border-2 border-white shadow-lg"></div>
+      <div class="relative ${isOutOfPlay(playerStatus) ? 'opacity-50 grayscale' : ''}">
+        <div class="w-6 h-6 rounded-full ${team ? '' : isCurrentUser ? 'bg-blue-500' : 'bg-green-500'} ${team && isCurrentUser ? 'ring-2 ring-blue-500' : ''} border-2 border-white shadow-lg"
+             ${team ? `style="background-color: ${team.color}"` : ''}></div>
         ${position.coordinates.heading !== undefined ? `
           <div class="absolute top-0 left-1/2 transform -translate-x-1/2 -translate-y-full">
             <div class="w-0 h-0 border-l-2 border-r-2 border-b-4 border-transparent border-b-${isCurrentUser ? 'blue' : 'green'}-500"
@@ -157,8 +273,11 @@ function UserMarker({
       <Popup>
         <div className="text-sm">
           <h3 className="font-semibold">{username || 'User'}</h3>
+          {team && <p style={{ color: team.color }}>{team.name}</p>}
+          {isOutOfPlay(playerStatus) && <p className="font-medium text-red-600">{PLAYER_STATUS_LABELS[playerStatus!]}</p>}
           <p>Lat: {position.coordinates.latitude.toFixed(6)}</p>
           <p>Lng: {position.coordinates.longitude.toFixed(6)}</p>
+          <p className="font-mono">{convertToGridRef(position.coordinates.latitude, position.coordinates.longitude)}</p>
           {position.coordinates.accuracy && (
             <p>Accuracy: ±{Math.round(position.coordinates.accuracy)}m</p>
           )}
@@ -168,48 +287,171 @@ function UserMarker({
           <p className="text-xs text-gray-500 mt-1">
             Updated: {new Date(position.lastUpdated).toLocaleTimeString()}
           </p>
+          {onToggleTrack && (
+            <Button size="sm" variant="outline" className="mt-2" onClick={onToggleTrack}>
+              {showTrack ? 'Hide Trail' : 'Show Trail'}
+            </Button>
+          )}
+          {onStatusChange && (
+            <label className="mt-2 flex flex-col gap-0.5 text-xs">
+              <span className="text-gray-500">Status</span>
+              <select
+                className="border rounded px-1 py-1 text-xs"
+                value={playerStatus || 'alive'}
+                onChange={(e) => onStatusChange(e.target.value as PlayerStatus)}
+              >
+                {PlayerStatusSchema.options.map(status => (
+                  <option key={status} value={status}>{PLAYER_STATUS_LABELS[status]}</option>
+                ))}
+              </select>
+            </label>
+          )}
         </div>
       </Popup>
     </Marker>
   );
 }
 
+// Breadcrumb trail of a player's recorded positions
+function TrackLine({ 
+  samples, 
+  isCurrentUser = false 
+}: { 
+  samples: PositionSample[];
+  isCurrentUser?: boolean;
+}) {
+  if (samples.length < 2) return null;
+
+  return (
+    <Polyline
+      positions={samples.map(sample => [sample.coordinates.latitude, sample.coordinates.longitude] as [number, number])}
+      pathOptions={{
+        color: isCurrentUser ? '#3b82f6' : '#22c55e',
+        weight: 3,
+        opacity: 0.7,
+        dashArray: '4 6',
+      }}
+    />
+  );
+}
+
+// Where a medic who accepted a request is, relative to their casualty
+function MedicLine({ medic, casualty }: { medic: UserPosition; casualty: UserPosition }) {
+  return (
+    <Polyline
+      positions={[
+        [medic.coordinates.latitude, medic.coordinates.longitude],
+        [casualty.coordinates.latitude, casualty.coordinates.longitude],
+      ]}
+      pathOptions={{
+        color: '#dc2626',
+        weight: 3,
+        opacity: 0.8,
+        dashArray: '2 8',
+        interactive: false,
+      }}
+    />
+  );
+}
+
+// Preview of a symbol type for the toolbar buttons
+function renderToolbarIcon(type: TacticalSymbolType): string {
+  return renderMilSymbol({
+    type,
+    affiliation: getDefaultAffiliation(type),
+    color: getSymbolColor(type),
+    size: 'small',
+  }).svg;
+}
+
+// SALUTE lines of a spot report in its symbol's popup
+function SpotReportDetails({ spotReport, expiresAt, now }: { spotReport: SpotReport; expiresAt?: string; now: number }) {
+  return (
+    <div className="mt-2 space-y-0.5 text-xs border-t pt-2">
+      <p><span className="font-medium">S</span> {spotReport.size}</p>
+      <p><span className="font-medium">A</span> {spotReport.activity}</p>
+      {spotReport.unit && <p><span className="font-medium">U</span> {spotReport.unit}</p>}
+      <p><span className="font-medium">T</span> {formatTimestamp(spotReport.observedAt)}</p>
+      {spotReport.equipment && <p><span className="font-medium">E</span> {spotReport.equipment}</p>}
+      {expiresAt && (
+        <p className="text-gray-500">Expires in {formatDuration(Math.max(0, new Date(expiresAt).getTime() - now) / 1000)}</p>
+      )}
+    </div>
+  );
+}
+
 // Tactical symbol marker
 function SymbolMarker({ 
   symbol, 
+  team,
+  memberNames = {},
+  now,
+  readOnly = false,
+  canManageGeofence = false,
+  objective,
+  teamsById = {},
+  canReferee = false,
+  onOverride,
   onUpdate, 
-  onDelete 
+  onDelete,
+  onEdit,
+  onEditShape
 }: { 
   symbol: TacticalSymbol;
+  team?: Team;
+  memberNames?: Record<string, string>;
+  now: number;
+  readOnly?: boolean;
+  canManageGeofence?: boolean;
+  // Set for capturable objectives, with the teams that can hold them
+  objective?: ObjectiveState | null;
+  teamsById?: Record<string, Team>;
+  canReferee?: boolean;
+  onOverride?: (ownerTeamId: string | null) => void;
   onUpdate: (updates: Partial<TacticalSymbol>) => void;
   onDelete: () => void;
+  onEdit?: () => void;
+  onEditShape?: () => void;
 }) {
+  const route = isRoute(symbol);
+  const shapeSummary = route ? null : describeGeometry(symbol.geometry);
+
+  const milSymbol = renderMilSymbol({
+    type: symbol.type,
+    // Replayed events recorded before symbols had an affiliation fall back to the type's
+    affiliation: symbol.affiliation || getDefaultAffiliation(symbol.type),
+    color: symbol.color,
+    size: symbol.size,
+    status: symbol.status,
+    confidence: symbol.confidence,
+    rotation: symbol.rotation,
+    echelon: symbol.echelon ?? undefined,
+    uniqueDesignation: symbol.uniqueDesignation ?? undefined,
+    quantity: symbol.quantity ?? undefined,
+    dtg: symbol.dtg ?? undefined,
+  });
   const symbolIcon = L.divIcon({
     className: 'tactical-symbol',
-    html: `
-      <div class="text-2xl" style="color: ${symbol.color}; transform: rotate(${symbol.rotation}deg)">
-        ${getNATOSymbolIcon(symbol.type)}
-      </div>
-    `,
-    iconSize: [32, 32],
-    iconAnchor: [16, 16],
+    html: milSymbol.svg,
+    iconSize: [milSymbol.width, milSymbol.height],
+    iconAnchor: milSymbol.anchor,
   });
 
   return (
     <Marker
       position={[symbol.coordinates.latitude, symbol.coordinates.longitude]}
       icon={symbolIcon}
-      draggable={true}
+      opacity={getSpotReportOpacity(symbol, now)}
+      draggable={!readOnly}
       eventHandlers={{
         dragend: (e) => {
           const marker = e.target;
           const position = marker.getLatLng();
-          onUpdate({
-            coordinates: {
-              latitude: position.lat,
-              longitude: position.lng,
-            },
-          });
+          const coordinates = { latitude: position.lat, longitude: position.lng };
+          // Lines and areas move with their icon
+          onUpdate(symbol.geometry
+            ? { coordinates, geometry: translateGeometry(symbol.geometry, symbol.coordinates, coordinates) }
+            : { coordinates });
         },
       }}
     >
@@ -222,17 +464,75 @@ function SymbolMarker({
           <div className="space-y-1 text-xs">
             <p>Type: {symbol.type.replace('_', ' ')}</p>
             <p>Position: {symbol.coordinates.latitude.toFixed(6)}, {symbol.coordinates.longitude.toFixed(6)}</p>
+            <p>MGRS: <span className="font-mono">{convertToGridRef(symbol.coordinates.latitude, symbol.coordinates.longitude)}</span></p>
+            {shapeSummary && <p>Shape: {shapeSummary}</p>}
             <p>Size: {symbol.size}</p>
             <p>Rotation: {symbol.rotation}°</p>
+            {symbol.teamId && <p>Visible to: {team?.name || 'Team only'}</p>}
+            {symbol.geofence && <p>Zone: {GEOFENCE_LABELS[symbol.geofence]}</p>}
           </div>
-          <div className="flex gap-2 mt-2">
-            <Button size="sm" variant="outline" onClick={() => onUpdate({ isVisible: !symbol.isVisible })}>
-              {symbol.isVisible ? 'Hide' : 'Show'}
-            </Button>
-            <Button size="sm" variant="destructive" onClick={onDelete}>
-              Delete
-            </Button>
-          </div>
+          {symbol.spotReport && (
+            <SpotReportDetails spotReport={symbol.spotReport} expiresAt={symbol.expiresAt} now={now} />
+          )}
+          {objective !== undefined && (
+            <ObjectiveDetails
+              symbol={symbol}
+              state={objective || undefined}
+              teamsById={teamsById}
+              canReferee={!readOnly && canReferee}
+              onOverride={onOverride}
+              onUpdate={onUpdate}
+            />
+          )}
+          {!readOnly && (
+            <SymbolAttributeControls symbol={symbol} onUpdate={onUpdate} />
+          )}
+          {!readOnly && canManageGeofence && (
+            <label className="mt-2 flex flex-col gap-0.5 text-xs">
+              <span className="text-gray-500">Geofence</span>
+              <select
+                className="border rounded px-1 py-1 text-xs"
+                value={symbol.geofence || ''}
+                onChange={(e) => onUpdate({ geofence: (e.target.value || null) as GeofenceKind | null })}
+              >
+                <option value="">None</option>
+                {GeofenceKindSchema.options.map(kind => (
+                  <option key={kind} value={kind}>{GEOFENCE_LABELS[kind]}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          {!readOnly && isFramedSymbol(symbol.type) && (
+            <SymbolModifiersForm symbol={symbol} onSave={onUpdate} />
+          )}
+          {route && (
+            <RouteDetails
+              symbol={symbol}
+              memberNames={memberNames}
+              readOnly={readOnly}
+              onAssign={(assignedTo) => onUpdate({ assignedTo })}
+            />
+          )}
+          {!readOnly && (
+            <div className="flex gap-2 mt-2">
+              {onEdit && (
+                <Button size="sm" variant="outline" onClick={onEdit}>
+                  Edit
+                </Button>
+              )}
+              <Button size="sm" variant="outline" onClick={() => onUpdate({ isVisible: !symbol.isVisible })}>
+                {symbol.isVisible ? 'Hide' : 'Show'}
+              </Button>
+              {onEditShape && (
+                <Button size="sm" variant="outline" onClick={onEditShape}>
+                  Edit Shape
+                </Button>
+              )}
+              <Button size="sm" variant="destructive" onClick={onDelete}>
+                Delete
+              </Button>
+            </div>
+          )}
         </div>
       </Popup>
     </Marker>
@@ -244,11 +544,27 @@ export default function MapView({
   userId,
   positions,
   symbols,
+  memberNames = {},
+  teams = [],
+  memberTeams = {},
+  teamId,
+  tracks = {},
+  pings = [],
   userPosition,
+  focusPosition,
+  readOnly = false,
+  isReferee = false,
+  objectives = {},
+  playerStatuses = {},
+  medicRequests = [],
   onPositionUpdate,
   onSymbolCreate,
   onSymbolUpdate,
   onSymbolDelete,
+  onToggleTrack,
+  onPingCreate,
+  onObjectiveOverride,
+  onPlayerStatusChange,
 }: MapViewProps) {
   const mapRef = useRef<L.Map>(null);
   const [mapCenter, setMapCenter] = useState<[number, number]>([51.505, -0.09]);
@@ -256,6 +572,22 @@ export default function MapView({
   const [showGrid, setShowGrid] = useState(true);
   const [selectedSymbolType, setSelectedSymbolType] = useState('waypoint');
   const [isPlacingSymbol, setIsPlacingSymbol] = useState(false);
+  const [teamOnly, setTeamOnly] = useState(false);
+  const [offlineView, setOfflineView] = useState<{ bounds: TileBounds; zoom: number } | null>(null);
+  const [pendingPing, setPendingPing] = useState<[number, number] | null>(null);
+  const [affiliation, setAffiliation] = useState<SymbolAffiliation>('friend');
+  const [shapeKind, setShapeKind] = useState<SymbolGeometryKind>('point');
+  const [draftVertices, setDraftVertices] = useState<SymbolVertex[]>([]);
+  const [editingShapeId, setEditingShapeId] = useState<string | null>(null);
+  const [editingDetailsId, setEditingDetailsId] = useState<string | null>(null);
+  const [isReportingSpot, setIsReportingSpot] = useState(false);
+  const [spotReportLocation, setSpotReportLocation] = useState<SymbolVertex | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const teamsById = useMemo(
+    () => Object.fromEntries(teams.map(team => [team.id, team])) as Record<string, Team>,
+    [teams]
+  );
 
   // Update map center when user position changes
   useEffect(() => {
@@ -266,21 +598,136 @@ export default function MapView({
     }
   }, [userPosition, mapZoom]);
 
+  useEffect(() => {
+    if (focusPosition && mapRef.current) {
+      mapRef.current.setView([focusPosition.latitude, focusPosition.longitude], Math.max(mapZoom, 16));
+    }
+    // Only a new focus target should move the map, not zooming afterwards
+  }, [focusPosition]);
+
+  // Spot reports fade with age, so re-render while any are on the map
+  const hasSpotReports = symbols.some(isSpotReport);
+  useEffect(() => {
+    if (!hasSpotReports) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 15000);
+    return () => clearInterval(interval);
+  }, [hasSpotReports]);
+
+  const createSymbol = useCallback((coordinates: SymbolVertex, geometry?: SymbolGeometry) => {
+    onSymbolCreate({
+      roomId,
+      createdBy: userId,
+      type: selectedSymbolType as any,
+      coordinates,
+      color: getSymbolColor(selectedSymbolType),
+      size: 'medium',
+      rotation: 0,
+      isVisible: true,
+      teamId: teamOnly ? teamId : undefined,
+      affiliation,
+      status: 'present',
+      confidence: 'confirmed',
+      geometry,
+    });
+    setIsPlacingSymbol(false);
+    setDraftVertices([]);
+  }, [selectedSymbolType, teamOnly, teamId, affiliation, roomId, userId, onSymbolCreate]);
+
   const handleMapClick = useCallback((lat: number, lng: number) => {
-    if (isPlacingSymbol) {
-      onSymbolCreate({
-        roomId,
-        createdBy: userId,
-        type: selectedSymbolType as any,
-        coordinates: { latitude: lat, longitude: lng },
-        color: getSymbolColor(selectedSymbolType),
-        size: 'medium',
-        rotation: 0,
-        isVisible: true,
-      });
-      setIsPlacingSymbol(false);
+    if (isReportingSpot && !readOnly) {
+      setSpotReportLocation({ latitude: lat, longitude: lng });
+      setIsReportingSpot(false);
+      return;
+    }
+    if (!isPlacingSymbol || readOnly) return;
+
+    const vertex = { latitude: lat, longitude: lng };
+    if (shapeKind === 'polyline' || shapeKind === 'polygon') {
+      setDraftVertices(vertices => [...vertices, vertex]);
+    } else if (shapeKind === 'circle') {
+      // First click sets the centre, the second the edge
+      const center = draftVertices[0];
+      if (!center) {
+        setDraftVertices([vertex]);
+      } else {
+        const radiusMeters = calculateDistance(center.latitude, center.longitude, lat, lng);
+        createSymbol(center, { kind: 'circle', radiusMeters: Math.min(20000, Math.max(1, radiusMeters)) });
+      }
+    } else {
+      createSymbol(vertex);
+    }
+  }, [isReportingSpot, isPlacingSymbol, readOnly, shapeKind, draftVertices, createSymbol]);
+
+  const finishShape = useCallback(() => {
+    if ((shapeKind === 'polyline' || shapeKind === 'polygon') && draftVertices.length >= MIN_VERTICES[shapeKind]) {
+      createSymbol(getShapeAnchor(draftVertices), { kind: shapeKind, vertices: draftVertices });
+    }
+  }, [shapeKind, draftVertices, createSymbol]);
+
+  const togglePlacing = useCallback(() => {
+    setIsPlacingSymbol(placing => !placing);
+    setIsReportingSpot(false);
+    setDraftVertices([]);
+    setEditingShapeId(null);
+  }, []);
+
+  const toggleReportingSpot = useCallback(() => {
+    setIsReportingSpot(reporting => !reporting);
+    setIsPlacingSymbol(false);
+    setDraftVertices([]);
+    setEditingShapeId(null);
+  }, []);
+
+  // A sighting is a hostile unit symbol that carries the SALUTE fields and expires
+  const submitSpotReport = useCallback((spotReport: SpotReport, expiresAt: string) => {
+    if (!spotReportLocation) return;
+
+    onSymbolCreate({
+      roomId,
+      createdBy: userId,
+      type: 'enemy_unit',
+      coordinates: spotReportLocation,
+      label: `${spotReport.size}${spotReport.unit ? ` ${spotReport.unit}` : ''}`.slice(0, 50),
+      description: spotReport.activity,
+      color: getSymbolColor('enemy_unit'),
+      size: 'medium',
+      rotation: 0,
+      isVisible: true,
+      teamId: teamOnly ? teamId : undefined,
+      affiliation: 'hostile',
+      status: 'present',
+      confidence: 'confirmed',
+      spotReport,
+      expiresAt,
+    });
+    setSpotReportLocation(null);
+  }, [spotReportLocation, teamOnly, teamId, roomId, userId, onSymbolCreate]);
+
+  const selectSymbolType = useCallback((type: string) => {
+    setSelectedSymbolType(type);
+    setAffiliation(getDefaultAffiliation(type as TacticalSymbolType));
+    setShapeKind(getDefaultGeometryKind(type));
+    setDraftVertices([]);
+  }, []);
+
+  const selectShapeKind = useCallback((kind: SymbolGeometryKind) => {
+    setShapeKind(kind);
+    setDraftVertices([]);
+  }, []);
+
+  const handleMapLongPress = useCallback((lat: number, lng: number) => {
+    if (!readOnly && onPingCreate) {
+      setPendingPing([lat, lng]);
     }
-  }, [isPlacingSymbol, selectedSymbolType, roomId, userId, onSymbolCreate]);
+  }, [readOnly, onPingCreate]);
+
+  const handlePingSelect = useCallback((type: MapPingType) => {
+    if (pendingPing && onPingCreate) {
+      onPingCreate(type, { latitude: pendingPing[0], longitude: pendingPing[1] });
+    }
+    setPendingPing(null);
+  }, [pendingPing, onPingCreate]);
 
   const handleMapMove = useCallback((center: L.LatLng, zoom: number) => {
     setMapCenter([center.lat, center.lng]);
@@ -293,6 +740,24 @@ export default function MapView({
     }
   }, [userPosition]);
 
+  const openOfflineAreas = useCallback(() => {
+    if (mapRef.current) {
+      const bounds = mapRef.current.getBounds();
+      setOfflineView({
+        bounds: {
+          north: bounds.getNorth(),
+          south: bounds.getSouth(),
+          east: bounds.getEast(),
+          west: bounds.getWest(),
+        },
+        zoom: mapRef.current.getZoom(),
+      });
+    }
+  }, []);
+
+  const editingSymbol = editingShapeId ? symbols.find(symbol => symbol.id === editingShapeId) : undefined;
+  const editingDetailsSymbol = editingDetailsId ? symbols.find(symbol => symbol.id === editingDetailsId) : undefined;
+
   const zoomIn = useCallback(() => {
     if (mapRef.current) {
       mapRef.current.zoomIn();
@@ -315,16 +780,36 @@ export default function MapView({
         style={{ height: '100%', width: '100%' }}
         className="z-0"
       >
-        <TileLayer
-          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-          url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-        />
+        <OfflineTileLayer />
         
         {/* Grid overlay */}
-        {showGrid && <GridOverlay gridSize={100} />}
+        {showGrid && <GridOverlay />}
+        <CursorGridReference />
         
         {/* Map event handler */}
-        <MapEventHandler onMapClick={handleMapClick} onMapMove={handleMapMove} />
+        <MapEventHandler
+          onMapClick={handleMapClick}
+          onMapMove={handleMapMove}
+          onMapLongPress={handleMapLongPress}
+        />
+        
+        {/* Breadcrumb trails */}
+        {Object.entries(tracks).map(([trackUserId, samples]) => (
+          <TrackLine
+            key={`track-${trackUserId}`}
+            samples={samples}
+            isCurrentUser={trackUserId === userId}
+          />
+        ))}
+        
+        {/* Medics on their way to casualties */}
+        {medicRequests.map((request) => {
+          const medic = positions.find(p => p.userId === request.acceptedBy);
+          const casualty = positions.find(p => p.userId === request.casualtyId);
+          return medic && casualty ? (
+            <MedicLine key={`medic-${request.id}`} medic={medic} casualty={casualty} />
+          ) : null;
+        })}
         
         {/* User position markers */}
         {positions.map((position) => (
@@ -332,19 +817,82 @@ export default function MapView({
             key={position.userId}
             position={position}
             isCurrentUser={position.userId === userId}
-            username={`User-${position.userId.slice(-4)}`}
+            username={memberNames[position.userId] || `User-${position.userId.slice(-4)}`}
+            team={teamsById[memberTeams[position.userId]]}
+            playerStatus={playerStatuses[position.userId]?.status}
+            showTrack={!!tracks[position.userId]}
+            onToggleTrack={!readOnly && onToggleTrack ? () => onToggleTrack(position.userId) : undefined}
+            onStatusChange={!readOnly && isReferee && onPlayerStatusChange ? (status) => onPlayerStatusChange(position.userId, status) : undefined}
           />
         ))}
         
+        {/* Tactical symbol lines and areas */}
+        {symbols.filter(s => s.isVisible && s.geometry).map((symbol) => (
+          isRoute(symbol) ? (
+            <RouteLine key={`shape-${symbol.id}`} symbol={symbol} highlighted={!!symbol.assignedTo?.includes(userId)} />
+          ) : (
+            <SymbolShape key={`shape-${symbol.id}`} symbol={symbol} />
+          )
+        ))}
+        
+        {/* Objective capture radii */}
+        {symbols.filter(s => s.isVisible && isCapturableObjective(s)).map((symbol) => {
+          const state = objectives[symbol.id];
+          return (
+            <ObjectiveRadius
+              key={`objective-${symbol.id}`}
+              symbol={symbol}
+              state={state}
+              owner={state?.ownerTeamId ? teamsById[state.ownerTeamId] : undefined}
+            />
+          );
+        })}
+        
         {/* Tactical symbol markers */}
         {symbols.filter(s => s.isVisible).map((symbol) => (
           <SymbolMarker
             key={symbol.id}
             symbol={symbol}
+            team={symbol.teamId ? teamsById[symbol.teamId] : undefined}
+            memberNames={memberNames}
+            now={now}
+            readOnly={readOnly}
+            canManageGeofence={isReferee && (symbol.geometry?.kind === 'polygon' || symbol.geometry?.kind === 'circle')}
+            objective={isCapturableObjective(symbol) ? objectives[symbol.id] || null : undefined}
+            teamsById={teamsById}
+            canReferee={isReferee}
+            onOverride={onObjectiveOverride ? (ownerTeamId) => onObjectiveOverride(symbol.id, ownerTeamId) : undefined}
             onUpdate={(updates) => onSymbolUpdate(symbol.id, updates)}
             onDelete={() => onSymbolDelete(symbol.id)}
+            onEdit={() => {
+              mapRef.current?.closePopup();
+              setEditingDetailsId(symbol.id);
+            }}
+            onEditShape={symbol.geometry && symbol.geometry.kind !== 'point' ? () => setEditingShapeId(symbol.id) : undefined}
           />
         ))}
+        
+        {/* Shape being drawn and handles of the shape being edited */}
+        {isPlacingSymbol && draftVertices.length > 0 && (
+          <ShapeDraft kind={shapeKind} vertices={draftVertices} color={getSymbolColor(selectedSymbolType)} />
+        )}
+        {!readOnly && editingSymbol && (
+          <ShapeEditor symbol={editingSymbol} onUpdate={(updates) => onSymbolUpdate(editingSymbol.id, updates)} />
+        )}
+        
+        {/* Transient pings */}
+        {pings.map((ping) => (
+          <PingMarker key={ping.id} ping={ping} userPosition={userPosition} />
+        ))}
+        <PingEdgeIndicators pings={pings} userPosition={userPosition} />
+        
+        {pendingPing && (
+          <PingPicker
+            position={pendingPing}
+            onSelect={handlePingSelect}
+            onClose={() => setPendingPing(null)}
+          />
+        )}
       </MapContainer>
 
       {/* Map Controls */}
@@ -385,53 +933,187 @@ export default function MapView({
         >
           <Grid3X3 className="h-4 w-4" />
         </Button>
+        
+        <Button
+          size="icon"
+          variant="outline"
+          className="bg-white shadow-lg"
+          onClick={openOfflineAreas}
+        >
+          <Download className="h-4 w-4" />
+        </Button>
       </div>
 
+      {!readOnly && editingDetailsSymbol && (
+        <SymbolEditPanel
+          key={editingDetailsSymbol.id}
+          symbol={editingDetailsSymbol}
+          onUpdate={(updates) => onSymbolUpdate(editingDetailsSymbol.id, updates)}
+          onClose={() => setEditingDetailsId(null)}
+        />
+      )}
+
+      {spotReportLocation && (
+        <SpotReportForm
+          location={spotReportLocation}
+          onSubmit={submitSpotReport}
+          onClose={() => setSpotReportLocation(null)}
+        />
+      )}
+
+      {offlineView && (
+        <OfflineAreasPanel
+          bounds={offlineView.bounds}
+          zoom={offlineView.zoom}
+          onClose={() => setOfflineView(null)}
+        />
+      )}
+
       {/* Symbol Toolbar */}
-      <div className="absolute bottom-4 left-4 right-4 z-10">
-        <div className="bg-white rounded-lg shadow-lg p-3">
-          <div className="flex items-center gap-2 mb-2">
-            <h3 className="text-sm font-medium">Tactical Symbols</h3>
-            <Button
-              size="sm"
-              variant={isPlacingSymbol ? "default" : "outline"}
-              onClick={() => setIsPlacingSymbol(!isPlacingSymbol)}
-            >
-              {isPlacingSymbol ? 'Cancel' : 'Place Symbol'}
-            </Button>
-          </div>
-          
-          <div className="flex gap-2 overflow-x-auto">
-            {[
-              { type: 'friendly_unit', icon: '🟢', label: 'Friendly' },
-              { type: 'enemy_unit', icon: '🔴', label: 'Enemy' },
-              { type: 'objective', icon: '🎯', label: 'Objective' },
-              { type: 'waypoint', icon: '📍', label: 'Waypoint' },
-              { type: 'danger_area', icon: '⚠️', label: 'Danger' },
-              { type: 'safe_zone', icon: '🛡️', label: 'Safe Zone' },
-              { type: 'rally_point', icon: '🚩', label: 'Rally' },
-              { type: 'observation_post', icon: '👀', label: 'Observation' },
-            ].map((symbolDef) => (
+      {!readOnly && (
+        <div className="absolute bottom-4 left-4 right-4 z-10">
+          <div className="bg-white rounded-lg shadow-lg p-3">
+            <div className="flex items-center gap-2 mb-2">
+              <h3 className="text-sm font-medium">Tactical Symbols</h3>
               <Button
-                key={symbolDef.type}
                 size="sm"
-                variant={selectedSymbolType === symbolDef.type ? "default" : "outline"}
-                className="flex flex-col items-center min-w-16"
-                onClick={() => setSelectedSymbolType(symbolDef.type)}
+                variant={isPlacingSymbol ? "default" : "outline"}
+                onClick={togglePlacing}
               >
-                <span className="text-lg">{symbolDef.icon}</span>
-                <span className="text-xs">{symbolDef.label}</span>
+                {isPlacingSymbol ? 'Cancel' : 'Place Symbol'}
               </Button>
-            ))}
-          </div>
+              <Button
+                size="sm"
+                variant={isReportingSpot ? "default" : "outline"}
+                onClick={toggleReportingSpot}
+              >
+                {isReportingSpot ? 'Cancel' : 'Spot Report'}
+              </Button>
+              {teamId && (
+                <Button
+                  size="sm"
+                  variant={teamOnly ? "default" : "outline"}
+                  onClick={() => setTeamOnly(!teamOnly)}
+                >
+                  {teamOnly ? 'Team Only' : 'Everyone'}
+                </Button>
+              )}
+            </div>
           
-          {isPlacingSymbol && (
-            <div className="mt-2 text-xs text-gray-600">
-              Click on the map to place a {selectedSymbolType.replace('_', ' ')} symbol
+            <div className="flex gap-2 overflow-x-auto">
+              {[
+                { type: 'friendly_unit', label: 'Friendly' },
+                { type: 'enemy_unit', label: 'Enemy' },
+                { type: 'objective', label: 'Objective' },
+                { type: 'waypoint', label: 'Waypoint' },
+                { type: 'danger_area', label: 'Danger' },
+                { type: 'safe_zone', label: 'Safe Zone' },
+                { type: 'rally_point', label: 'Rally' },
+                { type: 'observation_post', label: 'Observation' },
+                { type: 'mine_field', label: 'Mines' },
+                { type: 'wire_obstacle', label: 'Wire' },
+                { type: 'trench', label: 'Trench' },
+              ].map((symbolDef) => (
+                <Button
+                  key={symbolDef.type}
+                  size="sm"
+                  variant={selectedSymbolType === symbolDef.type ? "default" : "outline"}
+                  className="flex flex-col items-center min-w-16"
+                  onClick={() => selectSymbolType(symbolDef.type)}
+                >
+                  <span
+                    className="h-6 flex items-center"
+                    dangerouslySetInnerHTML={{ __html: renderToolbarIcon(symbolDef.type as TacticalSymbolType) }}
+                  />
+                  <span className="text-xs">{symbolDef.label}</span>
+                </Button>
+              ))}
             </div>
-          )}
+          
+            <div className="flex gap-2 mt-2">
+              <select
+                className="border rounded px-2 py-1 text-sm"
+                value={affiliation}
+                onChange={(e) => setAffiliation(e.target.value as SymbolAffiliation)}
+              >
+                {SymbolAffiliationSchema.options.map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+              {SHAPE_KINDS.map(({ kind, label }) => (
+                <Button
+                  key={kind}
+                  size="sm"
+                  variant={shapeKind === kind ? "default" : "outline"}
+                  onClick={() => selectShapeKind(kind)}
+                >
+                  {kind === 'polyline' && selectedSymbolType === 'waypoint' ? 'Route' : label}
+                </Button>
+              ))}
+            </div>
+          
+            {isPlacingSymbol && (
+              <div className="mt-2 flex items-center gap-2 text-xs text-gray-600">
+                {shapeKind === 'point' && (
+                  <span>Click on the map to place a {selectedSymbolType.replace('_', ' ')} symbol</span>
+                )}
+                {shapeKind === 'circle' && (
+                  <span>{draftVertices.length === 0 ? 'Click the centre of the circle' : 'Click the edge of the circle'}</span>
+                )}
+                {(shapeKind === 'polyline' || shapeKind === 'polygon') && (
+                  <>
+                    <span>
+                      Click on the map to add {selectedSymbolType === 'waypoint' ? 'waypoints in order' : 'points'} ({draftVertices.length} placed)
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setDraftVertices(vertices => vertices.slice(0, -1))}
+                      disabled={draftVertices.length === 0}
+                    >
+                      Undo Point
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={finishShape}
+                      disabled={draftVertices.length < MIN_VERTICES[shapeKind]}
+                    >
+                      Finish
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
+          
+            {isReportingSpot && (
+              <div className="mt-2 flex items-center gap-2 text-xs text-gray-600">
+                <span>Click where the enemy was seen</span>
+                {userPosition && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => {
+                      setSpotReportLocation({ latitude: userPosition.latitude, longitude: userPosition.longitude });
+                      setIsReportingSpot(false);
+                    }}
+                  >
+                    Use My Position
+                  </Button>
+                )}
+              </div>
+            )}
+          
+            {editingSymbol && (
+              <div className="mt-2 flex items-center gap-2 text-xs text-gray-600">
+                <span>Drag the handles to reshape. Click a midpoint to add a point, right-click a point to remove it.</span>
+                <Button size="sm" onClick={() => setEditingShapeId(null)}>
+                  Done
+                </Button>
+              </div>
+            )}
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Status indicator */}
       <div className="absolute top-4 left-4 z-10 bg-white rounded-lg shadow-lg p-2">
@@ -444,6 +1126,11 @@ export default function MapView({
             Accuracy: ±{Math.round(userPosition.accuracy)}m
           </div>
         )}
+        {userPosition && (
+          <div className="text-xs font-mono text-gray-700">
+            {convertToGridRef(userPosition.latitude, userPosition.longitude)}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,109 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Circle } from 'react-leaflet';
+import { Button } from '@/client/components/ui/button';
+import { OBJECTIVE_SETTINGS, ObjectiveCapture, ObjectiveState, TacticalSymbol, Team } from '@/shared/types';
+
+const NEUTRAL_COLOR = '#6b7280';
+
+// Capture radius around an objective in its holder's colour, dashed while contested
+export function ObjectiveRadius({ symbol, state, owner }: { symbol: TacticalSymbol; state?: ObjectiveState; owner?: Team }) {
+  const { radiusMeters } = symbol.capture || OBJECTIVE_SETTINGS.defaultCapture;
+
+  return (
+    <Circle
+      center={[symbol.coordinates.latitude, symbol.coordinates.longitude]}
+      radius={radiusMeters}
+      pathOptions={{
+        color: state?.contested ? '#dc2626' : owner?.color || NEUTRAL_COLOR,
+        weight: 2,
+        fillOpacity: owner ? 0.15 : 0.05,
+        dashArray: state?.contested ? '6 6' : undefined,
+        interactive: false,
+      }}
+    />
+  );
+}
+
+// Holder and capture progress in an objective's popup; referees also get the override and capture rules
+export function ObjectiveDetails({
+  symbol,
+  state,
+  teamsById,
+  canReferee = false,
+  onOverride,
+  onUpdate,
+}: {
+  symbol: TacticalSymbol;
+  state?: ObjectiveState;
+  teamsById: Record<string, Team>;
+  canReferee?: boolean;
+  onOverride?: (ownerTeamId: string | null) => void;
+  onUpdate: (updates: Partial<TacticalSymbol>) => void;
+}) {
+  const capture = symbol.capture || OBJECTIVE_SETTINGS.defaultCapture;
+  const [draft, setDraft] = useState<ObjectiveCapture>(capture);
+
+  const owner = state?.ownerTeamId ? teamsById[state.ownerTeamId] : undefined;
+  const capturing = state?.capturingTeamId ? teamsById[state.capturingTeamId] : undefined;
+  const progress = state && capture.holdSeconds > 0
+    ? Math.min(100, Math.round(state.captureProgressMs / (capture.holdSeconds * 10)))
+    : 0;
+
+  const setField = (field: keyof ObjectiveCapture) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setDraft({ ...draft, [field]: Number(e.target.value) });
+
+  return (
+    <div className="mt-2 space-y-1 text-xs border-t pt-2">
+      <p>
+        Held by:{' '}
+        <span className="font-medium" style={owner ? { color: owner.color } : undefined}>
+          {owner?.name || 'Nobody'}
+        </span>
+      </p>
+      {state?.contested && <p className="text-red-600 font-medium">Contested</p>}
+      {!state?.contested && capturing && (
+        <p>Capturing: {capturing.name} ({progress}%)</p>
+      )}
+      <p className="text-gray-500">
+        {capture.radiusMeters}m radius • hold {capture.holdSeconds}s • {capture.pointsPerMinute} pts/min
+      </p>
+
+      {canReferee && onOverride && (
+        <label className="flex flex-col gap-0.5">
+          <span className="text-gray-500">Award to</span>
+          <select
+            className="border rounded px-1 py-1 text-xs"
+            value={state?.ownerTeamId || ''}
+            onChange={(e) => onOverride(e.target.value || null)}
+          >
+            <option value="">Nobody</option>
+            {Object.values(teamsById).map(team => (
+              <option key={team.id} value={team.id}>{team.name}</option>
+            ))}
+          </select>
+        </label>
+      )}
+      {canReferee && (
+        <div className="flex items-end gap-1">
+          <label className="flex flex-col gap-0.5">
+            <span className="text-gray-500">Radius m</span>
+            <input type="number" min={1} max={500} className="border rounded px-1 w-14" value={draft.radiusMeters} onChange={setField('radiusMeters')} />
+          </label>
+          <label className="flex flex-col gap-0.5">
+            <span className="text-gray-500">Hold s</span>
+            <input type="number" min={0} max={3600} className="border rounded px-1 w-14" value={draft.holdSeconds} onChange={setField('holdSeconds')} />
+          </label>
+          <label className="flex flex-col gap-0.5">
+            <span className="text-gray-500">Pts/min</span>
+            <input type="number" min={0} max={1000} className="border rounded px-1 w-14" value={draft.pointsPerMinute} onChange={setField('pointsPerMinute')} />
+          </label>
+          <Button size="sm" variant="outline" onClick={() => onUpdate({ capture: draft })}>
+            Set
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/client/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/client/components/ui/card';
+import { Input } from '@/client/components/ui/input';
+import { Label } from '@/client/components/ui/label';
+import { Trash2, X } from 'lucide-react';
+import {
+  countTiles,
+  deleteOfflineArea,
+  downloadOfflineArea,
+  DownloadProgress,
+  formatBytes,
+  getStorageUsage,
+  isTileCacheSupported,
+  listOfflineAreas,
+  MAX_AREA_TILES,
+  MAX_TILE_ZOOM,
+  OfflineArea,
+  TileBounds,
+} from '@/client/lib/tileCache';
+
+interface OfflineAreasPanelProps {
+  bounds: TileBounds;
+  zoom: number;
+  onClose: () => void;
+}
+
+export default function OfflineAreasPanel({ bounds, zoom, onClose }: OfflineAreasPanelProps) {
+  const minZoom = Math.max(0, Math.floor(zoom));
+  const [areas, setAreas] = useState<OfflineArea[]>([]);
+  const [name, setName] = useState('');
+  const [maxZoom, setMaxZoom] = useState(Math.min(minZoom + 3, MAX_TILE_ZOOM));
+  const [progress, setProgress] = useState<DownloadProgress | null>(null);
+  const [usage, setUsage] = useState<{ usage: number; quota: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const tileCount = countTiles(bounds, minZoom, Math.max(minZoom, maxZoom));
+  const supported = isTileCacheSupported();
+
+  const refresh = async () => {
+    setAreas(listOfflineAreas());
+    setUsage(await getStorageUsage());
+  };
+
+  useEffect(() => {
+    refresh();
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const handleDownload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ completed: 0, failed: 0, total: tileCount });
+
+    try {
+      const area = await downloadOfflineArea(
+        name.trim() || `Area ${areas.length + 1}`,
+        bounds,
+        minZoom,
+        maxZoom,
+        setProgress,
+        controller.signal
+      );
+      if (area.tileCount === 0) {
+        setError('No tiles could be downloaded. Check your connection and try again.');
+      }
+      setName('');
+    } catch (err: any) {
+      setError(err.message || 'Failed to download area');
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+      refresh();
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteOfflineArea(id);
+    refresh();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <Card className="w-full max-w-lg max-h-full overflow-y-auto">
+        <CardHeader>
+          <div className="flex items-start justify-between">
+            <div>
+              <CardTitle>Offline Maps</CardTitle>
+              <CardDescription>
+                Save the current view before heading to a field without coverage.
+              </CardDescription>
+            </div>
+            <Button size="icon" variant="ghost" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {!supported ? (
+            <p className="text-sm text-red-600">Offline maps are not supported in this browser.</p>
+          ) : (
+            <form onSubmit={handleDownload} className="space-y-3">
+              <div className="space-y-1">
+                <Label htmlFor="areaName">Area name</Label>
+                <Input
+                  id="areaName"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. North field"
+                  maxLength={50}
+                  disabled={!!progress}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="maxZoom">Zoom {minZoom} to {maxZoom}</Label>
+                <input
+                  id="maxZoom"
+                  type="range"
+                  className="w-full"
+                  min={minZoom}
+                  max={MAX_TILE_ZOOM}
+                  value={maxZoom}
+                  onChange={(e) => setMaxZoom(parseInt(e.target.value, 10))}
+                  disabled={!!progress}
+                />
+                <p className={`text-xs ${tileCount > MAX_AREA_TILES ? 'text-red-600' : 'text-gray-500'}`}>
+                  {tileCount} tiles{tileCount > MAX_AREA_TILES ? ` (max ${MAX_AREA_TILES})` : ''}
+                </p>
+              </div>
+
+              {progress ? (
+                <div className="space-y-2">
+                  <div className="h-2 w-full rounded bg-gray-200">
+                    <div
+                      className="h-2 rounded bg-blue-600"
+                      style={{ width: `${progress.total ? (progress.completed + progress.failed) / progress.total * 100 : 0}%` }}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between text-xs text-gray-600">
+                    <span>
+                      {progress.completed}/{progress.total} tiles
+                      {progress.failed > 0 && ` (${progress.failed} failed)`}
+                    </span>
+                    <Button type="button" size="sm" variant="outline" onClick={() => abortRef.current?.abort()}>
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <Button type="submit" disabled={tileCount > MAX_AREA_TILES}>
+                  Download This Area
+                </Button>
+              )}
+              {error && <p className="text-sm text-red-600">{error}</p>}
+            </form>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium">Saved Areas</h3>
+              {usage && (
+                <span className="text-xs text-gray-500">
+                  {formatBytes(usage.usage)} of {formatBytes(usage.quota)} used
+                </span>
+              )}
+            </div>
+            {areas.length === 0 ? (
+              <p className="text-sm text-gray-500">No saved areas yet.</p>
+            ) : (
+              areas.map((area) => (
+                <div key={area.id} className="flex items-center justify-between rounded border p-2">
+                  <div>
+                    <p className="text-sm font-medium">{area.name}</p>
+                    <p className="text-xs text-gray-500">
+                      Zoom {area.minZoom}-{area.maxZoom} • {area.tileCount} tiles • {formatBytes(area.sizeBytes)}
+                    </p>
+                  </div>
+                  <Button size="icon" variant="ghost" onClick={() => handleDelete(area.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
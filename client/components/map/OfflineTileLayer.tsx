@@ -0,0 +1,60 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useMap } from 'react-leaflet';
+import L from 'leaflet';
+import { getCachedTile, TILE_ATTRIBUTION, TILE_URL } from '@/client/lib/tileCache';
+
+// Tile layer that serves tiles from saved offline areas before falling back to the network
+class CachedTileLayer extends L.TileLayer {
+  createTile(coords: L.Coords, done: L.DoneCallback): HTMLElement {
+    const tile = document.createElement('img');
+    tile.alt = '';
+    tile.setAttribute('role', 'presentation');
+
+    const url = this.getTileUrl(coords);
+    const load = (src: string, onSettled?: () => void) => {
+      tile.onload = () => {
+        onSettled?.();
+        done(undefined, tile);
+      };
+      tile.onerror = () => {
+        onSettled?.();
+        done(new Error(`Failed to load tile ${url}`), tile);
+      };
+      tile.src = src;
+    };
+
+    getCachedTile(url)
+      .then(cached => cached ? cached.blob() : null)
+      .then((blob) => {
+        if (!blob) {
+          load(url);
+          return;
+        }
+        const objectUrl = URL.createObjectURL(blob);
+        load(objectUrl, () => URL.revokeObjectURL(objectUrl));
+      })
+      .catch(() => load(url));
+
+    return tile;
+  }
+}
+
+export default function OfflineTileLayer() {
+  const map = useMap();
+
+  useEffect(() => {
+    const layer = new CachedTileLayer(TILE_URL, {
+      attribution: TILE_ATTRIBUTION,
+      maxZoom: 19,
+      crossOrigin: true,
+    }).addTo(map);
+
+    return () => {
+      layer.remove();
+    };
+  }, [map]);
+
+  return null;
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/client/components/ui/button';
+import { Play, Pause, X } from 'lucide-react';
+import { REPLAY_SPEEDS } from '@/client/hooks/useReplay';
+import { formatElapsed } from '@/client/lib/utils';
+
+interface ReplayTimelineProps {
+  currentTime: number;
+  startTime: number;
+  endTime: number;
+  isPlaying: boolean;
+  speed: number;
+  loading?: boolean;
+  onPlay: () => void;
+  onPause: () => void;
+  onSeek: (time: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onClose: () => void;
+}
+
+export default function ReplayTimeline({
+  currentTime,
+  startTime,
+  endTime,
+  isPlaying,
+  speed,
+  loading = false,
+  onPlay,
+  onPause,
+  onSeek,
+  onSpeedChange,
+  onClose,
+}: ReplayTimelineProps) {
+  const isEmpty = endTime <= startTime;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-3">
+      <div className="flex items-center gap-2 mb-2">
+        <h3 className="text-sm font-medium">After-Action Replay</h3>
+        <span className="text-xs text-gray-500">
+          {loading
+            ? 'Loading events...'
+            : isEmpty
+              ? 'No recorded events'
+              : new Date(currentTime).toLocaleTimeString()}
+        </span>
+        <Button size="icon" variant="ghost" className="ml-auto h-8 w-8" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button
+          size="icon"
+          variant="outline"
+          className="h-8 w-8 shrink-0"
+          onClick={isPlaying ? onPause : onPlay}
+          disabled={loading || isEmpty}
+        >
+          {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </Button>
+
+        <input
+          type="range"
+          className="flex-1 accent-green-600"
+          min={startTime}
+          max={endTime}
+          step={1000}
+          value={currentTime}
+          onChange={(e) => onSeek(Number(e.target.value))}
+          disabled={loading || isEmpty}
+        />
+
+        <span className="text-xs text-gray-600 tabular-nums whitespace-nowrap">
+          {formatElapsed(currentTime - startTime)} / {formatElapsed(endTime - startTime)}
+        </span>
+      </div>
+
+      <div className="flex gap-1 mt-2 overflow-x-auto">
+        {REPLAY_SPEEDS.map((option) => (
+          <Button
+            key={option}
+            size="sm"
+            variant={speed === option ? "default" : "outline"}
+            className="h-7 px-2 text-xs"
+            onClick={() => onSpeedChange(option)}
+          >
+            {option}x
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import React from 'react';
+import { Marker, Polyline } from 'react-leaflet';
+import L from 'leaflet';
+import { Button } from '@/client/components/ui/button';
+import { SymbolVertex, TacticalSymbol } from '@/shared/types';
+import { estimateTravelTime, formatBearing, formatDistance, formatDuration, getRouteLegs } from '@/client/lib/utils';
+
+const toLatLng = (vertex: SymbolVertex): [number, number] => [vertex.latitude, vertex.longitude];
+
+function arrowIcon(bearing: number, color: string): L.DivIcon {
+  return L.divIcon({
+    className: 'route-arrow',
+    html: `<div style="color: ${color}; transform: rotate(${bearing}deg); font-size: 14px; line-height: 14px; text-align: center">▲</div>`,
+    iconSize: [14, 14],
+    iconAnchor: [7, 7],
+  });
+}
+
+function waypointIcon(index: number, color: string): L.DivIcon {
+  return L.divIcon({
+    className: 'route-waypoint',
+    html: `<div class="flex h-5 w-5 items-center justify-center rounded-full bg-white text-[10px] font-bold shadow" style="border: 2px solid ${color}; color: ${color}">${index + 1}</div>`,
+    iconSize: [20, 20],
+    iconAnchor: [10, 10],
+  });
+}
+
+// Route drawn as a line with a direction arrow on every leg and numbered waypoints.
+// Routes assigned to the viewer are drawn heavier so their own axis stands out.
+export function RouteLine({ symbol, highlighted = false }: { symbol: TacticalSymbol; highlighted?: boolean }) {
+  if (symbol.geometry?.kind !== 'polyline') return null;
+
+  const { vertices } = symbol.geometry;
+  const legs = getRouteLegs(vertices);
+
+  return (
+    <>
+      <Polyline
+        positions={vertices.map(toLatLng)}
+        pathOptions={{ color: symbol.color, weight: highlighted ? 5 : 3, opacity: 0.9, interactive: false }}
+      />
+      {legs.map((leg, index) => (
+        <Marker
+          key={`arrow-${index}`}
+          position={[(leg.from.latitude + leg.to.latitude) / 2, (leg.from.longitude + leg.to.longitude) / 2]}
+          icon={arrowIcon(leg.bearing, symbol.color)}
+          interactive={false}
+        />
+      ))}
+      {vertices.map((vertex, index) => (
+        <Marker
+          key={`waypoint-${index}`}
+          position={toLatLng(vertex)}
+          icon={waypointIcon(index, symbol.color)}
+          interactive={false}
+        />
+      ))}
+    </>
+  );
+}
+
+// Leg table, totals and member assignment shown in a route's popup
+export function RouteDetails({
+  symbol,
+  memberNames,
+  readOnly = false,
+  onAssign,
+}: {
+  symbol: TacticalSymbol;
+  memberNames: Record<string, string>;
+  readOnly?: boolean;
+  onAssign: (assignedTo: string[]) => void;
+}) {
+  if (symbol.geometry?.kind !== 'polyline') return null;
+
+  const legs = getRouteLegs(symbol.geometry.vertices);
+  const total = legs.reduce((sum, leg) => sum + leg.distance, 0);
+  const assignedTo = symbol.assignedTo || [];
+
+  const toggleMember = (memberId: string) => {
+    onAssign(assignedTo.includes(memberId)
+      ? assignedTo.filter(id => id !== memberId)
+      : [...assignedTo, memberId]);
+  };
+
+  return (
+    <div className="mt-2 space-y-2 text-xs">
+      <p className="font-medium">
+        {formatDistance(total)} • ETA {formatDuration(estimateTravelTime(total))} walking
+      </p>
+      <ol className="space-y-0.5 font-mono">
+        {legs.map((leg, index) => (
+          <li key={index}>
+            {index + 1}→{index + 2}: {formatBearing(leg.bearing)} • {formatDistance(leg.distance)}
+          </li>
+        ))}
+      </ol>
+      <div>
+        <p className="font-medium mb-1">Assigned to</p>
+        {readOnly ? (
+          <p>{assignedTo.length > 0 ? assignedTo.map(id => memberNames[id] || `User-${id.slice(-4)}`).join(', ') : 'Nobody'}</p>
+        ) : (
+          <div className="flex flex-wrap gap-1">
+            {Object.entries(memberNames).map(([memberId, name]) => (
+              <Button
+                key={memberId}
+                size="sm"
+                variant={assignedTo.includes(memberId) ? 'default' : 'outline'}
+                onClick={() => toggleMember(memberId)}
+              >
+                {name}
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
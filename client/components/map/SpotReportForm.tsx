@@ -0,0 +1,146 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/client/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/client/components/ui/card';
+import { Input } from '@/client/components/ui/input';
+import { Label } from '@/client/components/ui/label';
+import { X } from 'lucide-react';
+import { SPOT_REPORT_SETTINGS, SpotReport, SpotReportSchema, SymbolVertex } from '@/shared/types';
+import { convertToGridRef } from '@/client/lib/utils';
+
+const TTL_OPTIONS = [10, 20, 30, 60, 120].filter(minutes => minutes <= SPOT_REPORT_SETTINGS.maxTtlMinutes);
+
+interface SpotReportFormProps {
+  location: SymbolVertex;
+  onSubmit: (spotReport: SpotReport, expiresAt: string) => void;
+  onClose: () => void;
+}
+
+// SALUTE report for an enemy sighting at the picked location: size, activity, unit, time and equipment
+export default function SpotReportForm({ location, onSubmit, onClose }: SpotReportFormProps) {
+  const [size, setSize] = useState('');
+  const [activity, setActivity] = useState('');
+  const [unit, setUnit] = useState('');
+  const [equipment, setEquipment] = useState('');
+  const [minutesAgo, setMinutesAgo] = useState('0');
+  const [ttlMinutes, setTtlMinutes] = useState(SPOT_REPORT_SETTINGS.defaultTtlMinutes);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const now = Date.now();
+    const age = Math.min(ttlMinutes - 1, Math.max(0, parseInt(minutesAgo, 10) || 0));
+    const observedAt = new Date(now - age * 60 * 1000);
+    const result = SpotReportSchema.safeParse({
+      size,
+      activity,
+      ...(unit.trim() && { unit: unit.trim() }),
+      ...(equipment.trim() && { equipment: equipment.trim() }),
+      observedAt: observedAt.toISOString(),
+    });
+
+    if (!result.success) {
+      setError('Size and activity are required');
+      return;
+    }
+
+    // The report lives for the chosen time from when it was observed, not when it was sent
+    onSubmit(result.data, new Date(observedAt.getTime() + ttlMinutes * 60 * 1000).toISOString());
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <Card className="w-full max-w-md max-h-full overflow-y-auto">
+        <CardHeader>
+          <div className="flex items-start justify-between">
+            <div>
+              <CardTitle>Spot Report</CardTitle>
+              <CardDescription>
+                Location <span className="font-mono">{convertToGridRef(location.latitude, location.longitude)}</span>
+              </CardDescription>
+            </div>
+            <Button size="icon" variant="ghost" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="spotSize">Size</Label>
+              <Input
+                id="spotSize"
+                value={size}
+                onChange={(e) => setSize(e.target.value)}
+                placeholder="e.g. 4 players"
+                maxLength={50}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="spotActivity">Activity</Label>
+              <Input
+                id="spotActivity"
+                value={activity}
+                onChange={(e) => setActivity(e.target.value)}
+                placeholder="e.g. Moving north along the treeline"
+                maxLength={100}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="spotUnit">Unit</Label>
+                <Input
+                  id="spotUnit"
+                  value={unit}
+                  onChange={(e) => setUnit(e.target.value)}
+                  placeholder="e.g. Red team"
+                  maxLength={50}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="spotMinutesAgo">Seen (min ago)</Label>
+                <Input
+                  id="spotMinutesAgo"
+                  type="number"
+                  min={0}
+                  max={ttlMinutes - 1}
+                  value={minutesAgo}
+                  onChange={(e) => setMinutesAgo(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="spotEquipment">Equipment</Label>
+              <Input
+                id="spotEquipment"
+                value={equipment}
+                onChange={(e) => setEquipment(e.target.value)}
+                placeholder="e.g. LMG, smoke"
+                maxLength={100}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="spotTtl">Keep on map for</Label>
+              <select
+                id="spotTtl"
+                className="border rounded px-2 py-1 text-sm w-full"
+                value={ttlMinutes}
+                onChange={(e) => setTtlMinutes(parseInt(e.target.value, 10))}
+              >
+                {TTL_OPTIONS.map(minutes => (
+                  <option key={minutes} value={minutes}>{minutes} min</option>
+                ))}
+              </select>
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <Button type="submit" className="w-full">
+              Send Report
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
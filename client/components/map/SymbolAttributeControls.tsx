@@ -0,0 +1,46 @@
+'use client';
+
+import React from 'react';
+import {
+  SymbolAffiliation,
+  SymbolAffiliationSchema,
+  SymbolConfidence,
+  SymbolConfidenceSchema,
+  SymbolStatus,
+  SymbolStatusSchema,
+  TacticalSymbol,
+} from '@/shared/types';
+
+const FIELDS = [
+  { key: 'affiliation', label: 'Affiliation', options: SymbolAffiliationSchema.options },
+  { key: 'status', label: 'Status', options: SymbolStatusSchema.options },
+  { key: 'confidence', label: 'Confidence', options: SymbolConfidenceSchema.options },
+] as const;
+
+// Affiliation, status and confidence pickers in the symbol popup; each change is saved immediately
+export default function SymbolAttributeControls({
+  symbol,
+  onUpdate,
+}: {
+  symbol: TacticalSymbol;
+  onUpdate: (updates: { affiliation?: SymbolAffiliation; status?: SymbolStatus; confidence?: SymbolConfidence }) => void;
+}) {
+  return (
+    <div className="mt-2 grid grid-cols-3 gap-1 text-xs">
+      {FIELDS.map(({ key, label, options }) => (
+        <label key={key} className="flex flex-col gap-0.5">
+          <span className="text-gray-500">{label}</span>
+          <select
+            className="border rounded px-1 py-1 text-xs"
+            value={symbol[key]}
+            onChange={(e) => onUpdate({ [key]: e.target.value })}
+          >
+            {options.map((option: string) => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        </label>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,284 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { Button } from '@/client/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/client/components/ui/card';
+import { Input } from '@/client/components/ui/input';
+import { Label } from '@/client/components/ui/label';
+import { Textarea } from '@/client/components/ui/textarea';
+import { Undo2, X } from 'lucide-react';
+import { TacticalSymbol, UpdateSymbolRequestSchema } from '@/shared/types';
+import { cn } from '@/client/lib/utils';
+
+// The fields a symbol keeps from placement that can be edited here
+const SymbolEditSchema = UpdateSymbolRequestSchema.pick({
+  label: true,
+  description: true,
+  color: true,
+  size: true,
+  rotation: true,
+});
+
+type SymbolEdit = Required<Pick<TacticalSymbol, 'color' | 'size' | 'rotation'>> & { label: string; description: string };
+type SymbolEditField = keyof SymbolEdit;
+
+const EDIT_FIELDS: SymbolEditField[] = ['label', 'description', 'color', 'size', 'rotation'];
+
+export const SYMBOL_COLOR_PALETTE = [
+  '#FF0000', '#FF4500', '#FFA500', '#FFFF00', '#00FF00', '#32CD32',
+  '#00FFFF', '#0000FF', '#800080', '#FF69B4', '#808080', '#000000',
+];
+
+const SIZES: TacticalSymbol['size'][] = ['small', 'medium', 'large'];
+
+function toEdit(symbol: TacticalSymbol): SymbolEdit {
+  return {
+    label: symbol.label || '',
+    description: symbol.description || '',
+    color: symbol.color,
+    size: symbol.size,
+    rotation: symbol.rotation,
+  };
+}
+
+function assignField<K extends SymbolEditField>(target: Partial<SymbolEdit>, field: K, value: SymbolEdit[K]) {
+  target[field] = value;
+}
+
+// Circular control for the direction a symbol faces; drag or tap around the ring, in 5° steps
+function RotationDial({ value, onChange }: { value: number; onChange: (rotation: number) => void }) {
+  const dialRef = useRef<SVGSVGElement>(null);
+  const draggingRef = useRef(false);
+
+  const updateFromPointer = (e: React.PointerEvent) => {
+    const rect = dialRef.current?.getBoundingClientRect();
+    if (!rect) return;
+
+    const dx = e.clientX - (rect.left + rect.width / 2);
+    const dy = e.clientY - (rect.top + rect.height / 2);
+    // Clockwise from north, like a compass bearing
+    const degrees = (Math.atan2(dx, -dy) * 180 / Math.PI + 360) % 360;
+    onChange((Math.round(degrees / 5) * 5) % 360);
+  };
+
+  const radians = value * Math.PI / 180;
+
+  return (
+    <svg
+      ref={dialRef}
+      viewBox="0 0 100 100"
+      className="h-24 w-24 cursor-pointer select-none"
+      style={{ touchAction: 'none' }}
+      onPointerDown={(e) => {
+        draggingRef.current = true;
+        (e.target as Element).setPointerCapture?.(e.pointerId);
+        updateFromPointer(e);
+      }}
+      onPointerMove={(e) => draggingRef.current && updateFromPointer(e)}
+      onPointerUp={() => { draggingRef.current = false; }}
+    >
+      <circle cx="50" cy="50" r="45" fill="#F9FAFB" stroke="#D1D5DB" strokeWidth="2" />
+      {[0, 90, 180, 270].map(tick => (
+        <text
+          key={tick}
+          x={50 + 36 * Math.sin(tick * Math.PI / 180)}
+          y={50 - 36 * Math.cos(tick * Math.PI / 180) + 3}
+          fontSize="9"
+          textAnchor="middle"
+          fill="#6B7280"
+        >
+          {['N', 'E', 'S', 'W'][tick / 90]}
+        </text>
+      ))}
+      <line
+        x1="50"
+        y1="50"
+        x2={50 + 30 * Math.sin(radians)}
+        y2={50 - 30 * Math.cos(radians)}
+        stroke="#111827"
+        strokeWidth="3"
+        strokeLinecap="round"
+      />
+      <circle cx={50 + 30 * Math.sin(radians)} cy={50 - 30 * Math.cos(radians)} r="5" fill="#111827" />
+    </svg>
+  );
+}
+
+interface SymbolEditPanelProps {
+  symbol: TacticalSymbol;
+  onUpdate: (updates: Partial<TacticalSymbol>) => void;
+  onClose: () => void;
+}
+
+/**
+ * Label, description, colour, size and rotation of a placed symbol. Saving sends only the
+ * changed fields; the previous values are kept so the last save can be undone.
+ */
+export default function SymbolEditPanel({ symbol, onUpdate, onClose }: SymbolEditPanelProps) {
+  const [draft, setDraft] = useState<SymbolEdit>(() => toEdit(symbol));
+  const [errors, setErrors] = useState<Partial<Record<SymbolEditField, string>>>({});
+  const [lastEdit, setLastEdit] = useState<Partial<SymbolEdit> | null>(null);
+
+  const setField = <K extends SymbolEditField>(field: K, value: SymbolEdit[K]) => {
+    setDraft(prev => ({ ...prev, [field]: value }));
+    setErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = SymbolEditSchema.safeParse({ ...draft, color: draft.color.toUpperCase() });
+    if (!result.success) {
+      const fieldErrors: Partial<Record<SymbolEditField, string>> = {};
+      result.error.issues.forEach(issue => {
+        fieldErrors[issue.path[0] as SymbolEditField] = issue.message;
+      });
+      setErrors(fieldErrors);
+      return;
+    }
+
+    // The form always fills every field, so the parsed values are never null
+    const edited = result.data as SymbolEdit;
+    const current = toEdit(symbol);
+    const changes: Partial<SymbolEdit> = {};
+    const previous: Partial<SymbolEdit> = {};
+    EDIT_FIELDS.forEach(field => {
+      if (edited[field] !== current[field]) {
+        assignField(changes, field, edited[field]);
+        assignField(previous, field, current[field]);
+      }
+    });
+
+    if (Object.keys(changes).length === 0) return;
+
+    onUpdate(changes);
+    setDraft(prev => ({ ...prev, ...changes }));
+    setLastEdit(previous);
+  };
+
+  const undoLastEdit = () => {
+    if (!lastEdit) return;
+
+    onUpdate(lastEdit);
+    setDraft(prev => ({ ...prev, ...lastEdit }));
+    setLastEdit(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-end sm:items-center justify-center sm:p-4 z-50">
+      <Card className="w-full sm:max-w-md max-h-[90vh] overflow-y-auto rounded-b-none sm:rounded-b-lg">
+        <CardHeader>
+          <div className="flex items-start justify-between">
+            <div>
+              <CardTitle>Edit Symbol</CardTitle>
+              <CardDescription>{symbol.type.replace('_', ' ')}</CardDescription>
+            </div>
+            <Button size="icon" variant="ghost" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="symbolLabel">Label</Label>
+              <Input
+                id="symbolLabel"
+                value={draft.label}
+                onChange={(e) => setField('label', e.target.value)}
+                placeholder="e.g. OBJ Alpha"
+              />
+              {errors.label && <p className="text-xs text-red-600">{errors.label}</p>}
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="symbolDescription">Description</Label>
+              <Textarea
+                id="symbolDescription"
+                className="min-h-[60px]"
+                value={draft.description}
+                onChange={(e) => setField('description', e.target.value)}
+              />
+              <p className={cn('text-xs', errors.description ? 'text-red-600' : 'text-gray-500')}>
+                {errors.description || `${draft.description.length}/200`}
+              </p>
+            </div>
+
+            <div className="space-y-1">
+              <Label>Colour</Label>
+              <div className="grid grid-cols-6 gap-2">
+                {SYMBOL_COLOR_PALETTE.map(color => (
+                  <button
+                    key={color}
+                    type="button"
+                    aria-label={color}
+                    className={cn(
+                      'h-8 rounded border',
+                      draft.color.toUpperCase() === color && 'ring-2 ring-offset-1 ring-gray-900'
+                    )}
+                    style={{ backgroundColor: color }}
+                    onClick={() => setField('color', color)}
+                  />
+                ))}
+              </div>
+              <Input
+                className="font-mono"
+                value={draft.color}
+                onChange={(e) => setField('color', e.target.value)}
+                maxLength={7}
+              />
+              {errors.color && <p className="text-xs text-red-600">Use a hex colour such as #FF0000</p>}
+            </div>
+
+            <div className="space-y-1">
+              <Label>Size</Label>
+              <div className="flex gap-2">
+                {SIZES.map(size => (
+                  <Button
+                    key={size}
+                    type="button"
+                    size="sm"
+                    variant={draft.size === size ? 'default' : 'outline'}
+                    className="flex-1"
+                    onClick={() => setField('size', size)}
+                  >
+                    {size}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="symbolRotation">Rotation</Label>
+              <div className="flex items-center gap-4">
+                <RotationDial value={draft.rotation} onChange={(rotation) => setField('rotation', rotation)} />
+                <div className="space-y-1">
+                  <Input
+                    id="symbolRotation"
+                    type="number"
+                    className="w-24"
+                    min={0}
+                    max={360}
+                    value={draft.rotation}
+                    onChange={(e) => setField('rotation', parseFloat(e.target.value) || 0)}
+                  />
+                  {errors.rotation && <p className="text-xs text-red-600">{errors.rotation}</p>}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={undoLastEdit} disabled={!lastEdit}>
+                <Undo2 className="h-4 w-4 mr-2" />
+                Undo
+              </Button>
+              <Button type="submit" className="flex-1">
+                Save
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
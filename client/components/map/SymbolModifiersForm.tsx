@@ -0,0 +1,80 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/client/components/ui/button';
+import { Input } from '@/client/components/ui/input';
+import { SymbolEchelon, SymbolEchelonSchema, TacticalSymbol } from '@/shared/types';
+import { formatDtg } from '@/client/lib/milSymbol';
+
+// Echelon, unique designation, quantity and DTG fields shown in a framed symbol's popup
+export default function SymbolModifiersForm({
+  symbol,
+  onSave,
+}: {
+  symbol: TacticalSymbol;
+  onSave: (updates: Partial<TacticalSymbol>) => void;
+}) {
+  const [echelon, setEchelon] = useState<SymbolEchelon | ''>(symbol.echelon || '');
+  const [uniqueDesignation, setUniqueDesignation] = useState(symbol.uniqueDesignation || '');
+  const [quantity, setQuantity] = useState(symbol.quantity ? String(symbol.quantity) : '');
+  const [dtg, setDtg] = useState(symbol.dtg || '');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsedQuantity = parseInt(quantity, 10);
+    onSave({
+      ...(echelon && { echelon }),
+      uniqueDesignation: uniqueDesignation.trim(),
+      ...(parsedQuantity >= 1 && { quantity: Math.min(parsedQuantity, 999) }),
+      dtg: dtg.trim().toUpperCase(),
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-2 space-y-1 text-xs">
+      <div className="flex gap-1">
+        <select
+          className="border rounded px-2 py-1 text-xs flex-1"
+          value={echelon}
+          onChange={(e) => setEchelon(e.target.value as SymbolEchelon | '')}
+        >
+          <option value="" disabled>Echelon</option>
+          {SymbolEchelonSchema.options.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+        <Input
+          className="h-7 w-16 text-xs"
+          type="number"
+          min={1}
+          max={999}
+          placeholder="Qty"
+          value={quantity}
+          onChange={(e) => setQuantity(e.target.value)}
+        />
+      </div>
+      <Input
+        className="h-7 text-xs"
+        placeholder="Designation, e.g. 2/A"
+        maxLength={20}
+        value={uniqueDesignation}
+        onChange={(e) => setUniqueDesignation(e.target.value)}
+      />
+      <div className="flex gap-1">
+        <Input
+          className="h-7 text-xs font-mono"
+          placeholder="DTG"
+          maxLength={20}
+          value={dtg}
+          onChange={(e) => setDtg(e.target.value)}
+        />
+        <Button type="button" size="sm" variant="outline" onClick={() => setDtg(formatDtg(new Date()))}>
+          Now
+        </Button>
+      </div>
+      <Button type="submit" size="sm" className="w-full">
+        Save Modifiers
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,193 @@
+'use client';
+
+import React from 'react';
+import { Circle, CircleMarker, Marker, Polygon, Polyline } from 'react-leaflet';
+import L from 'leaflet';
+import { SymbolGeometry, SymbolGeometryKind, SymbolVertex, TacticalSymbol } from '@/shared/types';
+import { calculateDistance, formatDistance, getShapeAnchor } from '@/client/lib/utils';
+
+export const SHAPE_KINDS: { kind: SymbolGeometryKind; label: string }[] = [
+  { kind: 'point', label: 'Point' },
+  { kind: 'polyline', label: 'Line' },
+  { kind: 'polygon', label: 'Area' },
+  { kind: 'circle', label: 'Circle' },
+];
+
+// Matches the minimums in SymbolGeometrySchema
+export const MIN_VERTICES: Record<'polyline' | 'polygon', number> = {
+  polyline: 2,
+  polygon: 3,
+};
+
+const toLatLng = (vertex: SymbolVertex): [number, number] => [vertex.latitude, vertex.longitude];
+
+function pathLength(vertices: SymbolVertex[], closed: boolean): number {
+  const points = closed ? [...vertices, vertices[0]] : vertices;
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += calculateDistance(points[i - 1].latitude, points[i - 1].longitude, points[i].latitude, points[i].longitude);
+  }
+  return length;
+}
+
+// Short summary for the symbol popup, e.g. "Line • 1.2km" or "Circle • 150m radius"
+export function describeGeometry(geometry?: SymbolGeometry): string | null {
+  switch (geometry?.kind) {
+    case 'polyline':
+      return `Line • ${formatDistance(pathLength(geometry.vertices, false))}`;
+    case 'polygon':
+      return `Area • ${geometry.vertices.length} points • ${formatDistance(pathLength(geometry.vertices, true))} perimeter`;
+    case 'circle':
+      return `Circle • ${formatDistance(geometry.radiusMeters)} radius`;
+    default:
+      return null;
+  }
+}
+
+// Stroke and fill of a line, area or circle symbol, drawn beneath its icon.
+// Not interactive so map clicks still land while drawing over an existing shape.
+export function SymbolShape({ symbol }: { symbol: TacticalSymbol }) {
+  const { geometry, color } = symbol;
+  const pathOptions = { color, weight: 3, opacity: 0.9, fillColor: color, fillOpacity: 0.2, interactive: false };
+  // Geofences get a dashed edge so zones read differently from drawn areas
+  if (symbol.geofence) {
+    Object.assign(pathOptions, { weight: 4, dashArray: '12 8', fillOpacity: 0.1 });
+  }
+
+  switch (geometry?.kind) {
+    case 'polyline':
+      return <Polyline positions={geometry.vertices.map(toLatLng)} pathOptions={pathOptions} />;
+    case 'polygon':
+      return <Polygon positions={geometry.vertices.map(toLatLng)} pathOptions={pathOptions} />;
+    case 'circle':
+      return <Circle center={toLatLng(symbol.coordinates)} radius={geometry.radiusMeters} pathOptions={pathOptions} />;
+    default:
+      return null;
+  }
+}
+
+// Dashed preview of the shape being drawn
+export function ShapeDraft({ kind, vertices, color }: { kind: SymbolGeometryKind; vertices: SymbolVertex[]; color: string }) {
+  const pathOptions = { color, weight: 2, dashArray: '6 6', fillColor: color, fillOpacity: 0.1, interactive: false };
+  const positions = vertices.map(toLatLng);
+
+  return (
+    <>
+      {kind === 'polygon' && positions.length >= 3 && <Polygon positions={positions} pathOptions={pathOptions} />}
+      {kind !== 'polygon' && positions.length >= 2 && <Polyline positions={positions} pathOptions={pathOptions} />}
+      {positions.map((position, index) => (
+        <CircleMarker
+          key={index}
+          center={position}
+          radius={4}
+          pathOptions={{ color, weight: 2, fillColor: '#FFFFFF', fillOpacity: 1, interactive: false }}
+        />
+      ))}
+    </>
+  );
+}
+
+function handleIcon(color: string, isMidpoint = false): L.DivIcon {
+  const size = isMidpoint ? 10 : 14;
+  return L.divIcon({
+    className: 'shape-handle',
+    html: `<div style="width: ${size}px; height: ${size}px; border: 2px solid ${color}; background: white; opacity: ${isMidpoint ? 0.6 : 1}"></div>`,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  });
+}
+
+// Point at the given distance due east, used to place the radius handle of a circle
+function offsetEast(center: SymbolVertex, meters: number): [number, number] {
+  const metersPerDegree = 111320 * Math.cos(center.latitude * Math.PI / 180);
+  return [center.latitude, center.longitude + meters / metersPerDegree];
+}
+
+/**
+ * Drag handles for reshaping a line, area or circle. Vertices are dragged, midpoint
+ * handles insert a new vertex when clicked and a right click removes a vertex.
+ */
+export function ShapeEditor({
+  symbol,
+  onUpdate,
+}: {
+  symbol: TacticalSymbol;
+  onUpdate: (updates: Partial<TacticalSymbol>) => void;
+}) {
+  const { geometry, color } = symbol;
+
+  if (geometry?.kind === 'circle') {
+    return (
+      <Marker
+        position={offsetEast(symbol.coordinates, geometry.radiusMeters)}
+        icon={handleIcon(color)}
+        draggable
+        eventHandlers={{
+          dragend: (e) => {
+            const position = e.target.getLatLng();
+            const radiusMeters = calculateDistance(symbol.coordinates.latitude, symbol.coordinates.longitude, position.lat, position.lng);
+            onUpdate({ geometry: { kind: 'circle', radiusMeters: Math.min(20000, Math.max(1, radiusMeters)) } });
+          },
+        }}
+      />
+    );
+  }
+
+  if (geometry?.kind !== 'polyline' && geometry?.kind !== 'polygon') return null;
+
+  const { kind, vertices } = geometry;
+  const updateVertices = (next: SymbolVertex[]) => {
+    onUpdate({ geometry: { kind, vertices: next }, coordinates: getShapeAnchor(next) });
+  };
+
+  const midpoints = vertices
+    .map((vertex, index) => {
+      const next = vertices[(index + 1) % vertices.length];
+      return {
+        index: index + 1,
+        position: [(vertex.latitude + next.latitude) / 2, (vertex.longitude + next.longitude) / 2] as [number, number],
+      };
+    })
+    // Lines have no segment between the last and first vertex
+    .slice(0, kind === 'polygon' ? vertices.length : vertices.length - 1);
+
+  return (
+    <>
+      {vertices.map((vertex, index) => (
+        <Marker
+          key={`vertex-${index}`}
+          position={toLatLng(vertex)}
+          icon={handleIcon(color)}
+          draggable
+          eventHandlers={{
+            dragend: (e) => {
+              const position = e.target.getLatLng();
+              updateVertices(vertices.map((v, i) => i === index ? { latitude: position.lat, longitude: position.lng } : v));
+            },
+            contextmenu: () => {
+              if (vertices.length > MIN_VERTICES[kind]) {
+                updateVertices(vertices.filter((_, i) => i !== index));
+              }
+            },
+          }}
+        />
+      ))}
+      {midpoints.map(({ index, position }) => (
+        <Marker
+          key={`midpoint-${index}`}
+          position={position}
+          icon={handleIcon(color, true)}
+          eventHandlers={{
+            click: () => {
+              updateVertices([
+                ...vertices.slice(0, index),
+                { latitude: position[0], longitude: position[1] },
+                ...vertices.slice(index),
+              ]);
+            },
+          }}
+        />
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,163 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/client/components/ui/button';
+import { Input } from '@/client/components/ui/input';
+import { MessageSquare, ChevronDown, Send } from 'lucide-react';
+import { ChatChannel, ChatMessage, CANNED_CHAT_MESSAGES } from '@/shared/types';
+import { cn } from '@/client/lib/utils';
+
+interface ChatPanelProps {
+  userId: string;
+  isOpen: boolean;
+  channel: ChatChannel;
+  messages: ChatMessage[];
+  unreadCount: number;
+  hasTeamChannel: boolean;
+  /** False on a channel the user can read but not post to (the team channel of a teamless game master) */
+  canSend?: boolean;
+  hasMore: boolean;
+  loading?: boolean;
+  onToggle: () => void;
+  onChannelChange: (channel: ChatChannel) => void;
+  onLoadMore: () => void;
+  onSend: (body: string) => void;
+}
+
+export default function ChatPanel({
+  userId,
+  isOpen,
+  channel,
+  messages,
+  unreadCount,
+  hasTeamChannel,
+  canSend = true,
+  hasMore,
+  loading = false,
+  onToggle,
+  onChannelChange,
+  onLoadMore,
+  onSend,
+}: ChatPanelProps) {
+  const [draft, setDraft] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    if (listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [messages.length, isOpen, channel]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const body = draft.trim();
+    if (!body) return;
+
+    onSend(body);
+    setDraft('');
+  };
+
+  if (!isOpen) {
+    return (
+      <Button className="relative shadow-lg" onClick={onToggle}>
+        <MessageSquare className="h-4 w-4 mr-2" />
+        Chat
+        {unreadCount > 0 && (
+          <span className="absolute -top-2 -right-2 bg-red-500 text-white text-xs rounded-full min-w-5 h-5 px-1 flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </Button>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg w-80 max-w-[calc(100vw-2rem)] flex flex-col max-h-[60vh]">
+      <div className="flex items-center gap-1 p-2 border-b">
+        <Button
+          size="sm"
+          variant={channel === 'all' ? "default" : "ghost"}
+          onClick={() => onChannelChange('all')}
+        >
+          All
+        </Button>
+        {hasTeamChannel && (
+          <Button
+            size="sm"
+            variant={channel === 'team' ? "default" : "ghost"}
+            onClick={() => onChannelChange('team')}
+          >
+            Team
+          </Button>
+        )}
+        <Button size="icon" variant="ghost" className="ml-auto h-8 w-8" onClick={onToggle}>
+          <ChevronDown className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto p-2 space-y-2 min-h-32">
+        {hasMore && (
+          <Button size="sm" variant="ghost" className="w-full text-xs" onClick={onLoadMore} disabled={loading}>
+            {loading ? 'Loading...' : 'Load older messages'}
+          </Button>
+        )}
+        {messages.length === 0 && !loading && (
+          <p className="text-xs text-gray-500 text-center mt-4">No messages yet</p>
+        )}
+        {messages.map((message) => (
+          <div
+            key={message.id}
+            className={cn('text-sm', message.userId === userId && 'text-right')}
+          >
+            <div className="text-xs text-gray-500">
+              {message.username} • {new Date(message.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </div>
+            <div
+              className={cn(
+                'inline-block rounded-lg px-2 py-1 break-words max-w-full',
+                message.userId === userId ? 'bg-green-600 text-white' : 'bg-gray-100'
+              )}
+            >
+              {message.body}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {canSend ? (
+        <>
+          <div className="flex gap-1 px-2 pt-2 overflow-x-auto">
+            {CANNED_CHAT_MESSAGES.map((canned) => (
+              <Button
+                key={canned}
+                size="sm"
+                variant="outline"
+                className="h-9 px-3 text-xs whitespace-nowrap"
+                onClick={() => onSend(canned)}
+              >
+                {canned}
+              </Button>
+            ))}
+          </div>
+
+          <form onSubmit={handleSubmit} className="flex gap-1 p-2">
+            <Input
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder={channel === 'team' ? 'Message your team' : 'Message everyone'}
+              maxLength={500}
+            />
+            <Button type="submit" size="icon" disabled={!draft.trim()}>
+              <Send className="h-4 w-4" />
+            </Button>
+          </form>
+        </>
+      ) : (
+        <p className="text-xs text-gray-500 text-center p-2 border-t">
+          Team messages are read-only until you join a team
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/client/components/ui/button';
+import { AlertTriangle, X } from 'lucide-react';
+import { GeofenceEvent } from '@/shared/types';
+import { GEOFENCE_LABELS, cn } from '@/client/lib/utils';
+
+export interface GeofenceAlert extends GeofenceEvent {
+  id: string;
+  type: 'enter' | 'exit';
+}
+
+interface GeofenceAlertsProps {
+  userId: string;
+  alerts: GeofenceAlert[];
+  onDismiss: (id: string) => void;
+}
+
+// Entering out of bounds is the one crossing a player must act on, so it stands out
+function isWarning(alert: GeofenceAlert) {
+  return alert.kind === 'out_of_bounds' && alert.type === 'enter';
+}
+
+// Zone crossings for this player, and for admins every player's crossings
+export default function GeofenceAlerts({ userId, alerts, onDismiss }: GeofenceAlertsProps) {
+  if (alerts.length === 0) return null;
+
+  return (
+    <div className="flex flex-col gap-2 w-80 max-w-[calc(100vw-2rem)]">
+      {alerts.map(alert => {
+        const zone = alert.label || GEOFENCE_LABELS[alert.kind];
+        const who = alert.userId === userId ? 'You' : alert.username;
+
+        return (
+          <div
+            key={alert.id}
+            className={cn(
+              'flex items-center gap-2 rounded-lg shadow-lg px-3 py-2 text-sm',
+              isWarning(alert) ? 'bg-red-600 text-white' : 'bg-white text-gray-900'
+            )}
+          >
+            {isWarning(alert) && <AlertTriangle className="h-4 w-4 flex-shrink-0" />}
+            <span className="flex-1">
+              {who} {alert.type === 'enter' ? 'entered' : 'left'} <span className="font-medium">{zone}</span>
+            </span>
+            <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => onDismiss(alert.id)}>
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/client/components/ui/button';
+import { Play, Pause, Square, Timer } from 'lucide-react';
+import { GAME_SESSION_SETTINGS, GameSession, GameSessionAction, getMatchClock } from '@/shared/types';
+import { formatElapsed } from '@/client/lib/utils';
+
+const COUNTDOWN_OPTIONS = [0, 5, 10, 30, 60];
+
+interface MatchClockProps {
+  session?: GameSession;
+  // Server time minus local time, so the clock agrees across devices
+  clockOffsetMs: number;
+  canManage: boolean;
+  onCreate: (countdownSeconds: number) => void;
+  onAction: (action: GameSessionAction) => void;
+}
+
+// Match state and clock for everyone; owners and admins also get the lobby and match controls
+export default function MatchClock({ session, clockOffsetMs, canManage, onCreate, onAction }: MatchClockProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const [countdownSeconds, setCountdownSeconds] = useState(GAME_SESSION_SETTINGS.defaultCountdownSeconds);
+
+  const ticking = session?.status === 'running';
+  useEffect(() => {
+    if (!ticking) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [ticking]);
+
+  if (!session && !canManage) return null;
+
+  const clock = session ? getMatchClock(session, now + clockOffsetMs) : null;
+  const canOpenLobby = canManage && (!session || session.status === 'ended');
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg px-3 py-2 flex items-center gap-3 text-sm">
+      <Timer className="h-4 w-4 text-gray-500" />
+
+      {clock?.phase === 'lobby' && <span className="font-medium">Lobby</span>}
+      {clock?.phase === 'countdown' && (
+        <span className="font-medium text-orange-600">Starts in {Math.ceil(clock.countdownMs / 1000)}</span>
+      )}
+      {clock && clock.phase !== 'lobby' && clock.phase !== 'countdown' && (
+        <span className="font-mono text-lg tabular-nums">{formatElapsed(clock.elapsedMs)}</span>
+      )}
+      {clock?.phase === 'paused' && <span className="text-orange-600">Paused</span>}
+      {clock?.phase === 'ended' && <span className="text-gray-500">Ended</span>}
+
+      {canManage && session?.status === 'lobby' && (
+        <Button size="sm" onClick={() => onAction('start')}>
+          <Play className="h-4 w-4 mr-1" />
+          Start
+        </Button>
+      )}
+      {canManage && session?.status === 'running' && (
+        <Button size="sm" variant="outline" onClick={() => onAction('pause')}>
+          <Pause className="h-4 w-4 mr-1" />
+          Pause
+        </Button>
+      )}
+      {canManage && session?.status === 'paused' && (
+        <Button size="sm" onClick={() => onAction('resume')}>
+          <Play className="h-4 w-4 mr-1" />
+          Resume
+        </Button>
+      )}
+      {canManage && session && session.status !== 'ended' && (
+        <Button size="sm" variant="destructive" onClick={() => onAction('end')}>
+          <Square className="h-4 w-4 mr-1" />
+          End
+        </Button>
+      )}
+
+      {canOpenLobby && (
+        <>
+          <select
+            className="border rounded px-1 py-1 text-xs"
+            value={countdownSeconds}
+            onChange={(e) => setCountdownSeconds(Number(e.target.value))}
+            aria-label="Countdown"
+          >
+            {COUNTDOWN_OPTIONS.map(seconds => (
+              <option key={seconds} value={seconds}>{seconds}s countdown</option>
+            ))}
+          </select>
+          <Button size="sm" variant="outline" onClick={() => onCreate(countdownSeconds)}>
+            New Match
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/client/components/ui/button';
+import { HeartPulse } from 'lucide-react';
+import { Coordinates, MedicCall, UserPosition } from '@/shared/types';
+import { calculateBearing, calculateDistance, formatBearing, formatDistance } from '@/client/lib/utils';
+
+interface MedicCallsProps {
+  userId: string;
+  // Requests this medic was called to or has accepted, with the distance the server worked out
+  calls: MedicCall[];
+  memberNames: Record<string, string>;
+  positions: UserPosition[];
+  userPosition?: Coordinates;
+  onAccept: (requestId: string) => void;
+  onRevive: (requestId: string) => void;
+}
+
+// Casualties calling for this medic, with the way to them kept up to date as both move
+export default function MedicCalls({ userId, calls, memberNames, positions, userPosition, onAccept, onRevive }: MedicCallsProps) {
+  if (calls.length === 0) return null;
+
+  return (
+    <div className="flex flex-col gap-2 w-80 max-w-[calc(100vw-2rem)]">
+      {calls.map(({ request, distanceMeters, bearing }) => {
+        const casualty = positions.find(position => position.userId === request.casualtyId)?.coordinates;
+        const distance = casualty && userPosition
+          ? calculateDistance(userPosition.latitude, userPosition.longitude, casualty.latitude, casualty.longitude)
+          : distanceMeters;
+        const heading = casualty && userPosition
+          ? calculateBearing(userPosition.latitude, userPosition.longitude, casualty.latitude, casualty.longitude)
+          : bearing;
+
+        return (
+          <div key={request.id} className="flex items-center gap-2 rounded-lg shadow-lg px-3 py-2 text-sm bg-white">
+            <HeartPulse className="h-4 w-4 flex-shrink-0 text-red-600" />
+            <span className="flex-1">
+              <span className="font-medium">{memberNames[request.casualtyId] || 'A teammate'}</span> needs a medic
+              {distance !== undefined && (
+                <span className="block text-xs text-gray-500">
+                  {formatDistance(distance)}{heading !== undefined && ` • ${formatBearing(heading)}`}
+                </span>
+              )}
+            </span>
+            {request.status === 'pending' && (
+              <Button size="sm" onClick={() => onAccept(request.id)}>
+                Accept
+              </Button>
+            )}
+            {request.acceptedBy === userId && (
+              <Button size="sm" onClick={() => onRevive(request.id)}>
+                Revived
+              </Button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
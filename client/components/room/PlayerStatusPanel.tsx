@@ -0,0 +1,76 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/client/components/ui/button';
+import { Crosshair, HeartPulse, RotateCcw } from 'lucide-react';
+import { MedicRequest, PlayerStatus, PlayerStatusState } from '@/shared/types';
+import { PLAYER_STATUS_LABELS, formatElapsed } from '@/client/lib/utils';
+
+interface PlayerStatusPanelProps {
+  status?: PlayerStatusState;
+  // Server time minus local time, so timers run out when the server says they do
+  clockOffsetMs: number;
+  // The player's open call for a medic, and the callsign of the medic who took it
+  medicRequest?: MedicRequest;
+  medicName?: string;
+  onChange: (status: PlayerStatus) => void;
+}
+
+// One-tap hit reporting for the player, with the bleed-out or respawn time left once hit
+export default function PlayerStatusPanel({ status, clockOffsetMs, medicRequest, medicName, onChange }: PlayerStatusPanelProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const current = status?.status || 'alive';
+  const expiresAt = status?.expiresAt;
+
+  useEffect(() => {
+    if (!expiresAt) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [expiresAt]);
+
+  if (current === 'alive') {
+    return (
+      <Button variant="destructive" size="lg" className="shadow-lg" onClick={() => onChange('hit')}>
+        <Crosshair className="h-5 w-5 mr-2" />
+        I&apos;m hit
+      </Button>
+    );
+  }
+
+  const remainingMs = expiresAt ? new Date(expiresAt).getTime() - (now + clockOffsetMs) : 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg px-3 py-2 flex items-center gap-3 text-sm">
+      <span className={`font-medium ${current === 'respawning' ? 'text-gray-600' : 'text-red-600'}`}>
+        {PLAYER_STATUS_LABELS[current]}
+      </span>
+      {expiresAt && <span className="font-mono tabular-nums">{formatElapsed(remainingMs)}</span>}
+      {current === 'medic_needed' && medicRequest && (
+        <span className="text-xs text-gray-500">
+          {medicRequest.status === 'accepted'
+            ? `${medicName || 'Medic'} on the way`
+            : medicRequest.medicIds.length > 0 ? 'Waiting for a medic' : 'No medic available'}
+        </span>
+      )}
+
+      {current === 'hit' && (
+        <Button size="sm" onClick={() => onChange('medic_needed')}>
+          <HeartPulse className="h-4 w-4 mr-1" />
+          Medic!
+        </Button>
+      )}
+      {current === 'medic_needed' && (
+        <Button size="sm" variant="outline" onClick={() => onChange('hit')}>
+          Cancel medic
+        </Button>
+      )}
+      {(current === 'hit' || current === 'medic_needed') && (
+        <Button size="sm" variant="outline" onClick={() => onChange('respawning')}>
+          <RotateCcw className="h-4 w-4 mr-1" />
+          Respawn
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+'use client';
+
+import React from 'react';
+import { Trophy } from 'lucide-react';
+import { ObjectiveState, Team } from '@/shared/types';
+
+interface ScoreboardProps {
+  teams: Team[];
+  scores: Record<string, number>;
+  objectives: ObjectiveState[];
+}
+
+// Points and objectives held per team, highest score first
+export default function Scoreboard({ teams, scores, objectives }: ScoreboardProps) {
+  if (teams.length === 0 || objectives.length === 0 && Object.keys(scores).length === 0) return null;
+
+  const ranked = teams.slice().sort((a, b) => (scores[b.id] || 0) - (scores[a.id] || 0));
+  const contested = objectives.filter(objective => objective.contested).length;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg px-3 py-2 flex items-center gap-3 text-sm">
+      <Trophy className="h-4 w-4 text-gray-500" />
+      {ranked.map(team => (
+        <span key={team.id} className="flex items-center gap-1">
+          <span className="w-3 h-3 rounded-full" style={{ backgroundColor: team.color }} />
+          <span className="font-medium">{team.name}</span>
+          <span className="font-mono tabular-nums">{scores[team.id] || 0}</span>
+          <span className="text-xs text-gray-500">
+            ({objectives.filter(objective => objective.ownerTeamId === team.id).length}/{objectives.length})
+          </span>
+        </span>
+      ))}
+      {contested > 0 && <span className="text-xs text-red-600">{contested} contested</span>}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/client/components/ui/button';
+import { Eye, ChevronDown } from 'lucide-react';
+import { TacticalSymbol } from '@/shared/types';
+import { formatDuration, formatTimestamp, getSpotReportOpacity, isSpotReport } from '@/client/lib/utils';
+
+interface SpotReportPanelProps {
+  symbols: TacticalSymbol[];
+  memberNames: Record<string, string>;
+  isOpen: boolean;
+  onToggle: () => void;
+  onSelect: (symbol: TacticalSymbol) => void;
+}
+
+// Active enemy sightings, newest first; selecting one centres the map on it
+export default function SpotReportPanel({
+  symbols,
+  memberNames,
+  isOpen,
+  onToggle,
+  onSelect,
+}: SpotReportPanelProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Ages and remaining time are relative, so refresh them while the list is shown
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 15000);
+    return () => clearInterval(interval);
+  }, [isOpen]);
+
+  const reports = symbols
+    .filter(symbol => isSpotReport(symbol) && new Date(symbol.expiresAt!).getTime() > now)
+    .sort((a, b) => b.spotReport!.observedAt.localeCompare(a.spotReport!.observedAt));
+
+  if (!isOpen) {
+    return (
+      <Button variant="outline" className="relative bg-white shadow-lg" onClick={onToggle}>
+        <Eye className="h-4 w-4 mr-2" />
+        Reports
+        {reports.length > 0 && (
+          <span className="absolute -top-2 -right-2 bg-red-500 text-white text-xs rounded-full min-w-5 h-5 px-1 flex items-center justify-center">
+            {reports.length}
+          </span>
+        )}
+      </Button>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg w-72 max-w-[calc(100vw-2rem)] flex flex-col max-h-[50vh]">
+      <div className="flex items-center gap-2 p-2 border-b">
+        <Eye className="h-4 w-4" />
+        <h3 className="text-sm font-medium">Spot Reports</h3>
+        <Button size="icon" variant="ghost" className="ml-auto h-8 w-8" onClick={onToggle}>
+          <ChevronDown className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1 min-h-16">
+        {reports.length === 0 && (
+          <p className="text-xs text-gray-500 text-center mt-2">No active reports</p>
+        )}
+        {reports.map((symbol) => {
+          const report = symbol.spotReport!;
+          return (
+            <button
+              key={symbol.id}
+              className="w-full text-left rounded px-2 py-1 hover:bg-gray-100"
+              style={{ opacity: getSpotReportOpacity(symbol, now) }}
+              onClick={() => onSelect(symbol)}
+            >
+              <div className="text-sm font-medium truncate">
+                {report.size}{report.unit && ` • ${report.unit}`}
+              </div>
+              <div className="text-xs text-gray-700 truncate">{report.activity}</div>
+              {report.equipment && (
+                <div className="text-xs text-gray-500 truncate">{report.equipment}</div>
+              )}
+              <div className="text-xs text-gray-500">
+                {formatTimestamp(report.observedAt)} by {memberNames[symbol.createdBy] || `User-${symbol.createdBy.slice(-4)}`}
+                {' • '}{formatDuration((new Date(symbol.expiresAt!).getTime() - now) / 1000)} left
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
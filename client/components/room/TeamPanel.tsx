@@ -0,0 +1,182 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/client/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/client/components/ui/card';
+import { Input } from '@/client/components/ui/input';
+import { Label } from '@/client/components/ui/label';
+import { Trash2, X } from 'lucide-react';
+import { RoomWithMembers, CreateTeamRequest, UpdateMemberRequest } from '@/shared/types';
+
+interface TeamPanelProps {
+  room: RoomWithMembers;
+  canManage: boolean;
+  onCreateTeam: (team: CreateTeamRequest) => void;
+  onDeleteTeam: (teamId: string) => void;
+  onUpdateMember: (updates: UpdateMemberRequest) => void;
+  onClose: () => void;
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+  game_master: 'Game Master',
+};
+
+export default function TeamPanel({
+  room,
+  canManage,
+  onCreateTeam,
+  onDeleteTeam,
+  onUpdateMember,
+  onClose,
+}: TeamPanelProps) {
+  const [teamForm, setTeamForm] = useState<CreateTeamRequest>({
+    name: '',
+    color: '#DC2626',
+    callsignPrefix: '',
+  });
+
+  const handleCreateTeam = (e: React.FormEvent) => {
+    e.preventDefault();
+    onCreateTeam({
+      ...teamForm,
+      color: teamForm.color.toUpperCase(),
+      callsignPrefix: teamForm.callsignPrefix || undefined,
+    });
+    setTeamForm({ ...teamForm, name: '', callsignPrefix: '' });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <Card className="w-full max-w-lg max-h-full overflow-y-auto">
+        <CardHeader>
+          <div className="flex items-start justify-between">
+            <div>
+              <CardTitle>Teams</CardTitle>
+              <CardDescription>
+                Positions and team symbols are only shared within a team. Game masters see everything.
+              </CardDescription>
+            </div>
+            <Button variant="ghost" size="icon" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            {room.teams.length === 0 && (
+              <p className="text-sm text-gray-500">No teams yet. Everyone in the room shares one picture.</p>
+            )}
+            {room.teams.map((team) => (
+              <div key={team.id} className="flex items-center gap-2 text-sm">
+                <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: team.color }} />
+                <span className="font-medium">{team.name}</span>
+                {team.callsignPrefix && <span className="text-gray-500">({team.callsignPrefix})</span>}
+                <span className="text-gray-500 ml-auto">
+                  {room.members.filter(m => m.teamId === team.id).length} members
+                </span>
+                {canManage && (
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onDeleteTeam(team.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {canManage && (
+            <form onSubmit={handleCreateTeam} className="space-y-3 border-t pt-4">
+              <div className="flex gap-2">
+                <div className="flex-1">
+                  <Label htmlFor="teamName">Team Name</Label>
+                  <Input
+                    id="teamName"
+                    value={teamForm.name}
+                    onChange={(e) => setTeamForm({ ...teamForm, name: e.target.value })}
+                    placeholder="e.g., Red Force"
+                    maxLength={50}
+                    required
+                  />
+                </div>
+                <div className="w-24">
+                  <Label htmlFor="callsignPrefix">Callsign</Label>
+                  <Input
+                    id="callsignPrefix"
+                    value={teamForm.callsignPrefix || ''}
+                    onChange={(e) => setTeamForm({ ...teamForm, callsignPrefix: e.target.value })}
+                    placeholder="RED"
+                    maxLength={10}
+                  />
+                </div>
+                <div className="w-16">
+                  <Label htmlFor="teamColor">Color</Label>
+                  <Input
+                    id="teamColor"
+                    type="color"
+                    className="p-1"
+                    value={teamForm.color}
+                    onChange={(e) => setTeamForm({ ...teamForm, color: e.target.value })}
+                  />
+                </div>
+              </div>
+              <Button type="submit" size="sm">
+                Add Team
+              </Button>
+            </form>
+          )}
+
+          <div className="space-y-2 border-t pt-4">
+            <h3 className="text-sm font-medium">Members</h3>
+            {room.members.map((member) => (
+              <div key={member.userId} className="flex items-center gap-2 text-sm">
+                <span className="flex-1 truncate">{member.user.username}</span>
+                {canManage ? (
+                  <>
+                    <select
+                      className="border rounded px-2 py-1 text-sm"
+                      value={member.teamId || ''}
+                      onChange={(e) => onUpdateMember({ userId: member.userId, teamId: e.target.value || null })}
+                    >
+                      <option value="">No team</option>
+                      {room.teams.map((team) => (
+                        <option key={team.id} value={team.id}>{team.name}</option>
+                      ))}
+                    </select>
+                    <label className="flex items-center gap-1 text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={member.isMedic}
+                        onChange={(e) => onUpdateMember({ userId: member.userId, isMedic: e.target.checked })}
+                      />
+                      Medic
+                    </label>
+                    {member.role === 'owner' ? (
+                      <span className="w-28 text-gray-500">{ROLE_LABELS.owner}</span>
+                    ) : (
+                      <select
+                        className="border rounded px-2 py-1 text-sm w-28"
+                        value={member.role}
+                        onChange={(e) => onUpdateMember({ userId: member.userId, role: e.target.value as UpdateMemberRequest['role'] })}
+                      >
+                        <option value="member">{ROLE_LABELS.member}</option>
+                        <option value="admin">{ROLE_LABELS.admin}</option>
+                        <option value="game_master">{ROLE_LABELS.game_master}</option>
+                      </select>
+                    )}
+                  </>
+                ) : (
+                  <span className="text-gray-500">
+                    {room.teams.find(t => t.id === member.teamId)?.name || 'No team'} • {ROLE_LABELS[member.role]}
+                    {member.isMedic && ' • Medic'}
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
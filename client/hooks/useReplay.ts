@@ -0,0 +1,69 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { SocketEvent } from '@/shared/types';
+import { buildReplayFrame, getReplayBounds } from '@/client/lib/replay';
+
+export const REPLAY_SPEEDS = [1, 2, 4, 8, 16, 32];
+
+// Wall-clock interval between playback ticks
+const TICK_MS = 100;
+
+export function useReplay(events: SocketEvent[]) {
+  const { start, end } = useMemo(() => getReplayBounds(events), [events]);
+  const [currentTime, setCurrentTime] = useState(start);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(REPLAY_SPEEDS[0]);
+
+  // Rewind whenever a new log is loaded
+  useEffect(() => {
+    setCurrentTime(start);
+    setIsPlaying(false);
+  }, [events, start]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const interval = setInterval(() => {
+      setCurrentTime(time => Math.min(time + TICK_MS * speed, end));
+    }, TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [isPlaying, speed, end]);
+
+  // Stop at the end of the recording
+  useEffect(() => {
+    if (isPlaying && currentTime >= end) {
+      setIsPlaying(false);
+    }
+  }, [isPlaying, currentTime, end]);
+
+  const frame = useMemo(() => buildReplayFrame(events, currentTime), [events, currentTime]);
+
+  const play = useCallback(() => {
+    // Restart from the beginning when play is pressed at the end
+    setCurrentTime(time => time >= end ? start : time);
+    setIsPlaying(true);
+  }, [start, end]);
+
+  const pause = useCallback(() => {
+    setIsPlaying(false);
+  }, []);
+
+  const seek = useCallback((time: number) => {
+    setCurrentTime(Math.max(start, Math.min(time, end)));
+  }, [start, end]);
+
+  return {
+    frame,
+    currentTime,
+    startTime: start,
+    endTime: end,
+    isPlaying,
+    speed,
+    play,
+    pause,
+    seek,
+    setSpeed,
+  };
+}
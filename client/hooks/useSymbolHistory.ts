@@ -0,0 +1,85 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  EMPTY_SYMBOL_HISTORY,
+  SymbolCommand,
+  SymbolHistory,
+  recordCommand,
+  redoCommand,
+  undoCommand,
+} from '@/client/lib/symbolHistory';
+
+// Shortcuts are left to the browser while typing in a field
+function isEditingText(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null;
+  return !!element && (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' || element.tagName === 'SELECT' || element.isContentEditable);
+}
+
+/**
+ * Undo/redo of this user's symbol edits. `apply` performs a command (through the same
+ * socket events as a normal edit) without recording it again. Ctrl/Cmd+Z undoes,
+ * Ctrl/Cmd+Shift+Z and Ctrl+Y redo.
+ */
+export function useSymbolHistory(apply: (command: SymbolCommand) => void, enabled: boolean = true) {
+  const [history, setHistory] = useState<SymbolHistory>(EMPTY_SYMBOL_HISTORY);
+  const historyRef = useRef(history);
+  const applyRef = useRef(apply);
+  historyRef.current = history;
+  applyRef.current = apply;
+
+  const record = useCallback((command: SymbolCommand) => {
+    setHistory(prev => recordCommand(prev, command));
+  }, []);
+
+  const undo = useCallback(() => {
+    const step = undoCommand(historyRef.current);
+    if (!step) return;
+
+    historyRef.current = step.history;
+    setHistory(step.history);
+    applyRef.current(step.apply);
+  }, []);
+
+  const redo = useCallback(() => {
+    const step = redoCommand(historyRef.current);
+    if (!step) return;
+
+    historyRef.current = step.history;
+    setHistory(step.history);
+    applyRef.current(step.apply);
+  }, []);
+
+  const clear = useCallback(() => {
+    setHistory(EMPTY_SYMBOL_HISTORY);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isEditingText(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled, undo, redo]);
+
+  return {
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    record,
+    undo,
+    redo,
+    clear,
+  };
+}
@@ -2,12 +2,42 @@
 
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { io, Socket } from 'socket.io-client';
-import { SocketEvent, UserPosition, TacticalSymbol } from '@/shared/types';
+import {
+  UserPosition,
+  TacticalSymbol,
+  RoomState,
+  RoomPresence,
+  MemberUpdatedEvent,
+  JoinRoomError,
+  SocketValidationError,
+  UpdatePositionRequest,
+  ChatMessage,
+  SendChatMessageRequest,
+  MapPing,
+  SendPingRequest,
+  SocketEventAck,
+  SymbolConflict,
+  GeofenceEvent,
+  GameSessionUpdate,
+  ObjectiveState,
+  ObjectiveOverrideRequest,
+  Scoreboard,
+  PlayerStatusUpdate,
+  UpdatePlayerStatusRequest,
+  MedicCall,
+  MedicRequest,
+  MedicResponseRequest,
+  OUTBOX_SETTINGS,
+} from '@/shared/types';
+import { Outbox, OutboxEntry, OutboxEventType, OutboxSendResult, getOutboxRetryDelay } from '@/client/lib/outbox';
+import { generateId } from '@/client/lib/utils';
 
 interface UseWebSocketOptions {
   roomId: string;
   userId: string;
+  accessToken?: string;
   serverUrl?: string;
+  autoConnect?: boolean;
 }
 
 interface WebSocketState {
@@ -15,16 +45,28 @@ interface WebSocketState {
   connected: boolean;
   connecting: boolean;
   error: string | null;
+  joinError: JoinRoomError | null;
   lastPing: number | null;
+  pendingCount: number;
 }
 
-export function useWebSocket({ roomId, userId, serverUrl = 'ws://localhost:3001' }: UseWebSocketOptions) {
+const DEFAULT_SERVER_URL = process.env.NEXT_PUBLIC_SOCKET_URL || 'ws://localhost:3001';
+
+export function useWebSocket({
+  roomId,
+  userId,
+  accessToken,
+  serverUrl = DEFAULT_SERVER_URL,
+  autoConnect = true,
+}: UseWebSocketOptions) {
   const [state, setState] = useState<WebSocketState>({
     socket: null,
     connected: false,
     connecting: false,
     error: null,
+    joinError: null,
     lastPing: null,
+    pendingCount: 0,
   });
 
   const socketRef = useRef<Socket | null>(null);
@@ -32,27 +74,135 @@ export function useWebSocket({ roomId, userId, serverUrl = 'ws://localhost:3001'
   const reconnectAttempts = useRef(0);
   const maxReconnectAttempts = 5;
 
-  // Event listeners
-  const [onPositionUpdate, setOnPositionUpdate] = useState<((position: UserPosition) => void) | null>(null);
-  const [onSymbolCreate, setOnSymbolCreate] = useState<((symbol: TacticalSymbol) => void) | null>(null);
-  const [onSymbolUpdate, setOnSymbolUpdate] = useState<((symbol: TacticalSymbol) => void) | null>(null);
-  const [onSymbolDelete, setOnSymbolDelete] = useState<((symbolId: string) => void) | null>(null);
-  const [onMemberJoin, setOnMemberJoin] = useState<((member: any) => void) | null>(null);
-  const [onMemberLeave, setOnMemberLeave] = useState<((memberId: string) => void) | null>(null);
-  const [onMemberStatusChange, setOnMemberStatusChange] = useState<((memberId: string, isOnline: boolean) => void) | null>(null);
+  // Outgoing edits go through a persistent outbox so nothing is lost while offline
+  const outboxRef = useRef<Outbox | null>(null);
+  const joinedRef = useRef(false);
+  const flushingRef = useRef(false);
+  const flushAgainRef = useRef(false);
+  // Retry of a flush that failed while connected; nothing else would send the queue again
+  const retryTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const retryCountRef = useRef(0);
+
+  // Event listeners are kept in refs so that registering a handler does not
+  // tear down and re-create the socket connection.
+  const onRoomStateRef = useRef<((state: RoomState) => void) | null>(null);
+  const onPositionUpdateRef = useRef<((position: UserPosition) => void) | null>(null);
+  const onSymbolCreateRef = useRef<((symbol: TacticalSymbol) => void) | null>(null);
+  const onSymbolUpdateRef = useRef<((symbol: TacticalSymbol) => void) | null>(null);
+  const onSymbolDeleteRef = useRef<((symbolId: string) => void) | null>(null);
+  const onSymbolConflictRef = useRef<((conflict: SymbolConflict) => void) | null>(null);
+  const onMemberJoinRef = useRef<((member: RoomPresence) => void) | null>(null);
+  const onMemberLeaveRef = useRef<((memberId: string) => void) | null>(null);
+  const onMemberStatusChangeRef = useRef<((memberId: string, isOnline: boolean) => void) | null>(null);
+  const onMemberUpdateRef = useRef<((member: MemberUpdatedEvent) => void) | null>(null);
+  const onChatMessageRef = useRef<((message: ChatMessage) => void) | null>(null);
+  const onMapPingRef = useRef<((ping: MapPing) => void) | null>(null);
+  const onGeofenceAlertRef = useRef<((type: 'enter' | 'exit', event: GeofenceEvent) => void) | null>(null);
+  const onSessionUpdateRef = useRef<((update: GameSessionUpdate) => void) | null>(null);
+  const onObjectiveUpdateRef = useRef<((objective: ObjectiveState) => void) | null>(null);
+  const onScoreboardRef = useRef<((scoreboard: Scoreboard) => void) | null>(null);
+  const onPlayerStatusRef = useRef<((update: PlayerStatusUpdate) => void) | null>(null);
+  const onMedicCallRef = useRef<((call: MedicCall) => void) | null>(null);
+  const onMedicRequestRef = useRef<((request: MedicRequest) => void) | null>(null);
+
+  const getOutbox = () => {
+    if (!outboxRef.current) {
+      outboxRef.current = new Outbox();
+    }
+    return outboxRef.current;
+  };
+
+  const updatePendingCount = useCallback(async () => {
+    if (!roomId) return;
+    const pendingCount = await getOutbox().count(roomId);
+    setState(prev => prev.pendingCount === pendingCount ? prev : { ...prev, pendingCount });
+  }, [roomId]);
+
+  const cancelFlushRetry = useCallback(() => {
+    if (retryTimeoutRef.current) {
+      clearTimeout(retryTimeoutRef.current);
+      retryTimeoutRef.current = null;
+    }
+  }, []);
+
+  // Replay queued events in order once the server has us back in the room
+  const flushOutbox = useCallback(async () => {
+    if (!roomId) return;
+    if (flushingRef.current) {
+      flushAgainRef.current = true;
+      return;
+    }
+
+    cancelFlushRetry();
+    flushingRef.current = true;
+    let pending = 0;
+    try {
+      do {
+        flushAgainRef.current = false;
+        pending = await getOutbox().flush(roomId, (entry: OutboxEntry) => new Promise<OutboxSendResult>((resolve) => {
+          const socket = socketRef.current;
+          if (!socket?.connected || !joinedRef.current) {
+            resolve('offline');
+            return;
+          }
+          socket.timeout(OUTBOX_SETTINGS.ackTimeoutMs).emit(entry.event, entry.payload, (err: Error | null, response?: SocketEventAck) => {
+            if (err || !response) {
+              resolve('failed');
+            } else if (response.ok) {
+              resolve('acknowledged');
+            } else {
+              resolve(response.retryable ? 'failed' : 'rejected');
+            }
+          });
+        }));
+        await updatePendingCount();
+      } while (flushAgainRef.current && socketRef.current?.connected && joinedRef.current);
+    } catch (error) {
+      console.error('Failed to flush outbox:', error);
+    } finally {
+      flushingRef.current = false;
+    }
+
+    // A send that failed while connected is tried again after a backoff; after a disconnect
+    // the next room_state flushes the queue instead
+    if (pending > 0 && socketRef.current?.connected && joinedRef.current) {
+      retryCountRef.current++;
+      retryTimeoutRef.current = setTimeout(() => {
+        retryTimeoutRef.current = null;
+        flushOutbox();
+      }, getOutboxRetryDelay(retryCountRef.current));
+    } else {
+      retryCountRef.current = 0;
+    }
+  }, [roomId, updatePendingCount, cancelFlushRetry]);
+
+  const queueEvent = useCallback(async (event: OutboxEventType, payload: Record<string, any>) => {
+    if (!roomId) return;
+    try {
+      await getOutbox().enqueue(roomId, event, payload);
+      await updatePendingCount();
+    } catch (error) {
+      console.error(`Failed to queue ${event}:`, error);
+      return;
+    }
+
+    if (socketRef.current?.connected && joinedRef.current) {
+      flushOutbox();
+    }
+  }, [roomId, updatePendingCount, flushOutbox]);
 
   const connect = useCallback(() => {
-    if (socketRef.current?.connected) {
+    if (socketRef.current?.connected || !roomId || !userId || !accessToken) {
       return;
     }
 
-    setState(prev => ({ ...prev, connecting: true, error: null }));
+    setState(prev => ({ ...prev, connecting: true, error: null, joinError: null }));
 
+    // The server derives the user from the token; userId is never trusted
     const socket = io(serverUrl, {
       transports: ['websocket', 'polling'],
       auth: {
-        userId,
-        roomId,
+        token: accessToken,
       },
       reconnection: true,
       reconnectionAttempts: maxReconnectAttempts,
@@ -75,11 +225,13 @@ export function useWebSocket({ roomId, userId, serverUrl = 'ws://localhost:3001'
       }));
 
       // Join the room
-      socket.emit('join_room', { roomId, userId });
+      socket.emit('join_room', { roomId });
     });
 
     socket.on('disconnect', (reason) => {
       console.log('WebSocket disconnected:', reason);
+      joinedRef.current = false;
+      cancelFlushRetry();
       setState(prev => ({
         ...prev,
         connected: false,
@@ -88,7 +240,7 @@ export function useWebSocket({ roomId, userId, serverUrl = 'ws://localhost:3001'
       }));
     });
 
-    socket.on('connect_error', (error) => {
+    socket.on('connect_error', (error: Error & { data?: JoinRoomError }) => {
       console.error('WebSocket connection error:', error);
       reconnectAttempts.current++;
       
@@ -97,13 +249,24 @@ export function useWebSocket({ roomId, userId, serverUrl = 'ws://localhost:3001'
         connected: false,
         connecting: false,
         error: error.message,
+        joinError: error.data || null,
       }));
 
-      if (reconnectAttempts.current >= maxReconnectAttempts) {
+      // Retrying with the same token cannot succeed
+      if (error.data?.code === 'UNAUTHENTICATED' || reconnectAttempts.current >= maxReconnectAttempts) {
         socket.disconnect();
       }
     });
 
+    socket.on('join_room_error', (error: JoinRoomError) => {
+      console.error('Failed to join room:', error);
+      setState(prev => ({
+        ...prev,
+        error: error.message,
+        joinError: error,
+      }));
+    });
+
     socket.on('reconnect', (attemptNumber) => {
       console.log('WebSocket reconnected after', attemptNumber, 'attempts');
       reconnectAttempts.current = 0;
@@ -117,47 +280,130 @@ export function useWebSocket({ roomId, userId, serverUrl = 'ws://localhost:3001'
       }));
     });
 
+    socket.on('validation_error', (error: SocketValidationError) => {
+      console.warn(`Server rejected ${error.event} payload:`, error.details);
+      setState(prev => ({ ...prev, error: `${error.error}: ${error.event}` }));
+    });
+
     // Handle ping/pong for connection monitoring
     socket.on('pong', () => {
       setState(prev => ({ ...prev, lastPing: Date.now() }));
     });
 
+    // Initial snapshot sent by the server after join_room
+    socket.on('room_state', (data: RoomState) => {
+      console.log('Room state received:', data);
+      onRoomStateRef.current?.(data);
+      joinedRef.current = true;
+      flushOutbox();
+    });
+
     // Position update events
     socket.on('position_update', (data: UserPosition) => {
       console.log('Position update received:', data);
-      onPositionUpdate?.(data);
+      onPositionUpdateRef.current?.(data);
     });
 
     // Symbol events
     socket.on('symbol_created', (data: TacticalSymbol) => {
       console.log('Symbol created:', data);
-      onSymbolCreate?.(data);
+      onSymbolCreateRef.current?.(data);
     });
 
     socket.on('symbol_updated', (data: TacticalSymbol) => {
       console.log('Symbol updated:', data);
-      onSymbolUpdate?.(data);
+      onSymbolUpdateRef.current?.(data);
     });
 
     socket.on('symbol_deleted', (data: { id: string }) => {
       console.log('Symbol deleted:', data);
-      onSymbolDelete?.(data.id);
+      onSymbolDeleteRef.current?.(data.id);
+    });
+
+    // A restored symbol comes back under its old id, just like a newly created one
+    socket.on('symbol_restored', (data: TacticalSymbol) => {
+      console.log('Symbol restored:', data);
+      onSymbolCreateRef.current?.(data);
+    });
+
+    // Expired spot reports leave the live map the same way deleted symbols do
+    socket.on('symbol_archived', (data: { id: string }) => {
+      console.log('Symbol archived:', data);
+      onSymbolDeleteRef.current?.(data.id);
+    });
+
+    // Our edit was based on an outdated version; the payload carries the current state
+    socket.on('symbol_conflict', (data: SymbolConflict) => {
+      console.warn('Symbol edit conflict:', data);
+      onSymbolConflictRef.current?.(data);
     });
 
     // Member events
-    socket.on('member_joined', (data: any) => {
+    socket.on('member_joined', (data: RoomPresence) => {
       console.log('Member joined:', data);
-      onMemberJoin?.(data);
+      onMemberJoinRef.current?.(data);
     });
 
     socket.on('member_left', (data: { userId: string }) => {
       console.log('Member left:', data);
-      onMemberLeave?.(data.userId);
+      onMemberLeaveRef.current?.(data.userId);
     });
 
     socket.on('member_status_changed', (data: { userId: string; isOnline: boolean }) => {
       console.log('Member status changed:', data);
-      onMemberStatusChange?.(data.userId, data.isOnline);
+      onMemberStatusChangeRef.current?.(data.userId, data.isOnline);
+    });
+
+    socket.on('member_updated', (data: MemberUpdatedEvent) => {
+      console.log('Member updated:', data);
+      onMemberUpdateRef.current?.(data);
+    });
+
+    // Chat events
+    socket.on('chat_message', (data: ChatMessage) => {
+      onChatMessageRef.current?.(data);
+    });
+
+    // Ping events
+    socket.on('map_ping', (data: MapPing) => {
+      onMapPingRef.current?.(data);
+    });
+
+    // Geofence events
+    socket.on('geofence_enter', (data: GeofenceEvent) => {
+      onGeofenceAlertRef.current?.('enter', data);
+    });
+
+    socket.on('geofence_exit', (data: GeofenceEvent) => {
+      onGeofenceAlertRef.current?.('exit', data);
+    });
+
+    // Game session events
+    socket.on('session_updated', (data: GameSessionUpdate) => {
+      onSessionUpdateRef.current?.(data);
+    });
+
+    // Objective events
+    socket.on('objective_updated', (data: ObjectiveState) => {
+      onObjectiveUpdateRef.current?.(data);
+    });
+
+    socket.on('scoreboard_updated', (data: Scoreboard) => {
+      onScoreboardRef.current?.(data);
+    });
+
+    // Player status events
+    socket.on('player_status_changed', (data: PlayerStatusUpdate) => {
+      onPlayerStatusRef.current?.(data);
+    });
+
+    // Medic events: calls go only to the medics picked for a casualty, updates to their team
+    socket.on('medic_call', (data: MedicCall) => {
+      onMedicCallRef.current?.(data);
+    });
+
+    socket.on('medic_request_updated', (data: MedicRequest) => {
+      onMedicRequestRef.current?.(data);
     });
 
     // Room events
@@ -166,13 +412,14 @@ export function useWebSocket({ roomId, userId, serverUrl = 'ws://localhost:3001'
     });
 
     setState(prev => ({ ...prev, socket }));
-  }, [serverUrl, userId, roomId, onPositionUpdate, onSymbolCreate, onSymbolUpdate, onSymbolDelete, onMemberJoin, onMemberLeave, onMemberStatusChange]);
+  }, [serverUrl, userId, roomId, accessToken, flushOutbox, cancelFlushRetry]);
 
   const disconnect = useCallback(() => {
     if (reconnectTimeoutRef.current) {
       clearTimeout(reconnectTimeoutRef.current);
       reconnectTimeoutRef.current = null;
     }
+    cancelFlushRetry();
 
     if (socketRef.current) {
       socketRef.current.disconnect();
@@ -185,30 +432,84 @@ export function useWebSocket({ roomId, userId, serverUrl = 'ws://localhost:3001'
       connected: false,
       connecting: false,
     }));
+  }, [cancelFlushRetry]);
+
+  // Emit events. Positions and symbol edits are queued and replayed after a reconnect.
+  const emitPositionUpdate = useCallback((position: UpdatePositionRequest) => {
+    queueEvent('position_update', position);
+  }, [queueEvent]);
+
+  // Returns the client-generated symbol id so the caller can show the symbol before it syncs
+  const emitSymbolCreate = useCallback((symbol: Omit<TacticalSymbol, 'id' | 'version' | 'createdAt' | 'updatedAt'>): string => {
+    const id = generateId();
+    queueEvent('symbol_create', { ...symbol, id });
+    return id;
+  }, [queueEvent]);
+
+  // `updates.version` is the version the edit was made against
+  const emitSymbolUpdate = useCallback((symbolId: string, updates: Partial<TacticalSymbol>) => {
+    queueEvent('symbol_update', { id: symbolId, ...updates });
+  }, [queueEvent]);
+
+  const emitSymbolDelete = useCallback((symbolId: string) => {
+    queueEvent('symbol_delete', { id: symbolId });
+  }, [queueEvent]);
+
+  const emitSymbolRestore = useCallback((symbolId: string) => {
+    queueEvent('symbol_restore', { id: symbolId });
+  }, [queueEvent]);
+
+  const emitChatMessage = useCallback((message: SendChatMessageRequest) => {
+    if (socketRef.current?.connected) {
+      socketRef.current.emit('chat_message', message);
+    }
   }, []);
 
-  // Emit events
-  const emitPositionUpdate = useCallback((position: UserPosition) => {
+  const emitMapPing = useCallback((ping: SendPingRequest) => {
     if (socketRef.current?.connected) {
-      socketRef.current.emit('position_update', position);
+      socketRef.current.emit('map_ping', ping);
     }
   }, []);
 
-  const emitSymbolCreate = useCallback((symbol: Omit<TacticalSymbol, 'id' | 'createdAt' | 'updatedAt'>) => {
+  // Ask the server to reload a member's team/role after changing it over REST
+  const emitMemberUpdate = useCallback((memberId: string) => {
     if (socketRef.current?.connected) {
-      socketRef.current.emit('symbol_create', symbol);
+      socketRef.current.emit('member_update', { userId: memberId });
     }
   }, []);
 
-  const emitSymbolUpdate = useCallback((symbolId: string, updates: Partial<TacticalSymbol>) => {
+  // Ask the server to reload a session after it was changed through the API
+  const emitSessionUpdate = useCallback((sessionId: string) => {
     if (socketRef.current?.connected) {
-      socketRef.current.emit('symbol_update', { id: symbolId, ...updates });
+      socketRef.current.emit('session_update', { sessionId });
     }
   }, []);
 
-  const emitSymbolDelete = useCallback((symbolId: string) => {
+  // Referee override of who holds an objective
+  const emitObjectiveOverride = useCallback((override: ObjectiveOverrideRequest) => {
     if (socketRef.current?.connected) {
-      socketRef.current.emit('symbol_delete', { id: symbolId });
+      socketRef.current.emit('objective_override', override);
+    }
+  }, []);
+
+  // Report a hit, call a medic or bleed out; referees may also set another player's status
+  const emitPlayerStatus = useCallback((request: UpdatePlayerStatusRequest) => {
+    if (socketRef.current?.connected) {
+      socketRef.current.emit('player_status', request);
+    }
+  }, []);
+
+  // Take a medic request, as one of the medics it was sent to
+  const emitMedicAccept = useCallback((response: MedicResponseRequest) => {
+    if (socketRef.current?.connected) {
+      socketRef.current.emit('medic_accept', response);
+    }
+  }, []);
+
+  // Bring the casualty of an accepted request back into play
+  const emitMedicRevive = useCallback((response: MedicResponseRequest) => {
+    if (socketRef.current?.connected) {
+      socketRef.current.emit('medic_revive', response);
     }
   }, []);
 
@@ -221,6 +522,8 @@ export function useWebSocket({ roomId, userId, serverUrl = 'ws://localhost:3001'
 
   // Auto-connect on mount
   useEffect(() => {
+    if (!autoConnect) return;
+
     connect();
 
     // Setup ping interval
@@ -230,7 +533,12 @@ export function useWebSocket({ roomId, userId, serverUrl = 'ws://localhost:3001'
       clearInterval(pingInterval);
       disconnect();
     };
-  }, [connect, disconnect, ping]);
+  }, [autoConnect, connect, disconnect, ping]);
+
+  // Show events left over from a previous session
+  useEffect(() => {
+    updatePendingCount();
+  }, [updatePendingCount]);
 
   // Reconnect when room or user changes
   useEffect(() => {
@@ -249,14 +557,35 @@ export function useWebSocket({ roomId, userId, serverUrl = 'ws://localhost:3001'
     emitSymbolCreate,
     emitSymbolUpdate,
     emitSymbolDelete,
+    emitSymbolRestore,
+    emitMemberUpdate,
+    emitSessionUpdate,
+    emitObjectiveOverride,
+    emitPlayerStatus,
+    emitMedicAccept,
+    emitMedicRevive,
+    emitChatMessage,
+    emitMapPing,
     // Event listener setters
-    setOnPositionUpdate: (handler: (position: UserPosition) => void) => setOnPositionUpdate(() => handler),
-    setOnSymbolCreate: (handler: (symbol: TacticalSymbol) => void) => setOnSymbolCreate(() => handler),
-    setOnSymbolUpdate: (handler: (symbol: TacticalSymbol) => void) => setOnSymbolUpdate(() => handler),
-    setOnSymbolDelete: (handler: (symbolId: string) => void) => setOnSymbolDelete(() => handler),
-    setOnMemberJoin: (handler: (member: any) => void) => setOnMemberJoin(() => handler),
-    setOnMemberLeave: (handler: (memberId: string) => void) => setOnMemberLeave(() => handler),
-    setOnMemberStatusChange: (handler: (memberId: string, isOnline: boolean) => void) => setOnMemberStatusChange(() => handler),
+    setOnRoomState: (handler: (state: RoomState) => void) => { onRoomStateRef.current = handler; },
+    setOnPositionUpdate: (handler: (position: UserPosition) => void) => { onPositionUpdateRef.current = handler; },
+    setOnSymbolCreate: (handler: (symbol: TacticalSymbol) => void) => { onSymbolCreateRef.current = handler; },
+    setOnSymbolUpdate: (handler: (symbol: TacticalSymbol) => void) => { onSymbolUpdateRef.current = handler; },
+    setOnSymbolDelete: (handler: (symbolId: string) => void) => { onSymbolDeleteRef.current = handler; },
+    setOnSymbolConflict: (handler: (conflict: SymbolConflict) => void) => { onSymbolConflictRef.current = handler; },
+    setOnMemberJoin: (handler: (member: RoomPresence) => void) => { onMemberJoinRef.current = handler; },
+    setOnMemberLeave: (handler: (memberId: string) => void) => { onMemberLeaveRef.current = handler; },
+    setOnMemberStatusChange: (handler: (memberId: string, isOnline: boolean) => void) => { onMemberStatusChangeRef.current = handler; },
+    setOnMemberUpdate: (handler: (member: MemberUpdatedEvent) => void) => { onMemberUpdateRef.current = handler; },
+    setOnChatMessage: (handler: (message: ChatMessage) => void) => { onChatMessageRef.current = handler; },
+    setOnMapPing: (handler: (ping: MapPing) => void) => { onMapPingRef.current = handler; },
+    setOnGeofenceAlert: (handler: (type: 'enter' | 'exit', event: GeofenceEvent) => void) => { onGeofenceAlertRef.current = handler; },
+    setOnSessionUpdate: (handler: (update: GameSessionUpdate) => void) => { onSessionUpdateRef.current = handler; },
+    setOnObjectiveUpdate: (handler: (objective: ObjectiveState) => void) => { onObjectiveUpdateRef.current = handler; },
+    setOnScoreboard: (handler: (scoreboard: Scoreboard) => void) => { onScoreboardRef.current = handler; },
+    setOnPlayerStatus: (handler: (update: PlayerStatusUpdate) => void) => { onPlayerStatusRef.current = handler; },
+    setOnMedicCall: (handler: (call: MedicCall) => void) => { onMedicCallRef.current = handler; },
+    setOnMedicRequest: (handler: (request: MedicRequest) => void) => { onMedicRequestRef.current = handler; },
   };
 }
 
@@ -0,0 +1,230 @@
+export interface UtmCoordinate {
+  zone: number;
+  hemisphere: 'N' | 'S';
+  easting: number;
+  northing: number;
+}
+
+export interface MgrsCoordinate extends UtmCoordinate {
+  band: string;
+}
+
+// WGS84 ellipsoid
+const A = 6378137;
+const F = 1 / 298.257223563;
+const K0 = 0.9996;
+const FALSE_EASTING = 500000;
+const FALSE_NORTHING = 10000000;
+
+const E = Math.sqrt(F * (2 - F));
+const N = F / (2 - F);
+const N2 = N * N, N3 = N2 * N, N4 = N3 * N, N5 = N4 * N, N6 = N5 * N;
+
+// Rectifying radius and Krüger series coefficients, accurate to well under a millimetre within a zone
+const RECTIFYING_RADIUS = A / (1 + N) * (1 + N2 / 4 + N4 / 64 + N6 / 256);
+
+const ALPHA = [
+  N / 2 - 2 * N2 / 3 + 5 * N3 / 16 + 41 * N4 / 180 - 127 * N5 / 288 + 7891 * N6 / 37800,
+  13 * N2 / 48 - 3 * N3 / 5 + 557 * N4 / 1440 + 281 * N5 / 630 - 1983433 * N6 / 1935360,
+  61 * N3 / 240 - 103 * N4 / 140 + 15061 * N5 / 26880 + 167603 * N6 / 181440,
+  49561 * N4 / 161280 - 179 * N5 / 168 + 6601661 * N6 / 7257600,
+  34729 * N5 / 80640 - 3418889 * N6 / 1995840,
+  212378941 * N6 / 319334400,
+];
+
+const BETA = [
+  N / 2 - 2 * N2 / 3 + 37 * N3 / 96 - N4 / 360 - 81 * N5 / 512 + 96199 * N6 / 604800,
+  N2 / 48 + N3 / 15 - 437 * N4 / 1440 + 46 * N5 / 105 - 1118711 * N6 / 3870720,
+  17 * N3 / 480 - 37 * N4 / 840 - 209 * N5 / 4480 + 5569 * N6 / 90720,
+  4397 * N4 / 161280 - 11 * N5 / 504 - 830251 * N6 / 7257600,
+  4583 * N5 / 161280 - 108847 * N6 / 3991680,
+  20648693 * N6 / 638668800,
+];
+
+// Latitude bands C..X, 8° each from 80°S (X is stretched to 84°N)
+const BANDS = 'CDEFGHJKLMNPQRSTUVWXX';
+
+// 100km square column letters repeat every 3 zones, row letters every 2
+const COLUMN_LETTERS = ['ABCDEFGH', 'JKLMNPQR', 'STUVWXYZ'];
+const ROW_LETTERS = ['ABCDEFGHJKLMNPQRSTUV', 'FGHJKLMNPQRSTUVABCDE'];
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+const toDegrees = (radians: number) => radians * 180 / Math.PI;
+
+function centralMeridian(zone: number): number {
+  return (zone - 1) * 6 - 180 + 3;
+}
+
+/**
+ * UTM zone for a position, including the Norway and Svalbard exceptions
+ */
+export function getUtmZone(lat: number, lon: number): number {
+  const normalizedLon = ((lon + 180) % 360 + 360) % 360 - 180;
+  let zone = Math.floor((normalizedLon + 180) / 6) + 1;
+  if (zone > 60) zone = 60;
+
+  if (lat >= 56 && lat < 64 && normalizedLon >= 3 && normalizedLon < 12) zone = 32;
+  if (lat >= 72 && lat < 84) {
+    if (normalizedLon >= 0 && normalizedLon < 9) zone = 31;
+    else if (normalizedLon >= 9 && normalizedLon < 21) zone = 33;
+    else if (normalizedLon >= 21 && normalizedLon < 33) zone = 35;
+    else if (normalizedLon >= 33 && normalizedLon < 42) zone = 37;
+  }
+
+  return zone;
+}
+
+/**
+ * MGRS latitude band letter for a latitude between 80°S and 84°N
+ */
+export function getLatitudeBand(lat: number): string {
+  return BANDS.charAt(Math.floor(lat / 8 + 10));
+}
+
+/**
+ * Convert WGS84 lat/lon to UTM. Pass `zone` to project into a neighbouring zone.
+ */
+export function latLonToUtm(lat: number, lon: number, zone: number = getUtmZone(lat, lon)): UtmCoordinate {
+  if (lat < -80 || lat > 84) {
+    throw new Error(`Latitude ${lat} is outside the UTM range`);
+  }
+
+  const phi = toRadians(lat);
+  let lambda = toRadians(lon - centralMeridian(zone));
+  // Keep the longitude offset within ±180° for zones that straddle the antimeridian
+  lambda = Math.atan2(Math.sin(lambda), Math.cos(lambda));
+
+  const tau = Math.tan(phi);
+  const sigma = Math.sinh(E * Math.atanh(E * tau / Math.sqrt(1 + tau * tau)));
+  const tauPrime = tau * Math.sqrt(1 + sigma * sigma) - sigma * Math.sqrt(1 + tau * tau);
+
+  const xiPrime = Math.atan2(tauPrime, Math.cos(lambda));
+  const etaPrime = Math.asinh(Math.sin(lambda) / Math.sqrt(tauPrime * tauPrime + Math.cos(lambda) * Math.cos(lambda)));
+
+  let xi = xiPrime;
+  let eta = etaPrime;
+  for (let j = 1; j <= 6; j++) {
+    xi += ALPHA[j - 1] * Math.sin(2 * j * xiPrime) * Math.cosh(2 * j * etaPrime);
+    eta += ALPHA[j - 1] * Math.cos(2 * j * xiPrime) * Math.sinh(2 * j * etaPrime);
+  }
+
+  const easting = K0 * RECTIFYING_RADIUS * eta + FALSE_EASTING;
+  let northing = K0 * RECTIFYING_RADIUS * xi;
+  if (northing < 0) northing += FALSE_NORTHING;
+
+  return {
+    zone,
+    hemisphere: lat >= 0 ? 'N' : 'S',
+    easting,
+    northing,
+  };
+}
+
+/**
+ * Convert UTM back to WGS84 lat/lon
+ */
+export function utmToLatLon(utm: UtmCoordinate): { latitude: number; longitude: number } {
+  const x = utm.easting - FALSE_EASTING;
+  const y = utm.hemisphere === 'S' ? utm.northing - FALSE_NORTHING : utm.northing;
+
+  const eta = x / (K0 * RECTIFYING_RADIUS);
+  const xi = y / (K0 * RECTIFYING_RADIUS);
+
+  let xiPrime = xi;
+  let etaPrime = eta;
+  for (let j = 1; j <= 6; j++) {
+    xiPrime -= BETA[j - 1] * Math.sin(2 * j * xi) * Math.cosh(2 * j * eta);
+    etaPrime -= BETA[j - 1] * Math.cos(2 * j * xi) * Math.sinh(2 * j * eta);
+  }
+
+  const sinhEtaPrime = Math.sinh(etaPrime);
+  const sinXiPrime = Math.sin(xiPrime);
+  const cosXiPrime = Math.cos(xiPrime);
+  const tauPrime = sinXiPrime / Math.sqrt(sinhEtaPrime * sinhEtaPrime + cosXiPrime * cosXiPrime);
+
+  // Newton-Raphson for the conformal latitude
+  let tau = tauPrime;
+  let delta: number;
+  do {
+    const sigma = Math.sinh(E * Math.atanh(E * tau / Math.sqrt(1 + tau * tau)));
+    const tauIPrime = tau * Math.sqrt(1 + sigma * sigma) - sigma * Math.sqrt(1 + tau * tau);
+    delta = (tauPrime - tauIPrime) / Math.sqrt(1 + tauIPrime * tauIPrime)
+      * (1 + (1 - E * E) * tau * tau) / ((1 - E * E) * Math.sqrt(1 + tau * tau));
+    tau += delta;
+  } while (Math.abs(delta) > 1e-12);
+
+  const lambda = Math.atan2(sinhEtaPrime, cosXiPrime);
+
+  return {
+    latitude: toDegrees(Math.atan(tau)),
+    longitude: toDegrees(lambda) + centralMeridian(utm.zone),
+  };
+}
+
+/**
+ * Format a UTM coordinate as an MGRS reference, e.g. "31U DQ 48251 11932".
+ * Digits are truncated (not rounded) so the reference names the square containing the point.
+ */
+export function utmToMgrs(utm: UtmCoordinate, band: string, precision: number = 5): string {
+  const column = Math.floor(utm.easting / 100000);
+  const row = Math.floor(utm.northing / 100000) % 20;
+  const squareId = COLUMN_LETTERS[(utm.zone - 1) % 3].charAt(column - 1) + ROW_LETTERS[(utm.zone - 1) % 2].charAt(row);
+
+  const divisor = Math.pow(10, 5 - precision);
+  const pad = (value: number) => {
+    const digits = String(Math.floor((value % 100000) / divisor));
+    return precision > 0 ? ('00000' + digits).slice(-precision) : '';
+  };
+
+  return [`${utm.zone}${band}`, squareId, pad(utm.easting), pad(utm.northing)].filter(Boolean).join(' ');
+}
+
+/**
+ * Convert WGS84 lat/lon to an MGRS reference with 1 (10km) to 5 (1m) digit precision
+ */
+export function latLonToMgrs(lat: number, lon: number, precision: number = 5): string {
+  return utmToMgrs(latLonToUtm(lat, lon), getLatitudeBand(lat), precision);
+}
+
+/**
+ * Parse an MGRS reference (spaces optional) into the UTM coordinate of the square's south-west corner
+ */
+export function parseMgrs(reference: string): MgrsCoordinate {
+  const match = reference.toUpperCase().replace(/\s+/g, '').match(/^(\d{1,2})([C-HJ-NP-X])([A-HJ-NP-Z])([A-HJ-NP-V])(\d*)$/);
+  if (!match || match[5].length % 2 !== 0 || match[5].length > 10) {
+    throw new Error(`Invalid MGRS reference: ${reference}`);
+  }
+
+  const zone = parseInt(match[1], 10);
+  const band = match[2];
+  const digits = match[5];
+  const precision = digits.length / 2;
+
+  const column = COLUMN_LETTERS[(zone - 1) % 3].indexOf(match[3]) + 1;
+  const row = ROW_LETTERS[(zone - 1) % 2].indexOf(match[4]);
+  if (zone < 1 || zone > 60 || column === 0 || row === -1) {
+    throw new Error(`Invalid MGRS reference: ${reference}`);
+  }
+
+  const scale = Math.pow(10, 5 - precision);
+  const easting = column * 100000 + (precision ? parseInt(digits.slice(0, precision), 10) * scale : 0);
+  const northingInSquare = row * 100000 + (precision ? parseInt(digits.slice(precision), 10) * scale : 0);
+
+  // Row letters repeat every 2000km, so add whole cycles until the northing reaches the band
+  const hemisphere = band >= 'N' ? 'N' : 'S';
+  const bandLatitude = (BANDS.indexOf(band) - 10) * 8;
+  const bandNorthing = Math.floor(latLonToUtm(bandLatitude, 3, 31).northing / 100000) * 100000;
+  let northing = northingInSquare;
+  while (northing < bandNorthing) {
+    northing += 2000000;
+  }
+
+  return { zone, band, hemisphere, easting, northing };
+}
+
+/**
+ * Convert an MGRS reference to WGS84 lat/lon (south-west corner of the referenced square)
+ */
+export function mgrsToLatLon(reference: string): { latitude: number; longitude: number } {
+  return utmToLatLon(parseMgrs(reference));
+}
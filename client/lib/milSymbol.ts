@@ -0,0 +1,290 @@
+import type { SymbolAffiliation, SymbolConfidence, SymbolEchelon, SymbolStatus, TacticalSymbolType } from '@/shared/types';
+
+type SymbolCategory = 'unit' | 'equipment' | 'installation' | 'control';
+
+export interface MilSymbolOptions {
+  type: TacticalSymbolType;
+  affiliation: SymbolAffiliation;
+  // Stroke of control measures; framed symbols use the standard affiliation fill
+  color: string;
+  size: 'small' | 'medium' | 'large';
+  // Planned symbols get a dashed outline, destroyed ones are struck through
+  status?: SymbolStatus;
+  // Anything short of confirmed is flagged with a question mark beside the symbol
+  confidence?: SymbolConfidence;
+  // Direction of movement in degrees, drawn as an arrow below units and equipment when set
+  rotation?: number;
+  echelon?: SymbolEchelon;
+  uniqueDesignation?: string;
+  quantity?: number;
+  dtg?: string;
+}
+
+export interface RenderedMilSymbol {
+  svg: string;
+  width: number;
+  height: number;
+  // Pixel offset of the frame centre, i.e. the symbol's position on the map
+  anchor: [number, number];
+}
+
+interface Box {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+// Frames are drawn on a 200x200 canvas centred on (100, 100). `bounds` is the outline's
+// extent, `icon` the area glyphs are fitted into.
+const FRAMES: Record<SymbolAffiliation, { path: string; fill: string; bounds: Box; icon: Box }> = {
+  friend: {
+    path: 'M25,50 L175,50 L175,150 L25,150 Z',
+    fill: '#80E0FF',
+    bounds: { x1: 25, y1: 50, x2: 175, y2: 150 },
+    icon: { x1: 25, y1: 50, x2: 175, y2: 150 },
+  },
+  hostile: {
+    path: 'M100,28 L172,100 L100,172 L28,100 Z',
+    fill: '#FF8080',
+    bounds: { x1: 28, y1: 28, x2: 172, y2: 172 },
+    icon: { x1: 64, y1: 64, x2: 136, y2: 136 },
+  },
+  neutral: {
+    path: 'M45,45 L155,45 L155,155 L45,155 Z',
+    fill: '#AAFFAA',
+    bounds: { x1: 45, y1: 45, x2: 155, y2: 155 },
+    icon: { x1: 45, y1: 45, x2: 155, y2: 155 },
+  },
+  unknown: {
+    path: 'M63,63 C63,20 137,20 137,63 C180,63 180,137 137,137 C137,180 63,180 63,137 C20,137 20,63 63,63 Z',
+    fill: '#FFFF80',
+    bounds: { x1: 31, y1: 31, x2: 169, y2: 169 },
+    icon: { x1: 60, y1: 60, x2: 140, y2: 140 },
+  },
+};
+
+const line = (x1: number, y1: number, x2: number, y2: number) => `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}"/>`;
+
+const text = (x: number, y: number, content: string, fontSize: number, anchor: 'start' | 'middle' | 'end' = 'middle', fill = '#000000') =>
+  `<text x="${x}" y="${y}" font-size="${fontSize}" font-family="Arial, sans-serif" font-weight="bold" text-anchor="${anchor}" dominant-baseline="central" fill="${fill}" stroke="none">${escapeXml(content)}</text>`;
+
+// Glyphs are fitted into the frame's icon box
+const GLYPHS: Record<string, (box: Box) => string> = {
+  infantry: (b) => line(b.x1, b.y1, b.x2, b.y2) + line(b.x1, b.y2, b.x2, b.y1),
+  armour: (b) => `<ellipse cx="100" cy="100" rx="${(b.x2 - b.x1) * 0.3}" ry="${(b.y2 - b.y1) * 0.22}" fill="none"/>`,
+  rotaryWing: () => '<path d="M70,85 L130,115 L130,85 L70,115 Z" fill="none"/>',
+  medical: (b) => line(100, b.y1, 100, b.y2) + line(b.x1, 100, b.x2, 100),
+  supply: (b) => line(b.x1, b.y2 - (b.y2 - b.y1) / 4, b.x2, b.y2 - (b.y2 - b.y1) / 4),
+  headquarters: () => text(100, 100, 'HQ', 36),
+  building: () => '<path d="M78,120 L78,95 L100,76 L122,95 L122,120 Z" fill="none"/>',
+  bunker: () => text(100, 100, 'BNKR', 28),
+};
+
+// Units, equipment and installations are framed by affiliation; control measures
+// (points and obstacles) are drawn unframed in the symbol's colour with an abbreviation
+const DEFINITIONS: Record<TacticalSymbolType, { category: SymbolCategory; glyph?: string; abbreviation?: string }> = {
+  friendly_unit: { category: 'unit', glyph: 'infantry' },
+  enemy_unit: { category: 'unit', glyph: 'infantry' },
+  neutral_unit: { category: 'unit', glyph: 'infantry' },
+  command_post: { category: 'installation', glyph: 'headquarters' },
+  supply_depot: { category: 'installation', glyph: 'supply' },
+  medical_station: { category: 'installation', glyph: 'medical' },
+  building: { category: 'installation', glyph: 'building' },
+  bunker: { category: 'installation', glyph: 'bunker' },
+  vehicle: { category: 'equipment', glyph: 'armour' },
+  aircraft: { category: 'equipment', glyph: 'rotaryWing' },
+  objective: { category: 'control', abbreviation: 'OBJ' },
+  waypoint: { category: 'control', abbreviation: 'WP' },
+  rally_point: { category: 'control', abbreviation: 'RP' },
+  observation_post: { category: 'control', abbreviation: 'OP' },
+  danger_area: { category: 'control', abbreviation: 'DA' },
+  safe_zone: { category: 'control', abbreviation: 'SZ' },
+  bridge: { category: 'control', abbreviation: 'BR' },
+  road_block: { category: 'control', abbreviation: 'RB' },
+  mine_field: { category: 'control', abbreviation: 'M' },
+  wire_obstacle: { category: 'control', abbreviation: 'W' },
+  trench: { category: 'control', abbreviation: 'TR' },
+};
+
+// Pixels per canvas unit; a friendly frame is 24, 32 or 44px wide
+const SIZE_SCALE = {
+  small: 0.16,
+  medium: 0.21,
+  large: 0.29,
+};
+
+const CONFIDENCE_MARKS: Record<SymbolConfidence, string> = {
+  confirmed: '',
+  probable: '?',
+  suspected: '??',
+};
+
+const TEXT_SIZE = 28;
+const CHAR_WIDTH = TEXT_SIZE * 0.62;
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Whether the symbol is drawn in an affiliation frame and takes echelon and modifier fields
+export function isFramedSymbol(type: TacticalSymbolType): boolean {
+  return DEFINITIONS[type].category !== 'control';
+}
+
+/**
+ * Date-time group in the usual military form, e.g. "191430ZOCT26"
+ */
+export function formatDtg(date: Date): string {
+  const months = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+  const pad = (value: number) => (value < 10 ? '0' : '') + value;
+  return `${pad(date.getUTCDate())}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}Z${months[date.getUTCMonth()]}${pad(date.getUTCFullYear() % 100)}`;
+}
+
+// Echelon marks centred above the frame: dots for team to platoon, bars for company and battalion
+function renderEchelon(echelon: SymbolEchelon, y: number): string {
+  const dot = (x: number) => `<circle cx="${x}" cy="${y}" r="6" fill="#000000" stroke="none"/>`;
+  const bar = (x: number) => line(x, y - 11, x, y + 11);
+
+  switch (echelon) {
+    case 'team':
+      return `<circle cx="100" cy="${y}" r="9" fill="none"/>` + line(88, y + 12, 112, y - 12);
+    case 'squad':
+      return dot(100);
+    case 'section':
+      return dot(90) + dot(110);
+    case 'platoon':
+      return dot(80) + dot(100) + dot(120);
+    case 'company':
+      return bar(100);
+    case 'battalion':
+      return bar(93) + bar(107);
+  }
+}
+
+/**
+ * Render an APP-6 style symbol as a self-contained SVG string, so it works without
+ * network access or an external symbol service
+ */
+export function renderMilSymbol(options: MilSymbolOptions): RenderedMilSymbol {
+  const definition = DEFINITIONS[options.type];
+  const parts: string[] = [];
+  // Drawing extent in canvas units; framed symbols start from their frame instead
+  let bounds: Box = { x1: 48, y1: 42, x2: 152, y2: 152 };
+
+  const extend = (x1: number, y1: number, x2: number, y2: number) => {
+    bounds = {
+      x1: Math.min(bounds.x1, x1),
+      y1: Math.min(bounds.y1, y1),
+      x2: Math.max(bounds.x2, x2),
+      y2: Math.max(bounds.y2, y2),
+    };
+  };
+
+  const dash = options.status === 'planned' ? ' stroke-dasharray="16 10"' : '';
+  let outlineBox: Box;
+
+  if (definition.category === 'control') {
+    const outline = options.type === 'observation_post'
+      ? '<path d="M100,42 L152,142 L48,142 Z" fill="#FFFFFF"/>'
+      : '<circle cx="100" cy="100" r="48" fill="#FFFFFF"/>';
+    parts.push(`<g stroke="${options.color}" stroke-width="8"${dash}>${outline}</g>`);
+    outlineBox = { x1: 48, y1: 42, x2: 152, y2: 152 };
+    const abbreviation = definition.abbreviation || '';
+    parts.push(text(100, options.type === 'observation_post' ? 112 : 100, abbreviation, abbreviation.length > 2 ? 30 : 38, 'middle', options.color));
+  } else {
+    const frame = FRAMES[options.affiliation];
+    bounds = { ...frame.bounds };
+    outlineBox = frame.bounds;
+
+    parts.push(`<path d="${frame.path}" fill="${frame.fill}" stroke="#000000" stroke-width="5"${dash}/>`);
+    if (definition.category === 'installation') {
+      // Installation indicator: a filled bar on top of the frame
+      parts.push(`<rect x="85" y="${frame.bounds.y1 - 12}" width="30" height="12" fill="#000000"/>`);
+      extend(85, frame.bounds.y1 - 12, 115, frame.bounds.y2);
+    }
+    if (definition.glyph) {
+      parts.push(`<g stroke="#000000" stroke-width="4" fill="none">${GLYPHS[definition.glyph](frame.icon)}</g>`);
+    }
+
+    let top = bounds.y1 - 6;
+    if (options.echelon) {
+      parts.push(`<g stroke="#000000" stroke-width="4">${renderEchelon(options.echelon, top - 12)}</g>`);
+      top -= 26;
+    }
+    if (options.quantity) {
+      parts.push(text(100, top - TEXT_SIZE / 2, String(options.quantity), TEXT_SIZE));
+      top -= TEXT_SIZE + 2;
+    }
+    extend(bounds.x1, top, bounds.x2, bounds.y2);
+
+    if (options.uniqueDesignation) {
+      const x = frame.bounds.x2 + 8;
+      parts.push(text(x, 100, options.uniqueDesignation, TEXT_SIZE, 'start'));
+      extend(x, 100 - TEXT_SIZE / 2, x + options.uniqueDesignation.length * CHAR_WIDTH, 100 + TEXT_SIZE / 2);
+    }
+    if (options.dtg) {
+      const x = frame.bounds.x1 - 8;
+      parts.push(text(x, 100, options.dtg, TEXT_SIZE, 'end'));
+      extend(x - options.dtg.length * CHAR_WIDTH, 100 - TEXT_SIZE / 2, x, 100 + TEXT_SIZE / 2);
+    }
+
+    if (options.rotation) {
+      // Direction of movement: a staff down from the frame, then an arrow along the heading
+      const radians = options.rotation * Math.PI / 180;
+      const staffEnd = frame.bounds.y2 + 30;
+      const tipX = 100 + Math.sin(radians) * 70;
+      const tipY = staffEnd - Math.cos(radians) * 70;
+      const head = (offset: number) => [
+        tipX - Math.sin(radians + offset) * 18,
+        tipY + Math.cos(radians + offset) * 18,
+      ];
+      const [leftX, leftY] = head(0.5);
+      const [rightX, rightY] = head(-0.5);
+      parts.push(
+        `<g stroke="#000000" stroke-width="4" fill="none">` +
+        line(100, frame.bounds.y2, 100, staffEnd) +
+        line(100, staffEnd, tipX, tipY) +
+        `<path d="M${leftX},${leftY} L${tipX},${tipY} L${rightX},${rightY}"/>` +
+        `</g>`
+      );
+      extend(Math.min(tipX, leftX, rightX), Math.min(tipY, leftY, rightY), Math.max(tipX, leftX, rightX), Math.max(staffEnd, tipY, leftY, rightY));
+    }
+  }
+
+  if (options.status === 'destroyed') {
+    const { x1, y1, x2, y2 } = outlineBox;
+    parts.push(`<g stroke="#000000" stroke-width="6">${line(x1, y1, x2, y2)}${line(x1, y2, x2, y1)}</g>`);
+  }
+
+  const confidenceMark = CONFIDENCE_MARKS[options.confidence || 'confirmed'];
+  if (confidenceMark) {
+    const x = outlineBox.x2 + 8;
+    const y = outlineBox.y1 + TEXT_SIZE / 2;
+    parts.push(text(x, y, confidenceMark, TEXT_SIZE, 'start', '#B91C1C'));
+    extend(x, y - TEXT_SIZE / 2, x + confidenceMark.length * CHAR_WIDTH, y + TEXT_SIZE / 2);
+  }
+
+  const padding = 6;
+  const viewBox = {
+    x: bounds.x1 - padding,
+    y: bounds.y1 - padding,
+    width: bounds.x2 - bounds.x1 + padding * 2,
+    height: bounds.y2 - bounds.y1 + padding * 2,
+  };
+  const scale = SIZE_SCALE[options.size];
+  const width = Math.round(viewBox.width * scale);
+  const height = Math.round(viewBox.height * scale);
+
+  return {
+    svg: `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}">${parts.join('')}</svg>`,
+    width,
+    height,
+    anchor: [Math.round((100 - viewBox.x) * scale), Math.round((100 - viewBox.y) * scale)],
+  };
+}
@@ -0,0 +1,202 @@
+import { OUTBOX_SETTINGS, POSITION_HISTORY_DECIMATION } from '@/shared/types';
+import { generateId } from './utils';
+
+export type OutboxEventType = 'position_update' | 'symbol_create' | 'symbol_update' | 'symbol_delete' | 'symbol_restore';
+
+export interface OutboxEntry {
+  // Storage key, assigned on insert so entries replay in the order they were queued
+  seq?: number;
+  // Sent as the event's clientEventId so the server can ignore repeats
+  id: string;
+  roomId: string;
+  event: OutboxEventType;
+  payload: Record<string, any>;
+  createdAt: string;
+  attempts: number;
+}
+
+// What became of one send: acknowledged, refused for good by the server, failed (no ack or a
+// server-side error, so worth retrying) or not attempted because the socket is not in the room
+export type OutboxSendResult = 'acknowledged' | 'rejected' | 'failed' | 'offline';
+
+export interface OutboxStore {
+  add(entry: OutboxEntry): Promise<OutboxEntry>;
+  list(roomId: string): Promise<OutboxEntry[]>;
+  put(entry: OutboxEntry): Promise<void>;
+  remove(seq: number): Promise<void>;
+}
+
+const DB_NAME = 'airsoft-tactical-map';
+const DB_VERSION = 1;
+const STORE_NAME = 'outbox';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Outbox persisted in IndexedDB so queued events survive a reload or a closed tab
+ */
+export class IndexedDbOutboxStore implements OutboxStore {
+  private db: Promise<IDBDatabase>;
+
+  constructor() {
+    this.db = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'seq', autoIncrement: true });
+        store.createIndex('roomId', 'roomId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.db;
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  async add(entry: OutboxEntry): Promise<OutboxEntry> {
+    const store = await this.store('readwrite');
+    const seq = await requestToPromise(store.add(entry));
+    return { ...entry, seq: seq as number };
+  }
+
+  async list(roomId: string): Promise<OutboxEntry[]> {
+    const store = await this.store('readonly');
+    const entries = await requestToPromise(store.index('roomId').getAll(roomId));
+    return (entries as OutboxEntry[]).sort((a, b) => (a.seq || 0) - (b.seq || 0));
+  }
+
+  async put(entry: OutboxEntry): Promise<void> {
+    const store = await this.store('readwrite');
+    await requestToPromise(store.put(entry));
+  }
+
+  async remove(seq: number): Promise<void> {
+    const store = await this.store('readwrite');
+    await requestToPromise(store.delete(seq));
+  }
+}
+
+/**
+ * Process-local fallback for browsers without IndexedDB and for tests
+ */
+export class MemoryOutboxStore implements OutboxStore {
+  private entries: OutboxEntry[] = [];
+  private nextSeq = 1;
+
+  async add(entry: OutboxEntry): Promise<OutboxEntry> {
+    const stored = { ...entry, seq: this.nextSeq++ };
+    this.entries.push(stored);
+    return stored;
+  }
+
+  async list(roomId: string): Promise<OutboxEntry[]> {
+    return this.entries.filter(entry => entry.roomId === roomId);
+  }
+
+  async put(entry: OutboxEntry): Promise<void> {
+    this.entries = this.entries.map(existing => existing.seq === entry.seq ? entry : existing);
+  }
+
+  async remove(seq: number): Promise<void> {
+    this.entries = this.entries.filter(entry => entry.seq !== seq);
+  }
+}
+
+// Wait before the nth consecutive retry of a flush that left events pending, doubling each time
+export function getOutboxRetryDelay(retry: number): number {
+  return Math.min(OUTBOX_SETTINGS.retryDelayMs * 2 ** Math.max(retry - 1, 0), OUTBOX_SETTINGS.maxRetryDelayMs);
+}
+
+export function createOutboxStore(): OutboxStore {
+  return typeof indexedDB !== 'undefined' ? new IndexedDbOutboxStore() : new MemoryOutboxStore();
+}
+
+/**
+ * Queue of outgoing socket events, replayed in order once the room is joined again
+ */
+export class Outbox {
+  private sendingSeq: number | null = null;
+
+  constructor(private store: OutboxStore = createOutboxStore()) {}
+
+  /**
+   * Queue an event. Position fixes arriving faster than the track decimation
+   * interval replace the previous unsent fix instead of piling up.
+   */
+  async enqueue(roomId: string, event: OutboxEventType, payload: Record<string, any>): Promise<OutboxEntry> {
+    if (event === 'position_update') {
+      const entries = await this.store.list(roomId);
+      const last = entries[entries.length - 1];
+      if (
+        last &&
+        last.event === 'position_update' &&
+        last.seq !== this.sendingSeq &&
+        Date.now() - new Date(last.createdAt).getTime() < POSITION_HISTORY_DECIMATION.minIntervalMs
+      ) {
+        const replaced = { ...last, payload: { ...payload, clientEventId: last.id } };
+        await this.store.put(replaced);
+        return replaced;
+      }
+    }
+
+    const id = generateId();
+    return this.store.add({
+      id,
+      roomId,
+      event,
+      payload: { ...payload, clientEventId: id },
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+    });
+  }
+
+  async count(roomId: string): Promise<number> {
+    return (await this.store.list(roomId)).length;
+  }
+
+  /**
+   * Send queued events in order until one is not acknowledged. Events the server refuses
+   * are dropped straight away; one that keeps failing is dropped after
+   * OUTBOX_SETTINGS.maxAttempts so it cannot block the queue. Sends skipped while offline
+   * do not count as attempts. Returns the number of entries still pending.
+   */
+  async flush(roomId: string, send: (entry: OutboxEntry) => Promise<OutboxSendResult>): Promise<number> {
+    // Re-read the queue each time so events queued during the flush are sent too
+    let entries = await this.store.list(roomId);
+
+    while (entries.length > 0) {
+      const entry = entries[0];
+      this.sendingSeq = entry.seq!;
+      const result = await send(entry).catch((): OutboxSendResult => 'failed');
+      this.sendingSeq = null;
+
+      if (result === 'offline') {
+        return entries.length;
+      }
+
+      if (result === 'acknowledged') {
+        await this.store.remove(entry.seq!);
+      } else if (result === 'rejected') {
+        console.warn(`Dropping ${entry.event} refused by the server`);
+        await this.store.remove(entry.seq!);
+      } else if (entry.attempts + 1 >= OUTBOX_SETTINGS.maxAttempts) {
+        console.warn(`Dropping ${entry.event} after ${entry.attempts + 1} failed attempts`);
+        await this.store.remove(entry.seq!);
+      } else {
+        await this.store.put({ ...entry, attempts: entry.attempts + 1 });
+        return entries.length;
+      }
+
+      entries = await this.store.list(roomId);
+    }
+
+    return 0;
+  }
+}
@@ -0,0 +1,55 @@
+import { SocketEvent, TacticalSymbol, UserPosition } from '@/shared/types';
+
+export interface ReplayFrame {
+  positions: UserPosition[];
+  symbols: TacticalSymbol[];
+}
+
+/**
+ * Rebuild the map as it was at `at` (epoch ms) by folding the recorded room events in order
+ */
+export function buildReplayFrame(events: SocketEvent[], at: number): ReplayFrame {
+  const positions = new Map<string, UserPosition>();
+  const symbols = new Map<string, TacticalSymbol>();
+
+  for (const event of events) {
+    if (new Date(event.timestamp).getTime() > at) break;
+
+    switch (event.type) {
+      case 'position_update':
+        positions.set(event.data.userId, event.data);
+        break;
+      case 'symbol_created':
+      case 'symbol_updated':
+      case 'symbol_restored':
+        symbols.set(event.data.id, event.data);
+        break;
+      case 'symbol_deleted':
+      case 'symbol_archived':
+        symbols.delete(event.data.id);
+        break;
+      case 'member_left':
+        positions.delete(event.data.userId);
+        break;
+    }
+  }
+
+  return {
+    positions: Array.from(positions.values()),
+    symbols: Array.from(symbols.values()),
+  };
+}
+
+/**
+ * First and last event times (epoch ms) of a recorded log
+ */
+export function getReplayBounds(events: SocketEvent[]): { start: number; end: number } {
+  if (events.length === 0) {
+    return { start: 0, end: 0 };
+  }
+
+  return {
+    start: new Date(events[0].timestamp).getTime(),
+    end: new Date(events[events.length - 1].timestamp).getTime(),
+  };
+}
@@ -0,0 +1,77 @@
+import { TacticalSymbol } from '@/shared/types';
+
+// A symbol edit made by this user, with enough state to reverse it. Moves are updates of `coordinates`.
+export type SymbolCommand =
+  | { type: 'create'; symbol: TacticalSymbol }
+  | { type: 'update'; id: string; before: Partial<TacticalSymbol>; after: Partial<TacticalSymbol> }
+  | { type: 'delete'; symbol: TacticalSymbol };
+
+export interface SymbolHistory {
+  past: SymbolCommand[];
+  future: SymbolCommand[];
+}
+
+// Oldest commands are dropped beyond this many
+export const SYMBOL_HISTORY_LIMIT = 50;
+
+export const EMPTY_SYMBOL_HISTORY: SymbolHistory = { past: [], future: [] };
+
+/**
+ * Update command for applying `updates` to `symbol`, remembering the values they replace.
+ * Fields the symbol did not have are remembered as null, so undoing clears them again.
+ */
+export function captureUpdate(symbol: TacticalSymbol, updates: Partial<TacticalSymbol>): SymbolCommand {
+  const before: Partial<TacticalSymbol> = Object.fromEntries(
+    Object.keys(updates).map(key => [key, symbol[key as keyof TacticalSymbol] ?? null])
+  );
+  return { type: 'update', id: symbol.id, before, after: updates };
+}
+
+/**
+ * The command that reverses `command`. Undoing a create deletes the symbol and undoing a
+ * delete brings it back, so the symbol keeps its id throughout.
+ */
+export function invertCommand(command: SymbolCommand): SymbolCommand {
+  switch (command.type) {
+    case 'create':
+      return { type: 'delete', symbol: command.symbol };
+    case 'delete':
+      return { type: 'create', symbol: command.symbol };
+    case 'update':
+      return { type: 'update', id: command.id, before: command.after, after: command.before };
+  }
+}
+
+// A new edit starts a new branch, so anything that was undone can no longer be redone
+export function recordCommand(history: SymbolHistory, command: SymbolCommand): SymbolHistory {
+  return {
+    past: [...history.past, command].slice(-SYMBOL_HISTORY_LIMIT),
+    future: [],
+  };
+}
+
+/**
+ * Step back one command, returning the command to apply to reverse it
+ */
+export function undoCommand(history: SymbolHistory): { history: SymbolHistory; apply: SymbolCommand } | null {
+  const command = history.past[history.past.length - 1];
+  if (!command) return null;
+
+  return {
+    history: { past: history.past.slice(0, -1), future: [command, ...history.future] },
+    apply: invertCommand(command),
+  };
+}
+
+/**
+ * Step forward to the most recently undone command, returning it to apply again
+ */
+export function redoCommand(history: SymbolHistory): { history: SymbolHistory; apply: SymbolCommand } | null {
+  const command = history.future[0];
+  if (!command) return null;
+
+  return {
+    history: { past: [...history.past, command], future: history.future.slice(1) },
+    apply: command,
+  };
+}
@@ -0,0 +1,220 @@
+// Canonical OSM tile URL. No {s} subdomains so cached tiles match the URLs the map requests.
+export const TILE_URL = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+export const TILE_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+// Each saved area gets its own cache so it can be evicted without touching the others
+export const TILE_CACHE_PREFIX = 'offline-tiles-';
+export const MAX_TILE_ZOOM = 18;
+// Keep bulk downloads small, the public OSM servers do not allow scraping large regions
+export const MAX_AREA_TILES = 5000;
+
+const AREAS_STORAGE_KEY = 'offline-tile-areas';
+const DOWNLOAD_CONCURRENCY = 4;
+
+export interface TileBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface TileCoordinate {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface OfflineArea {
+  id: string;
+  name: string;
+  bounds: TileBounds;
+  minZoom: number;
+  maxZoom: number;
+  tileCount: number;
+  sizeBytes: number;
+  createdAt: string;
+}
+
+export interface DownloadProgress {
+  completed: number;
+  failed: number;
+  total: number;
+}
+
+export function lonToTileX(lon: number, zoom: number): number {
+  const tiles = Math.pow(2, zoom);
+  return Math.min(tiles - 1, Math.max(0, Math.floor((lon + 180) / 360 * tiles)));
+}
+
+export function latToTileY(lat: number, zoom: number): number {
+  const tiles = Math.pow(2, zoom);
+  const latRad = lat * Math.PI / 180;
+  const y = Math.floor((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2 * tiles);
+  return Math.min(tiles - 1, Math.max(0, y));
+}
+
+function getTileRange(bounds: TileBounds, zoom: number) {
+  return {
+    minX: lonToTileX(bounds.west, zoom),
+    maxX: lonToTileX(bounds.east, zoom),
+    // Tile rows count down from the north
+    minY: latToTileY(bounds.north, zoom),
+    maxY: latToTileY(bounds.south, zoom),
+  };
+}
+
+/**
+ * Number of tiles covering the bounds across the zoom range
+ */
+export function countTiles(bounds: TileBounds, minZoom: number, maxZoom: number): number {
+  let count = 0;
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const range = getTileRange(bounds, z);
+    count += (range.maxX - range.minX + 1) * (range.maxY - range.minY + 1);
+  }
+  return count;
+}
+
+/**
+ * Every tile covering the bounds across the zoom range, lowest zoom first
+ */
+export function getTileCoordinates(bounds: TileBounds, minZoom: number, maxZoom: number): TileCoordinate[] {
+  const tiles: TileCoordinate[] = [];
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const range = getTileRange(bounds, z);
+    for (let x = range.minX; x <= range.maxX; x++) {
+      for (let y = range.minY; y <= range.maxY; y++) {
+        tiles.push({ x, y, z });
+      }
+    }
+  }
+  return tiles;
+}
+
+export function getTileUrl(tile: TileCoordinate): string {
+  return TILE_URL
+    .replace('{z}', String(tile.z))
+    .replace('{x}', String(tile.x))
+    .replace('{y}', String(tile.y));
+}
+
+export function isTileCacheSupported(): boolean {
+  return typeof window !== 'undefined' && 'caches' in window;
+}
+
+export function listOfflineAreas(): OfflineArea[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    return JSON.parse(localStorage.getItem(AREAS_STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+function saveOfflineAreas(areas: OfflineArea[]) {
+  localStorage.setItem(AREAS_STORAGE_KEY, JSON.stringify(areas));
+}
+
+/**
+ * Pre-fetch every tile of an area into its own cache.
+ * Failed tiles are skipped and reported through `onProgress`; aborting discards the partial cache.
+ */
+export async function downloadOfflineArea(
+  name: string,
+  bounds: TileBounds,
+  minZoom: number,
+  maxZoom: number,
+  onProgress?: (progress: DownloadProgress) => void,
+  signal?: AbortSignal
+): Promise<OfflineArea> {
+  if (!isTileCacheSupported()) {
+    throw new Error('Offline maps are not supported in this browser');
+  }
+
+  const tiles = getTileCoordinates(bounds, minZoom, Math.min(maxZoom, MAX_TILE_ZOOM));
+  if (tiles.length > MAX_AREA_TILES) {
+    throw new Error(`Area is too large (${tiles.length} tiles, max ${MAX_AREA_TILES}). Zoom in or lower the max zoom.`);
+  }
+
+  const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  const cacheName = `${TILE_CACHE_PREFIX}${id}`;
+  const cache = await caches.open(cacheName);
+  const progress: DownloadProgress = { completed: 0, failed: 0, total: tiles.length };
+  let sizeBytes = 0;
+  let next = 0;
+
+  const worker = async () => {
+    while (next < tiles.length && !signal?.aborted) {
+      const url = getTileUrl(tiles[next++]);
+      try {
+        const response = await fetch(url, { signal, mode: 'cors' });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+        const blob = await response.clone().blob();
+        await cache.put(url, response);
+        sizeBytes += blob.size;
+        progress.completed++;
+      } catch {
+        progress.failed++;
+      }
+      onProgress?.({ ...progress });
+    }
+  };
+
+  await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, worker));
+
+  if (signal?.aborted) {
+    await caches.delete(cacheName);
+    throw new Error('Download cancelled');
+  }
+
+  const area: OfflineArea = {
+    id,
+    name,
+    bounds,
+    minZoom,
+    maxZoom: Math.min(maxZoom, MAX_TILE_ZOOM),
+    tileCount: progress.completed,
+    sizeBytes,
+    createdAt: new Date().toISOString(),
+  };
+  saveOfflineAreas([...listOfflineAreas(), area]);
+
+  return area;
+}
+
+/**
+ * Evict one saved area. Tiles shared with other areas stay in their own caches.
+ */
+export async function deleteOfflineArea(id: string): Promise<void> {
+  if (isTileCacheSupported()) {
+    await caches.delete(`${TILE_CACHE_PREFIX}${id}`);
+  }
+  saveOfflineAreas(listOfflineAreas().filter(area => area.id !== id));
+}
+
+/**
+ * Look a tile up across every saved area
+ */
+export async function getCachedTile(url: string): Promise<Response | undefined> {
+  if (!isTileCacheSupported()) return undefined;
+  return caches.match(url);
+}
+
+export async function getStorageUsage(): Promise<{ usage: number; quota: number } | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+
+  const estimate = await navigator.storage.estimate();
+  return {
+    usage: estimate.usage || 0,
+    quota: estimate.quota || 0,
+  };
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
@@ -1,5 +1,8 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { latLonToMgrs } from "./mgrs"
+import { SPOT_REPORT_SETTINGS } from "@/shared/types"
+import type { GeofenceKind, MedicRequest, PlayerStatus, SymbolGeometry, SymbolGeometryKind, SymbolVertex, TacticalSymbol } from "@/shared/types"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -38,6 +41,25 @@ export function generateRandomColor(): string {
   return colors[Math.floor(Math.random() * colors.length)];
 }
 
+// RFC 4122 v4 id; crypto.randomUUID is missing on plain-http LAN setups
+export function generateId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+
+  const bytes = new Uint8Array(16);
+  if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+    crypto.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < bytes.length; i++) bytes[i] = Math.floor(Math.random() * 256);
+  }
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+
+  const hex = Array.prototype.map.call(bytes, (byte: number) => ('0' + byte.toString(16)).slice(-2)).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
 export function validateGPSCoordinates(lat: number, lon: number): boolean {
   return lat >= -90 && lat <= 90 && lon >= -180 && lon <= 180;
 }
@@ -54,6 +76,26 @@ export function calculateBearing(lat1: number, lon1: number, lat2: number, lon2:
   return (bearing + 360) % 360;
 }
 
+export function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371e3; // Earth's radius in meters
+  const φ1 = lat1 * Math.PI / 180;
+  const φ2 = lat2 * Math.PI / 180;
+  const Δφ = (lat2 - lat1) * Math.PI / 180;
+  const Δλ = (lon2 - lon1) * Math.PI / 180;
+
+  const a = Math.sin(Δφ/2) * Math.sin(Δφ/2) +
+            Math.cos(φ1) * Math.cos(φ2) *
+            Math.sin(Δλ/2) * Math.sin(Δλ/2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
+
+  return R * c; // Distance in meters
+}
+
+export function formatBearing(bearing: number): string {
+  const directions = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+  return `${Math.round(bearing) % 360}° ${directions[Math.round(bearing / 45) % 8]}`;
+}
+
 export function formatCoordinates(lat: number, lon: number, precision: number = 6): string {
   return `${lat.toFixed(precision)}, ${lon.toFixed(precision)}`;
 }
@@ -84,11 +126,12 @@ export function throttle<T extends (...args: any[]) => any>(
 }
 
 // Grid system utilities
-export function convertToGridRef(lat: number, lon: number): string {
-  // Simple grid reference system (can be enhanced for MGRS)
-  const gridLat = Math.floor(lat * 1000) / 1000;
-  const gridLon = Math.floor(lon * 1000) / 1000;
-  return `${gridLat.toFixed(3)}, ${gridLon.toFixed(3)}`;
+export function convertToGridRef(lat: number, lon: number, precision: number = 5): string {
+  // MGRS is undefined over the poles, fall back to plain coordinates there
+  if (lat < -80 || lat > 84) {
+    return formatCoordinates(lat, lon, 5);
+  }
+  return latLonToMgrs(lat, lon, precision);
 }
 
 export function getGridSize(zoomLevel: number): number {
@@ -100,34 +143,6 @@ export function getGridSize(zoomLevel: number): number {
   return 1000; // 1km
 }
 
-// NATO symbol utilities
-export function getNATOSymbolIcon(symbolType: string): string {
-  const symbolMap: Record<string, string> = {
-    friendly_unit: '🟢',
-    enemy_unit: '🔴',
-    neutral_unit: '🟡',
-    objective: '🎯',
-    waypoint: '📍',
-    danger_area: '⚠️',
-    safe_zone: '🛡️',
-    rally_point: '🚩',
-    observation_post: '👀',
-    command_post: '📡',
-    supply_depot: '📦',
-    medical_station: '🏥',
-    vehicle: '🚗',
-    aircraft: '✈️',
-    building: '🏢',
-    bridge: '🌉',
-    road_block: '🚧',
-    mine_field: '💣',
-    wire_obstacle: '⚡',
-    bunker: '🏰',
-    trench: '〰️',
-  };
-  return symbolMap[symbolType] || '📍';
-}
-
 export function getSymbolColor(symbolType: string): string {
   const colorMap: Record<string, string> = {
     friendly_unit: '#00FF00',
@@ -140,3 +155,143 @@ export function getSymbolColor(symbolType: string): string {
   };
   return colorMap[symbolType] || '#808080';
 }
+
+// Obstacles and zones are usually lines or areas; everything else starts as a point
+export function getDefaultGeometryKind(symbolType: string): SymbolGeometryKind {
+  const kindMap: Record<string, SymbolGeometryKind> = {
+    danger_area: 'polygon',
+    safe_zone: 'polygon',
+    mine_field: 'polygon',
+    trench: 'polyline',
+    wire_obstacle: 'polyline',
+  };
+  return kindMap[symbolType] || 'point';
+}
+
+// Where the symbol icon of a line or area sits: the average of its vertices
+export function getShapeAnchor(vertices: SymbolVertex[]): SymbolVertex {
+  const total = vertices.reduce(
+    (sum, vertex) => ({ latitude: sum.latitude + vertex.latitude, longitude: sum.longitude + vertex.longitude }),
+    { latitude: 0, longitude: 0 }
+  );
+  return {
+    latitude: total.latitude / vertices.length,
+    longitude: total.longitude / vertices.length,
+  };
+}
+
+// Shift every vertex by the distance the symbol icon was dragged
+export function translateGeometry(geometry: SymbolGeometry, from: SymbolVertex, to: SymbolVertex): SymbolGeometry {
+  if (geometry.kind !== 'polyline' && geometry.kind !== 'polygon') return geometry;
+
+  const dLat = to.latitude - from.latitude;
+  const dLon = to.longitude - from.longitude;
+  return {
+    ...geometry,
+    vertices: geometry.vertices.map(vertex => ({
+      latitude: vertex.latitude + dLat,
+      longitude: vertex.longitude + dLon,
+    })),
+  };
+}
+
+// Planned movement pace for route ETAs, a little under a normal walk to allow for kit and terrain
+export const WALKING_SPEED_KMH = 4;
+
+export interface RouteLeg {
+  from: SymbolVertex;
+  to: SymbolVertex;
+  distance: number;
+  bearing: number;
+}
+
+// A route is a waypoint symbol drawn as a line through its ordered waypoints
+export function isRoute(symbol: TacticalSymbol): boolean {
+  return symbol.type === 'waypoint' && symbol.geometry?.kind === 'polyline';
+}
+
+export function getRouteLegs(vertices: SymbolVertex[]): RouteLeg[] {
+  return vertices.slice(1).map((to, index) => {
+    const from = vertices[index];
+    return {
+      from,
+      to,
+      distance: calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude),
+      bearing: calculateBearing(from.latitude, from.longitude, to.latitude, to.longitude),
+    };
+  });
+}
+
+// Seconds to cover the distance at the given pace
+export function estimateTravelTime(meters: number, speedKmh: number = WALKING_SPEED_KMH): number {
+  return meters / (speedKmh * 1000 / 3600);
+}
+
+export function formatDuration(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 1) {
+    return '< 1 min';
+  } else if (minutes < 60) {
+    return `${minutes} min`;
+  } else {
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  }
+}
+
+export function isSpotReport(symbol: TacticalSymbol): boolean {
+  return !!symbol.spotReport && !!symbol.expiresAt;
+}
+
+// Shared objectives can be captured; team-private ones are only planning marks
+export function isCapturableObjective(symbol: TacticalSymbol): boolean {
+  return symbol.type === 'objective' && !symbol.teamId;
+}
+
+// Spot reports fade linearly from the time of observation down to minOpacity at expiry,
+// so stale sightings read as less reliable; other symbols stay fully opaque
+export function getSpotReportOpacity(symbol: TacticalSymbol, now: number = Date.now()): number {
+  if (!isSpotReport(symbol)) return 1;
+
+  const observedAt = new Date(symbol.spotReport!.observedAt).getTime();
+  const expiresAt = new Date(symbol.expiresAt!).getTime();
+  const lifetime = expiresAt - observedAt;
+  if (lifetime <= 0) return SPOT_REPORT_SETTINGS.minOpacity;
+
+  const progress = Math.min(1, Math.max(0, (now - observedAt) / lifetime));
+  return 1 - progress * (1 - SPOT_REPORT_SETTINGS.minOpacity);
+}
+
+// Elapsed time as MM:SS, or H:MM:SS from the first hour (replay timeline, match clock)
+export function formatElapsed(ms: number): string {
+  const totalSeconds = Math.floor(Math.max(0, ms) / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+}
+
+export const GEOFENCE_LABELS: Record<GeofenceKind, string> = {
+  out_of_bounds: 'Out of bounds',
+  safe_zone: 'Safe zone',
+  respawn: 'Respawn',
+  capture_area: 'Capture area',
+};
+
+export const PLAYER_STATUS_LABELS: Record<PlayerStatus, string> = {
+  alive: 'Alive',
+  hit: 'Hit',
+  medic_needed: 'Medic needed',
+  respawning: 'Respawning',
+};
+
+// Hit, waiting for a medic or walking back to respawn: out of the game until alive again
+export function isOutOfPlay(status?: PlayerStatus): boolean {
+  return !!status && status !== 'alive';
+}
+
+// Waiting for a medic to accept, or a medic is on the way
+export function isOpenMedicRequest(request: MedicRequest): boolean {
+  return request.status === 'pending' || request.status === 'accepted';
+}
@@ -44,10 +44,13 @@ const mockGeolocation = {
   clearWatch: jest.fn(),
 }
 
-Object.defineProperty(global.navigator, 'geolocation', {
-  value: mockGeolocation,
-  writable: true,
-})
+// Browser globals are absent in suites that opt into @jest-environment node
+if (typeof window !== 'undefined') {
+  Object.defineProperty(global.navigator, 'geolocation', {
+    value: mockGeolocation,
+    writable: true,
+  })
+}
 
 // Mock DeviceOrientationEvent
 Object.defineProperty(global, 'DeviceOrientationEvent', {
@@ -128,6 +131,10 @@ jest.mock('react-leaflet', () => ({
   TileLayer: (props) => <div data-testid="tile-layer" {...props} />,
   Marker: ({ children, ...props }) => <div data-testid="marker" {...props}>{children}</div>,
   Popup: ({ children, ...props }) => <div data-testid="popup" {...props}>{children}</div>,
+  Polyline: (props) => <div data-testid="polyline" />,
+  Polygon: (props) => <div data-testid="polygon" />,
+  Circle: (props) => <div data-testid="circle" />,
+  CircleMarker: (props) => <div data-testid="circle-marker" />,
   useMap: jest.fn(() => ({
     setView: jest.fn(),
     addLayer: jest.fn(),
@@ -154,19 +161,21 @@ jest.mock('react-leaflet', () => ({
 global.fetch = jest.fn()
 
 // Mock window.matchMedia
-Object.defineProperty(window, 'matchMedia', {
-  writable: true,
-  value: jest.fn().mockImplementation(query => ({
-    matches: false,
-    media: query,
-    onchange: null,
-    addListener: jest.fn(), // deprecated
-    removeListener: jest.fn(), // deprecated
-    addEventListener: jest.fn(),
-    removeEventListener: jest.fn(),
-    dispatchEvent: jest.fn(),
-  })),
-})
+if (typeof window !== 'undefined') {
+  Object.defineProperty(window, 'matchMedia', {
+    writable: true,
+    value: jest.fn().mockImplementation(query => ({
+      matches: false,
+      media: query,
+      onchange: null,
+      addListener: jest.fn(), // deprecated
+      removeListener: jest.fn(), // deprecated
+      addEventListener: jest.fn(),
+      removeEventListener: jest.fn(),
+      dispatchEvent: jest.fn(),
+    })),
+  })
+}
 
 // Mock IntersectionObserver
 global.IntersectionObserver = class IntersectionObserver {
@@ -1,6 +1,16 @@
 import '@/client/styles/globals.css'
 import type { AppProps } from 'next/app'
+import { useEffect } from 'react'
 
 export default function App({ Component, pageProps }: AppProps) {
+  // Service worker serves saved map tiles and cached pages when offline
+  useEffect(() => {
+    if ('serviceWorker' in navigator) {
+      navigator.serviceWorker.register('/sw.js').catch((error) => {
+        console.error('Service worker registration failed:', error)
+      })
+    }
+  }, [])
+
   return <Component {...pageProps} />
 }
@@ -0,0 +1,75 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { RoomService } from '@/api/services/roomService';
+import { UpdateMemberRequestSchema } from '@/shared/types';
+import { z } from 'zod';
+
+const roomService = new RoomService();
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { roomId } = req.query;
+
+  if (typeof roomId !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid room ID'
+    });
+  }
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  try {
+    // Get authorization header
+    const authorization = req.headers.authorization;
+    if (!authorization) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authorization header required'
+      });
+    }
+
+    const token = authorization.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    if (req.method !== 'PATCH') {
+      res.setHeader('Allow', ['PATCH']);
+      return res.status(405).json({
+        success: false,
+        error: `Method ${req.method} not allowed`
+      });
+    }
+
+    const updates = UpdateMemberRequestSchema.parse(req.body);
+    await roomService.updateMember(roomId, user.id, updates);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Member updated successfully',
+    });
+  } catch (error: any) {
+    console.error('Members API Error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: error.errors,
+      });
+    }
+
+    return res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.message || 'Internal server error',
+    });
+  }
+}
@@ -0,0 +1,100 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { ChatService } from '@/api/services/chatService';
+import { ChatHistoryQuerySchema, SendChatMessageRequestSchema, ChatMessage, PaginatedResponse } from '@/shared/types';
+import { z } from 'zod';
+
+const chatService = new ChatService();
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { roomId } = req.query;
+
+  if (typeof roomId !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid room ID'
+    });
+  }
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  try {
+    // Get authorization header
+    const authorization = req.headers.authorization;
+    if (!authorization) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authorization header required'
+      });
+    }
+
+    const token = authorization.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    switch (req.method) {
+      case 'GET': {
+        const query = ChatHistoryQuerySchema.parse(req.query);
+        const { messages, total } = await chatService.getMessages(
+          roomId,
+          user.id,
+          query.channel,
+          query.page,
+          query.limit,
+          query.sessionId
+        );
+
+        const response: PaginatedResponse<ChatMessage> = {
+          success: true,
+          data: messages,
+          pagination: {
+            page: query.page,
+            limit: query.limit,
+            total,
+            pages: Math.ceil(total / query.limit),
+          },
+        };
+        return res.status(200).json(response);
+      }
+      case 'POST': {
+        const messageData = SendChatMessageRequestSchema.parse({ ...req.body, roomId });
+        const message = await chatService.sendMessage(user.id, messageData);
+
+        return res.status(201).json({
+          success: true,
+          data: message,
+        });
+      }
+      default:
+        res.setHeader('Allow', ['GET', 'POST']);
+        return res.status(405).json({
+          success: false,
+          error: `Method ${req.method} not allowed`
+        });
+    }
+  } catch (error: any) {
+    console.error('Messages API Error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: error.errors,
+      });
+    }
+
+    return res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.message || 'Internal server error',
+    });
+  }
+}
@@ -0,0 +1,98 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { GameSessionService } from '@/api/services/gameSessionService';
+import { CreateGameSessionRequestSchema, UpdateGameSessionRequestSchema } from '@/shared/types';
+import { z } from 'zod';
+
+const gameSessionService = new GameSessionService();
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { roomId } = req.query;
+
+  if (typeof roomId !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid room ID'
+    });
+  }
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  try {
+    // Get authorization header
+    const authorization = req.headers.authorization;
+    if (!authorization) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authorization header required'
+      });
+    }
+
+    const token = authorization.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    switch (req.method) {
+      case 'GET': {
+        const sessions = await gameSessionService.getSessions(roomId, user.id);
+
+        return res.status(200).json({
+          success: true,
+          data: sessions,
+        });
+      }
+      case 'POST': {
+        const sessionData = CreateGameSessionRequestSchema.parse(req.body);
+        const session = await gameSessionService.createSession(roomId, user.id, sessionData);
+
+        return res.status(201).json({
+          success: true,
+          data: session,
+          message: 'Session created successfully',
+        });
+      }
+      case 'PATCH': {
+        // The caller sends session_update afterwards so the socket server picks up the change
+        const sessionId = z.string().uuid().parse(req.query.sessionId);
+        const { action } = UpdateGameSessionRequestSchema.parse(req.body);
+        const session = await gameSessionService.updateSession(roomId, sessionId, user.id, action);
+
+        return res.status(200).json({
+          success: true,
+          data: session,
+          message: 'Session updated successfully',
+        });
+      }
+      default:
+        res.setHeader('Allow', ['GET', 'POST', 'PATCH']);
+        return res.status(405).json({
+          success: false,
+          error: `Method ${req.method} not allowed`
+        });
+    }
+  } catch (error: any) {
+    console.error('Sessions API Error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: error.errors,
+      });
+    }
+
+    return res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.message || 'Internal server error',
+    });
+  }
+}
@@ -0,0 +1,87 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { RoomService } from '@/api/services/roomService';
+import { CreateTeamRequestSchema } from '@/shared/types';
+import { z } from 'zod';
+
+const roomService = new RoomService();
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { roomId } = req.query;
+
+  if (typeof roomId !== 'string') {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid room ID'
+    });
+  }
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  try {
+    // Get authorization header
+    const authorization = req.headers.authorization;
+    if (!authorization) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authorization header required'
+      });
+    }
+
+    const token = authorization.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    switch (req.method) {
+      case 'POST': {
+        const teamData = CreateTeamRequestSchema.parse(req.body);
+        const team = await roomService.createTeam(roomId, user.id, teamData);
+
+        return res.status(201).json({
+          success: true,
+          data: team,
+          message: 'Team created successfully',
+        });
+      }
+      case 'DELETE': {
+        const teamId = z.string().uuid().parse(req.query.teamId);
+        await roomService.deleteTeam(roomId, user.id, teamId);
+
+        return res.status(200).json({
+          success: true,
+          message: 'Team deleted successfully',
+        });
+      }
+      default:
+        res.setHeader('Allow', ['POST', 'DELETE']);
+        return res.status(405).json({
+          success: false,
+          error: `Method ${req.method} not allowed`
+        });
+    }
+  } catch (error: any) {
+    console.error('Teams API Error:', error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: error.errors,
+      });
+    }
+
+    return res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.message || 'Internal server error',
+    });
+  }
+}
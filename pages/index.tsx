@@ -43,6 +43,8 @@ export default function Home() {
     description: '',
     isPrivate: false,
     maxMembers: 20,
+    bleedOutSeconds: 120,
+    respawnSeconds: 60,
   });
   
   // Join room form state
@@ -503,6 +505,31 @@ export default function Home() {
                       onChange={(e) => setCreateForm({ ...createForm, maxMembers: Number(e.target.value) })}
                     />
                   </div>
+
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <Label htmlFor="bleedOutSeconds">Bleed-out (seconds)</Label>
+                      <Input
+                        id="bleedOutSeconds"
+                        type="number"
+                        min="0"
+                        max="1800"
+                        value={createForm.bleedOutSeconds}
+                        onChange={(e) => setCreateForm({ ...createForm, bleedOutSeconds: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="respawnSeconds">Respawn (seconds)</Label>
+                      <Input
+                        id="respawnSeconds"
+                        type="number"
+                        min="0"
+                        max="1800"
+                        value={createForm.respawnSeconds}
+                        onChange={(e) => setCreateForm({ ...createForm, respawnSeconds: Number(e.target.value) })}
+                      />
+                    </div>
+                  </div>
                   
                   <div className="flex items-center space-x-2">
                     <Switch
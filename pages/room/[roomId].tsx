@@ -1,10 +1,25 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useRouter } from 'next/router';
 import dynamic from 'next/dynamic';
 import { Button } from '@/client/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/client/components/ui/card';
-import { ArrowLeft, Users, Settings, Share2, MapPin } from 'lucide-react';
-import { Room, RoomWithMembers, UserPosition, TacticalSymbol, Coordinates } from '@/shared/types';
+import { ArrowLeft, Users, Settings, Share2, MapPin, History, Shield, Undo2, Redo2 } from 'lucide-react';
+import { Room, RoomWithMembers, UserPosition, TacticalSymbol, Coordinates, RoomPresence, PositionSample, SocketEvent, CreateTeamRequest, UpdateMemberRequest, ChatChannel, ChatMessage, MapPing, MapPingType, SendPingRequest, SymbolVertex, GameSession, GameSessionAction, ObjectiveState, PlayerStatus, PlayerStatusState, MedicCall, MedicRequest, MAP_PING_SETTINGS, GEOFENCE_SETTINGS } from '@/shared/types';
+import { useWebSocket, useConnectionStatus } from '@/client/hooks/useWebSocket';
+import { useGPS } from '@/client/hooks/useGPS';
+import { useReplay } from '@/client/hooks/useReplay';
+import { useSymbolHistory } from '@/client/hooks/useSymbolHistory';
+import { captureUpdate } from '@/client/lib/symbolHistory';
+import { generateId, isOpenMedicRequest } from '@/client/lib/utils';
+import ReplayTimeline from '@/client/components/map/ReplayTimeline';
+import TeamPanel from '@/client/components/room/TeamPanel';
+import ChatPanel from '@/client/components/room/ChatPanel';
+import SpotReportPanel from '@/client/components/room/SpotReportPanel';
+import GeofenceAlerts, { GeofenceAlert } from '@/client/components/room/GeofenceAlerts';
+import MatchClock from '@/client/components/room/MatchClock';
+import Scoreboard from '@/client/components/room/Scoreboard';
+import PlayerStatusPanel from '@/client/components/room/PlayerStatusPanel';
+import MedicCalls from '@/client/components/room/MedicCalls';
 
 // Dynamically import MapView to avoid SSR issues
 const MapView = dynamic(() => import('@/client/components/map/MapView'), {
@@ -19,6 +34,9 @@ const MapView = dynamic(() => import('@/client/components/map/MapView'), {
   ),
 });
 
+// How far back a breadcrumb trail reaches when it is first shown
+const TRACK_WINDOW_MS = 60 * 60 * 1000;
+
 export default function RoomPage() {
   const router = useRouter();
   const { roomId } = router.query;
@@ -29,6 +47,83 @@ export default function RoomPage() {
   const [userPosition, setUserPosition] = useState<Coordinates | null>(null);
   const [positions, setPositions] = useState<UserPosition[]>([]);
   const [symbols, setSymbols] = useState<TacticalSymbol[]>([]);
+  const [presence, setPresence] = useState<Record<string, RoomPresence>>({});
+  const [tracks, setTracks] = useState<Record<string, PositionSample[]>>({});
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [replayEvents, setReplayEvents] = useState<SocketEvent[]>([]);
+  const [replayLoading, setReplayLoading] = useState(false);
+  const [showTeams, setShowTeams] = useState(false);
+  const [chatOpen, setChatOpen] = useState(false);
+  const [chatChannel, setChatChannel] = useState<ChatChannel>('all');
+  const [chatMessages, setChatMessages] = useState<Record<ChatChannel, ChatMessage[]>>({ all: [], team: [] });
+  const [chatPages, setChatPages] = useState<Record<ChatChannel, { page: number; pages: number } | null>>({ all: null, team: null });
+  const [chatLoading, setChatLoading] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [spotReportsOpen, setSpotReportsOpen] = useState(false);
+  const [mapFocus, setMapFocus] = useState<SymbolVertex | undefined>(undefined);
+  const chatOpenRef = useRef(false);
+  const [pings, setPings] = useState<MapPing[]>([]);
+  const [geofenceAlerts, setGeofenceAlerts] = useState<GeofenceAlert[]>([]);
+  const [gameSession, setGameSession] = useState<GameSession | undefined>(undefined);
+  const [clockOffsetMs, setClockOffsetMs] = useState(0);
+  const [objectives, setObjectives] = useState<Record<string, ObjectiveState>>({});
+  const [scores, setScores] = useState<Record<string, number>>({});
+  const [playerStatuses, setPlayerStatuses] = useState<Record<string, PlayerStatusState>>({});
+  // Open medic requests of the player's team, and the calls this player got as a medic, by request id
+  const [medicRequests, setMedicRequests] = useState<Record<string, MedicRequest>>({});
+  const [medicCalls, setMedicCalls] = useState<Record<string, MedicCall>>({});
+  // Capture state and scores are cleared when a different session comes in
+  const gameSessionIdRef = useRef<string | undefined>(undefined);
+  gameSessionIdRef.current = gameSession?.id;
+
+  const userId: string = session?.user?.id || '';
+  // Socket handlers are registered once, so they read the current user through a ref
+  const userIdRef = useRef(userId);
+  userIdRef.current = userId;
+  const {
+    connected,
+    joinError,
+    pendingCount,
+    emitPositionUpdate,
+    emitSymbolCreate,
+    emitSymbolUpdate,
+    emitSymbolDelete,
+    emitSymbolRestore,
+    emitMemberUpdate,
+    emitSessionUpdate,
+    emitObjectiveOverride,
+    emitPlayerStatus,
+    emitMedicAccept,
+    emitMedicRevive,
+    emitChatMessage,
+    emitMapPing,
+    setOnRoomState,
+    setOnPositionUpdate,
+    setOnSymbolCreate,
+    setOnSymbolUpdate,
+    setOnSymbolDelete,
+    setOnSymbolConflict,
+    setOnMemberJoin,
+    setOnMemberLeave,
+    setOnMemberUpdate,
+    setOnChatMessage,
+    setOnMapPing,
+    setOnGeofenceAlert,
+    setOnSessionUpdate,
+    setOnObjectiveUpdate,
+    setOnScoreboard,
+    setOnPlayerStatus,
+    setOnMedicCall,
+    setOnMedicRequest,
+  } = useWebSocket({
+    roomId: room?.id || '',
+    userId,
+    accessToken: session?.access_token,
+    autoConnect: !!room && !!userId,
+  });
+  const { isOnline } = useConnectionStatus();
+  const { position: gpsPosition, startWatching, stopWatching } = useGPS();
+  const replay = useReplay(replayEvents);
 
   useEffect(() => {
     // Check for session
@@ -60,16 +155,188 @@ export default function RoomPage() {
     }
   }, [roomId, session]);
 
+  // Start GPS tracking once the room is loaded
   useEffect(() => {
-    if (room) {
-      // Room loaded successfully
-      // Positions and symbols will be managed separately through real-time updates
+    if (!room) return;
+
+    startWatching();
+    return () => stopWatching();
+  }, [room?.id]);
+
+  // Apply real-time events from the socket server
+  useEffect(() => {
+    setOnRoomState((state) => {
+      setSymbols(state.symbols);
+      setPositions(state.members.filter(m => m.position).map(m => m.position!));
+      setPresence(Object.fromEntries(state.members.map(m => [m.userId, m])));
+      setGameSession(state.session);
+      setClockOffsetMs(new Date(state.serverTime).getTime() - Date.now());
+      setObjectives(Object.fromEntries(state.objectives.map(objective => [objective.symbolId, objective])));
+      setScores(state.scores);
+      setPlayerStatuses(Object.fromEntries(state.members.filter(m => m.playerStatus).map(m => [m.userId, m.playerStatus!])));
+      setMedicRequests(Object.fromEntries(state.medicRequests.map(request => [request.id, request])));
+    });
+
+    setOnSessionUpdate(({ session, serverTime }) => {
+      if (session.id !== gameSessionIdRef.current) {
+        setObjectives({});
+        setScores(session.scores || {});
+      }
+      if (session.id !== gameSessionIdRef.current || session.status === 'ended') {
+        setPlayerStatuses({});
+        setMedicRequests({});
+        setMedicCalls({});
+      }
+      setGameSession(session);
+      setClockOffsetMs(new Date(serverTime).getTime() - Date.now());
+    });
+
+    setOnObjectiveUpdate((objective) => {
+      setObjectives(prev => ({ ...prev, [objective.symbolId]: objective }));
+    });
+
+    setOnScoreboard(({ sessionId, scores }) => {
+      if (sessionId === gameSessionIdRef.current) setScores(scores);
+    });
+
+    setOnPlayerStatus(({ userId: playerId, status, changedAt, expiresAt }) => {
+      setPlayerStatuses(prev => ({ ...prev, [playerId]: { status, changedAt, expiresAt } }));
+    });
+
+    setOnMedicCall((call) => {
+      setMedicCalls(prev => ({ ...prev, [call.request.id]: call }));
+      navigator.vibrate?.([100, 50, 100]);
+    });
+
+    setOnMedicRequest((request) => {
+      setMedicRequests(prev => {
+        const { [request.id]: _closed, ...rest } = prev;
+        return isOpenMedicRequest(request) ? { ...rest, [request.id]: request } : rest;
+      });
+      // Another medic took it, or the casualty no longer needs one
+      if (!isOpenMedicRequest(request) || request.acceptedBy && request.acceptedBy !== userIdRef.current) {
+        setMedicCalls(prev => {
+          const { [request.id]: _dropped, ...rest } = prev;
+          return rest;
+        });
+      }
+    });
+
+    setOnPositionUpdate((position) => {
+      setPositions(prev => upsertPosition(prev, position));
+      setTracks(prev => appendTrackSample(prev, position));
+    });
+
+    setOnSymbolCreate((symbol) => {
+      // Replaces the optimistic copy added when this client created the symbol
+      setSymbols(prev => prev.some(s => s.id === symbol.id) ? prev.map(s => s.id === symbol.id ? symbol : s) : [...prev, symbol]);
+    });
+
+    setOnSymbolUpdate((symbol) => {
+      // Ignore broadcasts older than a local edit still waiting for its own broadcast or conflict
+      setSymbols(prev => prev.map(s => s.id === symbol.id && s.version <= symbol.version ? symbol : s));
+    });
+
+    setOnSymbolConflict(({ symbol }) => {
+      setSymbols(prev => prev.map(s => s.id === symbol.id ? symbol : s));
+    });
+
+    setOnSymbolDelete((symbolId) => {
+      setSymbols(prev => prev.filter(s => s.id !== symbolId));
+    });
+
+    setOnMemberJoin((member) => {
+      setPresence(prev => ({ ...prev, [member.userId]: member }));
+    });
+
+    setOnMemberLeave((memberId) => {
+      setPresence(prev => {
+        const { [memberId]: _left, ...rest } = prev;
+        return rest;
+      });
+      setPositions(prev => prev.filter(p => p.userId !== memberId));
+    });
+
+    setOnMemberUpdate((member) => {
+      setPresence(prev => prev[member.userId] ? { ...prev, [member.userId]: { ...prev[member.userId], teamId: member.teamId } } : prev);
+      setRoom(prev => prev && {
+        ...prev,
+        members: prev.members.map(m => m.userId === member.userId ? { ...m, role: member.role, teamId: member.teamId, isMedic: member.isMedic ?? m.isMedic } : m),
+      });
+    });
+
+    setOnChatMessage((message) => {
+      setChatMessages(prev => appendChatMessage(prev, message));
+      if (!chatOpenRef.current) {
+        setUnreadCount(count => count + 1);
+      }
+    });
+
+    setOnMapPing((ping) => {
+      setPings(prev => [...prev, ping]);
+      setTimeout(() => {
+        setPings(prev => prev.filter(p => p.id !== ping.id));
+      }, MAP_PING_SETTINGS.displayMs);
+    });
+
+    setOnGeofenceAlert((type, event) => {
+      const alert: GeofenceAlert = { ...event, id: generateId(), type };
+      setGeofenceAlerts(prev => [...prev, alert]);
+      setTimeout(() => {
+        setGeofenceAlerts(prev => prev.filter(a => a.id !== alert.id));
+      }, GEOFENCE_SETTINGS.alertDisplayMs);
+
+      if (type === 'enter' && event.kind === 'out_of_bounds' && event.userId === userIdRef.current) {
+        navigator.vibrate?.([200, 100, 200]);
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    chatOpenRef.current = chatOpen;
+    if (chatOpen) setUnreadCount(0);
+  }, [chatOpen]);
+
+  // Load the newest page the first time a channel is opened
+  useEffect(() => {
+    if (chatOpen && room && !chatPages[chatChannel]) {
+      loadChatPage(chatChannel, 1);
     }
-  }, [room]);
+  }, [chatOpen, chatChannel, room?.id]);
+
+  useEffect(() => {
+    if (gpsPosition) {
+      handlePositionUpdate(gpsPosition);
+    }
+  }, [gpsPosition]);
+
+  const memberTeams = useMemo(() => {
+    const teams: Record<string, string> = {};
+    room?.members?.forEach(member => { if (member.teamId) teams[member.userId] = member.teamId; });
+    Object.values(presence).forEach(member => { if (member.teamId) teams[member.userId] = member.teamId; });
+    return teams;
+  }, [room, presence]);
 
-  const fetchRoom = async () => {
+  const memberNames = useMemo(() => {
+    const names: Record<string, string> = {};
+    room?.members?.forEach(member => { names[member.userId] = member.user.username; });
+    Object.values(presence).forEach(member => { names[member.userId] = member.username; });
+
+    // Prefix callsigns with the team's prefix, e.g. "RED-Hawk"
+    Object.keys(names).forEach(memberId => {
+      const prefix = room?.teams?.find(team => team.id === memberTeams[memberId])?.callsignPrefix;
+      if (prefix) names[memberId] = `${prefix}-${names[memberId]}`;
+    });
+    return names;
+  }, [room, presence, memberTeams]);
+
+  const currentMember = room?.members?.find(member => member.userId === userId);
+  const canManageTeams = currentMember?.role === 'owner' || currentMember?.role === 'admin';
+  const isReferee = canManageTeams || currentMember?.role === 'game_master';
+
+  const fetchRoom = async (showLoading = true) => {
     try {
-      setLoading(true);
+      if (showLoading) setLoading(true);
       console.log('Fetching room:', roomId);
       console.log('Using token:', session.access_token ? 'Token present' : 'No token');
       
@@ -100,28 +367,320 @@ export default function RoomPage() {
 
   const handlePositionUpdate = (position: Coordinates) => {
     setUserPosition(position);
-    // TODO: Send position update to API/WebSocket
-  };
+    if (!room || !userId) return;
 
-  const handleSymbolCreate = (symbol: Omit<TacticalSymbol, 'id' | 'createdAt' | 'updatedAt'>) => {
-    // TODO: Send symbol create to API/WebSocket
-    const newSymbol = {
-      ...symbol,
-      id: Date.now().toString(),
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
+    const userPosition: UserPosition = {
+      id: userId,
+      userId,
+      roomId: room.id,
+      coordinates: position,
+      isVisible: true,
+      lastUpdated: position.timestamp,
     };
-    setSymbols(prev => [...prev, newSymbol]);
+
+    // The server does not echo position updates back to the sender
+    setPositions(prev => upsertPosition(prev, userPosition));
+    setTracks(prev => appendTrackSample(prev, userPosition));
+    emitPositionUpdate({
+      roomId: room.id,
+      coordinates: position,
+      isVisible: true,
+    });
+  };
+
+  const handleToggleTrack = async (trackUserId: string) => {
+    if (tracks[trackUserId]) {
+      setTracks(prev => {
+        const { [trackUserId]: _hidden, ...rest } = prev;
+        return rest;
+      });
+      return;
+    }
+
+    if (!room) return;
+
+    try {
+      const from = new Date(Date.now() - TRACK_WINDOW_MS).toISOString();
+      const response = await fetch(`/api/rooms/${room.id}/tracks?userId=${trackUserId}&from=${encodeURIComponent(from)}`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setTracks(prev => ({ ...prev, [trackUserId]: data.data }));
+      } else {
+        const errorData = await response.json();
+        console.error('Track fetch error:', errorData);
+      }
+    } catch (err) {
+      console.error('Error fetching track:', err);
+    }
+  };
+
+  const handleToggleReplay = async () => {
+    if (isReplaying) {
+      setIsReplaying(false);
+      setReplayEvents([]);
+      return;
+    }
+
+    if (!room) return;
+
+    setIsReplaying(true);
+    setReplayLoading(true);
+    try {
+      // Replay the current or last match; without one, the most recent events of the room
+      const query = gameSession ? `?sessionId=${gameSession.id}` : '';
+      const response = await fetch(`/api/rooms/${room.id}/events${query}`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setReplayEvents(data.data);
+      } else {
+        const errorData = await response.json();
+        console.error('Replay fetch error:', errorData);
+      }
+    } catch (err) {
+      console.error('Error fetching replay events:', err);
+    } finally {
+      setReplayLoading(false);
+    }
+  };
+
+  const sendTeamRequest = async (path: string, method: string, body?: unknown) => {
+    if (!room) return false;
+
+    try {
+      const response = await fetch(`/api/rooms/${room.id}/${path}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        alert(errorData.error || 'Failed to update teams');
+        return false;
+      }
+
+      await fetchRoom(false);
+      return true;
+    } catch (err) {
+      console.error('Error updating teams:', err);
+      return false;
+    }
+  };
+
+  const sendSessionRequest = async (method: string, body: unknown, sessionId?: string): Promise<GameSession | null> => {
+    if (!room) return null;
+
+    try {
+      const query = sessionId ? `?sessionId=${sessionId}` : '';
+      const response = await fetch(`/api/rooms/${room.id}/sessions${query}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify(body),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        alert(data.error || 'Failed to update the match');
+        return null;
+      }
+      return data.data;
+    } catch (err) {
+      console.error('Error updating game session:', err);
+      return null;
+    }
+  };
+
+  // The socket server reloads the session and broadcasts it with the server time
+  const handleCreateSession = async (countdownSeconds: number) => {
+    const created = await sendSessionRequest('POST', { countdownSeconds });
+    if (created) {
+      setGameSession(created);
+      setObjectives({});
+      setScores({});
+      emitSessionUpdate(created.id);
+    }
+  };
+
+  // Without a playerId this is the player's own status
+  const handlePlayerStatusChange = (status: PlayerStatus, playerId?: string) => {
+    if (!room) return;
+    emitPlayerStatus({ roomId: room.id, userId: playerId, status });
+  };
+
+  // Calls still open for this medic, including a request they accepted before reconnecting
+  const myMedicCalls: MedicCall[] = Object.values(medicRequests)
+    .filter(request => medicCalls[request.id] || request.acceptedBy === userId)
+    .map(request => ({ ...medicCalls[request.id], request }));
+  const myMedicRequest = Object.values(medicRequests).find(request => request.casualtyId === userId);
+
+  // As with a new session, the socket server reloads the change and broadcasts it to everyone
+  const handleSessionAction = async (action: GameSessionAction) => {
+    if (!gameSession) return;
+
+    const updated = await sendSessionRequest('PATCH', { action }, gameSession.id);
+    if (updated) {
+      setGameSession(updated);
+      emitSessionUpdate(updated.id);
+    }
+  };
+
+  const handleCreateTeam = async (team: CreateTeamRequest) => {
+    await sendTeamRequest('teams', 'POST', team);
+  };
+
+  const handleDeleteTeam = async (teamId: string) => {
+    const affected = room?.members.filter(member => member.teamId === teamId) || [];
+    if (await sendTeamRequest(`teams?teamId=${teamId}`, 'DELETE')) {
+      affected.forEach(member => emitMemberUpdate(member.userId));
+    }
+  };
+
+  const handleUpdateMember = async (updates: UpdateMemberRequest) => {
+    // Let the socket server pick up the new team so filtering applies immediately
+    if (await sendTeamRequest('members', 'PATCH', updates)) {
+      emitMemberUpdate(updates.userId);
+    }
+  };
+
+  const loadChatPage = async (channel: ChatChannel, page: number) => {
+    if (!room) return;
+
+    setChatLoading(true);
+    try {
+      const response = await fetch(`/api/rooms/${room.id}/messages?channel=${channel}&page=${page}`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        // Pages come newest first; the panel lists oldest first
+        const older: ChatMessage[] = data.data.slice().reverse();
+        setChatMessages(prev => ({
+          ...prev,
+          [channel]: [...older, ...prev[channel].filter(m => !older.some(o => o.id === m.id))],
+        }));
+        setChatPages(prev => ({ ...prev, [channel]: { page, pages: data.pagination.pages } }));
+      } else {
+        const errorData = await response.json();
+        console.error('Chat fetch error:', errorData);
+      }
+    } catch (err) {
+      console.error('Error fetching chat messages:', err);
+    } finally {
+      setChatLoading(false);
+    }
+  };
+
+  const handlePingCreate = (type: MapPingType, coordinates: SendPingRequest['coordinates']) => {
+    if (!room) return;
+    emitMapPing({ roomId: room.id, type, coordinates });
+  };
+
+  const handleSendChatMessage = async (body: string) => {
+    if (!room) return;
+
+    if (connected) {
+      emitChatMessage({ roomId: room.id, channel: chatChannel, body });
+      return;
+    }
+
+    // Fall back to the REST endpoint while the socket is down
+    try {
+      const response = await fetch(`/api/rooms/${room.id}/messages`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ channel: chatChannel, body }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setChatMessages(prev => appendChatMessage(prev, data.data));
+      }
+    } catch (err) {
+      console.error('Error sending chat message:', err);
+    }
+  };
+
+  // Optimistic symbol edits shared by the map handlers and undo/redo; only the handlers record history
+  const updateSymbol = (id: string, updates: Partial<TacticalSymbol>) => {
+    const current = symbols.find(s => s.id === id);
+    if (!current) return;
+
+    // Apply optimistically at the version the server will assign; a symbol_conflict reply
+    // restores the server state if someone else edited it first
+    setSymbols(prev => prev.map(s => s.id === id ? { ...s, ...updates, version: current.version + 1, updatedAt: new Date().toISOString() } : s));
+    emitSymbolUpdate(id, { ...updates, version: current.version });
+  };
+
+  const deleteSymbol = (id: string) => {
+    setSymbols(prev => prev.filter(s => s.id !== id));
+    emitSymbolDelete(id);
+  };
+
+  // The symbol_restored broadcast replaces this copy with the server's
+  const restoreSymbol = (symbol: TacticalSymbol) => {
+    setSymbols(prev => prev.some(s => s.id === symbol.id) ? prev : [...prev, symbol]);
+    emitSymbolRestore(symbol.id);
+  };
+
+  const symbolHistory = useSymbolHistory((command) => {
+    switch (command.type) {
+      case 'create':
+        restoreSymbol(command.symbol);
+        break;
+      case 'update':
+        updateSymbol(command.id, command.after);
+        break;
+      case 'delete':
+        deleteSymbol(command.symbol.id);
+        break;
+    }
+  }, !isReplaying);
+
+  const handleSymbolCreate = (symbol: Omit<TacticalSymbol, 'id' | 'version' | 'createdAt' | 'updatedAt'>) => {
+    // Shown immediately under its client-generated id; the symbol_created broadcast replaces it
+    const id = emitSymbolCreate(symbol);
+    const now = new Date().toISOString();
+    const created: TacticalSymbol = { ...symbol, id, version: 1, createdAt: now, updatedAt: now };
+    setSymbols(prev => [...prev, created]);
+    symbolHistory.record({ type: 'create', symbol: created });
   };
 
   const handleSymbolUpdate = (id: string, updates: Partial<TacticalSymbol>) => {
-    // TODO: Send symbol update to API/WebSocket
-    setSymbols(prev => prev.map(s => s.id === id ? { ...s, ...updates, updatedAt: new Date().toISOString() } : s));
+    const current = symbols.find(s => s.id === id);
+    if (!current) return;
+
+    symbolHistory.record(captureUpdate(current, updates));
+    updateSymbol(id, updates);
   };
 
   const handleSymbolDelete = (id: string) => {
-    // TODO: Send symbol delete to API/WebSocket
-    setSymbols(prev => prev.filter(s => s.id !== id));
+    const current = symbols.find(s => s.id === id);
+    if (current) {
+      symbolHistory.record({ type: 'delete', symbol: current });
+    }
+    deleteSymbol(id);
   };
 
   const handleLeaveRoom = () => {
@@ -223,13 +782,63 @@ export default function RoomPage() {
                 <h1 className="text-lg font-semibold text-gray-900 truncate">
                   {room.name}
                 </h1>
-                <p className="text-sm text-gray-500">
-                  Code: {room.inviteCode} • {room.members?.length || 0}/{room.maxMembers} members
+                <p className="text-sm text-gray-500 flex items-center gap-1">
+                  <span
+                    className={`inline-block w-2 h-2 rounded-full ${connected ? 'bg-green-500' : 'bg-red-500'}`}
+                    title={joinError?.message || (connected ? 'Live' : isOnline ? 'Offline' : 'No network')}
+                  />
+                  Code: {room.inviteCode} • {Object.keys(presence).length} online • {room.members?.length || 0}/{room.maxMembers} members
+                  {pendingCount > 0 && (
+                    <span className="text-amber-600" title="Queued while offline, sent when the connection returns">
+                      • {pendingCount} pending
+                    </span>
+                  )}
                 </p>
               </div>
             </div>
             
             <div className="flex items-center space-x-2">
+              {!isReplaying && (
+                <>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={symbolHistory.undo}
+                    disabled={!symbolHistory.canUndo}
+                    title="Undo (Ctrl+Z)"
+                  >
+                    <Undo2 className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={symbolHistory.redo}
+                    disabled={!symbolHistory.canRedo}
+                    title="Redo (Ctrl+Shift+Z)"
+                  >
+                    <Redo2 className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowTeams(true)}
+              >
+                <Shield className="h-4 w-4 sm:mr-2" />
+                <span className="hidden sm:inline">Teams</span>
+              </Button>
+
+              <Button
+                variant={isReplaying ? "default" : "outline"}
+                size="sm"
+                onClick={handleToggleReplay}
+              >
+                <History className="h-4 w-4 sm:mr-2" />
+                <span className="hidden sm:inline">{isReplaying ? 'Exit Replay' : 'Replay'}</span>
+              </Button>
+
               <Button
                 variant="outline"
                 size="sm"
@@ -268,16 +877,134 @@ export default function RoomPage() {
         <MapView
           roomId={room.id}
           userId={session?.user?.id}
-          positions={positions}
-          symbols={symbols}
-          userPosition={userPosition || undefined}
+          positions={isReplaying ? replay.frame.positions : positions}
+          symbols={isReplaying ? replay.frame.symbols : symbols}
+          memberNames={memberNames}
+          teams={room.teams}
+          memberTeams={memberTeams}
+          teamId={memberTeams[userId]}
+          tracks={isReplaying ? {} : tracks}
+          pings={isReplaying ? [] : pings}
+          userPosition={isReplaying ? undefined : userPosition || undefined}
+          focusPosition={mapFocus}
+          readOnly={isReplaying}
+          isReferee={isReferee}
+          objectives={isReplaying ? {} : objectives}
+          playerStatuses={isReplaying ? {} : playerStatuses}
+          medicRequests={isReplaying ? [] : Object.values(medicRequests)}
           onPositionUpdate={handlePositionUpdate}
           onSymbolCreate={handleSymbolCreate}
           onSymbolUpdate={handleSymbolUpdate}
           onSymbolDelete={handleSymbolDelete}
+          onToggleTrack={handleToggleTrack}
+          onPingCreate={connected ? handlePingCreate : undefined}
+          onPlayerStatusChange={connected ? (playerId, status) => handlePlayerStatusChange(status, playerId) : undefined}
+          onObjectiveOverride={connected ? (symbolId, ownerTeamId) => emitObjectiveOverride({ roomId: room.id, symbolId, ownerTeamId }) : undefined}
         />
+
+        {!isReplaying && (
+          <div className="absolute left-1/2 -translate-x-1/2 top-4 z-30 flex flex-col items-center gap-2">
+            <MatchClock
+              session={gameSession}
+              clockOffsetMs={clockOffsetMs}
+              canManage={canManageTeams && connected}
+              onCreate={handleCreateSession}
+              onAction={handleSessionAction}
+            />
+            <Scoreboard
+              teams={room.teams || []}
+              scores={scores}
+              objectives={Object.values(objectives)}
+            />
+            <MedicCalls
+              userId={userId}
+              calls={myMedicCalls}
+              memberNames={memberNames}
+              positions={positions}
+              userPosition={userPosition || undefined}
+              onAccept={(requestId) => emitMedicAccept({ roomId: room.id, requestId })}
+              onRevive={(requestId) => emitMedicRevive({ roomId: room.id, requestId })}
+            />
+            <GeofenceAlerts
+              userId={userId}
+              alerts={geofenceAlerts}
+              onDismiss={(id) => setGeofenceAlerts(prev => prev.filter(a => a.id !== id))}
+            />
+          </div>
+        )}
+
+        {!isReplaying && connected && currentMember?.role !== 'game_master' && (
+          <div className="absolute left-1/2 -translate-x-1/2 bottom-8 z-20">
+            <PlayerStatusPanel
+              status={playerStatuses[userId]}
+              clockOffsetMs={clockOffsetMs}
+              medicRequest={myMedicRequest}
+              medicName={myMedicRequest?.acceptedBy ? memberNames[myMedicRequest.acceptedBy] : undefined}
+              onChange={(status) => handlePlayerStatusChange(status)}
+            />
+          </div>
+        )}
+
+        {!isReplaying && (
+          <div className="absolute left-4 top-24 z-20">
+            <SpotReportPanel
+              symbols={symbols}
+              memberNames={memberNames}
+              isOpen={spotReportsOpen}
+              onToggle={() => setSpotReportsOpen(!spotReportsOpen)}
+              onSelect={(symbol) => setMapFocus({ ...symbol.coordinates })}
+            />
+          </div>
+        )}
+
+        <div className="absolute right-4 bottom-40 z-20 flex flex-col items-end">
+          <ChatPanel
+            userId={userId}
+            isOpen={chatOpen}
+            channel={chatChannel}
+            messages={chatMessages[chatChannel]}
+            unreadCount={unreadCount}
+            hasTeamChannel={!!memberTeams[userId] || currentMember?.role === 'game_master'}
+            canSend={chatChannel === 'all' || !!memberTeams[userId]}
+            hasMore={!!chatPages[chatChannel] && chatPages[chatChannel]!.page < chatPages[chatChannel]!.pages}
+            loading={chatLoading}
+            onToggle={() => setChatOpen(!chatOpen)}
+            onChannelChange={setChatChannel}
+            onLoadMore={() => loadChatPage(chatChannel, chatPages[chatChannel]!.page + 1)}
+            onSend={handleSendChatMessage}
+          />
+        </div>
+
+        {isReplaying && (
+          <div className="absolute bottom-4 left-4 right-4 z-10">
+            <ReplayTimeline
+              currentTime={replay.currentTime}
+              startTime={replay.startTime}
+              endTime={replay.endTime}
+              isPlaying={replay.isPlaying}
+              speed={replay.speed}
+              loading={replayLoading}
+              onPlay={replay.play}
+              onPause={replay.pause}
+              onSeek={replay.seek}
+              onSpeedChange={replay.setSpeed}
+              onClose={handleToggleReplay}
+            />
+          </div>
+        )}
       </div>
 
+      {showTeams && (
+        <TeamPanel
+          room={room}
+          canManage={canManageTeams}
+          onCreateTeam={handleCreateTeam}
+          onDeleteTeam={handleDeleteTeam}
+          onUpdateMember={handleUpdateMember}
+          onClose={() => setShowTeams(false)}
+        />
+      )}
+
       {/* Mobile bottom navigation could go here */}
       <div className="lg:hidden bg-white border-t p-2">
         <div className="flex justify-between items-center">
@@ -308,3 +1035,35 @@ export default function RoomPage() {
     </div>
   );
 }
+
+function upsertPosition(positions: UserPosition[], position: UserPosition): UserPosition[] {
+  const exists = positions.some(p => p.userId === position.userId);
+  return exists
+    ? positions.map(p => p.userId === position.userId ? position : p)
+    : [...positions, position];
+}
+
+// Extend a visible breadcrumb trail with a live position; hidden trails are left alone
+function appendTrackSample(tracks: Record<string, PositionSample[]>, position: UserPosition): Record<string, PositionSample[]> {
+  const track = tracks[position.userId];
+  if (!track) return tracks;
+
+  return {
+    ...tracks,
+    [position.userId]: [...track, {
+      id: `${position.userId}-${position.coordinates.timestamp}`,
+      userId: position.userId,
+      roomId: position.roomId,
+      coordinates: position.coordinates,
+      recordedAt: position.coordinates.timestamp,
+    }],
+  };
+}
+
+// File a chat message under its channel, ignoring duplicates from the REST fallback
+function appendChatMessage(messages: Record<ChatChannel, ChatMessage[]>, message: ChatMessage): Record<ChatChannel, ChatMessage[]> {
+  const channel: ChatChannel = message.teamId ? 'team' : 'all';
+  if (messages[channel].some(m => m.id === message.id)) return messages;
+
+  return { ...messages, [channel]: [...messages[channel], message] };
+}
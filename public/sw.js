@@ -0,0 +1,52 @@
+// Service worker for offline play: cache-first map tiles, network-first app pages.
+// Tiles are written by the "download area" action into per-area `offline-tiles-*` caches.
+
+const APP_CACHE = 'app-shell-v1';
+const TILE_HOST = 'tile.openstreetmap.org';
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys
+          .filter(key => key.startsWith('app-shell-') && key !== APP_CACHE)
+          .map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  // Map tiles: serve from any saved area first
+  if (url.hostname.endsWith(TILE_HOST)) {
+    event.respondWith(
+      caches.match(request.url).then(cached => cached || fetch(request))
+    );
+    return;
+  }
+
+  // Same-origin pages and assets: keep a copy so the room page opens without coverage.
+  // API calls and the socket connection always go to the network.
+  if (url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  event.respondWith(
+    fetch(request)
+      .then((response) => {
+        if (response.ok) {
+          const copy = response.clone();
+          caches.open(APP_CACHE).then(cache => cache.put(request, copy));
+        }
+        return response;
+      })
+      .catch(() => caches.match(request).then(cached => cached || Response.error()))
+  );
+});
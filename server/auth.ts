@@ -0,0 +1,94 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { JoinRoomErrorCode, RoomRole } from '../shared/types';
+
+export type { RoomRole };
+
+export interface AuthenticatedUser {
+  userId: string;
+  username: string;
+}
+
+export interface RoomMembership {
+  role: RoomRole;
+  teamId?: string;
+  isMedic?: boolean;
+}
+
+/**
+ * Verifies socket handshakes and room membership.
+ * The socket server only depends on this interface so tests can plug in a stub.
+ */
+export interface SocketAuthVerifier {
+  verifyToken(token: string): Promise<AuthenticatedUser | null>;
+  getMembership(roomId: string, userId: string): Promise<RoomMembership | null>;
+}
+
+export class SocketAuthError extends Error {
+  constructor(message: string, public code: JoinRoomErrorCode) {
+    super(message);
+    this.name = 'SocketAuthError';
+  }
+}
+
+/**
+ * Extract the bearer token from the handshake `auth` payload or Authorization header
+ */
+export function extractToken(handshake: {
+  auth?: Record<string, any>;
+  headers?: Record<string, string | string[] | undefined>;
+}): string | null {
+  if (typeof handshake.auth?.token === 'string' && handshake.auth.token) {
+    return handshake.auth.token.replace('Bearer ', '');
+  }
+
+  const authorization = handshake.headers?.authorization;
+  if (typeof authorization === 'string' && authorization.startsWith('Bearer ')) {
+    return authorization.replace('Bearer ', '');
+  }
+
+  return null;
+}
+
+/**
+ * Verifier backed by Supabase Auth and the room_members table
+ */
+export function createSupabaseVerifier(supabase: SupabaseClient): SocketAuthVerifier {
+  return {
+    async verifyToken(token: string) {
+      const { data: { user }, error } = await supabase.auth.getUser(token);
+      if (error || !user) {
+        return null;
+      }
+
+      const { data: profile } = await supabase
+        .from('users')
+        .select('username')
+        .eq('id', user.id)
+        .single();
+
+      return {
+        userId: user.id,
+        username: profile?.username || user.email?.split('@')[0] || 'User',
+      };
+    },
+
+    async getMembership(roomId: string, userId: string) {
+      const { data: membership } = await supabase
+        .from('room_members')
+        .select('role, team_id, is_medic')
+        .eq('room_id', roomId)
+        .eq('user_id', userId)
+        .single();
+
+      if (!membership) {
+        return null;
+      }
+
+      return {
+        role: membership.role,
+        teamId: membership.team_id ?? undefined,
+        isMedic: !!membership.is_medic,
+      };
+    },
+  };
+}
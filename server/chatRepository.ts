@@ -0,0 +1,46 @@
+import { randomUUID } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ChatMessage } from '../shared/types';
+
+export type NewChatMessage = Omit<ChatMessage, 'id' | 'createdAt'>;
+
+/**
+ * Storage for chat messages, shared with ChatService through the chat_messages table
+ */
+export interface ChatRepository {
+  create(message: NewChatMessage): Promise<ChatMessage>;
+}
+
+export class SupabaseChatRepository implements ChatRepository {
+  constructor(private supabase: SupabaseClient) {}
+
+  async create(message: NewChatMessage): Promise<ChatMessage> {
+    const { data, error } = await this.supabase
+      .from('chat_messages')
+      .insert({
+        room_id: message.roomId,
+        user_id: message.userId,
+        team_id: message.teamId ?? null,
+        body: message.body,
+        session_id: message.sessionId ?? null,
+      })
+      .select('id, created_at')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to send message: ${error.message}`);
+    }
+
+    return { ...message, id: data.id, createdAt: data.created_at };
+  }
+}
+
+export class InMemoryChatRepository implements ChatRepository {
+  readonly messages: ChatMessage[] = [];
+
+  async create(message: NewChatMessage): Promise<ChatMessage> {
+    const created = { ...message, id: randomUUID(), createdAt: new Date().toISOString() };
+    this.messages.push(created);
+    return created;
+  }
+}
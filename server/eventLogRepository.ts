@@ -0,0 +1,40 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { SocketEvent } from '../shared/types';
+
+/**
+ * Append-only log of room broadcasts, read back by the replay timeline.
+ * `teamId` scopes the event to one team, like the broadcast it mirrors.
+ */
+export interface EventLogRepository {
+  append(event: SocketEvent, teamId?: string): Promise<void>;
+}
+
+export class SupabaseEventLogRepository implements EventLogRepository {
+  constructor(private supabase: SupabaseClient) {}
+
+  async append(event: SocketEvent, teamId?: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('room_events')
+      .insert({
+        room_id: event.roomId,
+        user_id: event.userId,
+        team_id: teamId ?? null,
+        type: event.type,
+        data: event.data,
+        occurred_at: event.timestamp,
+        session_id: event.sessionId ?? null,
+      });
+
+    if (error) {
+      throw new Error(`Failed to record room event: ${error.message}`);
+    }
+  }
+}
+
+export class InMemoryEventLogRepository implements EventLogRepository {
+  readonly events: (SocketEvent & { teamId?: string })[] = [];
+
+  async append(event: SocketEvent, teamId?: string): Promise<void> {
+    this.events.push({ ...event, teamId });
+  }
+}
@@ -0,0 +1,135 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { GameSession, GameSessionState } from '../shared/types';
+
+/**
+ * Game sessions as seen by the socket server. Sessions are opened by GameSessionService and
+ * moved between states by the socket server, so one clock decides when a match runs.
+ */
+export interface GameSessionRepository {
+  findById(id: string): Promise<GameSession | null>;
+  // The room's most recently created session, whatever its state
+  findLatest(roomId: string): Promise<GameSession | null>;
+  // Null when the session is no longer in `expectedStatus`, e.g. another admin got there first
+  saveState(id: string, expectedStatus: GameSession['status'], state: GameSessionState): Promise<GameSession | null>;
+  saveScores(id: string, scores: Record<string, number>): Promise<void>;
+}
+
+function mapSessionRow(row: any): GameSession {
+  return {
+    id: row.id,
+    roomId: row.room_id,
+    name: row.name ?? undefined,
+    status: row.status,
+    countdownSeconds: row.countdown_seconds,
+    elapsedMs: Number(row.elapsed_ms),
+    clockStartedAt: row.clock_started_at ?? undefined,
+    startedAt: row.started_at ?? undefined,
+    endedAt: row.ended_at ?? undefined,
+    scores: row.scores ?? undefined,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export class SupabaseGameSessionRepository implements GameSessionRepository {
+  constructor(private supabase: SupabaseClient) {}
+
+  async findById(id: string): Promise<GameSession | null> {
+    const { data } = await this.supabase
+      .from('game_sessions')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    return data ? mapSessionRow(data) : null;
+  }
+
+  async findLatest(roomId: string): Promise<GameSession | null> {
+    const { data, error } = await this.supabase
+      .from('game_sessions')
+      .select('*')
+      .eq('room_id', roomId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get game session: ${error.message}`);
+    }
+
+    return data ? mapSessionRow(data) : null;
+  }
+
+  async saveState(id: string, expectedStatus: GameSession['status'], state: GameSessionState): Promise<GameSession | null> {
+    const { data, error } = await this.supabase
+      .from('game_sessions')
+      .update({
+        status: state.status,
+        elapsed_ms: state.elapsedMs,
+        clock_started_at: state.clockStartedAt ?? null,
+        started_at: state.startedAt ?? null,
+        ended_at: state.endedAt ?? null,
+      })
+      .eq('id', id)
+      .eq('status', expectedStatus)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update game session: ${error.message}`);
+    }
+
+    return data ? mapSessionRow(data) : null;
+  }
+
+  async saveScores(id: string, scores: Record<string, number>): Promise<void> {
+    const { error } = await this.supabase
+      .from('game_sessions')
+      .update({ scores })
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to save scores: ${error.message}`);
+    }
+  }
+}
+
+export class InMemoryGameSessionRepository implements GameSessionRepository {
+  readonly sessions = new Map<string, GameSession>();
+
+  // Stands in for GameSessionService writing the row
+  save(session: GameSession) {
+    this.sessions.set(session.id, session);
+  }
+
+  async findById(id: string): Promise<GameSession | null> {
+    return this.sessions.get(id) || null;
+  }
+
+  async findLatest(roomId: string): Promise<GameSession | null> {
+    const inRoom = Array.from(this.sessions.values()).filter(session => session.roomId === roomId);
+    return inRoom.sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0] || null;
+  }
+
+  async saveState(id: string, expectedStatus: GameSession['status'], state: GameSessionState): Promise<GameSession | null> {
+    const session = this.sessions.get(id);
+    if (!session || session.status !== expectedStatus) return null;
+
+    const updated: GameSession = {
+      ...session,
+      ...state,
+      // Left out of the new state when the clock stops, so cleared as in the database
+      clockStartedAt: state.clockStartedAt,
+      endedAt: state.endedAt,
+      updatedAt: new Date().toISOString(),
+    };
+    this.sessions.set(id, updated);
+    return updated;
+  }
+
+  async saveScores(id: string, scores: Record<string, number>): Promise<void> {
+    const session = this.sessions.get(id);
+    if (session) this.sessions.set(id, { ...session, scores });
+  }
+}
@@ -0,0 +1,87 @@
+import { GEOFENCE_SETTINGS } from '../shared/types';
+import type { SymbolVertex, TacticalSymbol } from '../shared/types';
+import { calculateDistance } from './geo';
+
+const METERS_PER_DEGREE = 111320;
+
+/**
+ * Whether the point lies inside the polygon (ray casting; the ring may be open or closed)
+ */
+export function isPointInPolygon(point: SymbolVertex, vertices: SymbolVertex[]): boolean {
+  let inside = false;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[i];
+    const b = vertices[j];
+    const crosses = (a.latitude > point.latitude) !== (b.latitude > point.latitude) &&
+      point.longitude < (b.longitude - a.longitude) * (point.latitude - a.latitude) / (b.latitude - a.latitude) + a.longitude;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+// Distance in meters from the point to the segment a-b, on a flat projection around the point.
+// Geofences are a few hundred meters across, where the projection error is negligible.
+function distanceToSegment(point: SymbolVertex, a: SymbolVertex, b: SymbolVertex): number {
+  const scaleX = METERS_PER_DEGREE * Math.cos(point.latitude * Math.PI / 180);
+  const ax = (a.longitude - point.longitude) * scaleX;
+  const ay = (a.latitude - point.latitude) * METERS_PER_DEGREE;
+  const bx = (b.longitude - point.longitude) * scaleX;
+  const by = (b.latitude - point.latitude) * METERS_PER_DEGREE;
+
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+  const x = ax + t * dx;
+  const y = ay + t * dy;
+  return Math.sqrt(x * x + y * y);
+}
+
+/**
+ * Distance in meters from the point to the geofence boundary, negative inside it.
+ * Null for symbols that cannot act as a geofence (anything but areas and circles).
+ */
+export function getBoundaryDistance(point: SymbolVertex, symbol: TacticalSymbol): number | null {
+  const { geometry } = symbol;
+
+  if (geometry?.kind === 'circle') {
+    const fromCenter = calculateDistance(
+      symbol.coordinates.latitude,
+      symbol.coordinates.longitude,
+      point.latitude,
+      point.longitude
+    );
+    return fromCenter - geometry.radiusMeters;
+  }
+
+  if (geometry?.kind === 'polygon') {
+    const { vertices } = geometry;
+    let nearest = Infinity;
+    for (let i = 0; i < vertices.length; i++) {
+      nearest = Math.min(nearest, distanceToSegment(point, vertices[i], vertices[(i + 1) % vertices.length]));
+    }
+    return isPointInPolygon(point, vertices) ? -nearest : nearest;
+  }
+
+  return null;
+}
+
+export function isGeofence(symbol: TacticalSymbol): boolean {
+  return !!symbol.geofence && (symbol.geometry?.kind === 'polygon' || symbol.geometry?.kind === 'circle');
+}
+
+/**
+ * Next inside/outside state for a member given their distance to the boundary. The state only
+ * changes once the member is `margin` meters past the boundary; a member seen for the first
+ * time counts as outside, so starting inside a zone reports an enter.
+ */
+export function nextGeofenceState(
+  wasInside: boolean | undefined,
+  boundaryDistance: number,
+  margin: number = GEOFENCE_SETTINGS.hysteresisMeters
+): boolean {
+  if (wasInside) {
+    return boundaryDistance < margin;
+  }
+  return boundaryDistance <= -margin;
+}
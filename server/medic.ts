@@ -0,0 +1,42 @@
+import type { UserPosition } from '../shared/types';
+import { calculateBearing, calculateDistance } from './geo';
+
+export interface MedicCandidate {
+  userId: string;
+  position?: UserPosition;
+}
+
+export interface MedicRoute {
+  userId: string;
+  // Unknown while the casualty or the medic has no fix
+  distanceMeters?: number;
+  // From the medic to the casualty
+  bearing?: number;
+}
+
+/**
+ * The `limit` medics closest to the casualty. Medics without a fix come after those with one,
+ * so a casualty is never left without anyone to call.
+ */
+export function findNearestMedics(casualty: UserPosition | undefined, medics: MedicCandidate[], limit: number): MedicRoute[] {
+  const routes: MedicRoute[] = medics.map(({ userId, position }) => {
+    if (!casualty || !position) return { userId };
+
+    const from = position.coordinates;
+    const to = casualty.coordinates;
+    return {
+      userId,
+      distanceMeters: calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude),
+      bearing: calculateBearing(from.latitude, from.longitude, to.latitude, to.longitude),
+    };
+  });
+
+  return routes
+    .sort((a, b) => {
+      if (a.distanceMeters === undefined || b.distanceMeters === undefined) {
+        return (a.distanceMeters === undefined ? 1 : 0) - (b.distanceMeters === undefined ? 1 : 0);
+      }
+      return a.distanceMeters - b.distanceMeters;
+    })
+    .slice(0, limit);
+}
@@ -0,0 +1,94 @@
+import { OBJECTIVE_SETTINGS } from '../shared/types';
+import type { ObjectiveCapture, ObjectiveState, TacticalSymbol, UserPosition } from '../shared/types';
+import { calculateDistance } from './geo';
+
+// Team-private objectives are planning marks, not something to fight over
+export function isCapturable(symbol: TacticalSymbol): boolean {
+  return symbol.type === 'objective' && !symbol.teamId;
+}
+
+export function getCaptureSettings(symbol: TacticalSymbol): ObjectiveCapture {
+  return symbol.capture || OBJECTIVE_SETTINGS.defaultCapture;
+}
+
+export function createObjectiveState(symbolId: string): ObjectiveState {
+  return { symbolId, captureProgressMs: 0, contested: false, teamsPresent: [] };
+}
+
+/**
+ * Teams with at least one member within the objective's radius, by recent fixes only
+ */
+export function getTeamsPresent(
+  symbol: TacticalSymbol,
+  members: { teamId?: string; position?: UserPosition }[],
+  now: number = Date.now()
+): string[] {
+  const { radiusMeters } = getCaptureSettings(symbol);
+  const teams: string[] = [];
+
+  members.forEach(({ teamId, position }) => {
+    if (!teamId || !position || teams.indexOf(teamId) !== -1) return;
+    if (now - new Date(position.lastUpdated).getTime() > OBJECTIVE_SETTINGS.stalePositionMs) return;
+
+    const distance = calculateDistance(
+      symbol.coordinates.latitude,
+      symbol.coordinates.longitude,
+      position.coordinates.latitude,
+      position.coordinates.longitude
+    );
+    if (distance <= radiusMeters) teams.push(teamId);
+  });
+
+  return teams.sort();
+}
+
+/**
+ * Capture state after `elapsedMs` with `teamsPresent` in the radius. A lone team other than
+ * the holder builds up progress and takes the objective after holdSeconds; progress is lost
+ * when it leaves, and freezes while the objective is contested.
+ */
+export function advanceObjective(
+  state: ObjectiveState,
+  teamsPresent: string[],
+  elapsedMs: number,
+  capture: ObjectiveCapture
+): ObjectiveState {
+  if (teamsPresent.length > 1) {
+    return { ...state, contested: true, teamsPresent };
+  }
+
+  const [team] = teamsPresent;
+  if (!team || team === state.ownerTeamId) {
+    return { ...state, capturingTeamId: undefined, captureProgressMs: 0, contested: false, teamsPresent };
+  }
+
+  const progress = (team === state.capturingTeamId ? state.captureProgressMs : 0) + elapsedMs;
+  if (progress >= capture.holdSeconds * 1000) {
+    return { ...state, ownerTeamId: team, capturingTeamId: undefined, captureProgressMs: 0, contested: false, teamsPresent };
+  }
+
+  return { ...state, capturingTeamId: team, captureProgressMs: progress, contested: false, teamsPresent };
+}
+
+// Held objectives score for their team, except while contested
+export function getPointsEarned(state: ObjectiveState, elapsedMs: number, capture: ObjectiveCapture): number {
+  if (!state.ownerTeamId || state.contested) return 0;
+  return capture.pointsPerMinute * elapsedMs / 60000;
+}
+
+export function isSameObjectiveState(a: ObjectiveState, b: ObjectiveState): boolean {
+  return a.ownerTeamId === b.ownerTeamId &&
+    a.capturingTeamId === b.capturingTeamId &&
+    a.captureProgressMs === b.captureProgressMs &&
+    a.contested === b.contested &&
+    a.teamsPresent.join() === b.teamsPresent.join();
+}
+
+// Points are kept fractional between ticks and shown to players as whole numbers
+export function toWholeScores(scores: Record<string, number>): Record<string, number> {
+  const whole: Record<string, number> = {};
+  Object.keys(scores).forEach((teamId) => {
+    whole[teamId] = Math.floor(scores[teamId]);
+  });
+  return whole;
+}
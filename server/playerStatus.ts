@@ -0,0 +1,55 @@
+import { RoomSchema } from '../shared/types';
+import type { PlayerStatus, PlayerStatusState, Room } from '../shared/types';
+
+export type RespawnRules = Pick<Room, 'bleedOutSeconds' | 'respawnSeconds'>;
+
+export const DEFAULT_RESPAWN_RULES: RespawnRules = RoomSchema.pick({ bleedOutSeconds: true, respawnSeconds: true }).parse({});
+
+// What players may switch to themselves: calling a medic or bleeding out early once hit.
+// Referees may set any status, e.g. to revive a player.
+const SELF_TRANSITIONS: Record<PlayerStatus, PlayerStatus[]> = {
+  alive: ['hit'],
+  hit: ['medic_needed', 'respawning'],
+  medic_needed: ['hit', 'respawning'],
+  respawning: [],
+};
+
+const addSeconds = (now: Date, seconds: number) => new Date(now.getTime() + seconds * 1000).toISOString();
+
+/**
+ * The status after a player or referee asks for `status`, or null when the change is not
+ * allowed. Calling a medic does not stop the bleed-out clock.
+ */
+export function changePlayerStatus(
+  current: PlayerStatusState,
+  status: PlayerStatus,
+  rules: RespawnRules,
+  now: Date,
+  byReferee = false
+): PlayerStatusState | null {
+  if (status === current.status) return null;
+  if (!byReferee && SELF_TRANSITIONS[current.status].indexOf(status) === -1) return null;
+
+  const changedAt = now.toISOString();
+  switch (status) {
+    case 'alive':
+      return { status, changedAt };
+    case 'hit':
+    case 'medic_needed': {
+      const bleeding = current.status === 'hit' || current.status === 'medic_needed';
+      return { status, changedAt, expiresAt: bleeding ? current.expiresAt : addSeconds(now, rules.bleedOutSeconds) };
+    }
+    case 'respawning':
+      return { status, changedAt, expiresAt: addSeconds(now, rules.respawnSeconds) };
+  }
+}
+
+// Hit players move on to respawning once they bleed out, and respawning players come back alive
+export function expirePlayerStatus(state: PlayerStatusState, rules: RespawnRules, now: Date): PlayerStatusState | null {
+  if (!state.expiresAt || new Date(state.expiresAt).getTime() > now.getTime()) return null;
+
+  if (state.status === 'respawning') {
+    return { status: 'alive', changedAt: now.toISOString() };
+  }
+  return { status: 'respawning', changedAt: now.toISOString(), expiresAt: addSeconds(now, rules.respawnSeconds) };
+}
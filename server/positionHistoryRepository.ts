@@ -0,0 +1,73 @@
+import { randomUUID } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { POSITION_HISTORY_DECIMATION } from '../shared/types';
+import type { Coordinates, PositionSample } from '../shared/types';
+import { calculateDistance } from './geo';
+
+export type NewPositionSample = Omit<PositionSample, 'id'>;
+
+/**
+ * Append-only storage for player tracks
+ */
+export interface PositionHistoryRepository {
+  append(sample: NewPositionSample): Promise<PositionSample>;
+}
+
+/**
+ * Decide whether a new fix adds information to the track, mirroring
+ * PositionService.appendPositionSample so both write paths decimate alike
+ */
+export function shouldRecordSample(previous: NewPositionSample | undefined, next: Coordinates): boolean {
+  if (!previous) return true;
+
+  const elapsed = new Date(next.timestamp).getTime() - new Date(previous.recordedAt).getTime();
+  const distance = calculateDistance(
+    previous.coordinates.latitude,
+    previous.coordinates.longitude,
+    next.latitude,
+    next.longitude
+  );
+
+  const moved = elapsed >= POSITION_HISTORY_DECIMATION.minIntervalMs &&
+                distance >= POSITION_HISTORY_DECIMATION.minDistanceMeters;
+  const stale = elapsed >= POSITION_HISTORY_DECIMATION.maxIntervalMs;
+
+  return moved || stale;
+}
+
+export class SupabasePositionHistoryRepository implements PositionHistoryRepository {
+  constructor(private supabase: SupabaseClient) {}
+
+  async append(sample: NewPositionSample): Promise<PositionSample> {
+    const { data, error } = await this.supabase
+      .from('position_history')
+      .insert({
+        user_id: sample.userId,
+        room_id: sample.roomId,
+        latitude: sample.coordinates.latitude,
+        longitude: sample.coordinates.longitude,
+        accuracy: sample.coordinates.accuracy,
+        heading: sample.coordinates.heading,
+        recorded_at: sample.recordedAt,
+        session_id: sample.sessionId ?? null,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to record position sample: ${error.message}`);
+    }
+
+    return { ...sample, id: data.id };
+  }
+}
+
+export class InMemoryPositionHistoryRepository implements PositionHistoryRepository {
+  readonly samples: PositionSample[] = [];
+
+  async append(sample: NewPositionSample): Promise<PositionSample> {
+    const stored = { ...sample, id: randomUUID() };
+    this.samples.push(stored);
+    return stored;
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Remembers recently applied client event ids so events replayed from a client's offline outbox are applied once
+ */
+export class ProcessedEventCache {
+  private seen = new Map<string, number>();
+
+  constructor(private ttlMs: number) {}
+
+  has(key: string, now: number = Date.now()): boolean {
+    const processedAt = this.seen.get(key);
+    return processedAt !== undefined && now - processedAt < this.ttlMs;
+  }
+
+  add(key: string, now: number = Date.now()) {
+    this.seen.set(key, now);
+
+    // Maps iterate in insertion order, so expired ids are at the front
+    let oldest = this.seen.entries().next();
+    while (!oldest.done && now - oldest.value[1] >= this.ttlMs) {
+      this.seen.delete(oldest.value[0]);
+      oldest = this.seen.entries().next();
+    }
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Sliding-window limiter keyed by user, for socket events that bypass the API rate limits
+ */
+export class RateLimiter {
+  private hits = new Map<string, number[]>();
+
+  constructor(private maxPerWindow: number, private windowMs: number) {}
+
+  /**
+   * Record a hit for `key`, returning false when it exceeds the limit
+   */
+  tryAcquire(key: string, now: number = Date.now()): boolean {
+    const recent = (this.hits.get(key) || []).filter(time => now - time < this.windowMs);
+    if (recent.length >= this.maxPerWindow) {
+      this.hits.set(key, recent);
+      return false;
+    }
+
+    recent.push(now);
+    this.hits.set(key, recent);
+    return true;
+  }
+}
@@ -0,0 +1,60 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DEFAULT_RESPAWN_RULES, RespawnRules } from './playerStatus';
+
+/**
+ * Room settings the socket server needs, read from the rooms table that RoomService manages
+ */
+export interface RoomRepository {
+  // Read on every hit, so a change made through the API applies to the next one
+  getRespawnRules(roomId: string): Promise<RespawnRules>;
+  hasTeam(roomId: string, teamId: string): Promise<boolean>;
+}
+
+export class SupabaseRoomRepository implements RoomRepository {
+  constructor(private supabase: SupabaseClient) {}
+
+  async getRespawnRules(roomId: string): Promise<RespawnRules> {
+    const { data, error } = await this.supabase
+      .from('rooms')
+      .select('bleed_out_seconds, respawn_seconds')
+      .eq('id', roomId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get room settings: ${error.message}`);
+    }
+
+    return data
+      ? { bleedOutSeconds: data.bleed_out_seconds, respawnSeconds: data.respawn_seconds }
+      : DEFAULT_RESPAWN_RULES;
+  }
+
+  async hasTeam(roomId: string, teamId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('teams')
+      .select('id')
+      .eq('id', teamId)
+      .eq('room_id', roomId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get team: ${error.message}`);
+    }
+
+    return !!data;
+  }
+}
+
+export class InMemoryRoomRepository implements RoomRepository {
+  readonly respawnRules = new Map<string, RespawnRules>();
+  // Team ids by room id
+  readonly teamIds = new Map<string, string[]>();
+
+  async getRespawnRules(roomId: string): Promise<RespawnRules> {
+    return this.respawnRules.get(roomId) || DEFAULT_RESPAWN_RULES;
+  }
+
+  async hasTeam(roomId: string, teamId: string): Promise<boolean> {
+    return (this.teamIds.get(roomId) || []).includes(teamId);
+  }
+}
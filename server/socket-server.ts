@@ -1,354 +1,1538 @@
 import { createServer } from 'http';
 import { Server } from 'socket.io';
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import {
+  UpdatePositionRequestSchema,
+  CreateSymbolRequestSchema,
+  UpdateSymbolRequestSchema,
+  DeleteSymbolRequestSchema,
+  RestoreSymbolRequestSchema,
+  SendChatMessageRequestSchema,
+  SendPingRequestSchema,
+  MAP_PING_SETTINGS,
+  SPOT_REPORT_SETTINGS,
+  GAME_SESSION_SETTINGS,
+  GameSession,
+  GameSessionUpdate,
+  RefreshGameSessionRequestSchema,
+  GameSessionActionRequestSchema,
+  applyGameSessionAction,
+  OBJECTIVE_SETTINGS,
+  ObjectiveOverrideRequestSchema,
+  ObjectiveState,
+  Scoreboard,
+  getMatchClock,
+  PLAYER_STATUS_SETTINGS,
+  PlayerStatusState,
+  PlayerStatusUpdate,
+  UpdatePlayerStatusRequestSchema,
+  MEDIC_SETTINGS,
+  MedicCall,
+  MedicRequest,
+  MedicRequestStatus,
+  MedicResponseRequestSchema,
+  MapPing,
+  JoinRoomError,
+  MemberUpdatedEvent,
+  RefreshMemberRequestSchema,
+  RoomState,
+  SocketEventAck,
+  SocketEventType,
+  SocketValidationError,
+  SymbolConflict,
+  GeofenceEvent,
+  TacticalSymbol,
+  UserPosition,
+  canSeeTeamData,
+  getDefaultAffiliation,
+  clampSymbolExpiry,
+} from '../shared/types';
+import { SocketAuthVerifier, SocketAuthError, RoomRole, createSupabaseVerifier, extractToken } from './auth';
+import { SymbolRepository, SupabaseSymbolRepository } from './symbolRepository';
+import { NewPositionSample, PositionHistoryRepository, SupabasePositionHistoryRepository, shouldRecordSample } from './positionHistoryRepository';
+import { EventLogRepository, SupabaseEventLogRepository } from './eventLogRepository';
+import { ChatRepository, SupabaseChatRepository } from './chatRepository';
+import { GameSessionRepository, SupabaseGameSessionRepository } from './gameSessionRepository';
+import { RoomRepository, SupabaseRoomRepository } from './roomRepository';
+import { RateLimiter } from './rateLimiter';
+import { ProcessedEventCache } from './processedEvents';
+import { getBoundaryDistance, isGeofence, nextGeofenceState } from './geofence';
+import {
+  advanceObjective,
+  createObjectiveState,
+  getCaptureSettings,
+  getPointsEarned,
+  getTeamsPresent,
+  isCapturable,
+  isSameObjectiveState,
+  toWholeScores,
+} from './objectives';
+import { DEFAULT_RESPAWN_RULES, RespawnRules, changePlayerStatus, expirePlayerStatus } from './playerStatus';
+import { findNearestMedics } from './medic';
+import { createSupabaseAdmin } from './supabase';
 
-// Import types (will be copied during build)
-interface UserPosition {
-  roomId: string;
+// Store active rooms and users
+interface MemberData {
   userId: string;
-  coordinates: {
-    latitude: number;
-    longitude: number;
-    timestamp: string;
-    accuracy?: number;
-    heading?: number;
-  };
-  isVisible: boolean;
-  lastUpdated: string;
+  socketId: string;
+  username: string;
+  role: RoomRole;
+  teamId?: string;
+  isMedic?: boolean;
+  isOnline: boolean;
+  lastSeen: Date;
+  position?: UserPosition;
+  lastSample?: NewPositionSample;
+  // Whether the member was last inside each geofence, by symbol id
+  insideGeofences?: Record<string, boolean>;
 }
 
-interface TacticalSymbol {
+interface RoomData {
   id: string;
-  roomId: string;
-  createdBy: string;
-  type: string;
-  coordinates: {
-    latitude: number;
-    longitude: number;
-  };
-  label?: string;
-  description?: string;
-  color: string;
-  size: 'small' | 'medium' | 'large';
-  rotation: number;
-  isVisible: boolean;
-  createdAt: string;
-  updatedAt: string;
+  members: Map<string, MemberData>;
+  // Loaded on the first position update and dropped whenever a symbol in the room changes
+  geofences?: TacticalSymbol[];
+  // Loaded on the first objective tick and dropped along with the geofences
+  objectiveSymbols?: TacticalSymbol[];
+  // Latest game session, loaded on the first join; null when the room never had one
+  session?: GameSession | null;
+  // Capture state by symbol id and points by team id, both for the current session
+  objectives: Map<string, ObjectiveState>;
+  scores: Record<string, number>;
+  lastObjectiveTick?: number;
+  // Kept when a member leaves so reconnecting does not bring a hit player back to life
+  playerStatuses: Map<string, PlayerStatusState>;
+  // As read on the latest hit
+  respawnRules?: RespawnRules;
+  // Pending and accepted medic requests by id; closed ones are dropped
+  medicRequests: Map<string, MedicRequest>;
 }
 
-const httpServer = createServer();
-const io = new Server(httpServer, {
-  cors: {
-    origin: process.env.CORS_ORIGIN || "http://localhost:3000",
-    methods: ["GET", "POST"],
-    credentials: true
-  },
-  transports: ['websocket', 'polling']
-});
+// Player state of an emptied room, waiting for the session it belongs to to be resumed
+interface KeptPlayerState {
+  sessionId?: string;
+  playerStatuses: Map<string, PlayerStatusState>;
+  medicRequests: Map<string, MedicRequest>;
+}
 
-// Store active rooms and users
-interface RoomData {
-  id: string;
-  members: Map<string, {
-    userId: string;
-    socketId: string;
-    username: string;
-    isOnline: boolean;
-    lastSeen: Date;
-    position?: UserPosition;
-  }>;
-  symbols: Map<string, TacticalSymbol>;
+export interface SocketServerOptions {
+  verifier: SocketAuthVerifier;
+  symbols: SymbolRepository;
+  positionHistory: PositionHistoryRepository;
+  events: EventLogRepository;
+  chat: ChatRepository;
+  sessions: GameSessionRepository;
+  rooms: RoomRepository;
+  corsOrigin?: string;
 }
 
-const activeRooms = new Map<string, RoomData>();
+// Long enough to cover an outbox replayed after a lost connection
+const PROCESSED_EVENT_TTL_MS = 60 * 60 * 1000;
 
-// Utility functions
-function getRoomData(roomId: string): RoomData {
-  if (!activeRooms.has(roomId)) {
-    activeRooms.set(roomId, {
-      id: roomId,
-      members: new Map(),
-      symbols: new Map(),
-    });
+const JoinRoomPayloadSchema = z.object({
+  roomId: z.string().uuid(),
+});
+
+export function createSocketServer({ verifier, symbols, positionHistory, events, chat, sessions, rooms, corsOrigin }: SocketServerOptions) {
+  const httpServer = createServer();
+  const io = new Server(httpServer, {
+    cors: {
+      origin: corsOrigin || process.env.CORS_ORIGIN || "http://localhost:3000",
+      methods: ["GET", "POST"],
+      credentials: true
+    },
+    transports: ['websocket', 'polling']
+  });
+
+  const activeRooms = new Map<string, RoomData>();
+  const keptPlayerStates = new Map<string, KeptPlayerState>();
+  const pingLimiter = new RateLimiter(MAP_PING_SETTINGS.maxPerWindow, MAP_PING_SETTINGS.windowMs);
+  const processedEvents = new ProcessedEventCache(PROCESSED_EVENT_TTL_MS);
+
+  // Utility functions
+  function getRoomData(roomId: string): RoomData {
+    if (!activeRooms.has(roomId)) {
+      activeRooms.set(roomId, {
+        id: roomId,
+        members: new Map(),
+        objectives: new Map(),
+        scores: {},
+        playerStatuses: new Map(),
+        medicRequests: new Map(),
+      });
+    }
+    return activeRooms.get(roomId)!;
   }
-  return activeRooms.get(roomId)!;
-}
 
-function cleanupRoom(roomId: string) {
-  const room = activeRooms.get(roomId);
-  if (room && room.members.size === 0) {
-    activeRooms.delete(roomId);
-    console.log(`Room ${roomId} cleaned up`);
+  function cleanupRoom(roomId: string) {
+    const room = activeRooms.get(roomId);
+    if (room && room.members.size === 0) {
+      // Hits and medic calls last until the session ends, not until everyone disconnects
+      if (room.session?.status !== 'ended' && (room.playerStatuses.size > 0 || room.medicRequests.size > 0)) {
+        keptPlayerStates.set(roomId, {
+          sessionId: room.session?.id,
+          playerStatuses: room.playerStatuses,
+          medicRequests: room.medicRequests,
+        });
+      }
+      activeRooms.delete(roomId);
+      console.log(`Room ${roomId} cleaned up`);
+    }
   }
-}
 
-function broadcastToRoom(roomId: string, event: string, data: any, excludeSocketId?: string) {
-  const room = activeRooms.get(roomId);
-  if (!room) return;
+  function isRoomAdmin(role: RoomRole) {
+    return role === 'owner' || role === 'admin' || role === 'game_master';
+  }
 
-  room.members.forEach((member) => {
-    if (member.socketId !== excludeSocketId) {
-      io.to(member.socketId).emit(event, data);
-    }
-  });
-}
+  // Symbol authors, room owners/admins and game masters may modify a symbol, matching SymbolService
+  function canModifySymbol(symbol: TacticalSymbol, userId: string, role: RoomRole) {
+    return symbol.createdBy === userId || isRoomAdmin(role);
+  }
 
-// Socket connection handling
-io.on('connection', (socket) => {
-  console.log(`Socket connected: ${socket.id}`);
-  
-  let currentUserId: string | null = null;
-  let currentRoomId: string | null = null;
+  // Geofences and objectives are re-read from the repository the next time they are needed
+  function invalidateSymbolCache(roomId: string) {
+    const room = activeRooms.get(roomId);
+    if (room) {
+      room.geofences = undefined;
+      room.objectiveSymbols = undefined;
+    }
+  }
 
-  // Join room
-  socket.on('join_room', ({ roomId, userId, username }) => {
-    try {
-      console.log(`User ${userId} joining room ${roomId}`);
-      
-      // Leave previous room if any
-      if (currentRoomId && currentUserId) {
-        leaveRoom(currentRoomId, currentUserId, socket.id);
+  // Tell the member and the room admins that the member crossed a geofence boundary
+  function notifyGeofenceCrossing(room: RoomData, member: MemberData, type: 'geofence_enter' | 'geofence_exit', event: GeofenceEvent) {
+    room.members.forEach((recipient) => {
+      if (recipient.userId === member.userId || isRoomAdmin(recipient.role)) {
+        io.to(recipient.socketId).emit(type, event);
       }
+    });
+    recordEvent(room.id, member.userId, type, event, member.teamId);
+  }
+
+  // Compare the member's new position against every geofence they can see
+  async function checkGeofences(room: RoomData, member: MemberData, position: UserPosition) {
+    if (!room.geofences) {
+      room.geofences = (await symbols.listByRoom(room.id)).filter(isGeofence);
+    }
 
-      currentUserId = userId;
-      currentRoomId = roomId;
+    const inside = member.insideGeofences || (member.insideGeofences = {});
+    room.geofences.forEach((geofence) => {
+      if (!geofence.geofence || !canSeeTeamData(member, geofence.teamId)) return;
 
-      const room = getRoomData(roomId);
-      
-      // Add user to room
-      room.members.set(userId, {
-        userId,
-        socketId: socket.id,
-        username: username || 'Unknown',
-        isOnline: true,
-        lastSeen: new Date(),
+      const distance = getBoundaryDistance(position.coordinates, geofence);
+      if (distance === null) return;
+
+      const wasInside = inside[geofence.id];
+      const isInside = nextGeofenceState(wasInside, distance);
+      inside[geofence.id] = isInside;
+      if (isInside === !!wasInside) return;
+
+      notifyGeofenceCrossing(room, member, isInside ? 'geofence_enter' : 'geofence_exit', {
+        geofenceId: geofence.id,
+        kind: geofence.geofence,
+        label: geofence.label ?? undefined,
+        userId: member.userId,
+        username: member.username,
+        teamId: member.teamId,
+        coordinates: { latitude: position.coordinates.latitude, longitude: position.coordinates.longitude },
+        timestamp: position.lastUpdated,
       });
+    });
+  }
 
-      // Join socket room
-      socket.join(roomId);
-
-      // Notify others about new member
-      broadcastToRoom(roomId, 'member_joined', {
-        userId,
-        username,
-        isOnline: true,
-        joinedAt: new Date().toISOString(),
-      }, socket.id);
-
-      // Send current room state to the new member
-      const roomState = {
-        members: Array.from(room.members.values()).map(member => ({
-          userId: member.userId,
-          username: member.username,
-          isOnline: member.isOnline,
-          lastSeen: member.lastSeen.toISOString(),
-          position: member.position,
-        })),
-        symbols: Array.from(room.symbols.values()),
-      };
+  // Append the fix to the member's track unless it is too close to the last recorded sample.
+  // Returns whether it was kept, so the event log is decimated the same way.
+  function recordPositionSample(member: { lastSample?: NewPositionSample }, position: UserPosition): boolean {
+    if (!shouldRecordSample(member.lastSample, position.coordinates)) return false;
 
-      socket.emit('room_state', roomState);
-      socket.emit('join_room_success', { roomId, userId });
+    const sample: NewPositionSample = {
+      userId: position.userId,
+      roomId: position.roomId,
+      coordinates: position.coordinates,
+      recordedAt: position.coordinates.timestamp,
+      sessionId: getActiveSessionId(position.roomId),
+    };
+    member.lastSample = sample;
 
-      console.log(`User ${userId} joined room ${roomId}. Room now has ${room.members.size} members.`);
-    } catch (error) {
-      console.error('Error joining room:', error);
-      socket.emit('join_room_error', { message: 'Failed to join room' });
+    positionHistory.append(sample).catch((error) => {
+      console.error('Error recording position sample:', error);
+    });
+    return true;
+  }
+
+  async function loadSession(roomId: string) {
+    const room = getRoomData(roomId);
+    if (room.session === undefined) {
+      room.session = await sessions.findLatest(roomId);
+      room.scores = { ...room.session?.scores };
+
+      const kept = keptPlayerStates.get(roomId);
+      keptPlayerStates.delete(roomId);
+      if (kept && kept.sessionId === room.session?.id && room.session?.status !== 'ended') {
+        room.playerStatuses = kept.playerStatuses;
+        room.medicRequests = kept.medicRequests;
+      }
     }
-  });
+    return room.session;
+  }
 
-  // Position update
-  socket.on('position_update', (positionData: UserPosition) => {
-    try {
-      if (!currentRoomId || !currentUserId) {
-        socket.emit('error', { message: 'Not in a room' });
-        return;
+  // Positions, symbols, chat and events recorded while a session is running or paused belong to it
+  function getActiveSessionId(roomId: string): string | undefined {
+    const session = activeRooms.get(roomId)?.session;
+    return session && (session.status === 'running' || session.status === 'paused') ? session.id : undefined;
+  }
+
+  // Players are alive until they first report a hit
+  function getPlayerStatus(room: RoomData, userId: string): PlayerStatusState {
+    return room.playerStatuses.get(userId) || { status: 'alive', changedAt: new Date(0).toISOString() };
+  }
+
+  // Set a player's status, tell their team and log it. Calling for a medic opens a request;
+  // any other status closes the one the player has open. The team is passed in because the
+  // player may have left the room while a timer runs out.
+  function applyPlayerStatus(room: RoomData, userId: string, teamId: string | undefined, next: PlayerStatusState, changedBy?: string) {
+    room.playerStatuses.set(userId, next);
+
+    const update: PlayerStatusUpdate = { ...next, userId, changedBy };
+    broadcastToRoom(room.id, 'player_status_changed', update, undefined, teamId);
+    recordEvent(room.id, changedBy || userId, 'player_status_changed', update, teamId);
+
+    const request = findMedicRequest(room, userId);
+    if (next.status === 'medic_needed') {
+      if (!request) openMedicRequest(room, userId);
+    } else if (request) {
+      // Revived, gave up waiting, or bled out while the medic was on the way
+      closeMedicRequest(room, request, next.status === 'alive' ? 'resolved' : changedBy ? 'cancelled' : 'expired');
+    }
+  }
+
+  function findMedicRequest(room: RoomData, casualtyId: string): MedicRequest | undefined {
+    return Array.from(room.medicRequests.values()).find(request => request.casualtyId === casualtyId);
+  }
+
+  // Call the casualty's nearest teammates who are medics and still in the game
+  function openMedicRequest(room: RoomData, casualtyId: string) {
+    const casualty = room.members.get(casualtyId);
+    if (!casualty) return;
+
+    const medics = Array.from(room.members.values()).filter(member =>
+      member.isMedic &&
+      member.userId !== casualtyId &&
+      !!casualty.teamId && member.teamId === casualty.teamId &&
+      getPlayerStatus(room, member.userId).status === 'alive'
+    );
+    const routes = findNearestMedics(casualty.position, medics, MEDIC_SETTINGS.maxMedicsNotified);
+
+    const now = new Date();
+    const request: MedicRequest = {
+      id: randomUUID(),
+      roomId: room.id,
+      casualtyId,
+      teamId: casualty.teamId,
+      status: 'pending',
+      medicIds: routes.map(route => route.userId),
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + MEDIC_SETTINGS.requestTimeoutSeconds * 1000).toISOString(),
+    };
+    room.medicRequests.set(request.id, request);
+
+    broadcastToRoom(room.id, 'medic_request_updated', request, undefined, request.teamId);
+    recordEvent(room.id, casualtyId, 'medic_request_updated', request, request.teamId);
+
+    routes.forEach(({ userId, distanceMeters, bearing }) => {
+      const medic = room.members.get(userId);
+      const call: MedicCall = { request, distanceMeters, bearing };
+      if (medic) io.to(medic.socketId).emit('medic_call', call);
+    });
+  }
+
+  function closeMedicRequest(room: RoomData, request: MedicRequest, status: MedicRequestStatus) {
+    room.medicRequests.delete(request.id);
+
+    const closed: MedicRequest = { ...request, status };
+    broadcastToRoom(room.id, 'medic_request_updated', closed, undefined, closed.teamId);
+    recordEvent(room.id, request.casualtyId, 'medic_request_updated', closed, closed.teamId);
+  }
+
+  function sessionUpdate(session: GameSession): GameSessionUpdate {
+    return { session, serverTime: new Date().toISOString() };
+  }
+
+  // Make `session` the room's current one and tell everyone, with the server time to count from
+  function setRoomSession(room: RoomData, session: GameSession, userId: string) {
+    // Capture state and points belong to a single match
+    if (room.session?.id !== session.id) {
+      room.objectives = new Map();
+      room.scores = { ...session.scores };
+      room.lastObjectiveTick = undefined;
+    }
+    // So do hits and medic calls; everyone starts the next match alive
+    if (room.session?.id !== session.id || session.status === 'ended') {
+      room.playerStatuses = new Map();
+      room.medicRequests = new Map();
+    }
+
+    room.session = session;
+    broadcastToRoom(room.id, 'session_updated', sessionUpdate(session));
+    recordEvent(room.id, userId, 'session_updated', session);
+  }
+
+  // Log a broadcast so the room can be replayed later, keeping its team scope
+  function recordEvent(roomId: string, userId: string, type: SocketEventType, data: any, teamId?: string) {
+    const event = { type, roomId, userId, data, timestamp: new Date().toISOString(), sessionId: getActiveSessionId(roomId) };
+    events.append(event, teamId).catch((error) => {
+      console.error('Error recording room event:', error);
+    });
+  }
+
+  // Snapshot of a room limited to what the viewer's team may see
+  function buildRoomState(room: RoomData, viewer: { role: RoomRole; teamId?: string }, roomSymbols: TacticalSymbol[]): RoomState {
+    const visibleSymbols = roomSymbols.filter(symbol => canSeeTeamData(viewer, symbol.teamId));
+    return {
+      members: Array.from(room.members.values()).map(member => ({
+        userId: member.userId,
+        username: member.username,
+        teamId: member.teamId,
+        isOnline: member.isOnline,
+        lastSeen: member.lastSeen.toISOString(),
+        position: canSeeTeamData(viewer, member.teamId) ? member.position : undefined,
+        playerStatus: canSeeTeamData(viewer, member.teamId) ? room.playerStatuses.get(member.userId) : undefined,
+      })),
+      medicRequests: Array.from(room.medicRequests.values()).filter(request => canSeeTeamData(viewer, request.teamId)),
+      symbols: visibleSymbols,
+      session: room.session || undefined,
+      objectives: visibleSymbols.filter(symbol => room.objectives.has(symbol.id)).map(symbol => room.objectives.get(symbol.id)!),
+      scores: toWholeScores(room.scores),
+      serverTime: new Date().toISOString(),
+    };
+  }
+
+  // Events replayed from a client's offline outbox repeat their clientEventId; acknowledge them without applying twice
+  function isReplayedEvent(userId: string, clientEventId: string | undefined, ack?: (response: SocketEventAck) => void) {
+    if (!clientEventId || !processedEvents.has(`${userId}:${clientEventId}`)) return false;
+    if (typeof ack === 'function') ack({ ok: true, duplicate: true });
+    return true;
+  }
+
+  function markProcessed(
+    userId: string,
+    clientEventId: string | undefined,
+    ack?: (response: SocketEventAck) => void,
+    response: SocketEventAck = { ok: true }
+  ) {
+    if (clientEventId) processedEvents.add(`${userId}:${clientEventId}`);
+    if (typeof ack === 'function') ack(response);
+  }
+
+  // Team-scoped events are only delivered to that team and game masters
+  function broadcastToRoom(roomId: string, event: string, data: any, excludeSocketId?: string, teamId?: string) {
+    const room = activeRooms.get(roomId);
+    if (!room) return;
+
+    room.members.forEach((member) => {
+      if (member.socketId !== excludeSocketId && canSeeTeamData(member, teamId)) {
+        io.to(member.socketId).emit(event, data);
       }
+    });
+  }
 
-      const room = getRoomData(currentRoomId);
-      const member = room.members.get(currentUserId);
-      
-      if (member) {
-        member.position = positionData;
-        member.lastSeen = new Date();
+  // Verify the Supabase access token during the handshake
+  io.use(async (socket, next) => {
+    try {
+      const token = extractToken(socket.handshake);
+      if (!token) {
+        throw new SocketAuthError('Authentication token required', 'UNAUTHENTICATED');
+      }
 
-        // Broadcast position update to other room members
-        broadcastToRoom(currentRoomId, 'position_update', positionData, socket.id);
-        
-        console.log(`Position updated for user ${currentUserId} in room ${currentRoomId}`);
+      const user = await verifier.verifyToken(token);
+      if (!user) {
+        throw new SocketAuthError('Invalid or expired token', 'UNAUTHENTICATED');
       }
+
+      socket.data.user = user;
+      next();
     } catch (error) {
-      console.error('Error updating position:', error);
-      socket.emit('error', { message: 'Failed to update position' });
+      const authError = error instanceof SocketAuthError
+        ? error
+        : new SocketAuthError('Authentication failed', 'INTERNAL_ERROR');
+      if (!(error instanceof SocketAuthError)) {
+        console.error('Error verifying socket token:', error);
+      }
+
+      const connectError = new Error(authError.message) as Error & { data?: JoinRoomError };
+      connectError.data = { code: authError.code, message: authError.message };
+      next(connectError);
     }
   });
 
-  // Symbol creation
-  socket.on('symbol_create', (symbolData: Omit<TacticalSymbol, 'id' | 'createdAt' | 'updatedAt'>) => {
-    try {
-      if (!currentRoomId || !currentUserId) {
-        socket.emit('error', { message: 'Not in a room' });
-        return;
+  // Socket connection handling
+  io.on('connection', (socket) => {
+    console.log(`Socket connected: ${socket.id}`);
+  
+    // Identity comes from the verified token, never from the client payload
+    const { userId, username } = socket.data.user as { userId: string; username: string };
+    let currentUserId: string | null = null;
+    let currentRoomId: string | null = null;
+
+    const rejectJoin = (error: JoinRoomError) => {
+      socket.emit('join_room_error', error);
+    };
+
+    // Parse a client payload, replying with a validation_error when it does not match
+    const parsePayload = <T extends z.ZodTypeAny>(
+      event: string,
+      schema: T,
+      payload: unknown,
+      ack?: (response: SocketEventAck) => void
+    ): z.infer<T> | null => {
+      const result = schema.safeParse(payload);
+      if (!result.success) {
+        const validationError: SocketValidationError = {
+          event,
+          error: 'Validation error',
+          details: result.error.errors,
+        };
+        socket.emit('validation_error', validationError);
+        if (typeof ack === 'function') ack({ ok: false, error: validationError.error });
+        return null;
       }
+      return result.data;
+    };
+
+    // Refuse an event and, when it came from the client's outbox, acknowledge the refusal so the
+    // queue moves on. Only server-side failures are worth sending again.
+    const rejectEvent = (message: string, ack?: (response: SocketEventAck) => void, retryable = false) => {
+      socket.emit('error', { message });
+      if (typeof ack === 'function') ack({ ok: false, error: message, retryable: retryable || undefined });
+    };
+
+    // Join room
+    socket.on('join_room', async (payload: unknown) => {
+      try {
+        const parsed = JoinRoomPayloadSchema.safeParse(payload);
+        if (!parsed.success) {
+          rejectJoin({ code: 'INVALID_ROOM', message: 'Invalid room ID' });
+          return;
+        }
+
+        const { roomId } = parsed.data;
+        console.log(`User ${userId} joining room ${roomId}`);
 
-      const symbolId = `symbol_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const symbol: TacticalSymbol = {
-        ...symbolData,
-        id: symbolId,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
+        const membership = await verifier.getMembership(roomId, userId);
+        if (!membership) {
+          rejectJoin({ code: 'NOT_MEMBER', message: 'You are not a member of this room' });
+          return;
+        }
 
-      const room = getRoomData(currentRoomId);
-      room.symbols.set(symbolId, symbol);
+        const roomSymbols = await symbols.listByRoom(roomId);
+        await loadSession(roomId);
 
-      // Broadcast symbol creation to all room members
-      broadcastToRoom(currentRoomId, 'symbol_created', symbol);
+        // Leave previous room if any
+        if (currentRoomId && currentUserId) {
+          leaveRoom(currentRoomId, currentUserId, socket.id);
+        }
+
+        currentUserId = userId;
+        currentRoomId = roomId;
+
+        const room = getRoomData(roomId);
       
-      console.log(`Symbol created by user ${currentUserId} in room ${currentRoomId}`);
-    } catch (error) {
-      console.error('Error creating symbol:', error);
-      socket.emit('error', { message: 'Failed to create symbol' });
-    }
-  });
+        // Add user to room
+        room.members.set(userId, {
+          userId,
+          socketId: socket.id,
+          username: username || 'Unknown',
+          role: membership.role,
+          teamId: membership.teamId,
+          isMedic: membership.isMedic,
+          isOnline: true,
+          lastSeen: new Date(),
+        });
 
-  // Symbol update
-  socket.on('symbol_update', ({ id, ...updates }: { id: string } & Partial<TacticalSymbol>) => {
-    try {
-      if (!currentRoomId || !currentUserId) {
-        socket.emit('error', { message: 'Not in a room' });
-        return;
+        // Join socket room
+        socket.join(roomId);
+
+        // Notify others about new member
+        const joined = {
+          userId,
+          username,
+          teamId: membership.teamId,
+          isOnline: true,
+          joinedAt: new Date().toISOString(),
+        };
+        broadcastToRoom(roomId, 'member_joined', joined, socket.id);
+        recordEvent(roomId, userId, 'member_joined', joined);
+
+        // Send current room state to the new member
+        socket.emit('room_state', buildRoomState(room, membership, roomSymbols));
+        socket.emit('join_room_success', { roomId, userId });
+
+        console.log(`User ${userId} joined room ${roomId}. Room now has ${room.members.size} members.`);
+      } catch (error) {
+        console.error('Error joining room:', error);
+        rejectJoin({ code: 'INTERNAL_ERROR', message: 'Failed to join room' });
+      }
+    });
+
+    // Position update
+    socket.on('position_update', (payload: unknown, ack?: (response: SocketEventAck) => void) => {
+      try {
+        if (!currentRoomId || !currentUserId) {
+          rejectEvent('Not in a room', ack, true);
+          return;
+        }
+
+        const request = parsePayload('position_update', UpdatePositionRequestSchema, payload, ack);
+        if (!request) return;
+
+        if (request.roomId !== currentRoomId) {
+          rejectEvent('Not in this room', ack);
+          return;
+        }
+
+        if (isReplayedEvent(currentUserId, request.clientEventId, ack)) return;
+
+        const room = getRoomData(currentRoomId);
+        const member = room.members.get(currentUserId);
+      
+        if (member) {
+          const positionData: UserPosition = {
+            id: member.position?.id || randomUUID(),
+            userId: currentUserId,
+            roomId: currentRoomId,
+            coordinates: request.coordinates,
+            isVisible: request.isVisible,
+            lastUpdated: new Date().toISOString(),
+          };
+          member.position = positionData;
+          member.lastSeen = new Date();
+          const sampled = recordPositionSample(member, positionData);
+
+          // Broadcast position update to other room members; only track samples go to the replay log
+          broadcastToRoom(currentRoomId, 'position_update', positionData, socket.id, member.teamId);
+          if (sampled) recordEvent(currentRoomId, currentUserId, 'position_update', positionData, member.teamId);
+          markProcessed(currentUserId, request.clientEventId, ack);
+
+          checkGeofences(room, member, positionData).catch((error) => {
+            console.error('Error checking geofences:', error);
+          });
+        
+          console.log(`Position updated for user ${currentUserId} in room ${currentRoomId}`);
+        } else {
+          rejectEvent('Not in a room', ack, true);
+        }
+      } catch (error) {
+        console.error('Error updating position:', error);
+        rejectEvent('Failed to update position', ack, true);
       }
+    });
+
+    // Symbol creation
+    socket.on('symbol_create', async (payload: unknown, ack?: (response: SocketEventAck) => void) => {
+      try {
+        if (!currentRoomId || !currentUserId) {
+          rejectEvent('Not in a room', ack, true);
+          return;
+        }
+
+        const request = parsePayload('symbol_create', CreateSymbolRequestSchema, payload, ack);
+        if (!request) return;
+
+        if (request.roomId !== currentRoomId) {
+          rejectEvent('Not in this room', ack);
+          return;
+        }
+
+        const roomId = currentRoomId;
+        const userId = currentUserId;
+        const { clientEventId, ...fields } = request;
+        if (isReplayedEvent(userId, clientEventId, ack)) return;
+
+        const member = getRoomData(roomId).members.get(userId);
+        if (!member) {
+          rejectEvent('Not in a room', ack, true);
+          return;
+        }
 
-      const room = getRoomData(currentRoomId);
-      const symbol = room.symbols.get(id);
+        // Only game masters may place symbols for a team other than their own
+        if (request.teamId && request.teamId !== member.teamId && member.role !== 'game_master') {
+          rejectEvent('You can only share symbols with your own team', ack);
+          return;
+        }
+
+        if (fields.geofence && !isRoomAdmin(member.role)) {
+          rejectEvent('Only room admins can set geofences', ack);
+          return;
+        }
+
+        if (fields.capture && !isRoomAdmin(member.role)) {
+          rejectEvent('Only room admins can set capture rules', ack);
+          return;
+        }
+
+        // Client-generated ids make a create replayed after a server restart a no-op
+        if (fields.id) {
+          const existing = await symbols.findById(fields.id);
+          if (existing) {
+            if (existing.roomId !== roomId || existing.createdBy !== userId) {
+              rejectEvent('Symbol id already in use', ack);
+              return;
+            }
+            // A symbol deleted since is not brought back by a replayed create
+            if (existing.deletedAt) {
+              socket.emit('symbol_deleted', { id: existing.id });
+            } else {
+              socket.emit('symbol_created', existing);
+            }
+            markProcessed(userId, clientEventId, ack, { ok: true, duplicate: true });
+            return;
+          }
+        }
+
+        const symbol = await symbols.create({
+          ...fields,
+          affiliation: fields.affiliation ?? getDefaultAffiliation(fields.type),
+          expiresAt: clampSymbolExpiry(fields.expiresAt),
+          createdBy: userId,
+          isVisible: true,
+          sessionId: getActiveSessionId(roomId),
+        });
+
+        // Broadcast symbol creation to the members allowed to see it
+        broadcastToRoom(roomId, 'symbol_created', symbol, undefined, symbol.teamId);
+        recordEvent(roomId, userId, 'symbol_created', symbol, symbol.teamId);
+        invalidateSymbolCache(roomId);
+        markProcessed(userId, clientEventId, ack);
       
-      if (!symbol) {
-        socket.emit('error', { message: 'Symbol not found' });
-        return;
+        console.log(`Symbol created by user ${userId} in room ${roomId}`);
+      } catch (error) {
+        console.error('Error creating symbol:', error);
+        rejectEvent('Failed to create symbol', ack, true);
       }
+    });
+
+    // Symbol update
+    socket.on('symbol_update', async (payload: unknown, ack?: (response: SocketEventAck) => void) => {
+      try {
+        if (!currentRoomId || !currentUserId) {
+          rejectEvent('Not in a room', ack, true);
+          return;
+        }
 
-      // Update symbol
-      const updatedSymbol = {
-        ...symbol,
-        ...updates,
-        updatedAt: new Date().toISOString(),
-      };
+        // The schema only admits updatable fields; ownership and timestamps are dropped
+        const request = parsePayload('symbol_update', UpdateSymbolRequestSchema, payload, ack);
+        if (!request) return;
 
-      room.symbols.set(id, updatedSymbol);
+        const { id, clientEventId, version, ...updates } = request;
+        const roomId = currentRoomId;
+        const userId = currentUserId;
+        if (isReplayedEvent(userId, clientEventId, ack)) return;
 
-      // Broadcast symbol update to all room members
-      broadcastToRoom(currentRoomId, 'symbol_updated', updatedSymbol);
+        const member = getRoomData(roomId).members.get(userId);
+        const symbol = await symbols.findById(id);
       
-      console.log(`Symbol ${id} updated by user ${currentUserId} in room ${currentRoomId}`);
-    } catch (error) {
-      console.error('Error updating symbol:', error);
-      socket.emit('error', { message: 'Failed to update symbol' });
-    }
-  });
+        if (!symbol || symbol.archivedAt || symbol.deletedAt || symbol.roomId !== roomId || !member || !canSeeTeamData(member, symbol.teamId)) {
+          rejectEvent('Symbol not found', ack);
+          return;
+        }
 
-  // Symbol deletion
-  socket.on('symbol_delete', ({ id }: { id: string }) => {
-    try {
-      if (!currentRoomId || !currentUserId) {
-        socket.emit('error', { message: 'Not in a room' });
-        return;
+        if (!canModifySymbol(symbol, userId, member.role)) {
+          rejectEvent('You can only edit your own symbols', ack);
+          return;
+        }
+
+        if ((symbol.geofence || updates.geofence !== undefined) && !isRoomAdmin(member.role)) {
+          rejectEvent('Only room admins can edit geofences', ack);
+          return;
+        }
+
+        if (updates.capture !== undefined && !isRoomAdmin(member.role)) {
+          rejectEvent('Only room admins can set capture rules', ack);
+          return;
+        }
+
+        // Edits made against an older version are rejected with the current state instead of
+        // overwriting a newer change; the conditional update also catches a concurrent write
+        const updatedSymbol = version === undefined || version === symbol.version
+          ? await symbols.update(id, updates, symbol.version)
+          : null;
+
+        if (!updatedSymbol) {
+          const current = await symbols.findById(id);
+          if (current && !current.deletedAt) {
+            const conflict: SymbolConflict = { symbol: current, attemptedVersion: version };
+            socket.emit('symbol_conflict', conflict);
+          } else {
+            socket.emit('symbol_deleted', { id });
+          }
+          markProcessed(userId, clientEventId, ack, { ok: true, conflict: true });
+          return;
+        }
+
+        // Broadcast symbol update to the members allowed to see it
+        broadcastToRoom(roomId, 'symbol_updated', updatedSymbol, undefined, updatedSymbol.teamId);
+        recordEvent(roomId, userId, 'symbol_updated', updatedSymbol, updatedSymbol.teamId);
+        invalidateSymbolCache(roomId);
+        markProcessed(userId, clientEventId, ack);
+      
+        console.log(`Symbol ${id} updated by user ${userId} in room ${roomId}`);
+      } catch (error) {
+        console.error('Error updating symbol:', error);
+        rejectEvent('Failed to update symbol', ack, true);
       }
+    });
+
+    // Symbol deletion
+    socket.on('symbol_delete', async (payload: unknown, ack?: (response: SocketEventAck) => void) => {
+      try {
+        if (!currentRoomId || !currentUserId) {
+          rejectEvent('Not in a room', ack, true);
+          return;
+        }
+
+        const request = parsePayload('symbol_delete', DeleteSymbolRequestSchema, payload, ack);
+        if (!request) return;
 
-      const room = getRoomData(currentRoomId);
-      const symbol = room.symbols.get(id);
+        const { id, clientEventId } = request;
+        const roomId = currentRoomId;
+        const userId = currentUserId;
+        if (isReplayedEvent(userId, clientEventId, ack)) return;
+
+        const member = getRoomData(roomId).members.get(userId);
+        const symbol = await symbols.findById(id);
+      
+        if (!symbol || symbol.deletedAt || symbol.roomId !== roomId || !member || !canSeeTeamData(member, symbol.teamId)) {
+          rejectEvent('Symbol not found', ack);
+          return;
+        }
+
+        if (!canModifySymbol(symbol, userId, member.role)) {
+          rejectEvent('You can only delete your own symbols', ack);
+          return;
+        }
+
+        if (symbol.geofence && !isRoomAdmin(member.role)) {
+          rejectEvent('Only room admins can delete geofences', ack);
+          return;
+        }
+
+        await symbols.delete(id);
+
+        // Broadcast symbol deletion to the members allowed to see it
+        broadcastToRoom(roomId, 'symbol_deleted', { id }, undefined, symbol.teamId);
+        recordEvent(roomId, userId, 'symbol_deleted', { id }, symbol.teamId);
+        invalidateSymbolCache(roomId);
+        markProcessed(userId, clientEventId, ack);
       
-      if (!symbol) {
-        socket.emit('error', { message: 'Symbol not found' });
-        return;
+        console.log(`Symbol ${id} deleted by user ${userId} in room ${roomId}`);
+      } catch (error) {
+        console.error('Error deleting symbol:', error);
+        rejectEvent('Failed to delete symbol', ack, true);
+      }
+    });
+
+    // Undo of a delete: bring a soft-deleted symbol back under its original id
+    socket.on('symbol_restore', async (payload: unknown, ack?: (response: SocketEventAck) => void) => {
+      try {
+        if (!currentRoomId || !currentUserId) {
+          rejectEvent('Not in a room', ack, true);
+          return;
+        }
+
+        const request = parsePayload('symbol_restore', RestoreSymbolRequestSchema, payload, ack);
+        if (!request) return;
+
+        const { id, clientEventId } = request;
+        const roomId = currentRoomId;
+        const userId = currentUserId;
+        if (isReplayedEvent(userId, clientEventId, ack)) return;
+
+        const member = getRoomData(roomId).members.get(userId);
+        const symbol = await symbols.findById(id);
+
+        if (!symbol || !symbol.deletedAt || symbol.roomId !== roomId || !member || !canSeeTeamData(member, symbol.teamId)) {
+          rejectEvent('Symbol not found', ack);
+          return;
+        }
+
+        if (!canModifySymbol(symbol, userId, member.role)) {
+          rejectEvent('You can only restore your own symbols', ack);
+          return;
+        }
+
+        const restored = await symbols.restore(id);
+        if (!restored) {
+          rejectEvent('Symbol not found', ack);
+          return;
+        }
+
+        // Broadcast the restored symbol to the members allowed to see it
+        broadcastToRoom(roomId, 'symbol_restored', restored, undefined, restored.teamId);
+        recordEvent(roomId, userId, 'symbol_restored', restored, restored.teamId);
+        invalidateSymbolCache(roomId);
+        markProcessed(userId, clientEventId, ack);
+
+        console.log(`Symbol ${id} restored by user ${userId} in room ${roomId}`);
+      } catch (error) {
+        console.error('Error restoring symbol:', error);
+        rejectEvent('Failed to restore symbol', ack, true);
+      }
+    });
+
+    // Chat message to the whole room or the sender's team
+    socket.on('chat_message', async (payload: unknown) => {
+      try {
+        if (!currentRoomId || !currentUserId) {
+          socket.emit('error', { message: 'Not in a room' });
+          return;
+        }
+
+        const request = parsePayload('chat_message', SendChatMessageRequestSchema, payload);
+        if (!request) return;
+
+        if (request.roomId !== currentRoomId) {
+          socket.emit('error', { message: 'Not in this room' });
+          return;
+        }
+
+        const roomId = currentRoomId;
+        const member = getRoomData(roomId).members.get(currentUserId);
+        if (!member) {
+          socket.emit('error', { message: 'Not in a room' });
+          return;
+        }
+
+        if (request.channel === 'team' && !member.teamId) {
+          socket.emit('error', { message: 'You are not on a team' });
+          return;
+        }
+
+        const message = await chat.create({
+          roomId,
+          userId: currentUserId,
+          username: member.username,
+          teamId: request.channel === 'team' ? member.teamId : undefined,
+          body: request.body,
+          sessionId: getActiveSessionId(roomId),
+        });
+
+        // Team messages only reach the team and game masters, the sender included
+        broadcastToRoom(roomId, 'chat_message', message, undefined, message.teamId);
+      } catch (error) {
+        console.error('Error sending chat message:', error);
+        socket.emit('error', { message: 'Failed to send message' });
+      }
+    });
+
+    // Ephemeral map ping, relayed to the sender's team without being stored
+    socket.on('map_ping', (payload: unknown) => {
+      try {
+        if (!currentRoomId || !currentUserId) {
+          socket.emit('error', { message: 'Not in a room' });
+          return;
+        }
+
+        const request = parsePayload('map_ping', SendPingRequestSchema, payload);
+        if (!request) return;
+
+        if (request.roomId !== currentRoomId) {
+          socket.emit('error', { message: 'Not in this room' });
+          return;
+        }
+
+        const member = getRoomData(currentRoomId).members.get(currentUserId);
+        if (!member) return;
+
+        if (!pingLimiter.tryAcquire(currentUserId)) {
+          socket.emit('error', { message: 'Too many pings, wait a few seconds' });
+          return;
+        }
+
+        const ping: MapPing = {
+          id: randomUUID(),
+          roomId: currentRoomId,
+          userId: currentUserId,
+          username: member.username,
+          teamId: member.teamId,
+          type: request.type,
+          coordinates: request.coordinates,
+          createdAt: new Date().toISOString(),
+        };
+
+        broadcastToRoom(currentRoomId, 'map_ping', ping, undefined, member.teamId);
+      } catch (error) {
+        console.error('Error sending ping:', error);
+        socket.emit('error', { message: 'Failed to send ping' });
+      }
+    });
+
+    // Reload a member's team and role after an owner/admin changed them over REST
+    socket.on('member_update', async (payload: unknown) => {
+      try {
+        if (!currentRoomId || !currentUserId) {
+          socket.emit('error', { message: 'Not in a room' });
+          return;
+        }
+
+        const request = parsePayload('member_update', RefreshMemberRequestSchema, payload);
+        if (!request) return;
+
+        const roomId = currentRoomId;
+        const room = getRoomData(roomId);
+        const sender = room.members.get(currentUserId);
+        if (!sender || (sender.role !== 'owner' && sender.role !== 'admin')) {
+          socket.emit('error', { message: 'Only room owners and admins can manage teams' });
+          return;
+        }
+
+        const membership = await verifier.getMembership(roomId, request.userId);
+        const target = room.members.get(request.userId);
+        if (!membership || !target) return;
+
+        target.role = membership.role;
+        target.teamId = membership.teamId;
+        target.isMedic = membership.isMedic;
+
+        const updated: MemberUpdatedEvent = {
+          userId: target.userId,
+          role: target.role,
+          teamId: target.teamId,
+          isMedic: target.isMedic,
+        };
+        broadcastToRoom(roomId, 'member_updated', updated);
+
+        // The member's view changes with their team, so resend their snapshot
+        io.to(target.socketId).emit('room_state', buildRoomState(room, target, await symbols.listByRoom(roomId)));
+
+        console.log(`Member ${request.userId} updated by user ${currentUserId} in room ${roomId}`);
+      } catch (error) {
+        console.error('Error updating member:', error);
+        socket.emit('error', { message: 'Failed to update member' });
+      }
+    });
+
+    // Sent by an owner or admin after changing the session through the API
+    socket.on('session_update', async (payload: unknown) => {
+      try {
+        if (!currentRoomId || !currentUserId) {
+          socket.emit('error', { message: 'Not in a room' });
+          return;
+        }
+
+        const request = parsePayload('session_update', RefreshGameSessionRequestSchema, payload);
+        if (!request) return;
+
+        const roomId = currentRoomId;
+        const userId = currentUserId;
+        const room = getRoomData(roomId);
+        const sender = room.members.get(userId);
+        if (!sender || (sender.role !== 'owner' && sender.role !== 'admin')) {
+          socket.emit('error', { message: 'Only room owners and admins can manage game sessions' });
+          return;
+        }
+
+        const session = await sessions.findById(request.sessionId);
+        if (!session || session.roomId !== roomId) {
+          socket.emit('error', { message: 'Session not found' });
+          return;
+        }
+
+        setRoomSession(room, session, userId);
+
+        console.log(`Session ${session.id} is ${session.status} in room ${roomId}`);
+      } catch (error) {
+        console.error('Error updating session:', error);
+        socket.emit('error', { message: 'Failed to update session' });
+      }
+    });
+
+    // Start, pause, resume or end the match. Transitions are timed here so the clock handed
+    // out and the state objectives are scored against come from the same host.
+    socket.on('session_action', async (payload: unknown) => {
+      try {
+        if (!currentRoomId || !currentUserId) {
+          socket.emit('error', { message: 'Not in a room' });
+          return;
+        }
+
+        const request = parsePayload('session_action', GameSessionActionRequestSchema, payload);
+        if (!request) return;
+
+        if (request.roomId !== currentRoomId) {
+          socket.emit('error', { message: 'Not in this room' });
+          return;
+        }
+
+        const roomId = currentRoomId;
+        const userId = currentUserId;
+        const room = getRoomData(roomId);
+        const sender = room.members.get(userId);
+        if (!sender || (sender.role !== 'owner' && sender.role !== 'admin')) {
+          socket.emit('error', { message: 'Only room owners and admins can manage game sessions' });
+          return;
+        }
+
+        const session = await sessions.findById(request.sessionId);
+        if (!session || session.roomId !== roomId) {
+          socket.emit('error', { message: 'Session not found' });
+          return;
+        }
+
+        const next = applyGameSessionAction(session, request.action);
+        if (!next) {
+          socket.emit('error', { message: `Cannot ${request.action} a session that is ${session.status}` });
+          return;
+        }
+
+        // Matching on the old state keeps two admins from applying actions over each other
+        const updated = await sessions.saveState(session.id, session.status, next);
+        if (!updated) {
+          socket.emit('error', { message: 'The session was changed by someone else' });
+          return;
+        }
+
+        setRoomSession(room, updated, userId);
+
+        console.log(`Session ${updated.id} is ${updated.status} in room ${roomId}`);
+      } catch (error) {
+        console.error('Error changing session:', error);
+        socket.emit('error', { message: 'Failed to change session' });
+      }
+    });
+
+    // Players report their own hits; referees may set anyone's status
+    socket.on('player_status', async (payload: unknown) => {
+      try {
+        if (!currentRoomId || !currentUserId) {
+          socket.emit('error', { message: 'Not in a room' });
+          return;
+        }
+
+        const request = parsePayload('player_status', UpdatePlayerStatusRequestSchema, payload);
+        if (!request) return;
+
+        if (request.roomId !== currentRoomId) {
+          socket.emit('error', { message: 'Not in this room' });
+          return;
+        }
+
+        const roomId = currentRoomId;
+        const userId = currentUserId;
+        const room = getRoomData(roomId);
+        const member = room.members.get(userId);
+        const targetId = request.userId || userId;
+        if (!member) {
+          socket.emit('error', { message: 'Not in a room' });
+          return;
+        }
+
+        if (targetId !== userId && !isRoomAdmin(member.role)) {
+          socket.emit('error', { message: "Only referees can change another player's status" });
+          return;
+        }
+
+        const target = room.members.get(targetId);
+        if (!target) {
+          socket.emit('error', { message: 'Player not found' });
+          return;
+        }
+
+        room.respawnRules = await rooms.getRespawnRules(roomId);
+        const current = getPlayerStatus(room, targetId);
+        const next = changePlayerStatus(current, request.status, room.respawnRules, new Date(), targetId !== userId);
+        if (!next) {
+          socket.emit('error', { message: `Cannot change status from ${current.status} to ${request.status}` });
+          return;
+        }
+
+        applyPlayerStatus(room, targetId, target.teamId, next, userId);
+
+        console.log(`Player ${targetId} is ${next.status} in room ${roomId}`);
+      } catch (error) {
+        console.error('Error updating player status:', error);
+        socket.emit('error', { message: 'Failed to update player status' });
+      }
+    });
+
+    // A medic on the casualty's team takes a request; the first to accept gets it
+    socket.on('medic_accept', (payload: unknown) => {
+      try {
+        if (!currentRoomId || !currentUserId) {
+          socket.emit('error', { message: 'Not in a room' });
+          return;
+        }
+
+        const response = parsePayload('medic_accept', MedicResponseRequestSchema, payload);
+        if (!response) return;
+
+        if (response.roomId !== currentRoomId) {
+          socket.emit('error', { message: 'Not in this room' });
+          return;
+        }
+
+        const roomId = currentRoomId;
+        const userId = currentUserId;
+        const room = getRoomData(roomId);
+        const member = room.members.get(userId);
+        const request = room.medicRequests.get(response.requestId);
+        if (!member || !request || !canSeeTeamData(member, request.teamId)) {
+          socket.emit('error', { message: 'Medic request not found' });
+          return;
+        }
+
+        if (!member.isMedic || member.teamId !== request.teamId || userId === request.casualtyId) {
+          socket.emit('error', { message: "Only medics on the casualty's team can respond" });
+          return;
+        }
+
+        if (getPlayerStatus(room, userId).status !== 'alive') {
+          socket.emit('error', { message: 'You cannot treat anyone while you are out of play' });
+          return;
+        }
+
+        if (request.status !== 'pending') {
+          socket.emit('error', { message: 'Another medic is already on the way' });
+          return;
+        }
+
+        const accepted: MedicRequest = { ...request, status: 'accepted', acceptedBy: userId };
+        room.medicRequests.set(accepted.id, accepted);
+        broadcastToRoom(roomId, 'medic_request_updated', accepted, undefined, accepted.teamId);
+        recordEvent(roomId, userId, 'medic_request_updated', accepted, accepted.teamId);
+
+        console.log(`Medic ${userId} accepted request ${accepted.id} in room ${roomId}`);
+      } catch (error) {
+        console.error('Error accepting medic request:', error);
+        socket.emit('error', { message: 'Failed to accept medic request' });
+      }
+    });
+
+    // The medic who accepted a request brings the casualty back into play
+    socket.on('medic_revive', (payload: unknown) => {
+      try {
+        if (!currentRoomId || !currentUserId) {
+          socket.emit('error', { message: 'Not in a room' });
+          return;
+        }
+
+        const response = parsePayload('medic_revive', MedicResponseRequestSchema, payload);
+        if (!response) return;
+
+        if (response.roomId !== currentRoomId) {
+          socket.emit('error', { message: 'Not in this room' });
+          return;
+        }
+
+        const roomId = currentRoomId;
+        const userId = currentUserId;
+        const room = getRoomData(roomId);
+        const request = room.medicRequests.get(response.requestId);
+        if (!request || request.acceptedBy !== userId) {
+          socket.emit('error', { message: 'Only the medic who accepted the request can revive' });
+          return;
+        }
+
+        const next = changePlayerStatus(
+          getPlayerStatus(room, request.casualtyId),
+          'alive',
+          room.respawnRules || DEFAULT_RESPAWN_RULES,
+          new Date(),
+          true
+        );
+        if (next) applyPlayerStatus(room, request.casualtyId, request.teamId, next, userId);
+
+        console.log(`Player ${request.casualtyId} revived by medic ${userId} in room ${roomId}`);
+      } catch (error) {
+        console.error('Error reviving player:', error);
+        socket.emit('error', { message: 'Failed to revive player' });
       }
+    });
+
+    // Referee decision on who holds an objective, replacing any capture in progress
+    socket.on('objective_override', async (payload: unknown) => {
+      try {
+        if (!currentRoomId || !currentUserId) {
+          socket.emit('error', { message: 'Not in a room' });
+          return;
+        }
+
+        const request = parsePayload('objective_override', ObjectiveOverrideRequestSchema, payload);
+        if (!request) return;
+
+        if (request.roomId !== currentRoomId) {
+          socket.emit('error', { message: 'Not in this room' });
+          return;
+        }
+
+        const roomId = currentRoomId;
+        const userId = currentUserId;
+        const room = getRoomData(roomId);
+        const member = room.members.get(userId);
+        if (!member || !isRoomAdmin(member.role)) {
+          socket.emit('error', { message: 'Only referees can override objectives' });
+          return;
+        }
+
+        const symbol = await symbols.findById(request.symbolId);
+        if (!symbol || symbol.archivedAt || symbol.deletedAt || symbol.roomId !== roomId || !isCapturable(symbol)) {
+          socket.emit('error', { message: 'Objective not found' });
+          return;
+        }
+
+        if (request.ownerTeamId && !(await rooms.hasTeam(roomId, request.ownerTeamId))) {
+          socket.emit('error', { message: 'Team not found' });
+          return;
+        }
 
-      room.symbols.delete(id);
+        const state: ObjectiveState = {
+          ...(room.objectives.get(symbol.id) || createObjectiveState(symbol.id)),
+          ownerTeamId: request.ownerTeamId ?? undefined,
+          capturingTeamId: undefined,
+          captureProgressMs: 0,
+        };
+        room.objectives.set(symbol.id, state);
 
-      // Broadcast symbol deletion to all room members
-      broadcastToRoom(currentRoomId, 'symbol_deleted', { id });
+        broadcastToRoom(roomId, 'objective_updated', state);
+        recordEvent(roomId, userId, 'objective_updated', state);
+
+        console.log(`Objective ${symbol.id} overridden by user ${userId} in room ${roomId}`);
+      } catch (error) {
+        console.error('Error overriding objective:', error);
+        socket.emit('error', { message: 'Failed to override objective' });
+      }
+    });
+
+    // Ping/Pong for connection monitoring
+    socket.on('ping', () => {
+      socket.emit('pong');
+    });
+
+    // Handle disconnection
+    socket.on('disconnect', (reason) => {
+      console.log(`Socket disconnected: ${socket.id}, reason: ${reason}`);
+    
+      if (currentRoomId && currentUserId) {
+        leaveRoom(currentRoomId, currentUserId, socket.id);
+      }
+    });
+
+    // Helper function to handle leaving room
+    function leaveRoom(roomId: string, userId: string, socketId: string) {
+      const room = activeRooms.get(roomId);
+      if (!room) return;
+
+      const member = room.members.get(userId);
+      if (member && member.socketId === socketId) {
+        room.members.delete(userId);
       
-      console.log(`Symbol ${id} deleted by user ${currentUserId} in room ${currentRoomId}`);
-    } catch (error) {
-      console.error('Error deleting symbol:', error);
-      socket.emit('error', { message: 'Failed to delete symbol' });
+        // Notify others about member leaving
+        const left = {
+          userId,
+          leftAt: new Date().toISOString(),
+        };
+        broadcastToRoom(roomId, 'member_left', left);
+        recordEvent(roomId, userId, 'member_left', left);
+
+        console.log(`User ${userId} left room ${roomId}. Room now has ${room.members.size} members.`);
+      
+        // Clean up empty room
+        cleanupRoom(roomId);
+      }
     }
   });
 
-  // Ping/Pong for connection monitoring
-  socket.on('ping', () => {
-    socket.emit('pong');
-  });
+  // Archive time-limited symbols such as spot reports once their expiry has passed.
+  // A symbol edited mid-sweep fails the version check and is picked up next time.
+  async function sweepExpiredSymbols(now: Date = new Date()) {
+    const expired = await symbols.listExpired(now);
 
-  // Handle disconnection
-  socket.on('disconnect', (reason) => {
-    console.log(`Socket disconnected: ${socket.id}, reason: ${reason}`);
-    
-    if (currentRoomId && currentUserId) {
-      leaveRoom(currentRoomId, currentUserId, socket.id);
+    for (const symbol of expired) {
+      const archived = await symbols.update(symbol.id, { archivedAt: now.toISOString() }, symbol.version);
+      if (!archived) continue;
+
+      broadcastToRoom(symbol.roomId, 'symbol_archived', { id: symbol.id }, undefined, symbol.teamId);
+      recordEvent(symbol.roomId, symbol.createdBy, 'symbol_archived', { id: symbol.id }, symbol.teamId);
+      invalidateSymbolCache(symbol.roomId);
+      console.log(`Symbol ${symbol.id} archived in room ${symbol.roomId}`);
     }
-  });
+  }
 
-  // Helper function to handle leaving room
-  function leaveRoom(roomId: string, userId: string, socketId: string) {
-    const room = activeRooms.get(roomId);
-    if (!room) return;
+  const sweepTimer = setInterval(() => {
+    sweepExpiredSymbols().catch((error) => {
+      console.error('Error archiving expired symbols:', error);
+    });
+  }, SPOT_REPORT_SETTINGS.sweepIntervalMs);
+  httpServer.on('close', () => clearInterval(sweepTimer));
 
-    const member = room.members.get(userId);
-    if (member && member.socketId === socketId) {
-      room.members.delete(userId);
-      
-      // Notify others about member leaving
-      broadcastToRoom(roomId, 'member_left', {
-        userId,
-        leftAt: new Date().toISOString(),
-      });
+  // Rebroadcast running sessions so clients keep their match clocks in step with the server
+  function syncMatchClocks() {
+    activeRooms.forEach((room) => {
+      if (room.session?.status === 'running') {
+        broadcastToRoom(room.id, 'session_updated', sessionUpdate(room.session));
+      }
+    });
+  }
 
-      console.log(`User ${userId} left room ${roomId}. Room now has ${room.members.size} members.`);
-      
-      // Clean up empty room
-      cleanupRoom(roomId);
+  const clockTimer = setInterval(syncMatchClocks, GAME_SESSION_SETTINGS.clockSyncMs);
+  httpServer.on('close', () => clearInterval(clockTimer));
+
+  // Set while a tick waits on the repository, so the next one cannot credit the same interval twice
+  let objectiveTickRunning = false;
+
+  // Advance every objective in rooms whose match clock is running and credit the holders.
+  // A late tick counts for at most a few intervals, so a stalled server hands out no windfall.
+  async function tickObjectives(now: number = Date.now()) {
+    if (objectiveTickRunning) return;
+    objectiveTickRunning = true;
+
+    try {
+      const rooms = Array.from(activeRooms.values());
+
+      for (const room of rooms) {
+        const session = room.session;
+        if (!session || getMatchClock(session, now).phase !== 'running') {
+          room.lastObjectiveTick = undefined;
+          continue;
+        }
+
+        if (!room.objectiveSymbols) {
+          room.objectiveSymbols = (await symbols.listByRoom(room.id)).filter(isCapturable);
+        }
+
+        const last = room.lastObjectiveTick;
+        if (last !== undefined && now <= last) continue;
+        const elapsedMs = last === undefined ? 0 : Math.min(now - last, OBJECTIVE_SETTINGS.tickMs * 5);
+        room.lastObjectiveTick = now;
+
+        // Hit players cannot hold or contest an objective
+        const members = Array.from(room.members.values()).filter(member => getPlayerStatus(room, member.userId).status === 'alive');
+        const scoresBefore = toWholeScores(room.scores);
+
+        room.objectiveSymbols.forEach((symbol) => {
+          const capture = getCaptureSettings(symbol);
+          const state = room.objectives.get(symbol.id) || createObjectiveState(symbol.id);
+
+          const points = getPointsEarned(state, elapsedMs, capture);
+          if (points > 0 && state.ownerTeamId) {
+            room.scores[state.ownerTeamId] = (room.scores[state.ownerTeamId] || 0) + points;
+          }
+
+          const next = advanceObjective(state, getTeamsPresent(symbol, members, now), elapsedMs, capture);
+          room.objectives.set(symbol.id, next);
+          if (isSameObjectiveState(state, next)) return;
+
+          broadcastToRoom(room.id, 'objective_updated', next);
+          if (next.ownerTeamId !== state.ownerTeamId) {
+            recordEvent(room.id, symbol.createdBy, 'objective_updated', next);
+            console.log(`Objective ${symbol.id} captured by team ${next.ownerTeamId} in room ${room.id}`);
+          }
+        });
+
+        const scores = toWholeScores(room.scores);
+        if (JSON.stringify(scores) !== JSON.stringify(scoresBefore)) {
+          const scoreboard: Scoreboard = { sessionId: session.id, scores };
+          broadcastToRoom(room.id, 'scoreboard_updated', scoreboard);
+          sessions.saveScores(session.id, room.scores).catch((error) => {
+            console.error('Error saving scores:', error);
+          });
+        }
+      }
+    } finally {
+      objectiveTickRunning = false;
     }
   }
-});
 
-// Health check endpoint
-httpServer.on('request', (req, res) => {
-  if (req.url === '/health') {
-    res.writeHead(200, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify({ 
-      status: 'ok', 
-      activeRooms: activeRooms.size,
-      totalConnections: io.engine.clientsCount,
-      timestamp: new Date().toISOString()
-    }));
-  } else {
-    res.writeHead(404);
-    res.end('Not Found');
+  const objectiveTimer = setInterval(() => {
+    tickObjectives().catch((error) => {
+      console.error('Error ticking objectives:', error);
+    });
+  }, OBJECTIVE_SETTINGS.tickMs);
+  httpServer.on('close', () => clearInterval(objectiveTimer));
+
+  // Run out bleed-out and respawn timers of players in the room; anyone away catches up on return
+  function advancePlayerStatuses(now: Date = new Date()) {
+    activeRooms.forEach((room) => {
+      room.playerStatuses.forEach((state, userId) => {
+        const member = room.members.get(userId);
+        if (!member) return;
+
+        const next = expirePlayerStatus(state, room.respawnRules || DEFAULT_RESPAWN_RULES, now);
+        if (next) applyPlayerStatus(room, userId, member.teamId, next);
+      });
+    });
   }
-});
 
-// Start server
-const PORT = process.env.SOCKET_PORT || 3001;
-httpServer.listen(PORT, () => {
-  console.log(`Socket.io server running on port ${PORT}`);
-  console.log(`Health check available at http://localhost:${PORT}/health`);
-});
+  // Pending medic requests nobody accepted in time leave the casualty bleeding out without help
+  function expireMedicRequests(now: Date = new Date()) {
+    activeRooms.forEach((room) => {
+      room.medicRequests.forEach((request) => {
+        if (request.status !== 'pending' || new Date(request.expiresAt).getTime() > now.getTime()) return;
+
+        closeMedicRequest(room, request, 'expired');
+        const next = changePlayerStatus(getPlayerStatus(room, request.casualtyId), 'hit', room.respawnRules || DEFAULT_RESPAWN_RULES, now);
+        if (next) applyPlayerStatus(room, request.casualtyId, request.teamId, next);
+      });
+    });
+  }
+
+  const statusTimer = setInterval(() => {
+    advancePlayerStatuses();
+    expireMedicRequests();
+  }, PLAYER_STATUS_SETTINGS.tickMs);
+  httpServer.on('close', () => clearInterval(statusTimer));
 
-// Graceful shutdown
-process.on('SIGTERM', () => {
-  console.log('SIGTERM received, shutting down gracefully');
-  httpServer.close(() => {
-    console.log('Socket.io server closed');
-    process.exit(0);
+  // Health check endpoint
+  httpServer.on('request', (req, res) => {
+    if (req.url === '/health') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ 
+        status: 'ok', 
+        activeRooms: activeRooms.size,
+        totalConnections: io.engine.clientsCount,
+        timestamp: new Date().toISOString()
+      }));
+    } else {
+      res.writeHead(404);
+      res.end('Not Found');
+    }
   });
-});
 
-process.on('SIGINT', () => {
-  console.log('SIGINT received, shutting down gracefully');
-  httpServer.close(() => {
-    console.log('Socket.io server closed');
-    process.exit(0);
+  return { io, httpServer, activeRooms, sweepExpiredSymbols, syncMatchClocks, tickObjectives, advancePlayerStatuses, expireMedicRequests };
+}
+
+// Start server when run directly (not when imported by tests)
+if (require.main === module) {
+  const supabase = createSupabaseAdmin();
+  const { httpServer } = createSocketServer({
+    verifier: createSupabaseVerifier(supabase),
+    symbols: new SupabaseSymbolRepository(supabase),
+    positionHistory: new SupabasePositionHistoryRepository(supabase),
+    events: new SupabaseEventLogRepository(supabase),
+    chat: new SupabaseChatRepository(supabase),
+    sessions: new SupabaseGameSessionRepository(supabase),
+    rooms: new SupabaseRoomRepository(supabase),
+  });
+
+  const PORT = process.env.SOCKET_PORT || process.env.PORT || 3001;
+  httpServer.listen(PORT, () => {
+    console.log(`Socket.io server running on port ${PORT}`);
+    console.log(`Health check available at http://localhost:${PORT}/health`);
+  });
+
+  // Graceful shutdown
+  process.on('SIGTERM', () => {
+    console.log('SIGTERM received, shutting down gracefully');
+    httpServer.close(() => {
+      console.log('Socket.io server closed');
+      process.exit(0);
+    });
   });
-});
 
-export default io;
+  process.on('SIGINT', () => {
+    console.log('SIGINT received, shutting down gracefully');
+    httpServer.close(() => {
+      console.log('Socket.io server closed');
+      process.exit(0);
+    });
+  });
+}
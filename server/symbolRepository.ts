@@ -0,0 +1,305 @@
+import { randomUUID } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { fromSymbolShape, toSymbolShape } from '../shared/types';
+import type { TacticalSymbol } from '../shared/types';
+
+// `id` is set when the client generated it, so offline edits can reference the symbol before it syncs
+export type NewTacticalSymbol = Omit<TacticalSymbol, 'id' | 'version' | 'createdAt' | 'updatedAt'> & { id?: string };
+export type TacticalSymbolChanges = Partial<Omit<TacticalSymbol, 'id' | 'roomId' | 'createdBy' | 'type' | 'teamId' | 'version' | 'deletedAt' | 'sessionId' | 'createdAt' | 'updatedAt'>>;
+
+/**
+ * Storage for tactical symbols used by the socket server
+ */
+export interface SymbolRepository {
+  // Archived and deleted symbols are left out
+  listByRoom(roomId: string): Promise<TacticalSymbol[]>;
+  // Symbols in any room whose expiry has passed and that are not archived or deleted yet
+  listExpired(now: Date): Promise<TacticalSymbol[]>;
+  // Also finds deleted symbols, which carry `deletedAt`
+  findById(id: string): Promise<TacticalSymbol | null>;
+  create(symbol: NewTacticalSymbol): Promise<TacticalSymbol>;
+  // Applies only while the symbol is still at `expectedVersion`, resolving null when it has moved on
+  update(id: string, changes: TacticalSymbolChanges, expectedVersion: number): Promise<TacticalSymbol | null>;
+  // Soft delete; the row is kept so restore can bring it back under the same id
+  delete(id: string): Promise<void>;
+  // Resolves null when the symbol is not deleted
+  restore(id: string): Promise<TacticalSymbol | null>;
+}
+
+function mapSymbolRow(row: any): TacticalSymbol {
+  return {
+    id: row.id,
+    roomId: row.room_id,
+    createdBy: row.created_by,
+    type: row.type,
+    coordinates: {
+      latitude: Number(row.latitude),
+      longitude: Number(row.longitude),
+    },
+    label: row.label ?? undefined,
+    description: row.description ?? undefined,
+    color: row.color,
+    size: row.size,
+    rotation: Number(row.rotation),
+    isVisible: row.is_visible,
+    teamId: row.team_id ?? undefined,
+    affiliation: row.affiliation,
+    status: row.status,
+    confidence: row.confidence,
+    echelon: row.echelon ?? undefined,
+    uniqueDesignation: row.unique_designation ?? undefined,
+    quantity: row.quantity ?? undefined,
+    dtg: row.dtg ?? undefined,
+    geometry: fromSymbolShape(row.shape, row.radius_meters),
+    assignedTo: row.assigned_to ?? undefined,
+    geofence: row.geofence ?? undefined,
+    capture: row.capture ?? undefined,
+    spotReport: row.spot_report ?? undefined,
+    expiresAt: row.expires_at ?? undefined,
+    archivedAt: row.archived_at ?? undefined,
+    deletedAt: row.deleted_at ?? undefined,
+    sessionId: row.session_id ?? undefined,
+    version: row.version,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Repository backed by the tactical_symbols table, shared with SymbolService
+ */
+export class SupabaseSymbolRepository implements SymbolRepository {
+  constructor(private supabase: SupabaseClient) {}
+
+  async listByRoom(roomId: string): Promise<TacticalSymbol[]> {
+    const { data, error } = await this.supabase
+      .from('tactical_symbols')
+      .select('*')
+      .eq('room_id', roomId)
+      .is('archived_at', null)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to get room symbols: ${error.message}`);
+    }
+
+    return data.map(mapSymbolRow);
+  }
+
+  async listExpired(now: Date): Promise<TacticalSymbol[]> {
+    const { data, error } = await this.supabase
+      .from('tactical_symbols')
+      .select('*')
+      .is('archived_at', null)
+      .is('deleted_at', null)
+      .lte('expires_at', now.toISOString());
+
+    if (error) {
+      throw new Error(`Failed to get expired symbols: ${error.message}`);
+    }
+
+    return data.map(mapSymbolRow);
+  }
+
+  async findById(id: string): Promise<TacticalSymbol | null> {
+    const { data } = await this.supabase
+      .from('tactical_symbols')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    return data ? mapSymbolRow(data) : null;
+  }
+
+  async create(symbol: NewTacticalSymbol): Promise<TacticalSymbol> {
+    const { data, error } = await this.supabase
+      .from('tactical_symbols')
+      .insert({
+        ...(symbol.id && { id: symbol.id }),
+        room_id: symbol.roomId,
+        created_by: symbol.createdBy,
+        type: symbol.type,
+        latitude: symbol.coordinates.latitude,
+        longitude: symbol.coordinates.longitude,
+        label: symbol.label,
+        description: symbol.description,
+        color: symbol.color,
+        size: symbol.size,
+        rotation: symbol.rotation,
+        is_visible: symbol.isVisible,
+        team_id: symbol.teamId,
+        affiliation: symbol.affiliation,
+        status: symbol.status,
+        confidence: symbol.confidence,
+        echelon: symbol.echelon,
+        unique_designation: symbol.uniqueDesignation,
+        quantity: symbol.quantity,
+        dtg: symbol.dtg,
+        shape: toSymbolShape(symbol.geometry),
+        radius_meters: symbol.geometry?.kind === 'circle' ? symbol.geometry.radiusMeters : null,
+        assigned_to: symbol.assignedTo,
+        geofence: symbol.geofence,
+        capture: symbol.capture,
+        spot_report: symbol.spotReport,
+        expires_at: symbol.expiresAt,
+        session_id: symbol.sessionId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create symbol: ${error.message}`);
+    }
+
+    return mapSymbolRow(data);
+  }
+
+  async update(id: string, changes: TacticalSymbolChanges, expectedVersion: number): Promise<TacticalSymbol | null> {
+    // A null change clears the column
+    const updateData: any = { version: expectedVersion + 1 };
+    if (changes.coordinates) {
+      updateData.latitude = changes.coordinates.latitude;
+      updateData.longitude = changes.coordinates.longitude;
+    }
+    if (changes.label !== undefined) updateData.label = changes.label;
+    if (changes.description !== undefined) updateData.description = changes.description;
+    if (changes.color !== undefined) updateData.color = changes.color;
+    if (changes.size !== undefined) updateData.size = changes.size;
+    if (changes.rotation !== undefined) updateData.rotation = changes.rotation;
+    if (changes.isVisible !== undefined) updateData.is_visible = changes.isVisible;
+    if (changes.affiliation !== undefined) updateData.affiliation = changes.affiliation;
+    if (changes.status !== undefined) updateData.status = changes.status;
+    if (changes.confidence !== undefined) updateData.confidence = changes.confidence;
+    if (changes.echelon !== undefined) updateData.echelon = changes.echelon;
+    if (changes.uniqueDesignation !== undefined) updateData.unique_designation = changes.uniqueDesignation;
+    if (changes.quantity !== undefined) updateData.quantity = changes.quantity;
+    if (changes.dtg !== undefined) updateData.dtg = changes.dtg;
+    if (changes.assignedTo !== undefined) updateData.assigned_to = changes.assignedTo;
+    if (changes.geofence !== undefined) updateData.geofence = changes.geofence;
+    if (changes.capture !== undefined) updateData.capture = changes.capture;
+    if (changes.spotReport !== undefined) updateData.spot_report = changes.spotReport;
+    if (changes.expiresAt !== undefined) updateData.expires_at = changes.expiresAt;
+    if (changes.archivedAt !== undefined) updateData.archived_at = changes.archivedAt;
+    if (changes.geometry) {
+      updateData.shape = toSymbolShape(changes.geometry);
+      updateData.radius_meters = changes.geometry.kind === 'circle' ? changes.geometry.radiusMeters : null;
+    }
+
+    const { data, error } = await this.supabase
+      .from('tactical_symbols')
+      .update(updateData)
+      .eq('id', id)
+      .eq('version', expectedVersion)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update symbol: ${error.message}`);
+    }
+
+    return data ? mapSymbolRow(data) : null;
+  }
+
+  async delete(id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('tactical_symbols')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to delete symbol: ${error.message}`);
+    }
+  }
+
+  async restore(id: string): Promise<TacticalSymbol | null> {
+    const { data, error } = await this.supabase
+      .from('tactical_symbols')
+      .update({ deleted_at: null })
+      .eq('id', id)
+      .not('deleted_at', 'is', null)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to restore symbol: ${error.message}`);
+    }
+
+    return data ? mapSymbolRow(data) : null;
+  }
+}
+
+/**
+ * Process-local repository for tests and running the server without Supabase
+ */
+export class InMemorySymbolRepository implements SymbolRepository {
+  private symbols = new Map<string, TacticalSymbol>();
+
+  async listByRoom(roomId: string): Promise<TacticalSymbol[]> {
+    return Array.from(this.symbols.values()).filter(symbol => symbol.roomId === roomId && !symbol.archivedAt && !symbol.deletedAt);
+  }
+
+  async listExpired(now: Date): Promise<TacticalSymbol[]> {
+    return Array.from(this.symbols.values()).filter(symbol =>
+      !symbol.archivedAt && !symbol.deletedAt && !!symbol.expiresAt && new Date(symbol.expiresAt).getTime() <= now.getTime()
+    );
+  }
+
+  async findById(id: string): Promise<TacticalSymbol | null> {
+    return this.symbols.get(id) || null;
+  }
+
+  async create(symbol: NewTacticalSymbol): Promise<TacticalSymbol> {
+    const now = new Date().toISOString();
+    const created: TacticalSymbol = {
+      ...symbol,
+      id: symbol.id || randomUUID(),
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.symbols.set(created.id, created);
+    return created;
+  }
+
+  async update(id: string, changes: TacticalSymbolChanges, expectedVersion: number): Promise<TacticalSymbol | null> {
+    const existing = this.symbols.get(id);
+    if (!existing) {
+      throw new Error('Symbol not found');
+    }
+    if (existing.version !== expectedVersion) {
+      return null;
+    }
+
+    const updated: TacticalSymbol = {
+      ...existing,
+      ...changes,
+      version: existing.version + 1,
+      updatedAt: new Date().toISOString(),
+    };
+    // Cleared fields read back as unset, as they do from Supabase
+    (Object.keys(changes) as (keyof TacticalSymbolChanges)[]).forEach(key => {
+      if (updated[key] === null) delete updated[key];
+    });
+    this.symbols.set(id, updated);
+    return updated;
+  }
+
+  async delete(id: string): Promise<void> {
+    const existing = this.symbols.get(id);
+    if (existing) {
+      this.symbols.set(id, { ...existing, deletedAt: new Date().toISOString() });
+    }
+  }
+
+  async restore(id: string): Promise<TacticalSymbol | null> {
+    const existing = this.symbols.get(id);
+    if (!existing?.deletedAt) {
+      return null;
+    }
+
+    const { deletedAt: _deletedAt, ...restored } = existing;
+    this.symbols.set(id, restored);
+    return restored;
+  }
+}
@@ -27,15 +27,30 @@ export const RoomSchema = z.object({
   isPrivate: z.boolean().default(false),
   password: z.string().optional(),
   maxMembers: z.number().min(1).max(50).default(20),
+  // How long a hit player may wait for a medic, then how long they spend respawning
+  bleedOutSeconds: z.number().int().min(0).max(1800).default(120),
+  respawnSeconds: z.number().int().min(0).max(1800).default(60),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
 });
 
+export const TeamSchema = z.object({
+  id: z.string().uuid(),
+  roomId: z.string().uuid(),
+  name: z.string().min(1).max(50),
+  color: z.string().regex(/^#[0-9A-F]{6}$/i),
+  callsignPrefix: z.string().max(10).optional(),
+  createdAt: z.string().datetime(),
+});
+
 export const RoomMemberSchema = z.object({
   id: z.string().uuid(),
   roomId: z.string().uuid(),
   userId: z.string().uuid(),
-  role: z.enum(['owner', 'admin', 'member']).default('member'),
+  role: z.enum(['owner', 'admin', 'member', 'game_master']).default('member'),
+  teamId: z.string().uuid().optional(),
+  // Medics are called to hit teammates
+  isMedic: z.boolean().default(false),
   isOnline: z.boolean().default(false),
   lastSeen: z.string().datetime(),
   joinedAt: z.string().datetime(),
@@ -50,6 +65,15 @@ export const UserPositionSchema = z.object({
   lastUpdated: z.string().datetime(),
 });
 
+export const PositionSampleSchema = z.object({
+  id: z.string().uuid(),
+  userId: z.string().uuid(),
+  roomId: z.string().uuid(),
+  coordinates: CoordinatesSchema,
+  recordedAt: z.string().datetime(),
+  sessionId: z.string().uuid().optional(),
+});
+
 export const TacticalSymbolTypeSchema = z.enum([
   'friendly_unit',
   'enemy_unit',
@@ -74,22 +98,133 @@ export const TacticalSymbolTypeSchema = z.enum([
   'trench',
 ]);
 
+export const SymbolEchelonSchema = z.enum(['team', 'squad', 'section', 'platoon', 'company', 'battalion']);
+export const SymbolAffiliationSchema = z.enum(['friend', 'hostile', 'neutral', 'unknown']);
+export const SymbolStatusSchema = z.enum(['present', 'planned', 'destroyed']);
+export const SymbolConfidenceSchema = z.enum(['confirmed', 'probable', 'suspected']);
+// Areas and circles the server watches for players entering and leaving
+export const GeofenceKindSchema = z.enum(['out_of_bounds', 'safe_zone', 'respawn', 'capture_area']);
+
+// Symbols without a geometry are drawn as a single point at `coordinates`.
+// Lines and areas keep their vertices here and use `coordinates` as the label anchor;
+// circles are centred on `coordinates`.
+export const SymbolVertexSchema = CoordinatesSchema.pick({ latitude: true, longitude: true });
+
+export const SymbolGeometrySchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('point') }),
+  z.object({ kind: z.literal('polyline'), vertices: z.array(SymbolVertexSchema).min(2).max(200) }),
+  z.object({ kind: z.literal('polygon'), vertices: z.array(SymbolVertexSchema).min(3).max(200) }),
+  z.object({ kind: z.literal('circle'), radiusMeters: z.number().positive().max(20000) }),
+]);
+
+// Objective capture rules: a team captures by keeping members within radiusMeters for
+// holdSeconds without another team present, then scores pointsPerMinute while holding it
+export const ObjectiveCaptureSchema = z.object({
+  radiusMeters: z.number().positive().max(500),
+  holdSeconds: z.number().int().min(0).max(3600),
+  pointsPerMinute: z.number().min(0).max(1000),
+});
+
+// SALUTE spot report: size, activity, unit and equipment as observed, with the time of
+// observation. Location is the symbol's coordinates.
+export const SpotReportSchema = z.object({
+  size: z.string().trim().min(1).max(50),
+  activity: z.string().trim().min(1).max(100),
+  unit: z.string().max(50).optional(),
+  equipment: z.string().max(100).optional(),
+  observedAt: z.string().datetime(),
+});
+
 export const TacticalSymbolSchema = z.object({
   id: z.string().uuid(),
   roomId: z.string().uuid(),
   createdBy: z.string().uuid(),
   type: TacticalSymbolTypeSchema,
   coordinates: CoordinatesSchema.omit({ timestamp: true }),
-  label: z.string().max(50).optional(),
-  description: z.string().max(200).optional(),
+  // The label, description and modifier fields are cleared with null
+  label: z.string().max(50).nullable().optional(),
+  description: z.string().max(200).nullable().optional(),
   color: z.string().regex(/^#[0-9A-F]{6}$/i).default('#FF0000'),
   size: z.enum(['small', 'medium', 'large']).default('medium'),
   rotation: z.number().min(0).max(360).default(0),
   isVisible: z.boolean().default(true),
+  teamId: z.string().uuid().optional(),
+  affiliation: SymbolAffiliationSchema.default('friend'),
+  status: SymbolStatusSchema.default('present'),
+  confidence: SymbolConfidenceSchema.default('confirmed'),
+  // APP-6 modifier fields drawn around the symbol frame
+  echelon: SymbolEchelonSchema.nullable().optional(),
+  uniqueDesignation: z.string().max(20).nullable().optional(),
+  quantity: z.number().int().min(1).max(999).nullable().optional(),
+  dtg: z.string().max(20).nullable().optional(),
+  geometry: SymbolGeometrySchema.optional(),
+  // Members a route is assigned to
+  assignedTo: z.array(z.string().uuid()).max(50).nullable().optional(),
+  // Only areas and circles act as geofences; null clears it
+  geofence: GeofenceKindSchema.nullable().optional(),
+  // Capture rules of an objective; OBJECTIVE_SETTINGS.defaultCapture applies when unset
+  capture: ObjectiveCaptureSchema.nullable().optional(),
+  spotReport: SpotReportSchema.optional(),
+  // Time-limited symbols are archived by the server once this passes
+  expiresAt: z.string().datetime().optional(),
+  archivedAt: z.string().datetime().optional(),
+  // Deleted symbols are kept so an undo can restore them under the same id
+  deletedAt: z.string().datetime().optional(),
+  // Game session the symbol was placed in
+  sessionId: z.string().uuid().optional(),
+  // Bumped on every update for optimistic concurrency
+  version: z.number().int().min(1).default(1),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+export const ChatChannelSchema = z.enum(['all', 'team']);
+
+export const ChatMessageSchema = z.object({
+  id: z.string().uuid(),
+  roomId: z.string().uuid(),
+  userId: z.string().uuid(),
+  username: z.string(),
+  teamId: z.string().uuid().optional(),
+  body: z.string().min(1).max(500),
+  sessionId: z.string().uuid().optional(),
+  createdAt: z.string().datetime(),
+});
+
+// alive -> hit (-> medic_needed) -> respawning -> alive; the server moves hit players on
+// once the room's bleed-out time runs out and brings them back after the respawn time
+export const PlayerStatusSchema = z.enum(['alive', 'hit', 'medic_needed', 'respawning']);
+
+// pending -> accepted -> resolved; a request nobody accepts in time expires, and one whose
+// casualty bleeds out or stops waiting is expired or cancelled
+export const MedicRequestStatusSchema = z.enum(['pending', 'accepted', 'resolved', 'expired', 'cancelled']);
+
+// lobby -> running <-> paused -> ended; a session can be ended from any state
+export const GameSessionStatusSchema = z.enum(['lobby', 'running', 'paused', 'ended']);
+export const GameSessionActionSchema = z.enum(['start', 'pause', 'resume', 'end']);
+
+export const GameSessionSchema = z.object({
+  id: z.string().uuid(),
+  roomId: z.string().uuid(),
+  name: z.string().max(100).optional(),
+  status: GameSessionStatusSchema,
+  // Counted down before the clock starts or resumes
+  countdownSeconds: z.number().int().min(0).max(300),
+  // Match clock: elapsedMs accumulated up to clockStartedAt, plus the time since while running.
+  // clockStartedAt lies in the future during a countdown.
+  elapsedMs: z.number().int().min(0),
+  clockStartedAt: z.string().datetime().optional(),
+  startedAt: z.string().datetime().optional(),
+  endedAt: z.string().datetime().optional(),
+  // Points per team id from objectives held during the match
+  scores: z.record(z.number()).optional(),
+  createdBy: z.string().uuid(),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
 });
 
+export const MapPingTypeSchema = z.enum(['contact', 'attention', 'move_here']);
+
 // API Request/Response schemas
 export const CreateRoomRequestSchema = z.object({
   name: z.string().min(1).max(100),
@@ -97,6 +232,8 @@ export const CreateRoomRequestSchema = z.object({
   isPrivate: z.boolean().default(false),
   password: z.string().optional(),
   maxMembers: z.number().min(1).max(50).default(20),
+  bleedOutSeconds: z.number().int().min(0).max(1800).default(120),
+  respawnSeconds: z.number().int().min(0).max(1800).default(60),
 });
 
 export const JoinRoomRequestSchema = z.object({
@@ -109,9 +246,80 @@ export const UpdatePositionRequestSchema = z.object({
   roomId: z.string().uuid(),
   coordinates: CoordinatesSchema,
   isVisible: z.boolean().default(true),
+  clientEventId: z.string().uuid().optional(),
+});
+
+export const PositionHistoryQuerySchema = z.object({
+  userId: z.string().uuid(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  sessionId: z.string().uuid().optional(),
+});
+
+export const CreateTeamRequestSchema = z.object({
+  name: z.string().min(1).max(50),
+  color: z.string().regex(/^#[0-9A-F]{6}$/i),
+  callsignPrefix: z.string().max(10).optional(),
+});
+
+export const UpdateMemberRequestSchema = z.object({
+  userId: z.string().uuid(),
+  teamId: z.string().uuid().nullable().optional(),
+  role: z.enum(['admin', 'member', 'game_master']).optional(),
+  isMedic: z.boolean().optional(),
+});
+
+export const SendPingRequestSchema = z.object({
+  roomId: z.string().uuid(),
+  type: MapPingTypeSchema,
+  coordinates: CoordinatesSchema.omit({ timestamp: true }),
+});
+
+export const RefreshMemberRequestSchema = z.object({
+  userId: z.string().uuid(),
+});
+
+export const SendChatMessageRequestSchema = z.object({
+  roomId: z.string().uuid(),
+  channel: ChatChannelSchema.default('all'),
+  body: z.string().trim().min(1).max(500),
+});
+
+export const ChatHistoryQuerySchema = z.object({
+  channel: ChatChannelSchema.default('all'),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  sessionId: z.string().uuid().optional(),
+});
+
+export const RoomEventQuerySchema = z.object({
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  sessionId: z.string().uuid().optional(),
+});
+
+export const CreateGameSessionRequestSchema = z.object({
+  name: z.string().trim().max(100).optional(),
+  countdownSeconds: z.number().int().min(0).max(300).default(10),
+});
+
+export const UpdateGameSessionRequestSchema = z.object({
+  action: GameSessionActionSchema,
+});
+
+// The same transition sent straight to the socket server, which times it on its own clock
+export const GameSessionActionRequestSchema = UpdateGameSessionRequestSchema.extend({
+  roomId: z.string().uuid(),
+  sessionId: z.string().uuid(),
+});
+
+// Sent by an admin after changing a session through the API so the socket server reloads it
+export const RefreshGameSessionRequestSchema = z.object({
+  sessionId: z.string().uuid(),
 });
 
 export const CreateSymbolRequestSchema = z.object({
+  id: z.string().uuid().optional(),
   roomId: z.string().uuid(),
   type: TacticalSymbolTypeSchema,
   coordinates: CoordinatesSchema.omit({ timestamp: true }),
@@ -120,19 +328,73 @@ export const CreateSymbolRequestSchema = z.object({
   color: z.string().regex(/^#[0-9A-F]{6}$/i).default('#FF0000'),
   size: z.enum(['small', 'medium', 'large']).default('medium'),
   rotation: z.number().min(0).max(360).default(0),
+  teamId: z.string().uuid().optional(),
+  // Defaults to the affiliation implied by the type when omitted
+  affiliation: SymbolAffiliationSchema.optional(),
+  status: SymbolStatusSchema.default('present'),
+  confidence: SymbolConfidenceSchema.default('confirmed'),
+  echelon: SymbolEchelonSchema.optional(),
+  uniqueDesignation: z.string().max(20).optional(),
+  quantity: z.number().int().min(1).max(999).optional(),
+  dtg: z.string().max(20).optional(),
+  geometry: SymbolGeometrySchema.optional(),
+  assignedTo: z.array(z.string().uuid()).max(50).optional(),
+  geofence: GeofenceKindSchema.optional(),
+  capture: ObjectiveCaptureSchema.optional(),
+  spotReport: SpotReportSchema.optional(),
+  expiresAt: z.string().datetime().optional(),
+  clientEventId: z.string().uuid().optional(),
 });
 
 export const UpdateSymbolRequestSchema = z.object({
   id: z.string().uuid(),
   coordinates: CoordinatesSchema.omit({ timestamp: true }).optional(),
-  label: z.string().max(50).optional(),
-  description: z.string().max(200).optional(),
+  // null clears the label, description or a modifier field, e.g. when undoing the edit that set it
+  label: z.string().max(50).nullable().optional(),
+  description: z.string().max(200).nullable().optional(),
   color: z.string().regex(/^#[0-9A-F]{6}$/i).optional(),
   size: z.enum(['small', 'medium', 'large']).optional(),
   rotation: z.number().min(0).max(360).optional(),
   isVisible: z.boolean().optional(),
+  affiliation: SymbolAffiliationSchema.optional(),
+  status: SymbolStatusSchema.optional(),
+  confidence: SymbolConfidenceSchema.optional(),
+  echelon: SymbolEchelonSchema.nullable().optional(),
+  uniqueDesignation: z.string().max(20).nullable().optional(),
+  quantity: z.number().int().min(1).max(999).nullable().optional(),
+  dtg: z.string().max(20).nullable().optional(),
+  geometry: SymbolGeometrySchema.optional(),
+  assignedTo: z.array(z.string().uuid()).max(50).nullable().optional(),
+  geofence: GeofenceKindSchema.nullable().optional(),
+  capture: ObjectiveCaptureSchema.nullable().optional(),
+  // Version the edit was made against; rejected with a conflict if the symbol has moved on
+  version: z.number().int().min(1).optional(),
+  clientEventId: z.string().uuid().optional(),
+});
+
+// Players set their own status; referees may pass userId to set someone else's
+export const UpdatePlayerStatusRequestSchema = z.object({
+  roomId: z.string().uuid(),
+  userId: z.string().uuid().optional(),
+  status: PlayerStatusSchema,
 });
 
+// Sent by a medic as medic_accept to take a request, then medic_revive once at the casualty
+export const MedicResponseRequestSchema = z.object({
+  roomId: z.string().uuid(),
+  requestId: z.string().uuid(),
+});
+
+// Referee decision on who holds an objective; null returns it to neutral
+export const ObjectiveOverrideRequestSchema = z.object({
+  roomId: z.string().uuid(),
+  symbolId: z.string().uuid(),
+  ownerTeamId: z.string().uuid().nullable(),
+});
+
+export const DeleteSymbolRequestSchema = UpdateSymbolRequestSchema.pick({ id: true, clientEventId: true });
+export const RestoreSymbolRequestSchema = DeleteSymbolRequestSchema;
+
 // WebSocket event schemas
 export const SocketEventSchema = z.object({
   type: z.enum([
@@ -140,6 +402,14 @@ export const SocketEventSchema = z.object({
     'symbol_created',
     'symbol_updated',
     'symbol_deleted',
+    'symbol_archived',
+    'symbol_restored',
+    'geofence_enter',
+    'geofence_exit',
+    'session_updated',
+    'objective_updated',
+    'player_status_changed',
+    'medic_request_updated',
     'member_joined',
     'member_left',
     'member_online',
@@ -150,29 +420,70 @@ export const SocketEventSchema = z.object({
   userId: z.string().uuid(),
   data: z.any(),
   timestamp: z.string().datetime(),
+  sessionId: z.string().uuid().optional(),
 });
 
 // Type exports
 export type Coordinates = z.infer<typeof CoordinatesSchema>;
 export type User = z.infer<typeof UserSchema>;
 export type Room = z.infer<typeof RoomSchema>;
+export type Team = z.infer<typeof TeamSchema>;
 export type RoomMember = z.infer<typeof RoomMemberSchema>;
+export type RoomRole = RoomMember['role'];
 export type UserPosition = z.infer<typeof UserPositionSchema>;
+export type PositionSample = z.infer<typeof PositionSampleSchema>;
 export type TacticalSymbolType = z.infer<typeof TacticalSymbolTypeSchema>;
+export type SymbolEchelon = z.infer<typeof SymbolEchelonSchema>;
+export type SymbolAffiliation = z.infer<typeof SymbolAffiliationSchema>;
+export type SymbolStatus = z.infer<typeof SymbolStatusSchema>;
+export type SymbolConfidence = z.infer<typeof SymbolConfidenceSchema>;
+export type GeofenceKind = z.infer<typeof GeofenceKindSchema>;
+export type SymbolVertex = z.infer<typeof SymbolVertexSchema>;
+export type SymbolGeometry = z.infer<typeof SymbolGeometrySchema>;
+export type SymbolGeometryKind = SymbolGeometry['kind'];
+export type SpotReport = z.infer<typeof SpotReportSchema>;
+export type ObjectiveCapture = z.infer<typeof ObjectiveCaptureSchema>;
 export type TacticalSymbol = z.infer<typeof TacticalSymbolSchema>;
+export type MapPingType = z.infer<typeof MapPingTypeSchema>;
+export type ChatChannel = z.infer<typeof ChatChannelSchema>;
+export type ChatMessage = z.infer<typeof ChatMessageSchema>;
+export type PlayerStatus = z.infer<typeof PlayerStatusSchema>;
+export type MedicRequestStatus = z.infer<typeof MedicRequestStatusSchema>;
+export type GameSessionStatus = z.infer<typeof GameSessionStatusSchema>;
+export type GameSessionAction = z.infer<typeof GameSessionActionSchema>;
+export type GameSession = z.infer<typeof GameSessionSchema>;
 
 export type CreateRoomRequest = z.infer<typeof CreateRoomRequestSchema>;
 export type JoinRoomRequest = z.infer<typeof JoinRoomRequestSchema>;
 export type UpdatePositionRequest = z.infer<typeof UpdatePositionRequestSchema>;
+export type PositionHistoryQuery = z.infer<typeof PositionHistoryQuerySchema>;
+export type CreateTeamRequest = z.infer<typeof CreateTeamRequestSchema>;
+export type UpdateMemberRequest = z.infer<typeof UpdateMemberRequestSchema>;
+export type SendPingRequest = z.infer<typeof SendPingRequestSchema>;
+export type RefreshMemberRequest = z.infer<typeof RefreshMemberRequestSchema>;
+export type SendChatMessageRequest = z.infer<typeof SendChatMessageRequestSchema>;
+export type ChatHistoryQuery = z.infer<typeof ChatHistoryQuerySchema>;
+export type RoomEventQuery = z.infer<typeof RoomEventQuerySchema>;
+export type CreateGameSessionRequest = z.infer<typeof CreateGameSessionRequestSchema>;
+export type UpdateGameSessionRequest = z.infer<typeof UpdateGameSessionRequestSchema>;
+export type GameSessionActionRequest = z.infer<typeof GameSessionActionRequestSchema>;
+export type RefreshGameSessionRequest = z.infer<typeof RefreshGameSessionRequestSchema>;
 export type CreateSymbolRequest = z.infer<typeof CreateSymbolRequestSchema>;
 export type UpdateSymbolRequest = z.infer<typeof UpdateSymbolRequestSchema>;
+export type DeleteSymbolRequest = z.infer<typeof DeleteSymbolRequestSchema>;
+export type RestoreSymbolRequest = z.infer<typeof RestoreSymbolRequestSchema>;
+export type ObjectiveOverrideRequest = z.infer<typeof ObjectiveOverrideRequestSchema>;
+export type UpdatePlayerStatusRequest = z.infer<typeof UpdatePlayerStatusRequestSchema>;
+export type MedicResponseRequest = z.infer<typeof MedicResponseRequestSchema>;
 
 export type SocketEvent = z.infer<typeof SocketEventSchema>;
+export type SocketEventType = SocketEvent['type'];
 
 // Extended types with relations
 export interface RoomWithMembers extends Room {
   members: (RoomMember & { user: User })[];
   memberCount: number;
+  teams: Team[];
 }
 
 export interface RoomWithData extends RoomWithMembers {
@@ -180,6 +491,327 @@ export interface RoomWithData extends RoomWithMembers {
   symbols: TacticalSymbol[];
 }
 
+// Team-scoped data (positions of team members, team-private symbols) reaches
+// teammates and game masters only; data without a team is visible to everyone
+export function canSeeTeamData(viewer: { role: RoomRole; teamId?: string | null }, teamId?: string | null): boolean {
+  return !teamId || viewer.role === 'game_master' || viewer.teamId === teamId;
+}
+
+// The unit types predate the affiliation field and still imply one; everything else is friendly
+export function getDefaultAffiliation(type: TacticalSymbolType): SymbolAffiliation {
+  if (type === 'enemy_unit') return 'hostile';
+  if (type === 'neutral_unit') return 'neutral';
+  return 'friend';
+}
+
+// GeoJSON geometry of lines and areas as stored in tactical_symbols.shape. Points and
+// circles have no shape; they live in latitude/longitude (plus radius_meters for circles).
+export interface SymbolShape {
+  type: 'LineString' | 'Polygon';
+  coordinates: any;
+}
+
+export function toSymbolShape(geometry?: SymbolGeometry): SymbolShape | null {
+  const toPosition = (vertex: SymbolVertex) => [vertex.longitude, vertex.latitude];
+
+  switch (geometry?.kind) {
+    case 'polyline':
+      return { type: 'LineString', coordinates: geometry.vertices.map(toPosition) };
+    case 'polygon': {
+      // GeoJSON rings repeat the first position at the end
+      const ring = geometry.vertices.map(toPosition);
+      return { type: 'Polygon', coordinates: [[...ring, ring[0]]] };
+    }
+    default:
+      return null;
+  }
+}
+
+export function fromSymbolShape(shape?: SymbolShape | null, radiusMeters?: number | string | null): SymbolGeometry | undefined {
+  const toVertex = (position: number[]) => ({ latitude: position[1], longitude: position[0] });
+
+  if (shape?.type === 'LineString') {
+    return { kind: 'polyline', vertices: shape.coordinates.map(toVertex) };
+  }
+  if (shape?.type === 'Polygon') {
+    return { kind: 'polygon', vertices: shape.coordinates[0].slice(0, -1).map(toVertex) };
+  }
+  if (radiusMeters) {
+    return { kind: 'circle', radiusMeters: Number(radiusMeters) };
+  }
+  return undefined;
+}
+
+// Pings are ephemeral map alerts; they are broadcast but never stored
+export interface MapPing {
+  id: string;
+  roomId: string;
+  userId: string;
+  username: string;
+  teamId?: string;
+  type: MapPingType;
+  coordinates: Omit<Coordinates, 'timestamp'>;
+  createdAt: string;
+}
+
+export const MAP_PING_SETTINGS = {
+  displayMs: 10000,
+  maxPerWindow: 3,
+  windowMs: 10000,
+};
+
+// One-tap messages for the chat panel
+export const CANNED_CHAT_MESSAGES = ['Contact', 'Moving', 'Hit', 'Need medic'];
+
+// Spot reports fade towards minOpacity as they age and are archived after their TTL;
+// the server checks for expired symbols every sweepIntervalMs
+export const SPOT_REPORT_SETTINGS = {
+  defaultTtlMinutes: 20,
+  maxTtlMinutes: 120,
+  sweepIntervalMs: 30000,
+  minOpacity: 0.3,
+};
+
+// Keeps a requested expiry within maxTtlMinutes of now
+export function clampSymbolExpiry(expiresAt?: string, now: Date = new Date()): string | undefined {
+  if (!expiresAt) return undefined;
+  const latest = now.getTime() + SPOT_REPORT_SETTINGS.maxTtlMinutes * 60 * 1000;
+  return new Date(Math.min(new Date(expiresAt).getTime(), latest)).toISOString();
+}
+
+// A member has to be this far past a geofence boundary before crossing it counts,
+// so GPS jitter along the edge does not flap between enter and exit
+export const GEOFENCE_SETTINGS = {
+  hysteresisMeters: 10,
+  alertDisplayMs: 8000,
+};
+
+// While a session runs the server rebroadcasts it every clockSyncMs so clients can correct drift
+export const GAME_SESSION_SETTINGS = {
+  defaultCountdownSeconds: 10,
+  clockSyncMs: 15000,
+};
+
+export type MatchPhase = GameSessionStatus | 'countdown';
+
+export interface MatchClock {
+  phase: MatchPhase;
+  elapsedMs: number;
+  // Time left before the clock starts, during a countdown
+  countdownMs: number;
+}
+
+// The match clock of a session at `now` (server time)
+export function getMatchClock(session: GameSession, now: number = Date.now()): MatchClock {
+  if (session.status === 'running' && session.clockStartedAt) {
+    const clockStartedAt = new Date(session.clockStartedAt).getTime();
+    if (now < clockStartedAt) {
+      return { phase: 'countdown', elapsedMs: session.elapsedMs, countdownMs: clockStartedAt - now };
+    }
+    return { phase: 'running', elapsedMs: session.elapsedMs + now - clockStartedAt, countdownMs: 0 };
+  }
+  return { phase: session.status, elapsedMs: session.elapsedMs, countdownMs: 0 };
+}
+
+export type GameSessionState = Pick<GameSession, 'status' | 'elapsedMs' | 'clockStartedAt' | 'startedAt' | 'endedAt'>;
+
+/**
+ * The state a session moves to when an admin applies `action` at `now`, or null when the
+ * action does not apply in its current state. Starting and resuming run the countdown first.
+ */
+export function applyGameSessionAction(session: GameSession, action: GameSessionAction, now: Date = new Date()): GameSessionState | null {
+  const elapsedMs = Math.round(getMatchClock(session, now.getTime()).elapsedMs);
+  const countdownEndsAt = new Date(now.getTime() + session.countdownSeconds * 1000).toISOString();
+
+  switch (action) {
+    case 'start':
+      if (session.status !== 'lobby') return null;
+      return { status: 'running', elapsedMs: 0, clockStartedAt: countdownEndsAt, startedAt: countdownEndsAt };
+    case 'pause':
+      if (session.status !== 'running') return null;
+      return { status: 'paused', elapsedMs, startedAt: session.startedAt };
+    case 'resume':
+      if (session.status !== 'paused') return null;
+      return { status: 'running', elapsedMs, clockStartedAt: countdownEndsAt, startedAt: session.startedAt };
+    case 'end':
+      if (session.status === 'ended') return null;
+      return { status: 'ended', elapsedMs, startedAt: session.startedAt, endedAt: now.toISOString() };
+  }
+}
+
+// Objectives are evaluated every tickMs while a session is running; positions older than
+// stalePositionMs do not count towards holding one
+export const OBJECTIVE_SETTINGS = {
+  defaultCapture: { radiusMeters: 25, holdSeconds: 30, pointsPerMinute: 10 } as ObjectiveCapture,
+  tickMs: 1000,
+  stalePositionMs: 30000,
+};
+
+// Hit and respawning players are moved on by a server sweep every tickMs
+export const PLAYER_STATUS_SETTINGS = {
+  tickMs: 1000,
+};
+
+// A medic request goes to the closest few medics on the casualty's team and expires
+// if none of them accepts within requestTimeoutSeconds
+export const MEDIC_SETTINGS = {
+  maxMedicsNotified: 3,
+  requestTimeoutSeconds: 60,
+};
+
+// Offline outbox: how long to wait for the server to acknowledge a replayed
+// event, how many tries before it is dropped and how long to back off between them
+export const OUTBOX_SETTINGS = {
+  ackTimeoutMs: 5000,
+  maxAttempts: 5,
+  retryDelayMs: 2000,
+  maxRetryDelayMs: 30000,
+};
+
+// Track recording keeps a sample once the player has moved far enough,
+// or after a long pause so stationary periods still show up in the timeline
+export const POSITION_HISTORY_DECIMATION = {
+  minIntervalMs: 5000,
+  minDistanceMeters: 10,
+  maxIntervalMs: 60000,
+};
+
+// Real-time room state
+export interface RoomPresence {
+  userId: string;
+  username: string;
+  teamId?: string;
+  isOnline: boolean;
+  lastSeen?: string;
+  joinedAt?: string;
+  position?: UserPosition;
+  playerStatus?: PlayerStatusState;
+}
+
+// A player's status and, while hit or respawning, when the server moves them on
+export interface PlayerStatusState {
+  status: PlayerStatus;
+  changedAt: string;
+  expiresAt?: string;
+}
+
+// Broadcast as player_status_changed to the player's team and game masters
+export interface PlayerStatusUpdate extends PlayerStatusState {
+  userId: string;
+  // Who made the change; absent when a timer ran out
+  changedBy?: string;
+}
+
+// Opened when a player calls for a medic; broadcast as medic_request_updated to their team
+export interface MedicRequest {
+  id: string;
+  roomId: string;
+  casualtyId: string;
+  teamId?: string;
+  status: MedicRequestStatus;
+  // Medics who were called, nearest first
+  medicIds: string[];
+  acceptedBy?: string;
+  createdAt: string;
+  // When a request nobody has accepted yet expires
+  expiresAt: string;
+}
+
+// Sent as medic_call to each medic called, with where the casualty was from them at the time
+export interface MedicCall {
+  request: MedicRequest;
+  distanceMeters?: number;
+  bearing?: number;
+}
+
+export interface RoomState {
+  members: RoomPresence[];
+  symbols: TacticalSymbol[];
+  // The room's latest game session, if one was ever created
+  session?: GameSession;
+  objectives: ObjectiveState[];
+  scores: Record<string, number>;
+  // Open medic requests of the viewer's team
+  medicRequests: MedicRequest[];
+  serverTime: string;
+}
+
+// Capture state of an objective symbol, broadcast as objective_updated whenever it changes
+export interface ObjectiveState {
+  symbolId: string;
+  ownerTeamId?: string;
+  // Team working towards a capture and how long it has held the radius uncontested
+  capturingTeamId?: string;
+  captureProgressMs: number;
+  contested: boolean;
+  // Teams with members inside the radius
+  teamsPresent: string[];
+}
+
+// Broadcast as scoreboard_updated; points per team id
+export interface Scoreboard {
+  sessionId: string;
+  scores: Record<string, number>;
+}
+
+// Sent as session_updated when a session changes and periodically while it runs.
+// serverTime lets clients offset their own clock so every device shows the same match time.
+export interface GameSessionUpdate {
+  session: GameSession;
+  serverTime: string;
+}
+
+// Broadcast after a member's team or role changed
+export interface MemberUpdatedEvent {
+  userId: string;
+  role: RoomRole;
+  teamId?: string;
+  isMedic?: boolean;
+}
+
+export type JoinRoomErrorCode = 'UNAUTHENTICATED' | 'INVALID_ROOM' | 'NOT_MEMBER' | 'INTERNAL_ERROR';
+
+export interface JoinRoomError {
+  code: JoinRoomErrorCode;
+  message: string;
+}
+
+// Acknowledgement for events that carry a clientEventId
+export interface SocketEventAck {
+  ok: boolean;
+  duplicate?: boolean;
+  conflict?: boolean;
+  // Why the event was refused, when ok is false
+  error?: string;
+  // A server-side failure worth sending again; other refusals will never succeed
+  retryable?: boolean;
+}
+
+// Reply to a symbol_update made against an outdated version, carrying the current server state
+export interface SymbolConflict {
+  symbol: TacticalSymbol;
+  attemptedVersion?: number;
+}
+
+// Sent as geofence_enter / geofence_exit to the member who crossed and to room admins
+export interface GeofenceEvent {
+  geofenceId: string;
+  kind: GeofenceKind;
+  label?: string;
+  userId: string;
+  username: string;
+  teamId?: string;
+  coordinates: Omit<Coordinates, 'timestamp'>;
+  timestamp: string;
+}
+
+// Sent to the emitting socket when an event payload fails schema validation
+export interface SocketValidationError {
+  event: string;
+  error: string;
+  details: z.ZodIssue[];
+}
+
 // API Response types
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -237,6 +869,13 @@ export class NotFoundError extends AppError {
   }
 }
 
+export class ConflictError extends AppError {
+  constructor(message: string = 'Resource was modified', public current?: unknown) {
+    super(message, 409, 'CONFLICT');
+    this.name = 'ConflictError';
+  }
+}
+
 // Authentication schemas
 export const LoginRequestSchema = z.object({
   email: z.string().email('Invalid email address'),
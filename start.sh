@@ -6,7 +6,7 @@ npm run build
 npm run start
 
 # Socket.io server (run separately in production)
-cd server && node socket-server.js
+cd server && npm run build && npm start
 
 # Testing
 npm run test